@@ -7,6 +7,8 @@ const buildNextEslintCommand = (filenames) =>
 
 const checkTypesNextCommand = () => "yarn next:check-types";
 
+const checkTypesRaceCoreCommand = () => "yarn race-core:check-types";
+
 const buildHardhatEslintCommand = (filenames) =>
   `yarn hardhat:lint-staged --fix ${filenames
     .map((f) => path.relative(path.join("packages", "hardhat"), f))
@@ -18,4 +20,7 @@ module.exports = {
     checkTypesNextCommand,
   ],
   "packages/hardhat/**/*.{ts,tsx}": [buildHardhatEslintCommand],
+  "packages/{race-core/**/*.ts,foundry/contracts/libraries/RaffeRaceConstants.sol}": [
+    checkTypesRaceCoreCommand,
+  ],
 };
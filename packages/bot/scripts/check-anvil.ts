@@ -0,0 +1,143 @@
+import { createRaceBot } from "../src/bot";
+import { BOT_ACTION } from "../src/dashboard";
+import { getRaffeRaceContract } from "../src/contracts";
+import { log } from "../src/log";
+import { TxSender } from "../src/txSender";
+import { createPublicClient, createTestClient, createWalletClient, http, parseEther } from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import { foundry } from "viem/chains";
+
+/**
+ * Drives the bot against a local chain with freshly deployed contracts (`yarn chain`, then `yarn deploy`) and checks
+ * that it gets a race through its whole life:
+ *
+ *   1. Mining is paused while the bot creates a race, so its first createRace tx times out and must be replaced at
+ *      the same nonce with higher fees. Exactly one tx may land.
+ *   2. With automine on, the bot prices the race, waits out the betting window and settles it.
+ *
+ * The bot signs with anvil's second dev account; the script makes it RACE_BOT by impersonating the treasury owner.
+ * Interval mining is restored to BLOCK_TIME (default 2s, as `yarn chain` runs) when it finishes.
+ *
+ * Usage:
+ *   yarn bot:check-anvil
+ *   RPC_URL=http://127.0.0.1:8545 BLOCK_TIME=2 yarn bot:check-anvil
+ */
+
+const RPC_URL = process.env.RPC_URL ?? "http://127.0.0.1:8545";
+const BLOCK_TIME = Number(process.env.BLOCK_TIME ?? 2);
+// anvil dev account #1 (well-known test key, never funded anywhere real)
+const BOT_KEY = "0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d";
+const RECEIPT_TIMEOUT_MS = 3_000;
+const MAX_SETTLE_TICKS = 200;
+
+const sleep = (ms: number) => new Promise<void>(r => setTimeout(r, ms));
+
+function assert(condition: unknown, message: string): asserts condition {
+  if (!condition) throw new Error(`check failed: ${message}`);
+}
+
+async function main() {
+  let rawSends = 0;
+  const transport = http(RPC_URL, {
+    onFetchRequest: async request => {
+      const body = await request.clone().json();
+      rawSends += [body].flat().filter(call => call?.method === "eth_sendRawTransaction").length;
+    },
+  });
+  const publicClient = createPublicClient({ chain: foundry, transport, pollingInterval: 250 });
+  const testClient = createTestClient({ chain: foundry, mode: "anvil", transport });
+  const admin = createWalletClient({ chain: foundry, transport });
+  const account = privateKeyToAccount(BOT_KEY);
+  const walletClient = createWalletClient({ chain: foundry, transport, account });
+  const contract = getRaffeRaceContract(foundry.id, process.env.RAFFE_RACE_ADDRESS as `0x${string}` | undefined);
+
+  // Make the dev account the race bot
+  const owner = await publicClient.readContract({ ...contract, functionName: "treasuryOwner" });
+  await testClient.impersonateAccount({ address: owner });
+  await testClient.setBalance({ address: owner, value: parseEther("10") });
+  await testClient.setAutomine(true);
+  const setBotHash = await admin.writeContract({
+    ...contract,
+    account: owner,
+    functionName: "setRaceBot",
+    args: [account.address],
+  });
+  await publicClient.waitForTransactionReceipt({ hash: setBotHash });
+  await testClient.stopImpersonatingAccount({ address: owner });
+
+  const sender = new TxSender(publicClient, walletClient, contract, {
+    confirmations: 1,
+    maxRetries: 4,
+    receiptTimeoutMs: RECEIPT_TIMEOUT_MS,
+  });
+  const bot = createRaceBot({
+    publicClient,
+    sender,
+    contract,
+    config: { mcSamples: 200, pollIntervalMs: 250, presenceUrl: undefined },
+  });
+
+  try {
+    // Get to a block where the dashboard asks for a new race (an earlier run may have left one open)
+    let dashboard = await bot.tick();
+    for (let i = 0; dashboard.action !== BOT_ACTION.CREATE_RACE; i++) {
+      assert(i < MAX_SETTLE_TICKS, "dashboard never asked for a new race");
+      await testClient.mine({ blocks: Math.max(1, Number(dashboard.blocksRemaining)) });
+      dashboard = await bot.tick();
+    }
+
+    log.info("1/2 replaced transaction: pausing mining and creating a race");
+    await testClient.setIntervalMining({ interval: 0 });
+    await testClient.setAutomine(false);
+    const nonceBefore = await publicClient.getTransactionCount({ address: account.address });
+    const racesBefore = await publicClient.readContract({ ...contract, functionName: "nextRaceId" });
+    const sendsBefore = rawSends;
+
+    const created = bot.tick();
+    while (rawSends - sendsBefore < 2) await sleep(100);
+    await testClient.mine({ blocks: 1 });
+    await created;
+
+    const nonceAfter = await publicClient.getTransactionCount({ address: account.address });
+    const racesAfter = await publicClient.readContract({ ...contract, functionName: "nextRaceId" });
+    assert(nonceAfter === nonceBefore + 1, `expected one mined tx, nonce went ${nonceBefore} -> ${nonceAfter}`);
+    assert(racesAfter === racesBefore + 1n, `expected one new race, nextRaceId went ${racesBefore} -> ${racesAfter}`);
+    const raceId = racesBefore;
+    log.info(`race ${raceId} created by a replacement tx (${rawSends - sendsBefore} sends, one nonce)`);
+
+    log.info("2/2 settle: pricing, waiting out the betting window and settling");
+    await testClient.setAutomine(true);
+    const fromBlock = await publicClient.getBlockNumber();
+    for (let i = 0; ; i++) {
+      assert(i < MAX_SETTLE_TICKS, `race ${raceId} was not settled within ${MAX_SETTLE_TICKS} ticks`);
+      const before = await bot.tick();
+      const settled = await publicClient.getContractEvents({
+        ...contract,
+        eventName: "RaceSettled",
+        args: { raceId },
+        fromBlock,
+      });
+      const deadHeat = await publicClient.getContractEvents({
+        ...contract,
+        eventName: "RaceSettledDeadHeat",
+        args: { raceId },
+        fromBlock,
+      });
+      if (settled.length + deadHeat.length > 0) break;
+      assert(before.action !== BOT_ACTION.CANCEL_RACE, `race ${raceId} was cancelled instead of priced`);
+      if (before.action === BOT_ACTION.NONE) {
+        await testClient.mine({ blocks: Math.max(1, Number(before.blocksRemaining)) });
+      }
+    }
+    log.info(`race ${raceId} settled`);
+    log.info("bot checks passed");
+  } finally {
+    await testClient.setAutomine(false);
+    await testClient.setIntervalMining({ interval: BLOCK_TIME });
+  }
+}
+
+main().catch(err => {
+  log.error("bot check failed", err);
+  process.exit(1);
+});
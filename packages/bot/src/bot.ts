@@ -0,0 +1,209 @@
+import { BotConfig } from "./config";
+import { RaffeRaceContract } from "./contracts";
+import { BOT_ACTION, BOT_ACTION_NAMES, BotDashboard, readBotDashboard } from "./dashboard";
+import { log } from "./log";
+import { ExoticProbabilitiesBps, computeExoticProbabilities, computeRaceProbabilities } from "./probabilities";
+import { ContractRevertError, TxSender } from "./txSender";
+import { MonteCarloPool, ScoreTable } from "@se-2/race-core";
+import { PublicClient } from "viem";
+
+export type RaceBotDeps = {
+  publicClient: PublicClient;
+  sender: TxSender;
+  contract: RaffeRaceContract;
+  // Optional worker pool for pricing; without it Monte Carlo runs on the bot's own thread.
+  mcPool?: MonteCarloPool;
+  // Optional precomputed score table; when set, Win/Place/Show are a lookup, exotics are still simulated.
+  scoreTable?: ScoreTable;
+  config: Pick<BotConfig, "mcSamples" | "pollIntervalMs" | "presenceUrl">;
+};
+
+export type RaceBot = {
+  /** Read the dashboard once and perform whatever it asks for. */
+  tick: (signal?: AbortSignal) => Promise<BotDashboard>;
+  /** Poll until `signal` aborts. */
+  run: (signal: AbortSignal) => Promise<void>;
+};
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>(resolve => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener(
+      "abort",
+      () => {
+        clearTimeout(timer);
+        resolve();
+      },
+      { once: true },
+    );
+  });
+
+/**
+ * Race coordinator driven entirely by getBotDashboard().
+ *
+ * The contract decides what should happen next; the bot only executes it. Every tick re-reads the dashboard,
+ * so a reorged or replaced transaction simply shows up again as the same action on a later tick.
+ */
+export function createRaceBot({ publicClient, sender, contract, mcPool, scoreTable, config }: RaceBotDeps): RaceBot {
+  // The dashboard can trail our own receipts by a block; don't resubmit cleanups we just confirmed.
+  const cleanedRaceIds = new Set<bigint>();
+  let lastStatus = "";
+
+  async function hasActiveUsers(): Promise<boolean> {
+    if (!config.presenceUrl) return true;
+    try {
+      const res = await fetch(config.presenceUrl, { signal: AbortSignal.timeout(5000) });
+      if (!res.ok) throw new Error(`presence endpoint answered ${res.status}`);
+      const body = (await res.json()) as { activeUsers?: number };
+      return (body.activeUsers ?? 0) > 0;
+    } catch (err) {
+      // Presence is a nicety; never let it stall the race loop.
+      log.warn(`presence check failed, creating race anyway: ${(err as Error).message}`);
+      return true;
+    }
+  }
+
+  async function setProbabilities(dashboard: BotDashboard, signal?: AbortSignal) {
+    const { raceId, scores, blockNumber, blocksRemaining } = dashboard;
+    const deadlineBlock = blockNumber + blocksRemaining;
+
+    const startedAt = Date.now();
+    const probs = await computeRaceProbabilities({
+      raceId,
+      scores,
+      samples: config.mcSamples,
+      pool: mcPool,
+      table: scoreTable,
+      signal,
+    });
+    log.info(
+      `race ${raceId}: priced from ${probs.source} (${probs.samples} samples) in ${Date.now() - startedAt}ms ` +
+        `(scores ${scores.join(",")}, win ${probs.winProbBps.join(",")})`,
+    );
+
+    const current = await publicClient.getBlockNumber({ cacheTime: 0 });
+    if (current > deadlineBlock) {
+      log.warn(`race ${raceId}: odds window closed at block ${deadlineBlock} (now ${current}); it will be cancelled`);
+      return;
+    }
+
+    await sender.write(`setProbabilities(${raceId})`, "setProbabilities", [
+      raceId,
+      probs.winProbBps,
+      probs.placeProbBps,
+      probs.showProbBps,
+    ]);
+
+    // A parimutuel race only takes Win bets, and the contract rejects exotic odds for it
+    const [parimutuel] = await publicClient.readContract({
+      ...contract,
+      functionName: "getRacePoolById",
+      args: [raceId],
+    });
+    if (parimutuel) {
+      log.info(`race ${raceId}: parimutuel pool, skipping exotic odds`);
+      return;
+    }
+    await setExoticProbabilities(raceId, scores, probs.exotic, signal);
+  }
+
+  // Exotic betting is optional: if its odds don't land (betting already closed, say), the race just runs without it.
+  async function setExoticProbabilities(
+    raceId: bigint,
+    scores: readonly number[],
+    exotic: ExoticProbabilitiesBps | null,
+    signal?: AbortSignal,
+  ) {
+    // A score table priced Win/Place/Show without finish orders, so exotics take their own mcSamples run
+    const probs =
+      exotic ?? (await computeExoticProbabilities({ raceId, scores, samples: config.mcSamples, pool: mcPool, signal }));
+    try {
+      await sender.write(`setExoticProbabilities(${raceId})`, "setExoticProbabilities", [
+        raceId,
+        probs.exactaProbBps,
+        probs.quinellaProbBps,
+        probs.trifectaProbBps,
+      ]);
+    } catch (err) {
+      if (!(err instanceof ContractRevertError)) throw err;
+      log.warn(err.message);
+    }
+  }
+
+  async function handleAction(dashboard: BotDashboard, signal?: AbortSignal) {
+    const { action, raceId } = dashboard;
+    switch (action) {
+      case BOT_ACTION.NONE:
+        return;
+      case BOT_ACTION.CREATE_RACE:
+        if (!(await hasActiveUsers())) return;
+        await sender.write(`createRace(${raceId})`, "createRace", []);
+        return;
+      case BOT_ACTION.SET_PROBABILITIES:
+        await setProbabilities(dashboard, signal);
+        return;
+      case BOT_ACTION.SETTLE_RACE:
+        await sender.write(`settleRace(${raceId})`, "settleRace", []);
+        return;
+      case BOT_ACTION.CANCEL_RACE:
+        await sender.write(`cancelRaceNoOdds(${raceId})`, "cancelRaceNoOdds", [raceId]);
+        return;
+    }
+  }
+
+  async function cleanupExpired(dashboard: BotDashboard, signal?: AbortSignal) {
+    for (const raceId of dashboard.expiredRaceIds) {
+      if (signal?.aborted) return;
+      if (cleanedRaceIds.has(raceId)) continue;
+      try {
+        await sender.write(`cleanupExpiredRace(${raceId})`, "cleanupExpiredRace", [raceId]);
+        cleanedRaceIds.add(raceId);
+      } catch (err) {
+        if (!(err instanceof ContractRevertError)) throw err;
+        log.warn(err.message);
+        // AlreadyClaimed here means someone (or a previous run) already cleaned it.
+        if (err.errorName === "AlreadyClaimed") cleanedRaceIds.add(raceId);
+      }
+    }
+  }
+
+  async function tick(signal?: AbortSignal): Promise<BotDashboard> {
+    const dashboard = await readBotDashboard(publicClient, contract);
+
+    const status = `${BOT_ACTION_NAMES[dashboard.action]} race=${dashboard.raceId}`;
+    if (status !== lastStatus) {
+      log.info(
+        `block ${dashboard.blockNumber}: ${status} blocksRemaining=${dashboard.blocksRemaining}` +
+          (dashboard.expiredRaceIds.length ? ` expired=[${dashboard.expiredRaceIds.join(",")}]` : ""),
+      );
+      lastStatus = status;
+    }
+
+    try {
+      await handleAction(dashboard, signal);
+    } catch (err) {
+      if (!(err instanceof ContractRevertError)) throw err;
+      // State moved between the dashboard read and our send (another caller, or our own earlier tx landed).
+      log.warn(err.message);
+    }
+
+    await cleanupExpired(dashboard, signal);
+    return dashboard;
+  }
+
+  async function run(signal: AbortSignal) {
+    log.info(`race bot ${sender.address} driving RaffeRace at ${contract.address}`);
+    while (!signal.aborted) {
+      try {
+        await tick(signal);
+      } catch (err) {
+        if (signal.aborted) break;
+        log.error("tick failed", err);
+      }
+      await sleep(config.pollIntervalMs, signal);
+    }
+    log.info("race bot stopped");
+  }
+
+  return { tick, run };
+}
@@ -0,0 +1,65 @@
+import * as dotenv from "dotenv";
+import { availableParallelism } from "node:os";
+import { Address, Hex, isAddress, isHex } from "viem";
+
+dotenv.config();
+
+export type BotConfig = {
+  rpcUrl: string;
+  chainId: number;
+  privateKey: Hex;
+  raffeRaceAddress?: Address;
+  pollIntervalMs: number;
+  // Monte Carlo samples per race; with a score table they are still spent pricing the exotics
+  mcSamples: number;
+  mcWorkers: number;
+  // Win/Place/Show lookup table (exotics are not in it)
+  scoreTablePath?: string;
+  confirmations: number;
+  txMaxRetries: number;
+  txReceiptTimeoutMs: number;
+  presenceUrl?: string;
+};
+
+function readInt(name: string, fallback: number, min = 0): number {
+  const raw = process.env[name];
+  if (raw === undefined || raw.trim() === "") return fallback;
+  const n = Number(raw);
+  if (!Number.isInteger(n) || n < min) throw new Error(`${name} must be an integer >= ${min} (got "${raw}")`);
+  return n;
+}
+
+function readOptional(name: string): string | undefined {
+  const raw = process.env[name]?.trim();
+  return raw ? raw : undefined;
+}
+
+/**
+ * Load bot configuration from the environment (and `.env` if present).
+ * Throws with a readable message when a required value is missing or malformed.
+ */
+export function loadConfig(): BotConfig {
+  const privateKey = readOptional("BOT_PRIVATE_KEY");
+  if (!privateKey) throw new Error("BOT_PRIVATE_KEY is required (the RACE_BOT key set at deploy time)");
+  const pk = (privateKey.startsWith("0x") ? privateKey : `0x${privateKey}`) as Hex;
+  if (!isHex(pk) || pk.length !== 66) throw new Error("BOT_PRIVATE_KEY must be a 32-byte hex string");
+
+  const raffeRaceAddress = readOptional("RAFFE_RACE_ADDRESS");
+  if (raffeRaceAddress && !isAddress(raffeRaceAddress)) throw new Error("RAFFE_RACE_ADDRESS is not a valid address");
+
+  return {
+    rpcUrl: readOptional("RPC_URL") ?? "http://127.0.0.1:8545",
+    chainId: readInt("CHAIN_ID", 31337, 1),
+    privateKey: pk,
+    raffeRaceAddress: raffeRaceAddress as Address | undefined,
+    pollIntervalMs: readInt("POLL_INTERVAL_MS", 2000, 100),
+    mcSamples: readInt("MC_SAMPLES", 3000, 1),
+    // 0 = price on the main thread
+    mcWorkers: readInt("MC_WORKERS", Math.max(1, availableParallelism() - 1), 0),
+    scoreTablePath: readOptional("SCORE_TABLE_PATH"),
+    confirmations: readInt("CONFIRMATIONS", 1, 1),
+    txMaxRetries: readInt("TX_MAX_RETRIES", 3, 1),
+    txReceiptTimeoutMs: readInt("TX_RECEIPT_TIMEOUT_MS", 60_000, 1000),
+    presenceUrl: readOptional("PRESENCE_URL"),
+  };
+}
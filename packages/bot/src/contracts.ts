@@ -0,0 +1,36 @@
+import { raffeRaceAbi, raffeRaceDeployments } from "@se-2/race-core/deployments";
+import { Address, Chain } from "viem";
+import { base, foundry } from "viem/chains";
+
+export { raffeRaceAbi };
+
+export type RaffeRaceContract = {
+  address: Address;
+  abi: typeof raffeRaceAbi;
+};
+
+const SUPPORTED_CHAINS: Record<number, Chain> = {
+  [foundry.id]: foundry,
+  [base.id]: base,
+};
+
+export function getChain(chainId: number): Chain {
+  const chain = SUPPORTED_CHAINS[chainId];
+  if (!chain)
+    throw new Error(`Unsupported CHAIN_ID ${chainId} (supported: ${Object.keys(SUPPORTED_CHAINS).join(", ")})`);
+  return chain;
+}
+
+/**
+ * Resolve the RaffeRace deployment for a chain.
+ * An explicit address wins; otherwise we fall back to the deployments `yarn deploy` generates into race-core.
+ */
+export function getRaffeRaceContract(chainId: number, addressOverride?: Address): RaffeRaceContract {
+  if (addressOverride) return { address: addressOverride, abi: raffeRaceAbi };
+
+  const deployed = raffeRaceDeployments[chainId];
+  if (!deployed) {
+    throw new Error(`RaffeRace has no generated deployment for chain ${chainId}; set RAFFE_RACE_ADDRESS`);
+  }
+  return { address: deployed.address, abi: raffeRaceAbi };
+}
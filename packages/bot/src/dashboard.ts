@@ -0,0 +1,52 @@
+import { RaffeRaceContract } from "./contracts";
+import { PublicClient } from "viem";
+
+// Mirrors BOT_ACTION_* in RaffeRaceViews.sol
+export const BOT_ACTION = {
+  NONE: 0,
+  CREATE_RACE: 1,
+  SET_PROBABILITIES: 2,
+  SETTLE_RACE: 3,
+  CANCEL_RACE: 4,
+} as const;
+
+export type BotAction = (typeof BOT_ACTION)[keyof typeof BOT_ACTION];
+
+export const BOT_ACTION_NAMES: Record<BotAction, string> = {
+  [BOT_ACTION.NONE]: "NONE",
+  [BOT_ACTION.CREATE_RACE]: "CREATE_RACE",
+  [BOT_ACTION.SET_PROBABILITIES]: "SET_PROBABILITIES",
+  [BOT_ACTION.SETTLE_RACE]: "SETTLE_RACE",
+  [BOT_ACTION.CANCEL_RACE]: "CANCEL_RACE",
+};
+
+export type BotDashboard = {
+  // Block the dashboard was read at (all fields are consistent with this block)
+  blockNumber: bigint;
+  action: BotAction;
+  raceId: bigint;
+  blocksRemaining: bigint;
+  scores: [number, number, number, number, number, number];
+  expiredRaceIds: bigint[];
+};
+
+export async function readBotDashboard(publicClient: PublicClient, contract: RaffeRaceContract): Promise<BotDashboard> {
+  // Pin the read to one block so `blocksRemaining` can be turned into an absolute deadline.
+  const blockNumber = await publicClient.getBlockNumber({ cacheTime: 0 });
+  const [action, raceId, blocksRemaining, scores, expiredRaceIds] = await publicClient.readContract({
+    ...contract,
+    functionName: "getBotDashboard",
+    blockNumber,
+  });
+
+  if (!(action in BOT_ACTION_NAMES)) throw new Error(`Unknown bot action ${action} from getBotDashboard()`);
+
+  return {
+    blockNumber,
+    action: action as BotAction,
+    raceId,
+    blocksRemaining: BigInt(blocksRemaining),
+    scores: [scores[0], scores[1], scores[2], scores[3], scores[4], scores[5]],
+    expiredRaceIds: [...expiredRaceIds],
+  };
+}
@@ -0,0 +1,57 @@
+import { createRaceBot } from "./bot";
+import { loadConfig } from "./config";
+import { getChain, getRaffeRaceContract } from "./contracts";
+import { log } from "./log";
+import { TxSender } from "./txSender";
+import { createNodeMonteCarloPool } from "@se-2/race-core/node";
+import { parseScoreTable } from "@se-2/race-core";
+import fs from "node:fs";
+import { createPublicClient, createWalletClient, http } from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+
+/**
+ * Race bot entrypoint.
+ *
+ * Usage:
+ *   yarn bot:start           # poll forever
+ *   yarn bot:start --once    # run a single dashboard tick and exit (handy against a local anvil)
+ */
+async function main() {
+  const once = process.argv.includes("--once");
+  const config = loadConfig();
+  const chain = getChain(config.chainId);
+  const contract = getRaffeRaceContract(config.chainId, config.raffeRaceAddress);
+  const account = privateKeyToAccount(config.privateKey);
+
+  const transport = http(config.rpcUrl);
+  const publicClient = createPublicClient({ chain, transport, pollingInterval: Math.min(config.pollIntervalMs, 4000) });
+  const walletClient = createWalletClient({ chain, transport, account });
+
+  const sender = new TxSender(publicClient, walletClient, contract, {
+    confirmations: config.confirmations,
+    maxRetries: config.txMaxRetries,
+    receiptTimeoutMs: config.txReceiptTimeoutMs,
+  });
+  const mcPool = config.mcWorkers > 0 ? createNodeMonteCarloPool(config.mcWorkers) : undefined;
+  const scoreTable = config.scoreTablePath
+    ? parseScoreTable(JSON.parse(fs.readFileSync(config.scoreTablePath, "utf8")))
+    : undefined;
+  if (scoreTable) log.info(`pricing from score table ${config.scoreTablePath} (${scoreTable.samples} samples/row)`);
+  const bot = createRaceBot({ publicClient, sender, contract, mcPool, scoreTable, config });
+
+  const controller = new AbortController();
+  process.once("SIGINT", () => controller.abort());
+  process.once("SIGTERM", () => controller.abort());
+
+  try {
+    if (once) await bot.tick(controller.signal);
+    else await bot.run(controller.signal);
+  } finally {
+    mcPool?.destroy();
+  }
+}
+
+main().catch(err => {
+  log.error("race bot crashed", err);
+  process.exit(1);
+});
@@ -0,0 +1,7 @@
+const ts = () => new Date().toISOString();
+
+export const log = {
+  info: (msg: string) => console.log(`[${ts()}] ${msg}`),
+  warn: (msg: string) => console.warn(`[${ts()}] WARN ${msg}`),
+  error: (msg: string, err?: unknown) => console.error(`[${ts()}] ERROR ${msg}`, ...(err === undefined ? [] : [err])),
+};
@@ -0,0 +1,108 @@
+import { raffeRaceAbi } from "./contracts";
+import {
+  MonteCarloPool,
+  MonteCarloWinPlaceShow,
+  ScoreTable,
+  estimateWinPlaceShowMonteCarlo6,
+  lookupScoreTable,
+} from "@se-2/race-core";
+import { ContractFunctionArgs } from "viem";
+
+type Tuple6<T> = [T, T, T, T, T, T];
+
+// setExoticProbabilities' fixed-size grids: 36 pairs, 216 trios
+type ExoticGrids = ContractFunctionArgs<typeof raffeRaceAbi, "nonpayable", "setExoticProbabilities">;
+
+export type ExoticProbabilitiesBps = {
+  exactaProbBps: ExoticGrids[1];
+  quinellaProbBps: ExoticGrids[2];
+  trifectaProbBps: ExoticGrids[3];
+  samples: number;
+};
+
+export type RaceProbabilitiesBps = {
+  winProbBps: Tuple6<number>;
+  placeProbBps: Tuple6<number>;
+  showProbBps: Tuple6<number>;
+  // Priced from the same samples; null when a score table answered, since tables only hold Win/Place/Show
+  exotic: ExoticProbabilitiesBps | null;
+  samples: number;
+  source: "table" | "monte-carlo";
+};
+
+const clampBps = (x: number) => Math.min(10_000, Math.max(1, Math.round(x)));
+
+// uint16 bps in [1, 10000]: a lane that never placed in the sample still gets a (capped) quote.
+const toUint16Bps = (bps: readonly number[]): Tuple6<number> => {
+  const c = bps.map(clampBps);
+  return [c[0]!, c[1]!, c[2]!, c[3]!, c[4]!, c[5]!];
+};
+
+// Same clamp over a whole grid; race-core sizes the grids from the lane count. Slots that aren't a valid
+// combination get clamped too, which is harmless: the contract skips them.
+const toUint16Grid = <T extends readonly number[]>(bps: readonly number[]): T =>
+  bps.map(clampBps) as readonly number[] as T;
+
+const exoticFromEstimate = (mc: MonteCarloWinPlaceShow): ExoticProbabilitiesBps => ({
+  exactaProbBps: toUint16Grid(mc.exactaProbBps),
+  quinellaProbBps: toUint16Grid(mc.quinellaProbBps),
+  trifectaProbBps: toUint16Grid(mc.trifectaProbBps),
+  samples: mc.samples,
+});
+
+/**
+ * Price a race for setProbabilities(): win / top-2 / top-3 from one Monte Carlo run of the TS sim,
+ * weighted for dead heats the way SettlementLib pays them. Seeded by raceId so reruns quote the same numbers.
+ * With a worker pool the result is bit-identical, just faster. A precomputed score table answers Win/Place/Show
+ * without sampling, but holds no exotics: those still cost a `samples` run in computeExoticProbabilities.
+ */
+export async function computeRaceProbabilities(params: {
+  raceId: bigint;
+  scores: readonly number[];
+  samples: number;
+  pool?: MonteCarloPool;
+  table?: ScoreTable;
+  signal?: AbortSignal;
+}): Promise<RaceProbabilitiesBps> {
+  const { raceId, scores, samples, pool, table, signal } = params;
+
+  if (table) {
+    const hit = lookupScoreTable(table, scores);
+    return {
+      winProbBps: toUint16Bps(hit.winProbBps),
+      placeProbBps: toUint16Bps(hit.placeProbBps),
+      showProbBps: toUint16Bps(hit.showProbBps),
+      exotic: null,
+      samples: table.samples,
+      source: "table",
+    };
+  }
+
+  const estimate = pool ? pool.estimateWinPlaceShow : estimateWinPlaceShowMonteCarlo6;
+  const mc = await estimate({ score: scores, samples, salt: raceId, signal });
+
+  return {
+    winProbBps: toUint16Bps(mc.winProbBps),
+    placeProbBps: toUint16Bps(mc.placeProbBps),
+    showProbBps: toUint16Bps(mc.showProbBps),
+    exotic: exoticFromEstimate(mc),
+    samples: mc.samples,
+    source: "monte-carlo",
+  };
+}
+
+/**
+ * Price a race for setExoticProbabilities(): exacta / quinella / trifecta from a Monte Carlo run seeded like
+ * computeRaceProbabilities, for when that answered from a score table and has no finish orders to price them from.
+ */
+export async function computeExoticProbabilities(params: {
+  raceId: bigint;
+  scores: readonly number[];
+  samples: number;
+  pool?: MonteCarloPool;
+  signal?: AbortSignal;
+}): Promise<ExoticProbabilitiesBps> {
+  const { raceId, scores, samples, pool, signal } = params;
+  const estimate = pool ? pool.estimateWinPlaceShow : estimateWinPlaceShowMonteCarlo6;
+  return exoticFromEstimate(await estimate({ score: scores, samples, salt: raceId, signal }));
+}
@@ -0,0 +1,210 @@
+import { RaffeRaceContract, raffeRaceAbi } from "./contracts";
+import { log } from "./log";
+import {
+  Abi,
+  Account,
+  BaseError,
+  Chain,
+  ContractFunctionArgs,
+  ContractFunctionName,
+  ContractFunctionRevertedError,
+  Hash,
+  NonceTooHighError,
+  NonceTooLowError,
+  PublicClient,
+  TransactionReceipt,
+  Transport,
+  WaitForTransactionReceiptTimeoutError,
+  WalletClient,
+} from "viem";
+
+type WriteFunctionName = ContractFunctionName<typeof raffeRaceAbi, "nonpayable" | "payable">;
+type WriteFunctionArgs<F extends WriteFunctionName> = ContractFunctionArgs<
+  typeof raffeRaceAbi,
+  "nonpayable" | "payable",
+  F
+> &
+  readonly unknown[];
+
+export type TxSenderOptions = {
+  confirmations: number;
+  maxRetries: number;
+  receiptTimeoutMs: number;
+};
+
+/** Thrown when the contract itself rejects the call; retrying the same call will not help. */
+export class ContractRevertError extends Error {
+  constructor(
+    public readonly label: string,
+    public readonly errorName: string | undefined,
+    cause: unknown,
+  ) {
+    super(`${label} reverted${errorName ? `: ${errorName}` : ""}`, { cause });
+    this.name = "ContractRevertError";
+  }
+}
+
+const sleep = (ms: number) => new Promise<void>(r => setTimeout(r, ms));
+
+/** Returns the custom error name if `err` is a decoded contract revert. */
+export function revertErrorName(err: unknown): string | undefined {
+  if (!(err instanceof BaseError)) return undefined;
+  const revert = err.walk(e => e instanceof ContractFunctionRevertedError);
+  if (!(revert instanceof ContractFunctionRevertedError)) return undefined;
+  return revert.data?.errorName ?? revert.reason ?? "unknown revert";
+}
+
+function isRevert(err: unknown): boolean {
+  return revertErrorName(err) !== undefined;
+}
+
+function isNonceError(err: unknown): boolean {
+  if (!(err instanceof BaseError)) return false;
+  return Boolean(err.walk(e => e instanceof NonceTooLowError || e instanceof NonceTooHighError));
+}
+
+function describe(err: unknown): string {
+  if (err instanceof BaseError) return err.shortMessage;
+  if (err instanceof Error) return err.message;
+  return String(err);
+}
+
+/**
+ * Sends RaffeRace writes one at a time from a single bot account.
+ *
+ * - Nonces are tracked locally (seeded from the pending count) so back-to-back sends don't race the RPC;
+ *   any failure resyncs from chain.
+ * - Every attempt is simulated first, so contract reverts (e.g. OddsWindowExpired, AlreadySettled) surface as
+ *   ContractRevertError without spending gas and are never retried.
+ * - A send that isn't mined within `receiptTimeoutMs` is replaced at the same nonce with bumped fees.
+ * - After `confirmations`, the receipt's block is checked against the canonical chain. If it was reorged out
+ *   we resync and try again; the simulation step makes that safe when the original tx was re-included.
+ */
+export class TxSender {
+  private nextNonce: number | undefined;
+  private queue: Promise<unknown> = Promise.resolve();
+  // `write` checks names and args against the RaffeRace ABI; viem can't resolve a generic function name, so the
+  // send path works against the widened ABI type.
+  private readonly abi: Abi;
+
+  constructor(
+    private readonly publicClient: PublicClient,
+    private readonly walletClient: WalletClient<Transport, Chain, Account>,
+    private readonly contract: RaffeRaceContract,
+    private readonly options: TxSenderOptions,
+  ) {
+    this.abi = contract.abi;
+  }
+
+  get address() {
+    return this.walletClient.account.address;
+  }
+
+  write<F extends WriteFunctionName>(label: string, functionName: F, args: WriteFunctionArgs<F>) {
+    const run = () => this.sendWithRetries(label, functionName, args);
+    const next = this.queue.then(run, run);
+    this.queue = next.catch(() => undefined);
+    return next;
+  }
+
+  resetNonce() {
+    this.nextNonce = undefined;
+  }
+
+  private async reserveNonce(): Promise<number> {
+    if (this.nextNonce === undefined) {
+      this.nextNonce = await this.publicClient.getTransactionCount({ address: this.address, blockTag: "pending" });
+    }
+    return this.nextNonce++;
+  }
+
+  private async bumpedFees(attempt: number) {
+    const fees = await this.publicClient.estimateFeesPerGas();
+    // +25% per replacement keeps us comfortably above the usual 10% replacement threshold.
+    const bump = (x: bigint) => (x * BigInt(100 + 25 * attempt)) / 100n;
+    return { maxFeePerGas: bump(fees.maxFeePerGas), maxPriorityFeePerGas: bump(fees.maxPriorityFeePerGas) };
+  }
+
+  private async isCanonical(receipt: TransactionReceipt): Promise<boolean> {
+    const block = await this.publicClient.getBlock({ blockNumber: receipt.blockNumber }).catch(() => null);
+    return block?.hash === receipt.blockHash;
+  }
+
+  private async sendWithRetries<F extends WriteFunctionName>(
+    label: string,
+    functionName: F,
+    args: WriteFunctionArgs<F>,
+  ): Promise<TransactionReceipt> {
+    const { confirmations, maxRetries, receiptTimeoutMs } = this.options;
+    // Set once a tx is broadcast but not yet mined; replacements reuse it.
+    let pendingNonce: number | undefined;
+    let lastError: unknown;
+
+    for (let attempt = 0; attempt < maxRetries; attempt++) {
+      let hash: Hash | undefined;
+      try {
+        const { request } = await this.publicClient.simulateContract({
+          address: this.contract.address,
+          abi: this.abi,
+          functionName,
+          args,
+          account: this.walletClient.account,
+          chain: this.walletClient.chain,
+        });
+
+        const nonce = pendingNonce ?? (await this.reserveNonce());
+        const fees = pendingNonce !== undefined ? await this.bumpedFees(attempt) : {};
+        hash = await this.walletClient.writeContract({ ...request, nonce, ...fees });
+        pendingNonce = nonce;
+        log.info(`${label}: sent ${hash} (nonce ${nonce}${attempt > 0 ? `, attempt ${attempt + 1}` : ""})`);
+
+        const receipt = await this.publicClient.waitForTransactionReceipt({
+          hash,
+          confirmations,
+          timeout: receiptTimeoutMs,
+          onReplaced: r => log.warn(`${label}: ${r.reason} by ${r.transaction.hash}`),
+        });
+
+        if (!(await this.isCanonical(receipt))) {
+          log.warn(`${label}: ${receipt.transactionHash} was reorged out of block ${receipt.blockNumber}`);
+          pendingNonce = undefined;
+          this.resetNonce();
+          continue;
+        }
+
+        if (receipt.status !== "success") {
+          // Mined but reverted (state changed between simulate and inclusion).
+          this.resetNonce();
+          throw new ContractRevertError(label, undefined, new Error(`tx ${receipt.transactionHash} reverted`));
+        }
+
+        log.info(`${label}: confirmed in block ${receipt.blockNumber} (gas ${receipt.gasUsed})`);
+        return receipt;
+      } catch (err) {
+        if (err instanceof ContractRevertError) throw err;
+        if (isRevert(err)) {
+          // Don't hold a nonce for a call that never got broadcast.
+          this.resetNonce();
+          throw new ContractRevertError(label, revertErrorName(err), err);
+        }
+
+        lastError = err;
+        if (err instanceof WaitForTransactionReceiptTimeoutError) {
+          log.warn(`${label}: not mined after ${receiptTimeoutMs}ms, replacing with higher fees`);
+          continue;
+        }
+
+        if (isNonceError(err)) {
+          log.warn(`${label}: nonce out of sync, resyncing (${describe(err)})`);
+        } else {
+          log.warn(`${label}: attempt ${attempt + 1} failed: ${describe(err)}`);
+        }
+        if (hash === undefined) pendingNonce = undefined;
+        this.resetNonce();
+        await sleep(500 * 2 ** attempt);
+      }
+    }
+
+    throw new Error(`${label}: giving up after ${maxRetries} attempts (${describe(lastError)})`, { cause: lastError });
+  }
+}
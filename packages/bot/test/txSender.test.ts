@@ -0,0 +1,165 @@
+import { RaffeRaceContract, raffeRaceAbi } from "../src/contracts";
+import { ContractRevertError, TxSender } from "../src/txSender";
+import assert from "node:assert/strict";
+import { beforeEach, describe, it, mock } from "node:test";
+import {
+  BaseError,
+  ContractFunctionRevertedError,
+  Hash,
+  PublicClient,
+  TransactionReceipt,
+  WaitForTransactionReceiptTimeoutError,
+  encodeErrorResult,
+} from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import { foundry } from "viem/chains";
+
+const contract: RaffeRaceContract = { address: "0x00000000000000000000000000000000000000c0", abi: raffeRaceAbi };
+const account = privateKeyToAccount("0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d");
+const GWEI = 1_000_000_000n;
+const CANONICAL = `0x${"11".repeat(32)}` as Hash;
+const REORGED = `0x${"22".repeat(32)}` as Hash;
+
+type Sent = { nonce: number; maxFeePerGas?: bigint; maxPriorityFeePerGas?: bigint; functionName: string };
+type ReceiptOutcome = "mined" | "timeout" | "reorged" | "reverted";
+// A callback runs when its receipt is awaited, so a test can change the chain at that point
+type ReceiptStep = ReceiptOutcome | (() => ReceiptOutcome);
+
+/**
+ * Fake clients around a TxSender: every send is recorded, and each receipt wait takes its outcome from `receipts`
+ * (mined when the list runs out). The chain's pending nonce is `chainNonce`.
+ */
+function setup({ receipts = [] as ReceiptStep[], revert }: { receipts?: ReceiptStep[]; revert?: string } = {}) {
+  const sent: Sent[] = [];
+  const state = { chainNonce: 7, simulations: 0 };
+
+  const publicClient = {
+    getTransactionCount: async () => state.chainNonce,
+    estimateFeesPerGas: async () => ({ maxFeePerGas: 20n * GWEI, maxPriorityFeePerGas: 2n * GWEI }),
+    simulateContract: async ({ functionName, args }: { functionName: string; args: readonly unknown[] }) => {
+      state.simulations++;
+      if (revert) {
+        const data = encodeErrorResult({ abi: raffeRaceAbi, errorName: revert } as Parameters<
+          typeof encodeErrorResult
+        >[0]);
+        const cause = new ContractFunctionRevertedError({ abi: raffeRaceAbi, data, functionName });
+        throw new BaseError("Execution reverted.", { cause });
+      }
+      return { request: { address: contract.address, abi: raffeRaceAbi, functionName, args, account } };
+    },
+    waitForTransactionReceipt: async ({ hash }: { hash: Hash }) => {
+      const step = receipts.shift() ?? "mined";
+      const outcome = typeof step === "function" ? step() : step;
+      if (outcome === "timeout") throw new WaitForTransactionReceiptTimeoutError({ hash });
+      return {
+        transactionHash: hash,
+        blockNumber: 100n,
+        blockHash: outcome === "reorged" ? REORGED : CANONICAL,
+        status: outcome === "reverted" ? "reverted" : "success",
+        gasUsed: 21_000n,
+      } as TransactionReceipt;
+    },
+    getBlock: async () => ({ hash: CANONICAL }),
+  } as unknown as PublicClient;
+
+  const walletClient = {
+    account,
+    chain: foundry,
+    writeContract: async (tx: Sent) => {
+      sent.push({
+        nonce: tx.nonce,
+        maxFeePerGas: tx.maxFeePerGas,
+        maxPriorityFeePerGas: tx.maxPriorityFeePerGas,
+        functionName: tx.functionName,
+      });
+      return `0x${sent.length.toString(16).padStart(64, "0")}` as Hash;
+    },
+  } as unknown as ConstructorParameters<typeof TxSender>[1];
+
+  const sender = new TxSender(publicClient, walletClient, contract, {
+    confirmations: 1,
+    maxRetries: 4,
+    receiptTimeoutMs: 1_000,
+  });
+  return { sender, sent, state };
+}
+
+describe("TxSender", () => {
+  beforeEach(() => {
+    mock.method(console, "log", () => undefined);
+    mock.method(console, "warn", () => undefined);
+  });
+
+  it("sends back-to-back writes with consecutive nonces from the pending count", async () => {
+    const { sender, sent } = setup();
+    await Promise.all([sender.write("a", "createRace", []), sender.write("b", "cleanupExpiredRace", [3n])]);
+    assert.deepEqual(
+      sent.map(s => [s.functionName, s.nonce]),
+      [
+        ["createRace", 7],
+        ["cleanupExpiredRace", 8],
+      ],
+    );
+  });
+
+  it("replaces a tx that isn't mined at the same nonce, bumping fees 25% per attempt", async () => {
+    const { sender, sent } = setup({ receipts: ["timeout", "timeout", "mined"] });
+    const receipt = await sender.write("createRace", "createRace", []);
+
+    assert.equal(receipt.transactionHash, `0x${"3".padStart(64, "0")}`);
+    assert.deepEqual(
+      sent.map(s => [s.nonce, s.maxFeePerGas, s.maxPriorityFeePerGas]),
+      [
+        [7, undefined, undefined],
+        [7, 25n * GWEI, 2_500_000_000n],
+        [7, 30n * GWEI, 3n * GWEI],
+      ],
+    );
+  });
+
+  it("gives up after maxRetries replacements", async () => {
+    const { sender, sent } = setup({ receipts: ["timeout", "timeout", "timeout", "timeout"] });
+    await assert.rejects(sender.write("createRace", "createRace", []), /giving up after 4 attempts/);
+    assert.equal(sent.length, 4);
+  });
+
+  it("surfaces a simulated revert without sending or retrying", async () => {
+    const reverting = setup({ revert: "AlreadySettled" });
+    await assert.rejects(reverting.sender.write("settleRace", "settleRace", []), (err: unknown) => {
+      assert.ok(err instanceof ContractRevertError);
+      assert.equal(err.errorName, "AlreadySettled");
+      return true;
+    });
+    assert.equal(reverting.sent.length, 0);
+    assert.equal(reverting.state.simulations, 1);
+  });
+
+  it("resends with a fresh nonce when the receipt's block was reorged out", async () => {
+    // By the time the reorg shows, the chain's pending nonce has moved on
+    const { sender, sent, state } = setup({
+      receipts: [
+        () => {
+          state.chainNonce = 9;
+          return "reorged";
+        },
+        "mined",
+      ],
+    });
+    await sender.write("createRace", "createRace", []);
+    assert.deepEqual(
+      sent.map(s => s.nonce),
+      [7, 9],
+    );
+  });
+
+  it("fails a tx that was mined but reverted, and resyncs its nonce", async () => {
+    const { sender, sent, state } = setup({ receipts: ["reverted"] });
+    await assert.rejects(sender.write("settleRace", "settleRace", []), ContractRevertError);
+    state.chainNonce = 8;
+    await sender.write("settleRace", "settleRace", []);
+    assert.deepEqual(
+      sent.map(s => s.nonce),
+      [7, 8],
+    );
+  });
+});
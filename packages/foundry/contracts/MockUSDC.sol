@@ -2,14 +2,16 @@
 pragma solidity ^0.8.19;
 
 import { ERC20 } from "../lib/openzeppelin-contracts/contracts/token/ERC20/ERC20.sol";
+import { ERC20Permit } from "../lib/openzeppelin-contracts/contracts/token/ERC20/extensions/ERC20Permit.sol";
 
 /**
  * @title MockUSDC
  * @notice Simple mock USDC for local testing (6 decimals like real USDC).
  * @dev Anyone can mint - ONLY FOR TESTING.
+ *      Supports EIP-2612 permit like real USDC, so permit betting works on a local chain.
  */
-contract MockUSDC is ERC20 {
-    constructor() ERC20("USD Coin", "USDC") {}
+contract MockUSDC is ERC20, ERC20Permit {
+    constructor() ERC20("USD Coin", "USDC") ERC20Permit("USD Coin") {}
 
     function decimals() public pure override returns (uint8) {
         return 6;
@@ -40,6 +40,16 @@ abstract contract RaffeRaceAdmin is RaffeRaceBase {
         emit RaceBotUpdated(oldBot, newRaceBot);
     }
 
+    /// @notice Choose the betting mode for races created from now on.
+    /// @dev Parimutuel races take Win bets only and share the Win pool among winners after a take of houseEdgeBps
+    ///      (snapshotted at creation). Races already created keep their mode.
+    /// @param enabled True for parimutuel, false for fixed odds against the house.
+    function setParimutuelNextRace(bool enabled) external onlyTreasuryOwner {
+        parimutuelNextRace = enabled;
+        
+        emit ParimutuelModeUpdated(enabled);
+    }
+
     /// @notice Cancel a stuck race and enable refunds for all bettors
     /// @dev Only callable by treasuryOwner. Use when a race cannot be settled (e.g., blockhash expired).
     ///      After cancellation, bettors can claim() to receive their original bet back.
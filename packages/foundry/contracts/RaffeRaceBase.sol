@@ -45,6 +45,9 @@ abstract contract RaffeRaceBase {
     uint8 public constant BET_TYPE_WIN = 0;
     uint8 public constant BET_TYPE_PLACE = 1;
     uint8 public constant BET_TYPE_SHOW = 2;
+    uint8 public constant BET_TYPE_EXACTA = 3;
+    uint8 public constant BET_TYPE_QUINELLA = 4;
+    uint8 public constant BET_TYPE_TRIFECTA = 5;
 
     // ============ Claim Status Constants ============
     
@@ -66,6 +69,9 @@ abstract contract RaffeRaceBase {
         assert(BET_TYPE_WIN == C.BET_TYPE_WIN);
         assert(BET_TYPE_PLACE == C.BET_TYPE_PLACE);
         assert(BET_TYPE_SHOW == C.BET_TYPE_SHOW);
+        assert(BET_TYPE_EXACTA == C.BET_TYPE_EXACTA);
+        assert(BET_TYPE_QUINELLA == C.BET_TYPE_QUINELLA);
+        assert(BET_TYPE_TRIFECTA == C.BET_TYPE_TRIFECTA);
         assert(ODDS_WINDOW_BLOCKS == C.ODDS_WINDOW_BLOCKS);
         assert(BETTING_WINDOW_BLOCKS == C.BETTING_WINDOW_BLOCKS);
         assert(POST_RACE_COOLDOWN_BLOCKS == C.POST_RACE_COOLDOWN_BLOCKS);
@@ -95,6 +101,8 @@ abstract contract RaffeRaceBase {
         bool cancelled;
         uint8 winner;
         uint8 deadHeatCount;
+        bool parimutuel;             // Win pool shared among winners instead of fixed odds (set at creation)
+        uint16 parimutuelTakeBps;    // House take from a parimutuel pool, snapshotted from houseEdgeBps
         bytes32 seed;
         uint256 totalPot;
         uint256[6] totalOnLane;      // Win bets per lane
@@ -134,25 +142,48 @@ abstract contract RaffeRaceBase {
         bool claimed;
     }
     
-    /// @notice All bets for a user in a single race (Win, Place, Show)
+    /// @notice Exotic bet (Exacta, Quinella, Trifecta) on several lanes
+    struct ExoticBet {
+        uint128 amount;
+        uint8[3] lanes;  // Finishing order; quinella pairs stored low-high, third lane only used by trifecta
+        bool claimed;
+    }
+    
+    /// @notice All bets for a user in a single race (Win, Place, Show, and one of each exotic)
     struct UserRaceBets {
         Bet winBet;
         Bet placeBet;
         Bet showBet;
+        ExoticBet exactaBet;
+        ExoticBet quinellaBet;
+        ExoticBet trifectaBet;
+    }
+
+    /// @notice Exotic odds and stakes for a race, indexed by combination (see ExoticLib.comboIndex)
+    /// @dev Entries that aren't a valid combination (repeated lanes, quinella pairs out of order) stay zero
+    struct ExoticMarket {
+        bool oddsSet;
+        uint32[36] exactaOddsBps;
+        uint32[36] quinellaOddsBps;
+        uint32[216] trifectaOddsBps;
+        uint256[36] totalOnExacta;
+        uint256[36] totalOnQuinella;
+        uint256[216] totalOnTrifecta;
     }
 
     struct NextClaimView {
         bool hasClaim;
         uint256 raceId;
         uint8 status;
-        uint8 betType;      // 0=Win, 1=Place, 2=Show
-        uint8 betLane;
+        uint8 betType;      // 0=Win, 1=Place, 2=Show, 3=Exacta, 4=Quinella, 5=Trifecta
+        uint8 betLane;      // First lane named by the bet for exotics
         uint256 betTokenId;
         uint128 betAmount;
         uint8 winner;
         uint256 payout;
         uint64 bettingCloseBlock;
         uint64 settledAtBlock;  // For claim expiration countdown
+        uint8[3] betLanes;      // Every lane an exotic bet names (betLane, then the rest)
     }
     
     /// @notice View struct for queue entries
@@ -175,6 +206,7 @@ abstract contract RaffeRaceBase {
     address public raceBot;  // Only address that can call setOdds
     uint16 public houseEdgeBps;
     uint256 public maxBetAmount;
+    bool public parimutuelNextRace;  // Mode the next createRace() declares
     
     // House raffes for auto-fill
     uint256[6] public houseRaffeTokenIds;
@@ -198,6 +230,7 @@ abstract contract RaffeRaceBase {
     mapping(uint256 => mapping(address => UserRaceBets)) internal _userBets;
     mapping(uint256 => RaceRaffes) internal _raceRaffes;
     mapping(uint256 => uint8[6]) internal _raceScore;
+    mapping(uint256 => ExoticMarket) internal _exoticMarkets;
     
     // User bet history
     mapping(address => uint256[]) internal _bettorRaceIds;
@@ -231,6 +264,8 @@ abstract contract RaffeRaceBase {
     error RaceNotCancellable();
     error AlreadyCancelled();
     error InvalidBetType();
+    error InvalidCombination();
+    error ParimutuelWinOnly();      // Parimutuel races only take Win bets
     error OddsWindowActive();
     error OddsWindowExpired();      // Tried to set probabilities after deadline
     error OddsWindowNotExpired();   // Tried to cancel before deadline
@@ -246,7 +281,7 @@ abstract contract RaffeRaceBase {
 
     // ============ Events ============
     
-    event RaceCreated(uint256 indexed raceId, uint64 oddsDeadlineBlock);
+    event RaceCreated(uint256 indexed raceId, uint64 oddsDeadlineBlock, bool parimutuel);
     event RaceProbabilitiesSet(
         uint256 indexed raceId,
         uint16[6] winProbBps,
@@ -257,10 +292,13 @@ abstract contract RaffeRaceBase {
         uint32[6] showOddsBps,
         uint64 bettingCloseBlock
     );
+    event RaceExoticOddsSet(uint256 indexed raceId);
     event RaceAutoCancelled(uint256 indexed raceId);
     event BetPlaced(uint256 indexed raceId, address indexed bettor, uint8 lane, uint8 betType, uint256 amount);
+    event ExoticBetPlaced(uint256 indexed raceId, address indexed bettor, uint8 betType, uint8[3] lanes, uint256 amount);
     event RaceSettled(uint256 indexed raceId, bytes32 seed, uint8 winner);
     event RaceSettledDeadHeat(uint256 indexed raceId, bytes32 seed, uint8 deadHeatCount, uint8[6] winners);
+    event ParimutuelPoolSettled(uint256 indexed raceId, uint256 pool, uint32[6] winOddsBps);
     event Claimed(uint256 indexed raceId, address indexed bettor, uint256 payout);
     event ClaimExpired(uint256 indexed raceId, address indexed bettor, uint256 forfeitedPayout);
     event ExpiredLiabilityReleased(uint256 indexed raceId, uint256 amount);
@@ -269,6 +307,7 @@ abstract contract RaffeRaceBase {
     event HouseEdgeUpdated(uint16 oldEdgeBps, uint16 newEdgeBps);
     event MaxBetUpdated(uint256 oldMaxBet, uint256 newMaxBet);
     event RaceBotUpdated(address oldBot, address newBot);
+    event ParimutuelModeUpdated(bool enabled);
     event RaceCancelled(uint256 indexed raceId);
     
     // Queue events
@@ -1,38 +1,61 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.19;
 
+import { IERC20Permit } from "../lib/openzeppelin-contracts/contracts/token/ERC20/extensions/IERC20Permit.sol";
 import { RaffeRaceBase } from "./RaffeRaceBase.sol";
 import { ClaimLib } from "./libraries/ClaimLib.sol";
+import { ExoticLib } from "./libraries/ExoticLib.sol";
 import { SettlementLib } from "./libraries/SettlementLib.sol";
 import { RaffeRaceConstants as C } from "./libraries/RaffeRaceConstants.sol";
 
 /**
  * @title RaffeRaceBetting
- * @notice Handles bet placement and claim processing for Win/Place/Show bets
+ * @notice Handles bet placement and claim processing for Win/Place/Show and exotic bets
  * @dev Manages user bets and payouts with dead heat rules
  */
 abstract contract RaffeRaceBetting is RaffeRaceBase {
     // ============ Bet Placement ============
 
     /// @notice Place a bet on a lane for the current active race
+    /// @dev Parimutuel races (see Race.parimutuel) only take Win bets
     /// @param lane The lane to bet on (0-5)
     /// @param amount The bet amount in USDC (6 decimals)
     /// @param betType The bet type: 0=Win, 1=Place, 2=Show
     function placeBet(uint8 lane, uint256 amount, uint8 betType) external {
-        if (lane >= LANE_COUNT) revert InvalidLane();
-        if (betType > BET_TYPE_SHOW) revert InvalidBetType();
+        _placeBet(lane, amount, betType);
+    }
 
-        uint256 raceId = _activeRaceId();
-        Race storage r = _races[raceId];
-        
-        // Betting window check
-        if (r.bettingCloseBlock == 0) revert BettingNotOpen();
-        if (block.number >= r.bettingCloseBlock) revert BettingClosed();
+    /// @notice Place a bet, approving the treasury with an EIP-2612 permit signature instead of a separate approval
+    /// @dev The permit's spender is the treasury (it pulls the stake in collectBet). `permitValue` may cover more than
+    ///      this bet, so the rest of the race's bets can use plain placeBet. A failed permit is ignored: if someone
+    ///      submitted the same signature first the allowance is already there, and if not collectBet reverts anyway.
+    /// @param lane The lane to bet on (0-5)
+    /// @param amount The bet amount in USDC (6 decimals)
+    /// @param betType The bet type: 0=Win, 1=Place, 2=Show
+    /// @param permitValue The allowance the permit grants the treasury
+    /// @param deadline The permit signature's deadline
+    function placeBetWithPermit(
+        uint8 lane,
+        uint256 amount,
+        uint8 betType,
+        uint256 permitValue,
+        uint256 deadline,
+        uint8 v,
+        bytes32 r,
+        bytes32 s
+    ) external {
+        try IERC20Permit(address(treasury.usdc())).permit(
+            msg.sender, address(treasury), permitValue, deadline, v, r, s
+        ) { } catch { }
+        _placeBet(lane, amount, betType);
+    }
 
-        if (amount == 0) revert ZeroBet();
-        if (amount > maxBetAmount) revert BetTooLarge();
+    function _placeBet(uint8 lane, uint256 amount, uint8 betType) internal {
+        if (lane >= LANE_COUNT) revert InvalidLane();
+        if (betType > BET_TYPE_SHOW) revert InvalidBetType();
 
-        if (!r.oddsSet) revert OddsNotSet();
+        (uint256 raceId, Race storage r) = _openRaceForBet(amount);
+        if (r.parimutuel && betType != BET_TYPE_WIN) revert ParimutuelWinOnly();
 
         UserRaceBets storage userBets = _userBets[raceId][msg.sender];
         
@@ -48,13 +71,17 @@ abstract contract RaffeRaceBetting is RaffeRaceBase {
         
         // Check if this bet type is already placed
         if (b.amount != 0) revert AlreadyBet();
+        bool firstBetInRace = !_hasBetsInRace(userBets);
 
         // Risk control: ensure treasury can cover worst-case payout
-        uint32 odds = _getOddsForBetType(r, lane, betType);
-        // Use ClaimLib.calculatePayout for consistency (deadHeatDivisor=1 for worst case)
-        uint256 maxPayout = ClaimLib.calculatePayout(amount, odds, 1);
-        if (treasury.balance() < settledLiability + maxPayout) {
-            revert InsufficientBankroll();
+        // (a parimutuel pool never pays out more than was staked into it)
+        if (!r.parimutuel) {
+            uint32 odds = _getOddsForBetType(r, lane, betType);
+            // Use ClaimLib.calculatePayout for consistency (deadHeatDivisor=1 for worst case)
+            uint256 maxPayout = ClaimLib.calculatePayout(amount, odds, 1);
+            if (treasury.balance() < settledLiability + maxPayout) {
+                revert InsufficientBankroll();
+            }
         }
 
         // Collect bet from user via treasury
@@ -74,23 +101,91 @@ abstract contract RaffeRaceBetting is RaffeRaceBase {
         }
 
         // Track bettor for claims (only add once per race)
-        if (!_hasBetsInRace(raceId, msg.sender, betType)) {
+        if (firstBetInRace) {
             _bettorRaceIds[msg.sender].push(raceId);
         }
         
         emit BetPlaced(raceId, msg.sender, lane, betType, amount);
     }
+
+    /// @notice Place an exotic bet on the current active race
+    /// @dev Only once the bot has set exotic odds for the race (setExoticProbabilities)
+    /// @param lanes The lanes in finishing order: 1st, 2nd, and 3rd for trifecta (the third is ignored otherwise).
+    ///        A quinella pair may be given in either order.
+    /// @param amount The bet amount in USDC (6 decimals)
+    /// @param betType The bet type: 3=Exacta, 4=Quinella, 5=Trifecta
+    function placeExoticBet(uint8[3] calldata lanes, uint256 amount, uint8 betType) external {
+        if (betType < BET_TYPE_EXACTA || betType > BET_TYPE_TRIFECTA) revert InvalidBetType();
+        uint8[3] memory combo = ExoticLib.normalizeLanes(betType, lanes);
+
+        (uint256 raceId, Race storage r) = _openRaceForBet(amount);
+        if (r.parimutuel) revert ParimutuelWinOnly();
+
+        ExoticMarket storage market = _exoticMarkets[raceId];
+        if (!market.oddsSet) revert OddsNotSet();
+
+        UserRaceBets storage userBets = _userBets[raceId][msg.sender];
+        ExoticBet storage b = _exoticBet(userBets, betType);
+        if (b.amount != 0) revert AlreadyBet();
+        bool firstBetInRace = !_hasBetsInRace(userBets);
+
+        // Risk control: ensure treasury can cover worst-case payout
+        uint16 index = ExoticLib.comboIndex(betType, combo);
+        uint256 maxPayout = ClaimLib.calculatePayout(amount, ExoticLib.oddsFor(market, betType, index), 1);
+        if (treasury.balance() < settledLiability + maxPayout) {
+            revert InsufficientBankroll();
+        }
+
+        // Collect bet from user via treasury
+        treasury.collectBet(msg.sender, amount);
+
+        b.amount = uint128(amount);
+        b.lanes = combo;
+
+        r.totalPot += amount;
+        ExoticLib.addStake(market, betType, index, amount);
+
+        // Track bettor for claims (only add once per race)
+        if (firstBetInRace) {
+            _bettorRaceIds[msg.sender].push(raceId);
+        }
+
+        emit ExoticBetPlaced(raceId, msg.sender, betType, combo, amount);
+    }
+
+    /// @notice Checks shared by every bet type: the active race is taking bets and the amount is allowed
+    function _openRaceForBet(uint256 amount) internal view returns (uint256 raceId, Race storage r) {
+        raceId = _activeRaceId();
+        r = _races[raceId];
+        
+        // Betting window check
+        if (r.bettingCloseBlock == 0) revert BettingNotOpen();
+        if (block.number >= r.bettingCloseBlock) revert BettingClosed();
+
+        if (amount == 0) revert ZeroBet();
+        if (amount > maxBetAmount) revert BetTooLarge();
+
+        if (!r.oddsSet) revert OddsNotSet();
+    }
     
-    /// @notice Check if user already has any bet in this race (before current bet type)
-    function _hasBetsInRace(uint256 raceId, address bettor, uint8 currentBetType) internal view returns (bool) {
-        UserRaceBets storage userBets = _userBets[raceId][bettor];
-        if (currentBetType == BET_TYPE_WIN) {
-            // Win is first, so check if Place or Show exists
-            return userBets.placeBet.amount != 0 || userBets.showBet.amount != 0;
-        } else if (currentBetType == BET_TYPE_PLACE) {
-            return userBets.winBet.amount != 0 || userBets.showBet.amount != 0;
+    /// @notice Check if user already has any bet in this race
+    function _hasBetsInRace(UserRaceBets storage userBets) internal view returns (bool) {
+        return userBets.winBet.amount != 0 ||
+            userBets.placeBet.amount != 0 ||
+            userBets.showBet.amount != 0 ||
+            userBets.exactaBet.amount != 0 ||
+            userBets.quinellaBet.amount != 0 ||
+            userBets.trifectaBet.amount != 0;
+    }
+
+    /// @notice Get a user's exotic bet slot for a bet type
+    function _exoticBet(UserRaceBets storage userBets, uint8 betType) internal view returns (ExoticBet storage) {
+        if (betType == BET_TYPE_EXACTA) {
+            return userBets.exactaBet;
+        } else if (betType == BET_TYPE_QUINELLA) {
+            return userBets.quinellaBet;
         } else {
-            return userBets.winBet.amount != 0 || userBets.placeBet.amount != 0;
+            return userBets.trifectaBet;
         }
     }
     
@@ -146,7 +241,9 @@ abstract contract RaffeRaceBetting is RaffeRaceBase {
                         continue;
                     }
                 }
-                settledLiability = SettlementLib.settleRace(r, raceId, _raceScore[raceId], simulator, settledLiability);
+                settledLiability = SettlementLib.settleRace(
+                    r, _exoticMarkets[raceId], raceId, _raceScore[raceId], simulator, settledLiability
+                );
             }
 
             UserRaceBets storage userBets = _userBets[raceId][bettor];
@@ -154,7 +251,7 @@ abstract contract RaffeRaceBetting is RaffeRaceBase {
             // Check if claim has expired (only for settled races)
             if (r.settled && C.isClaimExpired(block.number, r.settledAtBlock)) {
                 // Claim expired - forfeit unclaimed winnings and free up liability
-                uint256 forfeitedPayout = _forfeitExpiredClaims(r, userBets);
+                uint256 forfeitedPayout = _forfeitExpiredClaims(r, _exoticMarkets[raceId], userBets);
                 if (forfeitedPayout > 0) {
                     // Safe decrement - cap at available amounts to prevent underflow
                     if (forfeitedPayout <= settledLiability) {
@@ -249,7 +346,11 @@ abstract contract RaffeRaceBetting is RaffeRaceBase {
     }
     
     /// @notice Forfeit expired claims and return total forfeited payout
-    function _forfeitExpiredClaims(Race storage r, UserRaceBets storage userBets) internal returns (uint256 forfeited) {
+    function _forfeitExpiredClaims(
+        Race storage r,
+        ExoticMarket storage market,
+        UserRaceBets storage userBets
+    ) internal returns (uint256 forfeited) {
         // Mark all unclaimed bets as claimed and calculate forfeited winnings
         if (userBets.winBet.amount != 0 && !userBets.winBet.claimed) {
             userBets.winBet.claimed = true;
@@ -288,6 +389,15 @@ abstract contract RaffeRaceBetting is RaffeRaceBase {
                 );
             }
         }
+        for (uint8 betType = BET_TYPE_EXACTA; betType <= BET_TYPE_TRIFECTA; ) {
+            ExoticBet storage eb = _exoticBet(userBets, betType);
+            if (eb.amount != 0 && !eb.claimed) {
+                eb.claimed = true;
+                (uint256 payout, ) = ExoticLib.calculateExoticPayout(r, market, betType, eb);
+                forfeited += payout;
+            }
+            unchecked { ++betType; }
+        }
     }
     
     /// @notice Process the next unclaimed bet for a user in a race
@@ -312,6 +422,14 @@ abstract contract RaffeRaceBetting is RaffeRaceBase {
                 userBets.showBet.claimed = true;
                 return (true, uint256(userBets.showBet.amount), true);
             }
+            for (uint8 betType = BET_TYPE_EXACTA; betType <= BET_TYPE_TRIFECTA; ) {
+                ExoticBet storage eb = _exoticBet(userBets, betType);
+                if (eb.amount != 0 && !eb.claimed) {
+                    eb.claimed = true;
+                    return (true, uint256(eb.amount), true);
+                }
+                unchecked { ++betType; }
+            }
             return (false, 0, false);
         }
         
@@ -335,6 +453,17 @@ abstract contract RaffeRaceBetting is RaffeRaceBase {
             (payout, isWin) = _calculateShowBetPayout(r, userBets.showBet);
             return (true, payout, isWin);
         }
+
+        // Process exotic bets: Exacta, Quinella, Trifecta
+        for (uint8 betType = BET_TYPE_EXACTA; betType <= BET_TYPE_TRIFECTA; ) {
+            ExoticBet storage eb = _exoticBet(userBets, betType);
+            if (eb.amount != 0 && !eb.claimed) {
+                eb.claimed = true;
+                (payout, isWin) = ExoticLib.calculateExoticPayout(r, _exoticMarkets[raceId], betType, eb);
+                return (true, payout, isWin);
+            }
+            unchecked { ++betType; }
+        }
         
         return (false, 0, false);
     }
@@ -408,7 +537,10 @@ abstract contract RaffeRaceBetting is RaffeRaceBase {
         bool winDone = userBets.winBet.amount == 0 || userBets.winBet.claimed;
         bool placeDone = userBets.placeBet.amount == 0 || userBets.placeBet.claimed;
         bool showDone = userBets.showBet.amount == 0 || userBets.showBet.claimed;
-        return winDone && placeDone && showDone;
+        bool exactaDone = userBets.exactaBet.amount == 0 || userBets.exactaBet.claimed;
+        bool quinellaDone = userBets.quinellaBet.amount == 0 || userBets.quinellaBet.claimed;
+        bool trifectaDone = userBets.trifectaBet.amount == 0 || userBets.trifectaBet.claimed;
+        return winDone && placeDone && showDone && exactaDone && quinellaDone && trifectaDone;
     }
 
     // ============ View Functions ============
@@ -427,6 +559,16 @@ abstract contract RaffeRaceBetting is RaffeRaceBase {
         );
     }
 
+    /// @notice Get a user's exotic bets in a race
+    function getUserExoticBetsById(uint256 raceId, address bettor) external view returns (
+        ExoticBet memory exacta,
+        ExoticBet memory quinella,
+        ExoticBet memory trifecta
+    ) {
+        UserRaceBets storage ub = _userBets[raceId][bettor];
+        return (ub.exactaBet, ub.quinellaBet, ub.trifectaBet);
+    }
+
     /// @notice Legacy function for backwards compatibility - returns Win bet only
     function getBetById(uint256 raceId, address bettor) external view returns (uint128 amount, uint8 lane, bool claimed) {
         Bet storage b = _userBets[raceId][bettor].winBet;
@@ -474,6 +616,14 @@ abstract contract RaffeRaceBetting is RaffeRaceBase {
                     remaining++;
                 }
             }
+            uint8[6] memory masks = ExoticLib.positionMasks(r);
+            for (uint8 betType = BET_TYPE_EXACTA; betType <= BET_TYPE_TRIFECTA; ) {
+                ExoticBet storage eb = _exoticBet(ub, betType);
+                if (eb.amount != 0 && !eb.claimed && ExoticLib.isWinningCombo(masks, betType, eb.lanes)) {
+                    remaining++;
+                }
+                unchecked { ++betType; }
+            }
 
             unchecked { ++i; }
         }
@@ -563,6 +713,30 @@ abstract contract RaffeRaceBetting is RaffeRaceBase {
                 }
             }
 
+            // Check exotic bets
+            for (uint8 betType = BET_TYPE_EXACTA; betType <= BET_TYPE_TRIFECTA; ) {
+                ExoticBet storage eb = _exoticBet(ub, betType);
+                if (eb.amount != 0 && !eb.claimed) {
+                    (uint256 payout, bool isWin) = ExoticLib.calculateExoticPayout(r, _exoticMarkets[rid], betType, eb);
+                    if (isWin) {
+                        out.hasClaim = true;
+                        out.raceId = rid;
+                        out.status = CLAIM_STATUS_WIN;
+                        out.betType = betType;
+                        out.betLane = eb.lanes[0];
+                        out.betLanes = eb.lanes;
+                        out.betTokenId = _raceRaffes[rid].tokenIds[eb.lanes[0]];
+                        out.betAmount = eb.amount;
+                        out.winner = r.winner;
+                        out.payout = payout;
+                        out.bettingCloseBlock = r.bettingCloseBlock;
+                        out.settledAtBlock = r.settledAtBlock;
+                        return out;
+                    }
+                }
+                unchecked { ++betType; }
+            }
+
             unchecked { ++i; }
         }
     }
@@ -602,9 +776,7 @@ abstract contract RaffeRaceBetting is RaffeRaceBase {
 
             if (!r.settled) {
                 // Check if any unclaimed bets exist
-                bool hasUnclaimed = (ub.winBet.amount != 0 && !ub.winBet.claimed) ||
-                                   (ub.placeBet.amount != 0 && !ub.placeBet.claimed) ||
-                                   (ub.showBet.amount != 0 && !ub.showBet.claimed);
+                bool hasUnclaimed = !_allBetsClaimed(ub);
                 if (hasUnclaimed) {
                     bool ready = cb != 0 && block.number > cb;
                     bool bhLikelyAvailable = ready && (block.number - cb) <= 256;
@@ -12,6 +12,7 @@ import { RaffeRaceConstants as C } from "./libraries/RaffeRaceConstants.sol";
  * @dev New flow:
  *      1. createRace() - selects lineup, starts odds window (10 blocks)
  *      2. setOdds() - bot sets odds within window, opens betting
+ *         (optionally followed by setExoticProbabilities() for Exacta/Quinella/Trifecta)
  *      3. If no odds within window, race can be cancelled (auto or explicit)
  *      4. settleRace() - settles after betting closes
  */
@@ -86,10 +87,16 @@ abstract contract RaffeRaceLifecycle is RaffeRaceBase {
         // Set odds deadline - bot has ODDS_WINDOW_BLOCKS to set odds
         r.oddsDeadlineBlock = uint64(block.number) + ODDS_WINDOW_BLOCKS;
         
+        // Declare the betting mode; a parimutuel race's take can't change once bets are in
+        if (parimutuelNextRace) {
+            r.parimutuel = true;
+            r.parimutuelTakeBps = houseEdgeBps;
+        }
+        
         // DO NOT set odds here - bot will call setOdds()
         // DO NOT set bettingCloseBlock - that happens in setOdds()
         
-        emit RaceCreated(raceId, r.oddsDeadlineBlock);
+        emit RaceCreated(raceId, r.oddsDeadlineBlock, r.parimutuel);
     }
 
     // ============ Odds Setting ============
@@ -97,6 +104,7 @@ abstract contract RaffeRaceLifecycle is RaffeRaceBase {
     /// @notice Set probabilities for a race - called by raceBot within odds window
     /// @dev Converts probabilities to odds on-chain with house edge applied.
     ///      Opens betting window after odds are calculated and stored.
+    ///      On a parimutuel race these are only a morning line: settlement replaces the Win odds with pool odds.
     ///      Only callable by raceBot address.
     /// @param raceId The race to set probabilities for
     /// @param winProbBps Win probabilities for each lane in basis points (e.g., 1667 = 16.67%)
@@ -141,6 +149,66 @@ abstract contract RaffeRaceLifecycle is RaffeRaceBase {
         emit RaceProbabilitiesSet(raceId, winProbBps, placeProbBps, showProbBps, winOdds, placeOdds, showOdds, r.bettingCloseBlock);
     }
 
+    /// @notice Set exotic probabilities for a race, opening Exacta, Quinella and Trifecta betting
+    /// @dev Only callable by raceBot, after setProbabilities and before betting closes. Optional: a race
+    ///      without exotic odds just doesn't take exotic bets. Grids are indexed like ExoticLib.comboIndex;
+    ///      entries that aren't a valid combination (repeated lanes, quinella pairs not low-high) are ignored.
+    /// @param raceId The race to set probabilities for
+    /// @param exactaProbBps Probability of each 1st-2nd pair finishing in that order, in basis points
+    /// @param quinellaProbBps Probability of each pair finishing 1st-2nd in either order
+    /// @param trifectaProbBps Probability of each 1st-2nd-3rd finishing in that order
+    function setExoticProbabilities(
+        uint256 raceId,
+        uint16[36] calldata exactaProbBps,
+        uint16[36] calldata quinellaProbBps,
+        uint16[216] calldata trifectaProbBps
+    ) external onlyRaceBot {
+        if (raceId >= nextRaceId) revert InvalidRace();
+        
+        Race storage r = _races[raceId];
+        ExoticMarket storage m = _exoticMarkets[raceId];
+        
+        if (m.oddsSet) revert OddsAlreadySet();
+        if (r.cancelled) revert AlreadyCancelled();
+        if (r.settled) revert AlreadySettled();
+        if (!r.oddsSet) revert OddsNotSet();
+        if (block.number >= r.bettingCloseBlock) revert BettingClosed();
+        if (r.parimutuel) revert ParimutuelWinOnly();
+        
+        // Convert probabilities to odds with house edge applied on-chain
+        uint32[36] memory exactaOdds;
+        uint32[36] memory quinellaOdds;
+        uint32[216] memory trifectaOdds;
+        
+        for (uint8 a = 0; a < LANE_COUNT; ) {
+            for (uint8 b = 0; b < LANE_COUNT; ) {
+                if (a != b) {
+                    uint16 pair = uint16(a) * LANE_COUNT + b;
+                    exactaOdds[pair] = OddsLib.probabilityToOdds(exactaProbBps[pair], houseEdgeBps);
+                    if (a < b) {
+                        quinellaOdds[pair] = OddsLib.probabilityToOdds(quinellaProbBps[pair], houseEdgeBps);
+                    }
+                    for (uint8 c = 0; c < LANE_COUNT; ) {
+                        if (c != a && c != b) {
+                            uint16 trio = pair * LANE_COUNT + c;
+                            trifectaOdds[trio] = OddsLib.probabilityToOdds(trifectaProbBps[trio], houseEdgeBps);
+                        }
+                        unchecked { ++c; }
+                    }
+                }
+                unchecked { ++b; }
+            }
+            unchecked { ++a; }
+        }
+        
+        m.exactaOddsBps = exactaOdds;
+        m.quinellaOddsBps = quinellaOdds;
+        m.trifectaOddsBps = trifectaOdds;
+        m.oddsSet = true;
+        
+        emit RaceExoticOddsSet(raceId);
+    }
+
     // ============ Race Cancellation ============
 
     /// @notice Cancel a race that didn't receive odds in time
@@ -220,7 +288,9 @@ abstract contract RaffeRaceLifecycle is RaffeRaceBase {
         // Must have odds set to settle
         if (!r.oddsSet) revert OddsNotSet();
         
-        settledLiability = SettlementLib.settleRace(r, raceId, _raceScore[raceId], simulator, settledLiability);
+        settledLiability = SettlementLib.settleRace(
+            r, _exoticMarkets[raceId], raceId, _raceScore[raceId], simulator, settledLiability
+        );
     }
 
     // ============ Internal Helpers ============
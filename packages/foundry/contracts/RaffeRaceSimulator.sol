@@ -111,6 +111,48 @@ contract RaffeRaceSimulator {
         distances = finishOrder.distances;
     }
 
+    /// @notice Tick-by-tick trace of `simulateFullRace`, for off-chain parity checks (not used by settlement)
+    /// @dev Runs the same `_advanceTick` as settlement. Meant for eth_call only: returns every frame.
+    /// @param seed The deterministic seed for the race
+    /// @param scores Lane scores (1-10)
+    /// @return frames Distances after each tick (frames[t] = state after tick t)
+    /// @return finishTime Precise finish time per lane (tick * FINISH_TIME_PRECISION + fraction)
+    function traceFullRace(bytes32 seed, uint8[LANE_COUNT] memory scores)
+        external
+        pure
+        returns (uint16[LANE_COUNT][] memory frames, uint64[LANE_COUNT] memory finishTime)
+    {
+        uint16[LANE_COUNT] memory bps;
+        for (uint8 a = 0; a < LANE_COUNT; a++) {
+            bps[a] = _scoreBps(scores[a]);
+        }
+
+        uint16[LANE_COUNT] memory distances;
+        for (uint8 i = 0; i < LANE_COUNT; i++) {
+            finishTime[i] = type(uint64).max;
+        }
+
+        frames = new uint16[LANE_COUNT][](MAX_TICKS);
+        uint256 ticks = 0;
+        bool allFinished = false;
+
+        while (ticks < MAX_TICKS && !allFinished) {
+            allFinished = _advanceTick(seed, ticks, bps, distances, finishTime);
+            // Copy by value: memory array assignment would alias `distances`
+            for (uint8 a = 0; a < LANE_COUNT; a++) {
+                frames[ticks][a] = distances[a];
+            }
+            ticks++;
+        }
+
+        require(allFinished, "RaffeRace: race did not finish");
+
+        // Trim the frame array to the ticks actually run
+        assembly ("memory-safe") {
+            mstore(frames, ticks)
+        }
+    }
+
     function _scoreBps(uint8 score) internal pure returns (uint16) {
         // Map score 1..10 -> multiplier in basis points.
         // Clamp score to [1, 10]
@@ -307,59 +349,10 @@ contract RaffeRaceSimulator {
             finishTime[i] = type(uint64).max;
         }
         
-        uint16 finishTarget = TRACK_LENGTH + FINISH_OVERSHOOT;
         bool allFinished = false;
 
         for (uint256 t = 0; t < MAX_TICKS; t++) {
-            // One hash per tick - all entropy we need
-            bytes32 tickEntropy = keccak256(abi.encodePacked(seed, t));
-
-            for (uint256 a = 0; a < LANE_COUNT; a++) {
-                // Speed roll: 1 byte, % 10, gives 0-9, then +1 for 1-10
-                uint256 baseSpeed = (uint8(tickEntropy[a]) % SPEED_RANGE) + 1;
-                
-                // Apply handicap
-                uint256 raw = baseSpeed * uint256(bps[a]);
-                uint256 q = raw / uint256(BPS_DENOM);
-                uint256 rem = raw % uint256(BPS_DENOM);
-                
-                // Probabilistic rounding using 2 bytes for rounding decision
-                if (rem > 0) {
-                    // Extract 2 bytes for this lane's rounding roll (bytes 6-17)
-                    uint256 roundingRoll = (uint256(uint8(tickEntropy[6 + a * 2])) << 8) 
-                                         | uint256(uint8(tickEntropy[7 + a * 2]));
-                    // % BPS_DENOM gives 0-9999
-                    if ((roundingRoll % BPS_DENOM) < rem) {
-                        q += 1;
-                    }
-                }
-                
-                if (q == 0) q = 1;
-                
-                uint16 prevDist = distances[a];
-                distances[a] += uint16(q);
-                
-                // Check if this lane just crossed the finish line THIS tick
-                if (finishTime[a] == type(uint64).max && prevDist < TRACK_LENGTH && distances[a] >= TRACK_LENGTH) {
-                    // Calculate precise finish time using linear interpolation:
-                    // What fraction of this tick did it take to reach exactly TRACK_LENGTH?
-                    // fraction = (TRACK_LENGTH - prevDist) / speed
-                    // Lower fraction = crossed earlier within the tick
-                    uint256 distanceToFinish = uint256(TRACK_LENGTH) - uint256(prevDist);
-                    uint256 speed = q; // The distance moved this tick
-                    uint256 fractional = (distanceToFinish * uint256(FINISH_TIME_PRECISION)) / speed;
-                    finishTime[a] = uint64(t) * FINISH_TIME_PRECISION + uint64(fractional);
-                }
-            }
-
-            // Check if ALL lanes have passed the finish target (finish line + 10)
-            allFinished = true;
-            for (uint8 i = 0; i < LANE_COUNT; i++) {
-                if (distances[i] < finishTarget) {
-                    allFinished = false;
-                    break;
-                }
-            }
+            allFinished = _advanceTick(seed, t, bps, distances, finishTime);
             if (allFinished) break;
         }
 
@@ -370,6 +363,65 @@ contract RaffeRaceSimulator {
         // Determine finish order based on precise finish time
         _calculateFinishOrderByTime(finishTime, distances, finishOrder);
     }
+
+    /// @notice Advance every lane by one tick, recording finish times for lanes that cross this tick
+    /// @dev Shared by `_simulateFullRace` and `traceFullRace` so the trace can never drift from settlement
+    /// @return allFinished True once every lane is FINISH_OVERSHOOT past the finish line
+    function _advanceTick(
+        bytes32 seed,
+        uint256 t,
+        uint16[LANE_COUNT] memory bps,
+        uint16[LANE_COUNT] memory distances,
+        uint64[LANE_COUNT] memory finishTime
+    ) internal pure returns (bool allFinished) {
+        // One hash per tick - all entropy we need
+        bytes32 tickEntropy = keccak256(abi.encodePacked(seed, t));
+
+        for (uint256 a = 0; a < LANE_COUNT; a++) {
+            // Speed roll: 1 byte, % 10, gives 0-9, then +1 for 1-10
+            uint256 baseSpeed = (uint8(tickEntropy[a]) % SPEED_RANGE) + 1;
+
+            // Apply handicap
+            uint256 raw = baseSpeed * uint256(bps[a]);
+            uint256 q = raw / uint256(BPS_DENOM);
+            uint256 rem = raw % uint256(BPS_DENOM);
+
+            // Probabilistic rounding using 2 bytes for rounding decision
+            if (rem > 0) {
+                // Extract 2 bytes for this lane's rounding roll (bytes 6-17)
+                uint256 roundingRoll = (uint256(uint8(tickEntropy[6 + a * 2])) << 8)
+                                     | uint256(uint8(tickEntropy[7 + a * 2]));
+                // % BPS_DENOM gives 0-9999
+                if ((roundingRoll % BPS_DENOM) < rem) {
+                    q += 1;
+                }
+            }
+
+            if (q == 0) q = 1;
+
+            uint16 prevDist = distances[a];
+            distances[a] += uint16(q);
+
+            // Check if this lane just crossed the finish line THIS tick
+            if (finishTime[a] == type(uint64).max && prevDist < TRACK_LENGTH && distances[a] >= TRACK_LENGTH) {
+                // Calculate precise finish time using linear interpolation:
+                // What fraction of this tick did it take to reach exactly TRACK_LENGTH?
+                // fraction = (TRACK_LENGTH - prevDist) / speed
+                // Lower fraction = crossed earlier within the tick
+                uint256 distanceToFinish = uint256(TRACK_LENGTH) - uint256(prevDist);
+                uint256 speed = q; // The distance moved this tick
+                uint256 fractional = (distanceToFinish * uint256(FINISH_TIME_PRECISION)) / speed;
+                finishTime[a] = uint64(t) * FINISH_TIME_PRECISION + uint64(fractional);
+            }
+        }
+
+        // Check if ALL lanes have passed the finish target (finish line + 10)
+        uint16 finishTarget = TRACK_LENGTH + FINISH_OVERSHOOT;
+        for (uint8 i = 0; i < LANE_COUNT; i++) {
+            if (distances[i] < finishTarget) return false;
+        }
+        return true;
+    }
     
     /// @notice Calculate finish positions based on precise finish time (with fractional tick interpolation)
     /// @dev Lower finishTime = crossed finish line earlier = higher position
@@ -2,6 +2,7 @@
 pragma solidity ^0.8.19;
 
 import { RaffeRaceBase } from "./RaffeRaceBase.sol";
+import { OddsLib } from "./libraries/OddsLib.sol";
 import { RaffeRaceConstants as C } from "./libraries/RaffeRaceConstants.sol";
 
 /**
@@ -70,6 +71,43 @@ abstract contract RaffeRaceViews is RaffeRaceBase {
         return (r.oddsSet, r.decimalOddsBps, r.placeOddsBps, r.showOddsBps);
     }
 
+    /// @notice Get exotic odds for a race, indexed like ExoticLib.comboIndex (invalid combinations are 0)
+    function getRaceExoticOddsById(uint256 raceId)
+        external
+        view
+        returns (
+            bool oddsSet,
+            uint32[36] memory exactaOddsBps,
+            uint32[36] memory quinellaOddsBps,
+            uint32[216] memory trifectaOddsBps
+        )
+    {
+        ExoticMarket storage m = _exoticMarkets[raceId];
+        return (m.oddsSet, m.exactaOddsBps, m.quinellaOddsBps, m.trifectaOddsBps);
+    }
+
+    /// @notice Get a race's betting mode and, for a parimutuel race, its Win pool
+    /// @dev Implied odds are what each lane would pay as sole winner if betting closed now; once the race settles,
+    ///      getRaceOddsById has the Win odds claims actually pay
+    /// @return parimutuel True if winners share the pool, false for fixed odds
+    /// @return takeBps The house take from the pool
+    /// @return pool Total staked into the pool
+    /// @return impliedOddsBps Live pool odds per lane (0 for lanes nobody has backed, and on fixed-odds races)
+    function getRacePoolById(uint256 raceId)
+        external
+        view
+        returns (bool parimutuel, uint16 takeBps, uint256 pool, uint32[6] memory impliedOddsBps)
+    {
+        Race storage r = _races[raceId];
+        if (!r.parimutuel) return (false, 0, 0, impliedOddsBps);
+        uint256 netPool = OddsLib.poolAfterTake(r.totalPot, r.parimutuelTakeBps);
+        for (uint8 lane = 0; lane < LANE_COUNT; ) {
+            impliedOddsBps[lane] = OddsLib.poolOdds(netPool, r.totalOnLane[lane]);
+            unchecked { ++lane; }
+        }
+        return (true, r.parimutuelTakeBps, r.totalPot, impliedOddsBps);
+    }
+
     function getRaceDeadHeatById(uint256 raceId)
         external
         view
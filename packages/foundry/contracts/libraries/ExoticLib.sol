@@ -0,0 +1,255 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.19;
+
+import { RaffeRaceBase } from "../RaffeRaceBase.sol";
+import { ClaimLib } from "./ClaimLib.sol";
+import { RaffeRaceConstants as C } from "./RaffeRaceConstants.sol";
+
+/**
+ * @title ExoticLib
+ * @notice Library for exotic bets (Exacta, Quinella, Trifecta): combination indexing, winner detection and liability
+ * @dev Dead heat rule: a tied group covers as many finishing positions as it has lanes, starting at its own
+ *      (two tied for 1st cover 1st and 2nd). Every combination the finish order allows wins, and each one's payout
+ *      is divided by how many combinations of that bet type won - the exotic equivalent of ClaimLib's split by
+ *      tied lanes.
+ *      Uses literals for array sizes (Solidity requirement) - verified via _checkConstants().
+ */
+library ExoticLib {
+    // Literals required for array sizes in function signatures
+    uint8 internal constant LANE_COUNT = 6;
+    uint16 internal constant PAIR_COMBO_COUNT = 36;
+    uint16 internal constant TRIFECTA_COMBO_COUNT = 216;
+
+    /// @dev Verify constants match central source. Called in tests.
+    function _checkConstants() internal pure {
+        assert(LANE_COUNT == C.LANE_COUNT);
+        assert(PAIR_COMBO_COUNT == C.PAIR_COMBO_COUNT);
+        assert(TRIFECTA_COMBO_COUNT == C.TRIFECTA_COMBO_COUNT);
+    }
+
+    /// @notice Validate an exotic bet's lanes and put them in stored form
+    /// @dev Quinella is unordered, so its pair is sorted low-high. Lanes the bet type doesn't use are zeroed.
+    /// @param betType The exotic bet type
+    /// @param lanes The lanes in finishing order
+    /// @return out The lanes as stored on the bet
+    function normalizeLanes(uint8 betType, uint8[3] memory lanes) internal pure returns (uint8[3] memory out) {
+        uint8 picks = betType == C.BET_TYPE_TRIFECTA ? 3 : 2;
+        for (uint8 i = 0; i < picks; ) {
+            if (lanes[i] >= LANE_COUNT) revert RaffeRaceBase.InvalidLane();
+            for (uint8 j = 0; j < i; ) {
+                if (lanes[j] == lanes[i]) revert RaffeRaceBase.InvalidCombination();
+                unchecked { ++j; }
+            }
+            out[i] = lanes[i];
+            unchecked { ++i; }
+        }
+        if (betType == C.BET_TYPE_QUINELLA && out[0] > out[1]) {
+            (out[0], out[1]) = (out[1], out[0]);
+        }
+    }
+
+    /// @notice Index of a combination in the race's odds and stake grids
+    /// @param betType The exotic bet type
+    /// @param lanes Normalized lanes (see normalizeLanes)
+    /// @return index first * 6 + second, times 6 plus third for trifecta
+    function comboIndex(uint8 betType, uint8[3] memory lanes) internal pure returns (uint16 index) {
+        index = uint16(lanes[0]) * LANE_COUNT + lanes[1];
+        if (betType == C.BET_TYPE_TRIFECTA) {
+            index = index * LANE_COUNT + lanes[2];
+        }
+    }
+
+    /// @notice Odds for a combination
+    function oddsFor(
+        RaffeRaceBase.ExoticMarket storage market,
+        uint8 betType,
+        uint16 index
+    ) internal view returns (uint32) {
+        if (betType == C.BET_TYPE_EXACTA) {
+            return market.exactaOddsBps[index];
+        } else if (betType == C.BET_TYPE_QUINELLA) {
+            return market.quinellaOddsBps[index];
+        } else {
+            return market.trifectaOddsBps[index];
+        }
+    }
+
+    /// @notice Total staked on a combination
+    function totalOn(
+        RaffeRaceBase.ExoticMarket storage market,
+        uint8 betType,
+        uint16 index
+    ) internal view returns (uint256) {
+        if (betType == C.BET_TYPE_EXACTA) {
+            return market.totalOnExacta[index];
+        } else if (betType == C.BET_TYPE_QUINELLA) {
+            return market.totalOnQuinella[index];
+        } else {
+            return market.totalOnTrifecta[index];
+        }
+    }
+
+    /// @notice Record a stake on a combination
+    function addStake(
+        RaffeRaceBase.ExoticMarket storage market,
+        uint8 betType,
+        uint16 index,
+        uint256 amount
+    ) internal {
+        if (betType == C.BET_TYPE_EXACTA) {
+            market.totalOnExacta[index] += amount;
+        } else if (betType == C.BET_TYPE_QUINELLA) {
+            market.totalOnQuinella[index] += amount;
+        } else {
+            market.totalOnTrifecta[index] += amount;
+        }
+    }
+
+    /// @notice Which of the first three finishing positions each lane covers
+    /// @dev Bit k set = the lane counts as finishing in position k + 1
+    /// @param race The settled race
+    /// @return masks Position bits per lane
+    function positionMasks(RaffeRaceBase.Race storage race) internal view returns (uint8[6] memory masks) {
+        _markPositions(masks, race.firstPlace, 0);
+        _markPositions(masks, race.secondPlace, 1);
+        _markPositions(masks, race.thirdPlace, 2);
+    }
+
+    function _markPositions(
+        uint8[6] memory masks,
+        RaffeRaceBase.PositionInfo storage position,
+        uint8 start
+    ) private view {
+        uint8 count = position.count;
+        uint8 bits = 0;
+        for (uint8 p = start; p < 3 && p < start + count; ) {
+            bits |= uint8(1) << p;
+            unchecked { ++p; }
+        }
+        for (uint8 i = 0; i < count; ) {
+            masks[position.lanes[i]] |= bits;
+            unchecked { ++i; }
+        }
+    }
+
+    /// @notice Check if a combination wins given the finish order's position masks
+    /// @param masks Position bits per lane (see positionMasks)
+    /// @param betType The exotic bet type
+    /// @param lanes Normalized lanes (see normalizeLanes)
+    /// @return True if the combination wins
+    function isWinningCombo(
+        uint8[6] memory masks,
+        uint8 betType,
+        uint8[3] memory lanes
+    ) internal pure returns (bool) {
+        if (betType == C.BET_TYPE_QUINELLA) {
+            return _pairWins(masks, lanes[0], lanes[1]) || _pairWins(masks, lanes[1], lanes[0]);
+        }
+        if (!_pairWins(masks, lanes[0], lanes[1])) return false;
+        return betType == C.BET_TYPE_EXACTA || (masks[lanes[2]] & 4) != 0;
+    }
+
+    function _pairWins(uint8[6] memory masks, uint8 first, uint8 second) private pure returns (bool) {
+        return (masks[first] & 1) != 0 && (masks[second] & 2) != 0;
+    }
+
+    /// @notice Every winning combination of a bet type
+    /// @dev The count is also the dead heat divisor for that bet type. It's at most 120: a six-way dead heat
+    ///      wins every trifecta (6 * 5 * 4).
+    /// @param masks Position bits per lane (see positionMasks)
+    /// @param betType The exotic bet type
+    /// @return indices Combination indices (only the first `count` are valid)
+    /// @return count Number of winning combinations
+    function winningCombos(
+        uint8[6] memory masks,
+        uint8 betType
+    ) internal pure returns (uint16[120] memory indices, uint8 count) {
+        for (uint8 a = 0; a < LANE_COUNT; ) {
+            if ((masks[a] & 1) == 0) {
+                unchecked { ++a; }
+                continue;
+            }
+            for (uint8 b = 0; b < LANE_COUNT; ) {
+                if (b == a || (masks[b] & 2) == 0) {
+                    unchecked { ++b; }
+                    continue;
+                }
+                uint16 pair = uint16(a) * LANE_COUNT + b;
+                if (betType == C.BET_TYPE_EXACTA) {
+                    indices[count++] = pair;
+                } else if (betType == C.BET_TYPE_QUINELLA) {
+                    // Count each unordered pair once, under its low-high index
+                    if (a < b) {
+                        indices[count++] = pair;
+                    } else if (!_pairWins(masks, b, a)) {
+                        indices[count++] = uint16(b) * LANE_COUNT + a;
+                    }
+                } else {
+                    for (uint8 c = 0; c < LANE_COUNT; ) {
+                        if (c != a && c != b && (masks[c] & 4) != 0) {
+                            indices[count++] = pair * LANE_COUNT + c;
+                        }
+                        unchecked { ++c; }
+                    }
+                }
+                unchecked { ++b; }
+            }
+            unchecked { ++a; }
+        }
+    }
+
+    /// @notice Calculate payout for an exotic bet
+    /// @dev Uses ClaimLib.calculatePayout, the same as calculateExoticLiability
+    /// @param race The settled race
+    /// @param market The race's exotic market
+    /// @param betType The exotic bet type
+    /// @param bet The bet
+    /// @return payout The payout amount (0 for losses)
+    /// @return isWin True if the bet won
+    function calculateExoticPayout(
+        RaffeRaceBase.Race storage race,
+        RaffeRaceBase.ExoticMarket storage market,
+        uint8 betType,
+        RaffeRaceBase.ExoticBet storage bet
+    ) internal view returns (uint256 payout, bool isWin) {
+        uint8[6] memory masks = positionMasks(race);
+        uint8[3] memory lanes = bet.lanes;
+        if (!isWinningCombo(masks, betType, lanes)) return (0, false);
+        isWin = true;
+
+        (, uint8 divisor) = winningCombos(masks, betType);
+        payout = ClaimLib.calculatePayout(
+            uint256(bet.amount),
+            oddsFor(market, betType, comboIndex(betType, lanes)),
+            divisor
+        );
+    }
+
+    /// @notice Calculate total liability for exotic bets
+    /// @dev Uses ClaimLib.calculatePayout to ensure consistency with claim calculations
+    /// @param race The settled race
+    /// @param market The race's exotic market
+    /// @return liability Total Exacta + Quinella + Trifecta liability
+    function calculateExoticLiability(
+        RaffeRaceBase.Race storage race,
+        RaffeRaceBase.ExoticMarket storage market
+    ) internal view returns (uint256 liability) {
+        // No exotic odds means no exotic bets
+        if (!market.oddsSet) return 0;
+
+        uint8[6] memory masks = positionMasks(race);
+        for (uint8 betType = C.BET_TYPE_EXACTA; betType <= C.BET_TYPE_TRIFECTA; ) {
+            (uint16[120] memory indices, uint8 count) = winningCombos(masks, betType);
+            for (uint8 i = 0; i < count; ) {
+                // Use the SAME calculatePayout function used at claim time
+                liability += ClaimLib.calculatePayout(
+                    totalOn(market, betType, indices[i]),
+                    oddsFor(market, betType, indices[i]),
+                    count
+                );
+                unchecked { ++i; }
+            }
+            unchecked { ++betType; }
+        }
+    }
+}
@@ -120,6 +120,26 @@ library OddsLib {
         }
     }
 
+    /// @notice What's left of a parimutuel pool for winners after the house take
+    /// @param pool Total staked into the pool
+    /// @param takeBps House take in basis points
+    /// @return netPool The amount shared among winning stakes
+    function poolAfterTake(uint256 pool, uint16 takeBps) internal pure returns (uint256 netPool) {
+        return (pool * uint256(ODDS_SCALE - takeBps)) / ODDS_SCALE;
+    }
+
+    /// @notice Decimal odds that pay a share of a parimutuel pool to everything staked on a lane
+    /// @dev Rounds down, so payouts never add up to more than the share. Capped at uint32 max (a lane holding
+    ///      under 1/429,000th of the pool); anything the cap withholds stays with the house.
+    /// @param share The part of the net pool this lane's stakes split
+    /// @param laneStake Total staked on the lane
+    /// @return oddsDecimalBps Decimal odds in basis points, 0 if nothing is staked on the lane
+    function poolOdds(uint256 share, uint256 laneStake) internal pure returns (uint32 oddsDecimalBps) {
+        if (laneStake == 0) return 0;
+        uint256 odds = (share * ODDS_SCALE) / laneStake;
+        return odds > type(uint32).max ? type(uint32).max : uint32(odds);
+    }
+
     /// @notice Calculate effective score from NFT stats
     /// @dev Equally-weighted average of zip, moxie, hustle, rounded to nearest integer
     /// @param zip Speed stat (1-10)
@@ -47,6 +47,15 @@ library RaffeRaceConstants {
     uint8 internal constant BET_TYPE_WIN = 0;
     uint8 internal constant BET_TYPE_PLACE = 1;
     uint8 internal constant BET_TYPE_SHOW = 2;
+    uint8 internal constant BET_TYPE_EXACTA = 3;
+    uint8 internal constant BET_TYPE_QUINELLA = 4;
+    uint8 internal constant BET_TYPE_TRIFECTA = 5;
+
+    /// @notice Size of the exacta/quinella odds grid (index = first * LANE_COUNT + second)
+    uint16 internal constant PAIR_COMBO_COUNT = 36;
+
+    /// @notice Size of the trifecta odds grid (index = (first * LANE_COUNT + second) * LANE_COUNT + third)
+    uint16 internal constant TRIFECTA_COMBO_COUNT = 216;
 
     // ============ Phase Schedule ============
     
@@ -4,6 +4,8 @@ pragma solidity ^0.8.19;
 import { RaffeRaceBase } from "../RaffeRaceBase.sol";
 import { RaffeRaceSimulator } from "../RaffeRaceSimulator.sol";
 import { ClaimLib } from "./ClaimLib.sol";
+import { ExoticLib } from "./ExoticLib.sol";
+import { OddsLib } from "./OddsLib.sol";
 import { RaffeRaceConstants as C } from "./RaffeRaceConstants.sol";
 
 /**
@@ -15,6 +17,7 @@ library SettlementLib {
     /// @notice Settle a race - determines winner(s) and records liability
     /// @dev Can be called from both settleRace() and on-demand during claims
     /// @param race The race struct to settle
+    /// @param exoticMarket The race's exotic market (liability only; empty if exotic odds were never set)
     /// @param raceId The race ID
     /// @param raceScore The scores for each lane
     /// @param simulator The simulator contract
@@ -22,6 +25,7 @@ library SettlementLib {
     /// @return newSettledLiability The updated settled liability
     function settleRace(
         RaffeRaceBase.Race storage race,
+        RaffeRaceBase.ExoticMarket storage exoticMarket,
         uint256 raceId,
         uint8[6] storage raceScore,
         RaffeRaceSimulator simulator,
@@ -75,7 +79,13 @@ library SettlementLib {
             race.finalDistances[i] = finishOrder.distances[i];
         }
 
-        // Record liability for payouts (Win + Place + Show)
+        // A parimutuel race's Win odds come from its pool, so claims and liability below price it like any race
+        if (race.parimutuel) {
+            _setPoolOdds(race);
+            emit RaffeRaceBase.ParimutuelPoolSettled(raceId, race.totalPot, race.decimalOddsBps);
+        }
+
+        // Record liability for payouts (Win + Place + Show + exotics)
         newSettledLiability = settledLiability;
         if (race.totalPot != 0) {
             uint256 raceLiability = 0;
@@ -85,6 +95,8 @@ library SettlementLib {
             raceLiability += ClaimLib.calculatePlaceLiability(race);
             // Show bet liability
             raceLiability += ClaimLib.calculateShowLiability(race);
+            // Exacta + Quinella + Trifecta liability
+            raceLiability += ExoticLib.calculateExoticLiability(race, exoticMarket);
             
             newSettledLiability += raceLiability;
             race.unclaimedLiability = raceLiability; // Track for expiration cleanup
@@ -97,4 +109,34 @@ library SettlementLib {
             emit RaffeRaceBase.RaceSettled(raceId, simSeed, race.winner);
         }
     }
+
+    /// @notice Replace a settled parimutuel race's Win odds with what its pool pays
+    /// @dev Winning stakes split the pool after the take. In a dead heat each backed winner's stakes get an equal
+    ///      part of it, scaled up by deadHeatCount to undo the divisor claims apply; a tied lane nobody backed
+    ///      gets no part. Losing lanes get the odds they'd have paid as sole winner, for display. If no winner
+    ///      was backed, the house keeps the pool.
+    /// @param race The race being settled (finish order already recorded)
+    function _setPoolOdds(RaffeRaceBase.Race storage race) private {
+        uint256 netPool = OddsLib.poolAfterTake(race.totalPot, race.parimutuelTakeBps);
+        uint8 winnerCount = race.deadHeatCount;
+
+        uint8 backedWinners = 0;
+        for (uint8 i = 0; i < winnerCount; ) {
+            if (race.totalOnLane[race.winners[i]] != 0) backedWinners++;
+            unchecked { ++i; }
+        }
+
+        for (uint8 lane = 0; lane < C.LANE_COUNT; ) {
+            race.decimalOddsBps[lane] = OddsLib.poolOdds(netPool, race.totalOnLane[lane]);
+            unchecked { ++lane; }
+        }
+        if (winnerCount <= 1 || backedWinners == 0) return;
+
+        uint256 share = (netPool * winnerCount) / backedWinners;
+        for (uint8 i = 0; i < winnerCount; ) {
+            uint8 lane = race.winners[i];
+            race.decimalOddsBps[lane] = OddsLib.poolOdds(share, race.totalOnLane[lane]);
+            unchecked { ++i; }
+        }
+    }
 }
@@ -311,6 +311,45 @@ function main() {
   console.log(
     `📝 Updated TypeScript contract definition file on ${NEXTJS_TARGET_DIR}deployedContracts.ts`
   );
+
+  writeRaceCoreDeployments(allGeneratedContracts);
+}
+
+/**
+ * RaffeRace's ABI and per-chain deployments for the Node services (bot, indexer), written into race-core so they
+ * don't build against the Next.js app's generated file. The ABI is the same on every chain.
+ */
+function writeRaceCoreDeployments(allGeneratedContracts) {
+  const RACE_CORE_TARGET = "../race-core/src/raffeRaceDeployments.ts";
+
+  const deployments = {};
+  let abi;
+  Object.entries(allGeneratedContracts).forEach(([chainId, contracts]) => {
+    const raffeRace = contracts.RaffeRace;
+    if (!raffeRace) return;
+    abi ??= raffeRace.abi;
+    deployments[parseInt(chainId).toFixed(0)] = {
+      address: raffeRace.address,
+      deployedOnBlock: raffeRace.deployedOnBlock,
+    };
+  });
+  if (!abi) {
+    console.warn("RaffeRace was not deployed on any chain; left race-core deployments untouched");
+    return;
+  }
+
+  const content = `
+    ${generatedContractComment}
+    import { Address } from "viem";
+
+    export const raffeRaceAbi = ${JSON.stringify(abi, null, 2)} as const;
+
+    export const raffeRaceDeployments: Record<number, { address: Address; deployedOnBlock?: number } | undefined> =
+      ${JSON.stringify(deployments, null, 2)};
+  `;
+  writeFileSync(RACE_CORE_TARGET, format(content, { parser: "typescript" }));
+
+  console.log(`📝 Updated RaffeRace ABI and deployments on ${RACE_CORE_TARGET}`);
 }
 
 try {
@@ -7,6 +7,8 @@ import { RaffeNFT } from "../contracts/RaffeNFT.sol";
 import { RaffeRaceSimulator } from "../contracts/RaffeRaceSimulator.sol";
 import { HouseTreasury } from "../contracts/HouseTreasury.sol";
 import { MockUSDC } from "../contracts/MockUSDC.sol";
+import { RaffeRaceBase } from "../contracts/RaffeRaceBase.sol";
+import { ExoticLib } from "../contracts/libraries/ExoticLib.sol";
 
 /**
  * @title RaffeRaceTest
@@ -658,5 +660,499 @@ contract RaffeRaceTest is Test {
         assertEq(tokenIds[0], tokens[6]);
         assertEq(tokenIds[1], tokens[7]);
     }
-    
+
+    // ============ Permit Betting Tests ============
+
+    bytes32 constant PERMIT_TYPEHASH =
+        keccak256("Permit(address owner,address spender,uint256 value,uint256 nonce,uint256 deadline)");
+
+    /// @notice Sign an EIP-2612 permit letting the treasury spend `value` of `holder`'s USDC
+    function _signPermit(uint256 key, address holder, uint256 value, uint256 deadline)
+        internal
+        view
+        returns (uint8 v, bytes32 r, bytes32 s)
+    {
+        bytes32 structHash =
+            keccak256(abi.encode(PERMIT_TYPEHASH, holder, address(treasury), value, usdc.nonces(holder), deadline));
+        return vm.sign(key, keccak256(abi.encodePacked("\x19\x01", usdc.DOMAIN_SEPARATOR(), structHash)));
+    }
+
+    function test_PlaceBetWithPermit() public {
+        (address bettor, uint256 key) = makeAddrAndKey("permitBettor");
+        vm.prank(owner);
+        usdc.mint(bettor, 10_000_000);
+        assertEq(usdc.allowance(bettor, address(treasury)), 0);
+
+        vm.prank(owner);
+        uint256 raceId = _createRaceAndSetProbabilities();
+
+        // One permit covers all three bets; only the first goes through placeBetWithPermit
+        uint256 deadline = block.timestamp + 1 hours;
+        (uint8 v, bytes32 r, bytes32 s) = _signPermit(key, bettor, 3_000_000, deadline);
+        vm.prank(bettor);
+        raffeRace.placeBetWithPermit(0, 1_000_000, 0, 3_000_000, deadline, v, r, s);
+
+        assertEq(usdc.nonces(bettor), 1);
+        assertEq(usdc.allowance(bettor, address(treasury)), 2_000_000);
+        assertEq(usdc.balanceOf(bettor), 9_000_000);
+
+        vm.startPrank(bettor);
+        raffeRace.placeBet(1, 1_000_000, 1);
+        raffeRace.placeBet(2, 1_000_000, 2);
+        vm.stopPrank();
+
+        (uint128 winAmount, uint8 winLane,, uint128 placeAmount,,, uint128 showAmount, uint8 showLane,) =
+            raffeRace.getUserBetsById(raceId, bettor);
+        assertEq(winAmount, 1_000_000);
+        assertEq(winLane, 0);
+        assertEq(placeAmount, 1_000_000);
+        assertEq(showAmount, 1_000_000);
+        assertEq(showLane, 2);
+        assertEq(usdc.allowance(bettor, address(treasury)), 0);
+    }
+
+    function test_PlaceBetWithPermitAfterFrontRun() public {
+        (address bettor, uint256 key) = makeAddrAndKey("permitBettor");
+        vm.prank(owner);
+        usdc.mint(bettor, 10_000_000);
+
+        vm.prank(owner);
+        uint256 raceId = _createRaceAndSetProbabilities();
+
+        uint256 deadline = block.timestamp + 1 hours;
+        (uint8 v, bytes32 r, bytes32 s) = _signPermit(key, bettor, 1_000_000, deadline);
+
+        // Someone lifts the signature from the mempool and uses it first: the bet must still go through
+        vm.prank(user2);
+        usdc.permit(bettor, address(treasury), 1_000_000, deadline, v, r, s);
+
+        vm.prank(bettor);
+        raffeRace.placeBetWithPermit(3, 1_000_000, 0, 1_000_000, deadline, v, r, s);
+
+        (uint128 amount, uint8 lane,) = raffeRace.getBetById(raceId, bettor);
+        assertEq(amount, 1_000_000);
+        assertEq(lane, 3);
+    }
+
+    function test_PlaceBetWithPermitFailsWithoutAllowance() public {
+        (address bettor, uint256 key) = makeAddrAndKey("permitBettor");
+        vm.prank(owner);
+        usdc.mint(bettor, 10_000_000);
+
+        vm.prank(owner);
+        _createRaceAndSetProbabilities();
+
+        // Expired signature: the permit is skipped and there is no allowance for collectBet to use
+        uint256 deadline = block.timestamp - 1;
+        (uint8 v, bytes32 r, bytes32 s) = _signPermit(key, bettor, 1_000_000, deadline);
+        vm.prank(bettor);
+        vm.expectRevert();
+        raffeRace.placeBetWithPermit(0, 1_000_000, 0, 1_000_000, deadline, v, r, s);
+
+        // Signed by someone other than the holder
+        (, uint256 otherKey) = makeAddrAndKey("notTheBettor");
+        (v, r, s) = _signPermit(otherKey, bettor, 1_000_000, block.timestamp + 1 hours);
+        vm.prank(bettor);
+        vm.expectRevert();
+        raffeRace.placeBetWithPermit(0, 1_000_000, 0, 1_000_000, block.timestamp + 1 hours, v, r, s);
+
+        assertEq(usdc.balanceOf(bettor), 10_000_000);
+    }
+
+    // ============ Exotic Betting Tests ============
+
+    uint8 constant EXACTA = 3;
+    uint8 constant QUINELLA = 4;
+    uint8 constant TRIFECTA = 5;
+
+    /// @notice Set uniform exotic probabilities: 1/30 per exacta, 1/15 per quinella, 1/120 per trifecta
+    function _setUniformExoticProbabilities(uint256 raceId) internal {
+        uint16[36] memory exacta;
+        uint16[36] memory quinella;
+        uint16[216] memory trifecta;
+        for (uint256 i = 0; i < 36; i++) {
+            exacta[i] = 333;
+            quinella[i] = 667;
+        }
+        for (uint256 i = 0; i < 216; i++) {
+            trifecta[i] = 83;
+        }
+        vm.prank(bot);
+        raffeRace.setExoticProbabilities(raceId, exacta, quinella, trifecta);
+    }
+
+    /// @notice True if `lane` can be counted in finishing position `pos` (0-based) - independent of ExoticLib
+    function _covers(
+        uint8[6] memory firstLanes,
+        uint8 firstCount,
+        uint8[6] memory secondLanes,
+        uint8 secondCount,
+        uint8[6] memory thirdLanes,
+        uint8 thirdCount,
+        uint8 lane,
+        uint8 pos
+    ) internal pure returns (bool) {
+        for (uint8 i = 0; i < firstCount; i++) {
+            if (firstLanes[i] == lane) return pos < firstCount;
+        }
+        for (uint8 i = 0; i < secondCount; i++) {
+            if (secondLanes[i] == lane) return pos >= 1 && pos < 1 + secondCount;
+        }
+        for (uint8 i = 0; i < thirdCount; i++) {
+            if (thirdLanes[i] == lane) return pos == 2;
+        }
+        return false;
+    }
+
+    function test_SetExoticProbabilities() public {
+        vm.prank(owner);
+        uint256 raceId = raffeRace.createRace();
+        uint16[36] memory pairs;
+        uint16[216] memory trios;
+
+        // Needs the Win/Place/Show odds first
+        vm.prank(bot);
+        vm.expectRevert(RaffeRaceBase.OddsNotSet.selector);
+        raffeRace.setExoticProbabilities(raceId, pairs, pairs, trios);
+
+        vm.prank(bot);
+        raffeRace.setProbabilities(raceId, defaultWinProb, defaultPlaceProb, defaultShowProb);
+
+        // Only the race bot
+        vm.prank(user1);
+        vm.expectRevert(RaffeRaceBase.NotRaceBot.selector);
+        raffeRace.setExoticProbabilities(raceId, pairs, pairs, trios);
+
+        _setUniformExoticProbabilities(raceId);
+
+        (bool oddsSet, uint32[36] memory exactaOdds, uint32[36] memory quinellaOdds, uint32[216] memory trifectaOdds) =
+            raffeRace.getRaceExoticOddsById(raceId);
+        assertTrue(oddsSet);
+        // 10% edge: 0.9 / p
+        assertEq(exactaOdds[0 * 6 + 1], 270270);
+        assertEq(exactaOdds[1 * 6 + 0], 270270);
+        assertEq(quinellaOdds[0 * 6 + 1], 134932);
+        assertEq(trifectaOdds[(0 * 6 + 1) * 6 + 2], 1084337);
+        // Combinations that can't happen have no odds
+        assertEq(exactaOdds[2 * 6 + 2], 0);
+        assertEq(quinellaOdds[1 * 6 + 0], 0);
+        assertEq(trifectaOdds[(0 * 6 + 1) * 6 + 0], 0);
+
+        // Only once
+        vm.prank(bot);
+        vm.expectRevert(RaffeRaceBase.OddsAlreadySet.selector);
+        raffeRace.setExoticProbabilities(raceId, pairs, pairs, trios);
+    }
+
+    function test_SetExoticProbabilitiesFailsAfterBettingCloses() public {
+        vm.prank(owner);
+        uint256 raceId = _createRaceAndSetProbabilities();
+        (, uint64 bettingCloseBlock,) = raffeRace.getRaceScheduleById(raceId);
+        vm.roll(bettingCloseBlock);
+
+        uint16[36] memory pairs;
+        uint16[216] memory trios;
+        vm.prank(bot);
+        vm.expectRevert(RaffeRaceBase.BettingClosed.selector);
+        raffeRace.setExoticProbabilities(raceId, pairs, pairs, trios);
+    }
+
+    function test_PlaceExoticBets() public {
+        vm.prank(owner);
+        uint256 raceId = _createRaceAndSetProbabilities();
+
+        // No exotic odds yet
+        vm.prank(user1);
+        vm.expectRevert(RaffeRaceBase.OddsNotSet.selector);
+        raffeRace.placeExoticBet([uint8(2), 1, 0], 1_000_000, EXACTA);
+
+        _setUniformExoticProbabilities(raceId);
+
+        vm.startPrank(user1);
+        raffeRace.placeExoticBet([uint8(2), 1, 5], 1_000_000, EXACTA);
+        raffeRace.placeExoticBet([uint8(4), 1, 0], 2_000_000, QUINELLA);
+        raffeRace.placeExoticBet([uint8(5), 0, 3], 3_000_000, TRIFECTA);
+
+        // One bet per type per race
+        vm.expectRevert(RaffeRaceBase.AlreadyBet.selector);
+        raffeRace.placeExoticBet([uint8(0), 1, 0], 1_000_000, EXACTA);
+        vm.stopPrank();
+
+        (RaffeRaceBase.ExoticBet memory exacta, RaffeRaceBase.ExoticBet memory quinella, RaffeRaceBase.ExoticBet memory trifecta) =
+            raffeRace.getUserExoticBetsById(raceId, user1);
+        assertEq(exacta.amount, 1_000_000);
+        assertEq(exacta.lanes[0], 2);
+        assertEq(exacta.lanes[1], 1);
+        assertEq(exacta.lanes[2], 0); // Unused third lane is dropped
+        // Quinella is stored low-high
+        assertEq(quinella.amount, 2_000_000);
+        assertEq(quinella.lanes[0], 1);
+        assertEq(quinella.lanes[1], 4);
+        assertEq(trifecta.amount, 3_000_000);
+        assertEq(trifecta.lanes[0], 5);
+        assertEq(trifecta.lanes[1], 0);
+        assertEq(trifecta.lanes[2], 3);
+
+        (,,,, uint256 totalPot,) = raffeRace.getRaceById(raceId);
+        assertEq(totalPot, 6_000_000);
+        assertEq(usdc.balanceOf(user1), 10_000_000_000 - 6_000_000);
+    }
+
+    function test_PlaceExoticBetRejectsInvalidCombination() public {
+        vm.prank(owner);
+        uint256 raceId = _createRaceAndSetProbabilities();
+        _setUniformExoticProbabilities(raceId);
+
+        vm.startPrank(user1);
+        vm.expectRevert(RaffeRaceBase.InvalidCombination.selector);
+        raffeRace.placeExoticBet([uint8(3), 3, 0], 1_000_000, EXACTA);
+
+        vm.expectRevert(RaffeRaceBase.InvalidCombination.selector);
+        raffeRace.placeExoticBet([uint8(1), 2, 1], 1_000_000, TRIFECTA);
+
+        vm.expectRevert(RaffeRaceBase.InvalidLane.selector);
+        raffeRace.placeExoticBet([uint8(0), 6, 0], 1_000_000, QUINELLA);
+
+        // Win/Place/Show go through placeBet, and exotics only through placeExoticBet
+        vm.expectRevert(RaffeRaceBase.InvalidBetType.selector);
+        raffeRace.placeExoticBet([uint8(0), 1, 2], 1_000_000, 2);
+        vm.expectRevert(RaffeRaceBase.InvalidBetType.selector);
+        raffeRace.placeBet(0, 1_000_000, EXACTA);
+        vm.stopPrank();
+    }
+
+    /// @notice Every trifecta, exacta and quinella gets a 1 USDC bet; settlement liability and claims must both
+    ///         match the winners worked out from the stored finish order
+    function test_ExoticSettlementAndClaims() public {
+        vm.prank(owner);
+        uint256 raceId = _createRaceAndSetProbabilities();
+        _setUniformExoticProbabilities(raceId);
+        (bool oddsSet, uint32[36] memory exactaOdds, uint32[36] memory quinellaOdds, uint32[216] memory trifectaOdds) =
+            raffeRace.getRaceExoticOddsById(raceId);
+        assertTrue(oddsSet);
+
+        // One bettor per trifecta; the first trifecta of each pair also carries that pair's exacta and quinella
+        address[216] memory bettors;
+        for (uint8 a = 0; a < 6; a++) {
+            for (uint8 b = 0; b < 6; b++) {
+                if (a == b) continue;
+                bool pairPlaced = false;
+                for (uint8 c = 0; c < 6; c++) {
+                    if (c == a || c == b) continue;
+                    uint256 trio = (uint256(a) * 6 + b) * 6 + c;
+                    address bettor = address(uint160(0x10000 + trio));
+                    bettors[trio] = bettor;
+                    vm.prank(owner);
+                    usdc.mint(bettor, 3_000_000);
+                    vm.startPrank(bettor);
+                    usdc.approve(address(treasury), type(uint256).max);
+                    raffeRace.placeExoticBet([a, b, c], 1_000_000, TRIFECTA);
+                    if (!pairPlaced) {
+                        raffeRace.placeExoticBet([a, b, 0], 1_000_000, EXACTA);
+                        if (a < b) raffeRace.placeExoticBet([a, b, 0], 1_000_000, QUINELLA);
+                        pairPlaced = true;
+                    }
+                    vm.stopPrank();
+                }
+            }
+        }
+
+        (, uint64 bettingCloseBlock,) = raffeRace.getRaceScheduleById(raceId);
+        vm.roll(bettingCloseBlock + 1);
+        uint256 liabilityBefore = raffeRace.settledLiability();
+        raffeRace.settleRace();
+
+        (
+            uint8[6] memory firstLanes,
+            uint8 firstCount,
+            uint8[6] memory secondLanes,
+            uint8 secondCount,
+            uint8[6] memory thirdLanes,
+            uint8 thirdCount,
+        ) = raffeRace.getRaceFinishOrderById(raceId);
+
+        // Winning combinations, counted by brute force
+        bool[216] memory trifectaWins;
+        bool[36] memory exactaWins;
+        uint256 trifectaCount;
+        uint256 exactaCount;
+        for (uint8 a = 0; a < 6; a++) {
+            for (uint8 b = 0; b < 6; b++) {
+                if (a == b) continue;
+                if (
+                    !_covers(firstLanes, firstCount, secondLanes, secondCount, thirdLanes, thirdCount, a, 0) ||
+                    !_covers(firstLanes, firstCount, secondLanes, secondCount, thirdLanes, thirdCount, b, 1)
+                ) continue;
+                exactaWins[a * 6 + b] = true;
+                exactaCount++;
+                for (uint8 c = 0; c < 6; c++) {
+                    if (c == a || c == b) continue;
+                    if (!_covers(firstLanes, firstCount, secondLanes, secondCount, thirdLanes, thirdCount, c, 2)) continue;
+                    trifectaWins[(uint256(a) * 6 + b) * 6 + c] = true;
+                    trifectaCount++;
+                }
+            }
+        }
+        uint256 quinellaCount;
+        for (uint8 a = 0; a < 6; a++) {
+            for (uint8 b = a + 1; b < 6; b++) {
+                if (exactaWins[a * 6 + b] || exactaWins[b * 6 + a]) quinellaCount++;
+            }
+        }
+        assertGt(trifectaCount, 0);
+
+        uint256 expectedLiability;
+        for (uint8 a = 0; a < 6; a++) {
+            for (uint8 b = 0; b < 6; b++) {
+                if (a == b) continue;
+                uint256 pair = uint256(a) * 6 + b;
+                if (exactaWins[pair]) expectedLiability += uint256(1_000_000) * exactaOdds[pair] / 10_000 / exactaCount;
+                if (a < b && (exactaWins[pair] || exactaWins[uint256(b) * 6 + a])) {
+                    expectedLiability += uint256(1_000_000) * quinellaOdds[pair] / 10_000 / quinellaCount;
+                }
+                for (uint8 c = 0; c < 6; c++) {
+                    uint256 trio = pair * 6 + c;
+                    if (trifectaWins[trio]) {
+                        expectedLiability += uint256(1_000_000) * trifectaOdds[trio] / 10_000 / trifectaCount;
+                    }
+                }
+            }
+        }
+        assertEq(raffeRace.settledLiability() - liabilityBefore, expectedLiability);
+
+        // Claiming every winning bet pays out exactly the recorded liability
+        uint256 paid;
+        for (uint256 trio = 0; trio < 216; trio++) {
+            address bettor = bettors[trio];
+            if (bettor == address(0)) continue;
+            uint256 wins = raffeRace.getWinningClaimRemaining(bettor);
+            for (uint256 i = 0; i < wins; i++) {
+                vm.prank(bettor);
+                paid += raffeRace.claimNextWinningPayout();
+            }
+        }
+        assertEq(paid, expectedLiability);
+        assertEq(raffeRace.settledLiability(), liabilityBefore);
+    }
+
+    function test_ExoticDeadHeatCombos() public pure {
+        // Lanes 0 and 1 dead heat for 1st (covering 1st and 2nd), lane 2 is 3rd
+        uint8[6] memory masks = [uint8(3), 3, 4, 0, 0, 0];
+        (uint16[120] memory indices, uint8 count) = ExoticLib.winningCombos(masks, EXACTA);
+        assertEq(count, 2);
+        assertEq(indices[0], 0 * 6 + 1);
+        assertEq(indices[1], 1 * 6 + 0);
+        (indices, count) = ExoticLib.winningCombos(masks, QUINELLA);
+        assertEq(count, 1);
+        assertEq(indices[0], 0 * 6 + 1);
+        (, count) = ExoticLib.winningCombos(masks, TRIFECTA);
+        assertEq(count, 2);
+        assertTrue(ExoticLib.isWinningCombo(masks, TRIFECTA, [uint8(1), 0, 2]));
+        assertFalse(ExoticLib.isWinningCombo(masks, TRIFECTA, [uint8(0), 2, 1]));
+
+        // Lane 3 wins, lanes 4 and 5 dead heat for 2nd (covering 2nd and 3rd)
+        masks = [uint8(0), 0, 0, 1, 6, 6];
+        (, count) = ExoticLib.winningCombos(masks, EXACTA);
+        assertEq(count, 2);
+        (indices, count) = ExoticLib.winningCombos(masks, QUINELLA);
+        assertEq(count, 2);
+        assertEq(indices[0], 3 * 6 + 4);
+        assertEq(indices[1], 3 * 6 + 5);
+        (, count) = ExoticLib.winningCombos(masks, TRIFECTA);
+        assertEq(count, 2);
+        assertFalse(ExoticLib.isWinningCombo(masks, EXACTA, [uint8(4), 5, 0]));
+        assertTrue(ExoticLib.isWinningCombo(masks, QUINELLA, [uint8(3), 5, 0]));
+    }
+
+    // ============ Parimutuel Tests ============
+
+    function test_ParimutuelModeDeclaredAtCreation() public {
+        vm.prank(user1);
+        vm.expectRevert(RaffeRaceBase.NotTreasuryOwner.selector);
+        raffeRace.setParimutuelNextRace(true);
+
+        vm.prank(owner);
+        raffeRace.setParimutuelNextRace(true);
+        assertTrue(raffeRace.parimutuelNextRace());
+
+        uint256 raceId = raffeRace.createRace();
+
+        (bool parimutuel, uint16 takeBps, uint256 pool,) = raffeRace.getRacePoolById(raceId);
+        assertTrue(parimutuel);
+        assertEq(takeBps, raffeRace.houseEdgeBps());
+        assertEq(pool, 0);
+
+        // Changing the house edge later doesn't touch the race's take
+        vm.prank(owner);
+        raffeRace.setHouseEdgeBps(takeBps + 100);
+        (, takeBps,,) = raffeRace.getRacePoolById(raceId);
+        assertEq(takeBps, raffeRace.houseEdgeBps() - 100);
+    }
+
+    function test_ParimutuelRaceTakesWinBetsOnly() public {
+        vm.prank(owner);
+        raffeRace.setParimutuelNextRace(true);
+        uint256 raceId = _createRaceAndSetProbabilities();
+
+        vm.expectRevert(RaffeRaceBase.ParimutuelWinOnly.selector);
+        _setUniformExoticProbabilities(raceId);
+
+        vm.startPrank(user1);
+        vm.expectRevert(RaffeRaceBase.ParimutuelWinOnly.selector);
+        raffeRace.placeBet(0, 1_000_000, 1);
+        vm.expectRevert(RaffeRaceBase.ParimutuelWinOnly.selector);
+        raffeRace.placeBet(0, 1_000_000, 2);
+        vm.expectRevert(RaffeRaceBase.ParimutuelWinOnly.selector);
+        raffeRace.placeExoticBet([uint8(0), 1, 0], 1_000_000, EXACTA);
+        raffeRace.placeBet(0, 1_000_000, 0);
+        vm.stopPrank();
+    }
+
+    /// @notice Every lane is backed, so whichever lanes win split the pool after the take between them
+    function test_ParimutuelPoolPaysWinnersAfterTake() public {
+        vm.prank(owner);
+        raffeRace.setParimutuelNextRace(true);
+        uint256 raceId = _createRaceAndSetProbabilities();
+
+        address[6] memory bettors;
+        uint256 pool;
+        for (uint8 lane = 0; lane < 6; lane++) {
+            bettors[lane] = address(uint160(0x20000 + lane));
+            uint256 amount = (uint256(lane) + 1) * 500_000;
+            vm.prank(owner);
+            usdc.mint(bettors[lane], amount);
+            vm.startPrank(bettors[lane]);
+            usdc.approve(address(treasury), type(uint256).max);
+            raffeRace.placeBet(lane, amount, 0);
+            vm.stopPrank();
+            pool += amount;
+        }
+
+        (, uint16 takeBps, uint256 poolView, uint32[6] memory impliedOdds) = raffeRace.getRacePoolById(raceId);
+        uint256 netPool = pool * (10_000 - takeBps) / 10_000;
+        assertEq(poolView, pool);
+        // Lane 0 holds 1/21 of the pool
+        assertEq(impliedOdds[0], netPool * 10_000 / 500_000);
+
+        (, uint64 bettingCloseBlock,) = raffeRace.getRaceScheduleById(raceId);
+        vm.roll(bettingCloseBlock + 1);
+        uint256 liabilityBefore = raffeRace.settledLiability();
+        raffeRace.settleRace();
+        uint256 liability = raffeRace.settledLiability() - liabilityBefore;
+        assertLe(liability, netPool);
+
+        (uint8[6] memory firstLanes, uint8 firstCount,,,,,) = raffeRace.getRaceFinishOrderById(raceId);
+        uint256 paid;
+        for (uint8 i = 0; i < firstCount; i++) {
+            address bettor = bettors[firstLanes[i]];
+            vm.prank(bettor);
+            uint256 payout = raffeRace.claimNextWinningPayout();
+            // Each winning lane's stakes share an equal part of the pool, rounded down
+            assertLe(payout, netPool / firstCount);
+            assertApproxEqAbs(payout, netPool / firstCount, 1_000);
+            paid += payout;
+        }
+        assertEq(paid, liability);
+        assertEq(raffeRace.settledLiability(), liabilityBefore);
+    }
 }
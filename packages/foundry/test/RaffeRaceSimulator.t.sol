@@ -0,0 +1,72 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.19;
+
+import "forge-std/Test.sol";
+import { RaffeRaceSimulator } from "../contracts/RaffeRaceSimulator.sol";
+
+/**
+ * @title RaffeRaceSimulatorTest
+ * @notice traceFullRace must describe exactly the race simulateFullRace settles
+ * @dev The TS parity harness (packages/nextjs/scripts/check-sim-parity.ts) relies on this
+ */
+contract RaffeRaceSimulatorTest is Test {
+    RaffeRaceSimulator simulator;
+
+    function setUp() public {
+        simulator = new RaffeRaceSimulator();
+    }
+
+    function _assertTraceMatches(bytes32 seed, uint8[6] memory scores) internal view {
+        RaffeRaceSimulator.FinishOrder memory fo = simulator.simulateFullRace(seed, scores);
+        (uint16[6][] memory frames, uint64[6] memory finishTime) = simulator.traceFullRace(seed, scores);
+
+        assertGt(frames.length, 0);
+        uint16[6] memory last = frames[frames.length - 1];
+        for (uint8 a = 0; a < 6; a++) {
+            assertEq(last[a], fo.distances[a], "final distance");
+            assertGe(last[a], 1010, "ran past the overshoot");
+            assertLt(finishTime[a], type(uint64).max, "every lane finished");
+        }
+
+        // Winner(s) have the earliest finish time; everyone else is strictly later
+        uint64 best = finishTime[fo.first.lanes[0]];
+        for (uint8 k = 1; k < fo.first.count; k++) {
+            assertEq(finishTime[fo.first.lanes[k]], best, "dead heat lanes share a finish time");
+        }
+        for (uint8 a = 0; a < 6; a++) {
+            assertGe(finishTime[a], best);
+        }
+
+        // The previous frame still had someone short of the finish target
+        if (frames.length > 1) {
+            uint16[6] memory prev = frames[frames.length - 2];
+            bool someoneShort = false;
+            for (uint8 a = 0; a < 6; a++) {
+                if (prev[a] < 1010) someoneShort = true;
+            }
+            assertTrue(someoneShort, "trace stopped late");
+        }
+    }
+
+    function test_TraceMatchesFullRace() public view {
+        uint8[6] memory even = [uint8(10), 10, 10, 10, 10, 10];
+        uint8[6] memory mixed = [uint8(1), 4, 7, 10, 5, 3];
+        for (uint256 i = 0; i < 10; i++) {
+            bytes32 seed = keccak256(abi.encodePacked("parity", i));
+            _assertTraceMatches(seed, even);
+            _assertTraceMatches(seed, mixed);
+        }
+    }
+
+    function test_TraceFramesAreMonotonic() public view {
+        uint8[6] memory scores = [uint8(2), 9, 5, 5, 8, 1];
+        (uint16[6][] memory frames,) = simulator.traceFullRace(keccak256("monotonic"), scores);
+        for (uint256 t = 1; t < frames.length; t++) {
+            for (uint8 a = 0; a < 6; a++) {
+                // Every lane moves at least 1 and at most SPEED_RANGE per tick
+                assertGe(frames[t][a], frames[t - 1][a] + 1);
+                assertLe(frames[t][a], frames[t - 1][a] + 10);
+            }
+        }
+    }
+}
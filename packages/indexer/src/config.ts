@@ -0,0 +1,53 @@
+import * as dotenv from "dotenv";
+import { Address, isAddress } from "viem";
+
+dotenv.config();
+
+export type IndexerConfig = {
+  rpcUrl: string;
+  chainId: number;
+  raffeRaceAddress?: Address;
+  startBlock?: bigint;
+  dbPath: string;
+  batchBlocks: number;
+  pollIntervalMs: number;
+  confirmations: number;
+  maxReorgDepth: number;
+};
+
+function readInt(name: string, fallback: number, min = 0): number {
+  const raw = process.env[name];
+  if (raw === undefined || raw.trim() === "") return fallback;
+  const n = Number(raw);
+  if (!Number.isInteger(n) || n < min) throw new Error(`${name} must be an integer >= ${min} (got "${raw}")`);
+  return n;
+}
+
+function readOptional(name: string): string | undefined {
+  const raw = process.env[name]?.trim();
+  return raw ? raw : undefined;
+}
+
+/**
+ * Load indexer configuration from the environment (and `.env` if present).
+ * Throws with a readable message when a value is malformed.
+ */
+export function loadConfig(): IndexerConfig {
+  const raffeRaceAddress = readOptional("RAFFE_RACE_ADDRESS");
+  if (raffeRaceAddress && !isAddress(raffeRaceAddress)) throw new Error("RAFFE_RACE_ADDRESS is not a valid address");
+
+  const startBlock = readOptional("START_BLOCK");
+  if (startBlock !== undefined && !/^\d+$/.test(startBlock)) throw new Error("START_BLOCK must be a block number");
+
+  return {
+    rpcUrl: readOptional("RPC_URL") ?? "http://127.0.0.1:8545",
+    chainId: readInt("CHAIN_ID", 31337, 1),
+    raffeRaceAddress: raffeRaceAddress as Address | undefined,
+    startBlock: startBlock === undefined ? undefined : BigInt(startBlock),
+    dbPath: readOptional("INDEXER_DB_PATH") ?? "./data/raffe-race.sqlite",
+    batchBlocks: readInt("BATCH_BLOCKS", 2000, 1),
+    pollIntervalMs: readInt("POLL_INTERVAL_MS", 2000, 100),
+    confirmations: readInt("CONFIRMATIONS", 0, 0),
+    maxReorgDepth: readInt("MAX_REORG_DEPTH", 128, 1),
+  };
+}
@@ -0,0 +1,66 @@
+import { raffeRaceAbi } from "./contracts";
+import { IndexedRaceEvent } from "./store";
+import { GetContractEventsReturnType } from "viem";
+
+export type RaffeRaceLog = GetContractEventsReturnType<typeof raffeRaceAbi, undefined, true>[number];
+
+/**
+ * Normalize a decoded RaffeRace log into a store row, or null for events we don't index.
+ * Indexed: race lifecycle (created / probabilities / settled incl. dead heats and parimutuel pools / cancelled),
+ * bets (incl. exotics), claims and claim expiries, queue entries and lane assignments.
+ */
+export function toIndexedEvent(log: RaffeRaceLog): IndexedRaceEvent | null {
+  const meta = { blockNumber: log.blockNumber, logIndex: log.logIndex, txHash: log.transactionHash };
+
+  switch (log.eventName) {
+    case "RaceCreated":
+      return { ...meta, kind: "RaceCreated", ...log.args };
+    case "RaceProbabilitiesSet":
+      return { ...meta, kind: "RaceProbabilitiesSet", ...log.args };
+    case "BetPlaced":
+      return { ...meta, kind: "BetPlaced", ...log.args };
+    case "ExoticBetPlaced":
+      return { ...meta, kind: "ExoticBetPlaced", ...log.args };
+    case "RaceSettled":
+      return { ...meta, kind: "RaceSettled", raceId: log.args.raceId, seed: log.args.seed, winners: [log.args.winner] };
+    case "RaceSettledDeadHeat":
+      return {
+        ...meta,
+        kind: "RaceSettled",
+        raceId: log.args.raceId,
+        seed: log.args.seed,
+        // Only the first deadHeatCount entries are meaningful
+        winners: log.args.winners.slice(0, log.args.deadHeatCount),
+      };
+    case "ParimutuelPoolSettled":
+      return { ...meta, kind: "ParimutuelPoolSettled", ...log.args };
+    case "Claimed":
+      return {
+        ...meta,
+        kind: "Claimed",
+        raceId: log.args.raceId,
+        bettor: log.args.bettor,
+        amount: log.args.payout,
+        expired: false,
+      };
+    case "ClaimExpired":
+      return {
+        ...meta,
+        kind: "Claimed",
+        raceId: log.args.raceId,
+        bettor: log.args.bettor,
+        amount: log.args.forfeitedPayout,
+        expired: true,
+      };
+    case "QueueEntered":
+      return { ...meta, kind: "QueueEntered", ...log.args };
+    case "RaffeAssigned":
+      return { ...meta, kind: "RaffeAssigned", ...log.args };
+    case "RaceCancelled":
+      return { ...meta, kind: "RaceCancelled", raceId: log.args.raceId, auto: false };
+    case "RaceAutoCancelled":
+      return { ...meta, kind: "RaceCancelled", raceId: log.args.raceId, auto: true };
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,48 @@
+import { loadConfig } from "./config";
+import { getChain, getRaffeRaceDeployment } from "./contracts";
+import { createRaceIndexer } from "./indexer";
+import { log } from "./log";
+import { openRaceIndexStore } from "./store";
+import fs from "node:fs";
+import path from "node:path";
+import { createPublicClient, http } from "viem";
+
+/**
+ * Race indexer entrypoint.
+ *
+ * Usage:
+ *   yarn indexer:start           # backfill, then tail new blocks forever
+ *   yarn indexer:start --once    # backfill up to head and exit
+ */
+async function main() {
+  const once = process.argv.includes("--once");
+  const config = loadConfig();
+  const chain = getChain(config.chainId);
+  const contract = getRaffeRaceDeployment(config.chainId, config.raffeRaceAddress);
+
+  const publicClient = createPublicClient({ chain, transport: http(config.rpcUrl) });
+
+  fs.mkdirSync(path.dirname(path.resolve(config.dbPath)), { recursive: true });
+  const store = openRaceIndexStore(config.dbPath);
+  const indexer = createRaceIndexer({ publicClient, store, contract, chainId: config.chainId, config });
+
+  const controller = new AbortController();
+  process.once("SIGINT", () => controller.abort());
+  process.once("SIGTERM", () => controller.abort());
+
+  try {
+    if (once) {
+      const s = await indexer.backfill(controller.signal);
+      log.info(`backfill done at block ${s.checkpoint?.blockNumber ?? "-"} (head ${s.head})`);
+    } else {
+      await indexer.run(controller.signal);
+    }
+  } finally {
+    store.close();
+  }
+}
+
+main().catch(err => {
+  log.error("indexer crashed", err);
+  process.exit(1);
+});
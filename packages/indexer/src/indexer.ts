@@ -0,0 +1,193 @@
+import { IndexerConfig } from "./config";
+import { RaffeRaceDeployment } from "./contracts";
+import { toIndexedEvent } from "./events";
+import { log } from "./log";
+import { IndexedBlock, IndexedRaceEvent, RaceIndexStore, SyncCheckpoint } from "./store";
+import { BaseError, BlockNotFoundError, PublicClient, RpcRequestError } from "viem";
+
+export type RaceIndexerDeps = {
+  publicClient: PublicClient;
+  store: RaceIndexStore;
+  contract: RaffeRaceDeployment;
+  chainId: number;
+  config: Pick<IndexerConfig, "startBlock" | "batchBlocks" | "pollIntervalMs" | "confirmations" | "maxReorgDepth">;
+};
+
+export type SyncStep = {
+  checkpoint: SyncCheckpoint | undefined;
+  head: bigint;
+  caughtUp: boolean;
+};
+
+export type RaceIndexer = {
+  /** Check for a reorg, then index at most one batch of blocks. */
+  step: (signal?: AbortSignal) => Promise<SyncStep>;
+  /** Index until caught up with head, then return (backfill only). */
+  backfill: (signal?: AbortSignal) => Promise<SyncStep>;
+  /** Backfill, then keep tailing new blocks until `signal` aborts. */
+  run: (signal: AbortSignal) => Promise<void>;
+};
+
+const HEADER_CONCURRENCY = 16;
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>(resolve => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener(
+      "abort",
+      () => {
+        clearTimeout(timer);
+        resolve();
+      },
+      { once: true },
+    );
+  });
+
+// The node answered with a JSON-RPC error (e.g. block range or result size limits), as opposed to being unreachable.
+const isRpcRejection = (err: unknown) =>
+  err instanceof BaseError && err.walk(e => e instanceof RpcRequestError) instanceof RpcRequestError;
+
+/**
+ * Backfills and tails RaffeRace events into the SQLite store.
+ *
+ * Each batch is written atomically together with its checkpoint (last block number + hash), so a restart resumes
+ * exactly where the last committed batch ended. Before every batch the checkpoint hash is compared with the chain;
+ * on a mismatch we walk back through the stored block hashes to the newest block still canonical, delete
+ * everything above it and index forward again. If no stored block survives (e.g. a restarted local anvil) the
+ * index starts over from the deployment block.
+ */
+export function createRaceIndexer({ publicClient, store, contract, chainId, config }: RaceIndexerDeps): RaceIndexer {
+  const startBlock = config.startBlock ?? contract.deployedOnBlock ?? 0n;
+  const address = contract.address.toLowerCase() as typeof contract.address;
+  let batchBlocks = BigInt(config.batchBlocks);
+
+  async function getBlockOrNull(blockNumber: bigint) {
+    try {
+      return await publicClient.getBlock({ blockNumber });
+    } catch (err) {
+      if (err instanceof BlockNotFoundError) return null;
+      throw err;
+    }
+  }
+
+  async function getHeaders(numbers: bigint[]): Promise<IndexedBlock[]> {
+    const headers: IndexedBlock[] = [];
+    for (let i = 0; i < numbers.length; i += HEADER_CONCURRENCY) {
+      const chunk = await Promise.all(
+        numbers.slice(i, i + HEADER_CONCURRENCY).map(blockNumber => publicClient.getBlock({ blockNumber })),
+      );
+      for (const b of chunk) headers.push({ number: b.number, hash: b.hash, timestamp: b.timestamp });
+    }
+    return headers;
+  }
+
+  /** Returns true if the index was rolled back. */
+  async function handleReorg(cp: SyncCheckpoint): Promise<boolean> {
+    const tip = await getBlockOrNull(cp.blockNumber);
+    if (tip?.hash === cp.blockHash) return false;
+
+    const stored = store.getBlocksDescending(cp.blockNumber, config.maxReorgDepth);
+    for (const b of stored) {
+      const onChain = await getBlockOrNull(b.number);
+      if (onChain?.hash !== b.hash) continue;
+      log.warn(`reorg: checkpoint ${cp.blockNumber} is no longer canonical, rolling back to block ${b.number}`);
+      store.rollbackTo({ ...b, chainId, contract: address });
+      return true;
+    }
+
+    if (stored.length >= config.maxReorgDepth) {
+      throw new Error(
+        `reorg deeper than MAX_REORG_DEPTH (${config.maxReorgDepth} stored blocks); raise it or delete the index`,
+      );
+    }
+    log.warn(`chain no longer contains any indexed block (restarted chain?), re-indexing from block ${startBlock}`);
+    store.rollbackTo(undefined);
+    return true;
+  }
+
+  async function step(signal?: AbortSignal): Promise<SyncStep> {
+    let cp = store.getCheckpoint();
+    if (cp && (cp.chainId !== chainId || cp.contract !== address)) {
+      throw new Error(
+        `index belongs to chain ${cp.chainId} / ${cp.contract}, not ${chainId} / ${address}; ` +
+          `use another INDEXER_DB_PATH or delete the file`,
+      );
+    }
+    if (cp && (await handleReorg(cp))) cp = store.getCheckpoint();
+
+    const latest = await publicClient.getBlockNumber({ cacheTime: 0 });
+    const head = latest - BigInt(config.confirmations);
+    const fromBlock = cp ? cp.blockNumber + 1n : startBlock;
+    if (fromBlock > head || signal?.aborted) return { checkpoint: cp, head, caughtUp: fromBlock > head };
+
+    const toBlock = fromBlock + batchBlocks - 1n < head ? fromBlock + batchBlocks - 1n : head;
+
+    let logs;
+    try {
+      logs = await publicClient.getContractEvents({
+        address: contract.address,
+        abi: contract.abi,
+        fromBlock,
+        toBlock,
+        strict: true,
+      });
+    } catch (err) {
+      if (!isRpcRejection(err) || batchBlocks === 1n) throw err;
+      batchBlocks = batchBlocks / 2n;
+      log.warn(`getLogs ${fromBlock}..${toBlock} rejected, retrying with ${batchBlocks}-block batches`);
+      return { checkpoint: cp, head, caughtUp: false };
+    }
+
+    const events = logs.map(toIndexedEvent).filter((e): e is IndexedRaceEvent => e !== null);
+    const blockNumbers = [...new Set([...logs.map(l => l.blockNumber), toBlock])];
+    const headers = await getHeaders(blockNumbers);
+
+    // Logs and headers must come from the same fork; otherwise a reorg landed mid-batch and we retry.
+    const hashByNumber = new Map(headers.map(h => [h.number, h.hash]));
+    const stale = logs.find(l => hashByNumber.get(l.blockNumber) !== l.blockHash);
+    if (stale) {
+      log.warn(`reorg during batch ${fromBlock}..${toBlock} (block ${stale.blockNumber}), retrying`);
+      return { checkpoint: cp, head, caughtUp: false };
+    }
+
+    const checkpoint: SyncCheckpoint = {
+      chainId,
+      contract: address,
+      blockNumber: toBlock,
+      blockHash: hashByNumber.get(toBlock)!,
+    };
+    store.applyBatch({ events, blocks: headers, checkpoint });
+    if (events.length || toBlock < head) {
+      log.info(`indexed blocks ${fromBlock}..${toBlock}: ${events.length} events (head ${head})`);
+    }
+    return { checkpoint, head, caughtUp: toBlock >= head };
+  }
+
+  async function backfill(signal?: AbortSignal): Promise<SyncStep> {
+    for (;;) {
+      const s = await step(signal);
+      if (s.caughtUp || signal?.aborted) return s;
+    }
+  }
+
+  async function run(signal: AbortSignal) {
+    const cp = store.getCheckpoint();
+    log.info(
+      `indexing RaffeRace at ${contract.address} on chain ${chainId} ` +
+        (cp ? `(resuming after block ${cp.blockNumber})` : `(from block ${startBlock})`),
+    );
+    while (!signal.aborted) {
+      try {
+        const s = await step(signal);
+        if (!s.caughtUp) continue;
+      } catch (err) {
+        if (signal.aborted) break;
+        log.error("sync failed", err);
+      }
+      await sleep(config.pollIntervalMs, signal);
+    }
+    log.info("indexer stopped");
+  }
+
+  return { step, backfill, run };
+}
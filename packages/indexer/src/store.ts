@@ -0,0 +1,379 @@
+import Database from "better-sqlite3";
+import { Address, Hex } from "viem";
+
+/**
+ * SQLite store for indexed RaffeRace events. The indexer writes it; the app's history API routes read it through
+ * `@se-2/indexer/store`.
+ *
+ * Every event lives in its own append-only table keyed by (block_number, log_index), so a reorg is undone by
+ * deleting rows above the common ancestor; nothing is ever updated in place. Derived state (race status, P&L, ...)
+ * is computed in queries. Amounts are raw USDC units, addresses are stored lowercase.
+ */
+
+// Bump when the schema changes; older databases are rejected and must be re-indexed.
+export const INDEX_SCHEMA_VERSION = 3;
+
+export type LogMeta = {
+  blockNumber: bigint;
+  logIndex: number;
+  txHash: Hex;
+};
+
+type Tuple6<T> = readonly [T, T, T, T, T, T];
+
+export type IndexedRaceEvent = LogMeta &
+  (
+    | { kind: "RaceCreated"; raceId: bigint; oddsDeadlineBlock: bigint; parimutuel: boolean }
+    | {
+        kind: "RaceProbabilitiesSet";
+        raceId: bigint;
+        winProbBps: Tuple6<number>;
+        placeProbBps: Tuple6<number>;
+        showProbBps: Tuple6<number>;
+        winOddsBps: Tuple6<number>;
+        placeOddsBps: Tuple6<number>;
+        showOddsBps: Tuple6<number>;
+        bettingCloseBlock: bigint;
+      }
+    | { kind: "BetPlaced"; raceId: bigint; bettor: Address; lane: number; betType: number; amount: bigint }
+    | {
+        kind: "ExoticBetPlaced";
+        raceId: bigint;
+        bettor: Address;
+        betType: number;
+        lanes: readonly [number, number, number];
+        amount: bigint;
+      }
+    // RaceSettled is stored as a one-lane dead heat so both settle events share a table
+    | { kind: "RaceSettled"; raceId: bigint; seed: Hex; winners: number[] }
+    | { kind: "ParimutuelPoolSettled"; raceId: bigint; pool: bigint; winOddsBps: Tuple6<number> }
+    | { kind: "Claimed"; raceId: bigint; bettor: Address; amount: bigint; expired: boolean }
+    | { kind: "QueueEntered"; owner: Address; tokenId: bigint; queuePosition: bigint }
+    | { kind: "RaffeAssigned"; raceId: bigint; tokenId: bigint; originalOwner: Address; lane: number }
+    | { kind: "RaceCancelled"; raceId: bigint; auto: boolean }
+  );
+
+export type IndexedBlock = {
+  number: bigint;
+  hash: Hex;
+  timestamp: bigint;
+};
+
+export type SyncCheckpoint = {
+  chainId: number;
+  contract: Address;
+  blockNumber: bigint;
+  blockHash: Hex;
+};
+
+const EVENT_TABLES = [
+  "race_created",
+  "race_probabilities",
+  "bets",
+  "race_settled",
+  "race_pool_settled",
+  "claims",
+  "queue_entries",
+  "race_lanes",
+  "race_cancelled",
+] as const;
+
+// Columns shared by every event table
+const LOG_COLUMNS = `
+  block_number INTEGER NOT NULL,
+  log_index INTEGER NOT NULL,
+  tx_hash TEXT NOT NULL`;
+const LOG_KEY = "PRIMARY KEY (block_number, log_index)";
+
+const SCHEMA = `
+CREATE TABLE sync_state (
+  id INTEGER PRIMARY KEY CHECK (id = 1),
+  chain_id INTEGER NOT NULL,
+  contract TEXT NOT NULL,
+  block_number INTEGER NOT NULL,
+  block_hash TEXT NOT NULL
+);
+
+-- Hashes of blocks we read (checkpoints + blocks with events), used to find the common ancestor after a reorg
+CREATE TABLE blocks (
+  number INTEGER PRIMARY KEY,
+  hash TEXT NOT NULL,
+  timestamp INTEGER NOT NULL
+);
+
+-- parimutuel = 1 for a race whose winners share the Win pool, 0 for fixed odds
+CREATE TABLE race_created (${LOG_COLUMNS},
+  race_id INTEGER NOT NULL,
+  odds_deadline_block INTEGER NOT NULL,
+  parimutuel INTEGER NOT NULL,
+  ${LOG_KEY}
+);
+CREATE INDEX race_created_race ON race_created (race_id);
+
+-- Probability / odds arrays are JSON arrays of 6 bps values in lane order
+CREATE TABLE race_probabilities (${LOG_COLUMNS},
+  race_id INTEGER NOT NULL,
+  win_prob_bps TEXT NOT NULL,
+  place_prob_bps TEXT NOT NULL,
+  show_prob_bps TEXT NOT NULL,
+  win_odds_bps TEXT NOT NULL,
+  place_odds_bps TEXT NOT NULL,
+  show_odds_bps TEXT NOT NULL,
+  betting_close_block INTEGER NOT NULL,
+  ${LOG_KEY}
+);
+CREATE INDEX race_probabilities_race ON race_probabilities (race_id);
+
+-- Exotic bets (Exacta / Quinella / Trifecta) keep their first lane in lane and every lane in lanes, a JSON array of 3
+-- as emitted (lanes the bet type doesn't use are 0); lanes is NULL for Win / Place / Show
+CREATE TABLE bets (${LOG_COLUMNS},
+  race_id INTEGER NOT NULL,
+  bettor TEXT NOT NULL,
+  lane INTEGER NOT NULL,
+  bet_type INTEGER NOT NULL,
+  amount INTEGER NOT NULL,
+  lanes TEXT,
+  ${LOG_KEY}
+);
+CREATE INDEX bets_race ON bets (race_id);
+CREATE INDEX bets_bettor ON bets (bettor, race_id);
+
+-- winners: JSON array of lanes sharing first place (length 1 = normal win)
+CREATE TABLE race_settled (${LOG_COLUMNS},
+  race_id INTEGER NOT NULL,
+  seed TEXT NOT NULL,
+  winners TEXT NOT NULL,
+  dead_heat_count INTEGER NOT NULL,
+  ${LOG_KEY}
+);
+CREATE INDEX race_settled_race ON race_settled (race_id);
+
+-- A parimutuel race's Win odds as settled from its pool; they replace race_probabilities' win_odds_bps for it
+CREATE TABLE race_pool_settled (${LOG_COLUMNS},
+  race_id INTEGER NOT NULL,
+  pool INTEGER NOT NULL,
+  win_odds_bps TEXT NOT NULL,
+  ${LOG_KEY}
+);
+CREATE INDEX race_pool_settled_race ON race_pool_settled (race_id);
+
+-- expired = 1 for ClaimExpired (amount forfeited), 0 for Claimed (amount paid out)
+CREATE TABLE claims (${LOG_COLUMNS},
+  race_id INTEGER NOT NULL,
+  bettor TEXT NOT NULL,
+  amount INTEGER NOT NULL,
+  expired INTEGER NOT NULL,
+  ${LOG_KEY}
+);
+CREATE INDEX claims_race ON claims (race_id);
+CREATE INDEX claims_bettor ON claims (bettor, race_id);
+
+CREATE TABLE queue_entries (${LOG_COLUMNS},
+  owner TEXT NOT NULL,
+  token_id INTEGER NOT NULL,
+  queue_position INTEGER NOT NULL,
+  ${LOG_KEY}
+);
+CREATE INDEX queue_entries_token ON queue_entries (token_id);
+
+-- original_owner is the treasury owner for house raffes
+CREATE TABLE race_lanes (${LOG_COLUMNS},
+  race_id INTEGER NOT NULL,
+  lane INTEGER NOT NULL,
+  token_id INTEGER NOT NULL,
+  original_owner TEXT NOT NULL,
+  ${LOG_KEY}
+);
+CREATE INDEX race_lanes_race ON race_lanes (race_id, lane);
+CREATE INDEX race_lanes_token ON race_lanes (token_id, race_id);
+
+-- auto = 1 for RaceAutoCancelled (odds never set), 0 for RaceCancelled
+CREATE TABLE race_cancelled (${LOG_COLUMNS},
+  race_id INTEGER NOT NULL,
+  auto INTEGER NOT NULL,
+  ${LOG_KEY}
+);
+CREATE INDEX race_cancelled_race ON race_cancelled (race_id);
+`;
+
+export type RaceIndexStore = {
+  db: Database.Database;
+  getCheckpoint: () => SyncCheckpoint | undefined;
+  /** Indexed blocks at or below `belowOrAt`, newest first (for walking back to a common ancestor). */
+  getBlocksDescending: (belowOrAt: bigint, limit: number) => IndexedBlock[];
+  /** Atomically store one batch of events, the blocks they came from and the new checkpoint. */
+  applyBatch: (batch: { events: IndexedRaceEvent[]; blocks: IndexedBlock[]; checkpoint: SyncCheckpoint }) => void;
+  /** Drop everything above `ancestor` and make it the checkpoint; without one, forget all indexed data. */
+  rollbackTo: (ancestor: (IndexedBlock & Pick<SyncCheckpoint, "chainId" | "contract">) | undefined) => void;
+  close: () => void;
+};
+
+const json = (values: readonly number[]) => JSON.stringify(values);
+const lower = (a: Address) => a.toLowerCase();
+
+/**
+ * Open (creating if needed) the index database at `path`.
+ * Read-only handles skip migrations and fail if the file does not exist yet.
+ */
+export function openRaceIndexStore(path: string, opts: { readonly?: boolean } = {}): RaceIndexStore {
+  const db = new Database(path, { readonly: opts.readonly ?? false, fileMustExist: opts.readonly ?? false });
+  // Block numbers and amounts come back as bigint, matching viem
+  db.defaultSafeIntegers(true);
+
+  if (!opts.readonly) {
+    db.pragma("journal_mode = WAL");
+    const version = Number(db.pragma("user_version", { simple: true }));
+    if (version === 0) {
+      db.transaction(() => {
+        db.exec(SCHEMA);
+        db.pragma(`user_version = ${INDEX_SCHEMA_VERSION}`);
+      })();
+    } else if (version !== INDEX_SCHEMA_VERSION) {
+      db.close();
+      throw new Error(
+        `Index at ${path} has schema v${version}, expected v${INDEX_SCHEMA_VERSION}; delete it to re-index`,
+      );
+    }
+  }
+
+  const insert = {
+    RaceCreated: db.prepare(
+      `INSERT OR REPLACE INTO race_created (block_number, log_index, tx_hash, race_id, odds_deadline_block, parimutuel)
+       VALUES (?, ?, ?, ?, ?, ?)`,
+    ),
+    RaceProbabilitiesSet: db.prepare(
+      `INSERT OR REPLACE INTO race_probabilities (block_number, log_index, tx_hash, race_id, win_prob_bps,
+         place_prob_bps, show_prob_bps, win_odds_bps, place_odds_bps, show_odds_bps, betting_close_block)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    ),
+    BetPlaced: db.prepare(
+      `INSERT OR REPLACE INTO bets (block_number, log_index, tx_hash, race_id, bettor, lane, bet_type, amount, lanes)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    ),
+    RaceSettled: db.prepare(
+      `INSERT OR REPLACE INTO race_settled (block_number, log_index, tx_hash, race_id, seed, winners, dead_heat_count)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+    ),
+    ParimutuelPoolSettled: db.prepare(
+      `INSERT OR REPLACE INTO race_pool_settled (block_number, log_index, tx_hash, race_id, pool, win_odds_bps)
+       VALUES (?, ?, ?, ?, ?, ?)`,
+    ),
+    Claimed: db.prepare(
+      `INSERT OR REPLACE INTO claims (block_number, log_index, tx_hash, race_id, bettor, amount, expired)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+    ),
+    QueueEntered: db.prepare(
+      `INSERT OR REPLACE INTO queue_entries (block_number, log_index, tx_hash, owner, token_id, queue_position)
+       VALUES (?, ?, ?, ?, ?, ?)`,
+    ),
+    RaffeAssigned: db.prepare(
+      `INSERT OR REPLACE INTO race_lanes (block_number, log_index, tx_hash, race_id, lane, token_id, original_owner)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+    ),
+    RaceCancelled: db.prepare(
+      `INSERT OR REPLACE INTO race_cancelled (block_number, log_index, tx_hash, race_id, auto) VALUES (?, ?, ?, ?, ?)`,
+    ),
+  };
+
+  const insertEvent = (e: IndexedRaceEvent) => {
+    const meta = [e.blockNumber, e.logIndex, e.txHash] as const;
+    switch (e.kind) {
+      case "RaceCreated":
+        return insert.RaceCreated.run(...meta, e.raceId, e.oddsDeadlineBlock, e.parimutuel ? 1 : 0);
+      case "RaceProbabilitiesSet":
+        return insert.RaceProbabilitiesSet.run(
+          ...meta,
+          e.raceId,
+          json(e.winProbBps),
+          json(e.placeProbBps),
+          json(e.showProbBps),
+          json(e.winOddsBps),
+          json(e.placeOddsBps),
+          json(e.showOddsBps),
+          e.bettingCloseBlock,
+        );
+      case "BetPlaced":
+        return insert.BetPlaced.run(...meta, e.raceId, lower(e.bettor), e.lane, e.betType, e.amount, null);
+      case "ExoticBetPlaced":
+        return insert.BetPlaced.run(...meta, e.raceId, lower(e.bettor), e.lanes[0], e.betType, e.amount, json(e.lanes));
+      case "RaceSettled":
+        return insert.RaceSettled.run(...meta, e.raceId, e.seed, json(e.winners), e.winners.length);
+      case "ParimutuelPoolSettled":
+        return insert.ParimutuelPoolSettled.run(...meta, e.raceId, e.pool, json(e.winOddsBps));
+      case "Claimed":
+        return insert.Claimed.run(...meta, e.raceId, lower(e.bettor), e.amount, e.expired ? 1 : 0);
+      case "QueueEntered":
+        return insert.QueueEntered.run(...meta, lower(e.owner), e.tokenId, e.queuePosition);
+      case "RaffeAssigned":
+        return insert.RaffeAssigned.run(...meta, e.raceId, e.lane, e.tokenId, lower(e.originalOwner));
+      case "RaceCancelled":
+        return insert.RaceCancelled.run(...meta, e.raceId, e.auto ? 1 : 0);
+    }
+  };
+
+  const insertBlock = db.prepare("INSERT OR REPLACE INTO blocks (number, hash, timestamp) VALUES (?, ?, ?)");
+  const upsertCheckpoint = db.prepare(
+    `INSERT INTO sync_state (id, chain_id, contract, block_number, block_hash) VALUES (1, ?, ?, ?, ?)
+     ON CONFLICT (id) DO UPDATE SET chain_id = excluded.chain_id, contract = excluded.contract,
+       block_number = excluded.block_number, block_hash = excluded.block_hash`,
+  );
+  const saveCheckpoint = (cp: SyncCheckpoint) =>
+    upsertCheckpoint.run(cp.chainId, lower(cp.contract), cp.blockNumber, cp.blockHash);
+
+  const applyBatch = db.transaction(
+    ({
+      events,
+      blocks,
+      checkpoint,
+    }: {
+      events: IndexedRaceEvent[];
+      blocks: IndexedBlock[];
+      checkpoint: SyncCheckpoint;
+    }) => {
+      for (const b of blocks) insertBlock.run(b.number, b.hash, b.timestamp);
+      for (const e of events) insertEvent(e);
+      saveCheckpoint(checkpoint);
+    },
+  );
+
+  const rollbackTo = db.transaction(
+    (ancestor: (IndexedBlock & Pick<SyncCheckpoint, "chainId" | "contract">) | undefined) => {
+      const above = ancestor?.number ?? -1n;
+      for (const table of EVENT_TABLES) db.prepare(`DELETE FROM ${table} WHERE block_number > ?`).run(above);
+      db.prepare("DELETE FROM blocks WHERE number > ?").run(above);
+      if (ancestor) {
+        saveCheckpoint({
+          chainId: ancestor.chainId,
+          contract: ancestor.contract,
+          blockNumber: ancestor.number,
+          blockHash: ancestor.hash,
+        });
+      } else {
+        db.prepare("DELETE FROM sync_state").run();
+      }
+    },
+  );
+
+  return {
+    db,
+    getCheckpoint: () => {
+      const row = db
+        .prepare("SELECT chain_id, contract, block_number, block_hash FROM sync_state WHERE id = 1")
+        .get() as { chain_id: bigint; contract: Address; block_number: bigint; block_hash: Hex } | undefined;
+      if (!row) return undefined;
+      return {
+        chainId: Number(row.chain_id),
+        contract: row.contract,
+        blockNumber: row.block_number,
+        blockHash: row.block_hash,
+      };
+    },
+    getBlocksDescending: (belowOrAt, limit) =>
+      db
+        .prepare("SELECT number, hash, timestamp FROM blocks WHERE number <= ? ORDER BY number DESC LIMIT ?")
+        .all(belowOrAt, limit) as IndexedBlock[],
+    applyBatch,
+    rollbackTo,
+    close: () => db.close(),
+  };
+}
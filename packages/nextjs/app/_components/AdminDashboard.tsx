@@ -2,7 +2,7 @@
 
 import { useCallback, useState } from "react";
 import { AdminStatusCard } from "./race/components";
-import { useRaceData, useRaceDetails, useRaceStatus, useViewingRace } from "./race/hooks";
+import { useRaceData, useRaceSnapshot, useRaceStatus, useViewingRace } from "./race/hooks";
 import { Address } from "@scaffold-ui/components";
 import { formatUnits, isAddress, parseUnits, toHex } from "viem";
 import { useBlockNumber } from "wagmi";
@@ -35,7 +35,7 @@ export const AdminDashboard = () => {
   const { viewingRaceId, isViewingLatest, setViewRaceId } = useViewingRace(latestRaceId, hasAnyRace);
 
   // Race details
-  const raceDetails = useRaceDetails(viewingRaceId, hasAnyRace, raffeRaceContract, null);
+  const raceDetails = useRaceSnapshot(hasAnyRace ? viewingRaceId : null);
   const { parsed, parsedSchedule, bettingCloseBlock } = raceDetails;
 
   // Race status
@@ -131,7 +131,7 @@ export const AdminDashboard = () => {
   );
 
   const handleCreateRace = useCallback(async () => {
-    const txHash = await writeRaffeRaceAsync({ functionName: "createRace" } as any);
+    const txHash = await writeRaffeRaceAsync({ functionName: "createRace" });
     console.log("🏁 createRace TX Hash:", txHash);
 
     if (publicClient && txHash) {
@@ -141,7 +141,7 @@ export const AdminDashboard = () => {
   }, [writeRaffeRaceAsync, publicClient]);
 
   const handleSettleRace = useCallback(async () => {
-    const txHash = await writeRaffeRaceAsync({ functionName: "settleRace" } as any);
+    const txHash = await writeRaffeRaceAsync({ functionName: "settleRace" });
     console.log("🏁 settleRace TX Hash:", txHash);
 
     if (publicClient && txHash) {
@@ -184,7 +184,7 @@ export const AdminDashboard = () => {
       await writeRaffeRaceAsync({
         functionName: "setHouseEdgeBps",
         args: [bps],
-      } as any);
+      });
       setNewHouseEdgeBps("");
     } finally {
       setIsUpdatingHouseEdge(false);
@@ -206,7 +206,7 @@ export const AdminDashboard = () => {
       await writeRaffeRaceAsync({
         functionName: "setMaxBetAmount",
         args: [amount],
-      } as any);
+      });
       setNewMaxBetUsdc("");
     } finally {
       setIsUpdatingMaxBet(false);
@@ -221,7 +221,7 @@ export const AdminDashboard = () => {
       await writeRaffeRaceAsync({
         functionName: "setRaceBot",
         args: [addr],
-      } as any);
+      });
       setNewRaceBot("");
     } finally {
       setIsUpdatingRaceBot(false);
@@ -238,7 +238,7 @@ export const AdminDashboard = () => {
       await writeRaffeRaceAsync({
         functionName: "adminCancelRace",
         args: [BigInt(raceId)],
-      } as any);
+      });
       setCancelRaceId("");
     } finally {
       setIsCancellingRace(false);
@@ -1,36 +1,44 @@
 "use client";
 
 import { useCallback, useEffect, useMemo, useState } from "react";
-import { ClaimPayoutCard, EnterNftCard, PlaceBetCard, RaceOverlay, RaceTrack } from "./race/components";
+import { ClaimPayoutCard, EnterNftCard, PlaceBetCard, RaceOverlay, RaceTrack, ReplayControls } from "./race/components";
 import { LANE_COUNT, USDC_DECIMALS } from "./race/constants";
 import {
-  useMyBets,
+  useBetSubmission,
+  useEstimatedProbabilities,
   useRaceCamera,
+  useRaceCommentary,
   useRaceData,
-  useRaceDetails,
+  useRaceFeed,
   useRaceQueue,
   useRaceReplay,
+  useRaceSnapshot,
   useRaceStatus,
   useTrackDimensions,
   useViewingRace,
-  useWinningClaims,
 } from "./race/hooks";
-import { BetType, ClaimSnapshot, PlaybackSpeed } from "./race/types";
+import { BET_TYPE, BetSelection, BetType, ClaimSnapshot, EXOTIC_BET_TYPE, ExoticBetSelection } from "./race/types";
 import { parseUnits } from "viem";
 import { useBlockNumber } from "wagmi";
 import { useScaffoldWriteContract } from "~~/hooks/scaffold-eth";
+import { usePresenceHeartbeat } from "~~/hooks/usePresenceHeartbeat";
+import { useGlobalState } from "~~/services/store/store";
 
 export const RaceDashboard = () => {
   // Responsive track dimensions
   const trackDimensions = useTrackDimensions();
 
+  // Live race events over SSE; while connected the data hooks below stop polling the chain
+  useRaceFeed();
+  const raceFeed = useGlobalState(state => state.raceFeed);
+
   // Core data hooks
   const raceData = useRaceData();
   const {
     connectedAddress,
     blockNumber,
     raffeRaceContract,
-    raffeNftContract,
+    usdcContract,
     usdcContractName,
     treasuryContract,
     ownedTokenIds,
@@ -43,36 +51,40 @@ export const RaceDashboard = () => {
     maxBetAmount,
     userUsdcBalance,
     userUsdcAllowance,
+    refetchUserUsdcAllowance,
   } = raceData;
 
   // Viewing state
   const { viewingRaceId, isViewingLatest, setViewRaceId } = useViewingRace(latestRaceId, hasAnyRace);
 
-  // Race details
-  const raceDetails = useRaceDetails(viewingRaceId, hasAnyRace, raffeRaceContract, raffeNftContract);
+  // Heartbeats tell the race bot someone is around, and give us the audience for the race on screen
+  const presence = usePresenceHeartbeat({ raceId: hasAnyRace ? viewingRaceId : null, intervalMs: 5_000 });
+
+  // Race details, with my bets (Win/Place/Show and exotics) and winning claims, all read at the same block
+  const raceDetails = useRaceSnapshot(hasAnyRace ? viewingRaceId : null, { bettor: connectedAddress });
   const {
     parsed,
     parsedSchedule,
     parsedRaffes,
     parsedOdds,
+    parsedExoticOdds,
+    parsedPool,
     parsedFinishOrder,
     laneScore,
     laneTokenIds,
     laneStats,
     bettingCloseBlock,
     lineupFinalized,
+    myBets,
+    myExoticBets,
+    nextWinningClaim,
+    winningClaimRemaining,
   } = raceDetails;
 
   // Race queue
   const queue = useRaceQueue(raffeRaceContract, connectedAddress);
   const { activeQueueLength, userInQueue, userQueuedToken, userQueuePosition, queueEntries } = queue;
 
-  // My bets (Win/Place/Show)
-  const myBets = useMyBets(viewingRaceId, connectedAddress, raffeRaceContract, hasAnyRace);
-
-  // Winning claims
-  const { nextWinningClaim, winningClaimRemaining } = useWinningClaims(connectedAddress, raffeRaceContract);
-
   // Replay hook
   const replay = useRaceReplay({
     seed: parsed?.seed,
@@ -83,10 +95,15 @@ export const RaceDashboard = () => {
   // Conditional block watching: pause ONLY during active race playback (not when finished)
   const isRaceAnimating = replay.isPlaying && replay.raceStarted && !!replay.simulation && !replay.raceIsOver;
   const { data: liveBlockNumber } = useBlockNumber({
-    watch: !isRaceAnimating, // Watch when race is NOT animating (including when finished)
+    watch: !isRaceAnimating && !raceFeed.connected, // Watch when race is NOT animating (including when finished)
   });
+  // Streamed blocks are held the same way, so playback isn't re-rendered by every new block
+  const [feedBlockNumber, setFeedBlockNumber] = useState<bigint | null>(null);
+  useEffect(() => {
+    if (!isRaceAnimating) setFeedBlockNumber(raceFeed.blockNumber);
+  }, [isRaceAnimating, raceFeed.blockNumber]);
   // Use live block number when available, fall back to initial from useRaceData
-  const activeBlockNumber = liveBlockNumber ?? blockNumber;
+  const activeBlockNumber = (raceFeed.connected ? feedBlockNumber : null) ?? liveBlockNumber ?? blockNumber;
 
   // Race status
   const status = useRaceStatus(
@@ -99,6 +116,12 @@ export const RaceDashboard = () => {
   );
 
   // Camera hook
+  const commentary = useRaceCommentary({
+    simulation: replay.simulation,
+    laneTokenIds,
+    frame: replay.frame,
+    raceStarted: replay.raceStarted,
+  });
   const camera = useRaceCamera({
     simulation: replay.simulation,
     currentDistances: replay.currentDistances,
@@ -112,7 +135,14 @@ export const RaceDashboard = () => {
   // Local UI state
   const [selectedTokenId, setSelectedTokenId] = useState<bigint | null>(null);
   const [betAmountUsdc, setBetAmountUsdc] = useState("");
-  const [isApproving, setIsApproving] = useState(false);
+  // Picked but not yet placed: at most one lane per bet type
+  const [betSelection, setBetSelection] = useState<BetSelection[]>([]);
+  // Exotic picks, at most one per exotic bet type
+  const [exoticBetSelection, setExoticBetSelection] = useState<ExoticBetSelection[]>([]);
+  useEffect(() => {
+    setBetSelection([]);
+    setExoticBetSelection([]);
+  }, [viewingRaceId]);
 
   // Claim snapshot state
   const [claimSnapshot, setClaimSnapshot] = useState<ClaimSnapshot | null>(null);
@@ -121,10 +151,14 @@ export const RaceDashboard = () => {
 
   // Write hooks
   const { writeContractAsync: writeRaffeRaceAsync } = useScaffoldWriteContract({ contractName: "RaffeRace" });
-  // Use dynamic USDC contract name (USDC for Base, MockUSDC for local)
-  // Default to MockUSDC if not yet determined to prevent invalid contract lookups
-  const { writeContractAsync: writeUsdcAsync } = useScaffoldWriteContract({
-    contractName: (usdcContractName ?? "MockUSDC") as any,
+  // Approve + bets, batched into one confirmation when the wallet can (USDC for Base, MockUSDC for local)
+  const betSubmission = useBetSubmission({
+    raffeRaceContract,
+    usdcContract,
+    usdcContractName,
+    treasuryAddress: treasuryContract?.address,
+    userUsdcAllowance,
+    refetchUserUsdcAllowance,
   });
 
   // Jump to next winning claim after claim
@@ -154,6 +188,13 @@ export const RaceDashboard = () => {
   // Derived state
   const canBet = status === "betting_open" && lineupFinalized && parsedOdds?.oddsSet === true;
 
+  // Until the bot posts odds, preview each lane's chances from its score
+  const oddsEstimate = useEstimatedProbabilities({
+    raceId: hasAnyRace ? viewingRaceId : null,
+    laneScore,
+    enabled: status === "awaiting_probabilities" && parsedOdds?.oddsSet !== true,
+  });
+
   // Show/hide cards - simplified for new queue system
   // Always show bet card and queue cards - they are persistent across races
   const showPlaceBetCard = true;
@@ -172,17 +213,48 @@ export const RaceDashboard = () => {
     }
   }, [betAmountUsdc]);
 
+  // Picks for bet types already placed on this race drop out once the bet shows up, and a parimutuel race
+  // only takes Win bets
+  const parimutuel = parsedPool?.parimutuel === true;
+  const pendingBets = useMemo(
+    () =>
+      betSelection.filter(({ betType }) => {
+        if (betType === BET_TYPE.WIN) return !myBets?.win.hasBet;
+        if (parimutuel) return false;
+        if (betType === BET_TYPE.PLACE) return !myBets?.place.hasBet;
+        return !myBets?.show.hasBet;
+      }),
+    [betSelection, myBets, parimutuel],
+  );
+  const pendingExoticBets = useMemo(
+    () =>
+      exoticBetSelection.filter(({ betType }) => {
+        if (parimutuel) return false;
+        if (betType === EXOTIC_BET_TYPE.EXACTA) return !myExoticBets?.exacta.hasBet;
+        if (betType === EXOTIC_BET_TYPE.QUINELLA) return !myExoticBets?.quinella.hasBet;
+        return !myExoticBets?.trifecta.hasBet;
+      }),
+    [exoticBetSelection, myExoticBets, parimutuel],
+  );
+
+  // Every pending bet is for the same amount; with nothing picked yet, price a single bet
+  const pendingCount = pendingBets.length + pendingExoticBets.length;
+  const totalStake = useMemo(() => {
+    if (!placeBetValue) return null;
+    return placeBetValue * BigInt(Math.max(1, pendingCount));
+  }, [placeBetValue, pendingCount]);
+
   const needsApproval = useMemo(() => {
-    if (!placeBetValue) return true;
+    if (!totalStake) return true;
     if (userUsdcAllowance === undefined || userUsdcAllowance === null) return true;
-    return userUsdcAllowance < placeBetValue;
-  }, [placeBetValue, userUsdcAllowance]);
+    return userUsdcAllowance < totalStake;
+  }, [totalStake, userUsdcAllowance]);
 
   const hasEnoughUsdc = useMemo(() => {
-    if (!placeBetValue) return false;
+    if (!totalStake) return false;
     if (userUsdcBalance === undefined || userUsdcBalance === null) return true;
-    return userUsdcBalance >= placeBetValue;
-  }, [placeBetValue, userUsdcBalance]);
+    return userUsdcBalance >= totalStake;
+  }, [totalStake, userUsdcBalance]);
 
   const exceedsMaxBet = useMemo(() => {
     if (!placeBetValue) return false;
@@ -201,40 +273,46 @@ export const RaceDashboard = () => {
   const handleEnterQueue = useCallback(async () => {
     if (selectedTokenId === null) return;
     await writeRaffeRaceAsync({
-      functionName: "enterQueue" as any,
+      functionName: "enterQueue",
       args: [selectedTokenId],
-    } as any);
+    });
     setSelectedTokenId(null);
   }, [selectedTokenId, writeRaffeRaceAsync]);
 
-  const handleApprove = useCallback(async () => {
-    if (!placeBetValue || !treasuryContract?.address) return;
-    setIsApproving(true);
-    try {
-      await (writeUsdcAsync as any)({
-        functionName: "approve",
-        args: [treasuryContract.address, placeBetValue],
-      });
-    } finally {
-      setIsApproving(false);
+  // Picking a lane for a bet type replaces the earlier pick for that type; picking it again clears it
+  const handleToggleBet = useCallback((lane: number, betType: BetType) => {
+    const validLane = Math.max(0, Math.min(LANE_COUNT - 1, Math.floor(lane)));
+    setBetSelection(prev => {
+      const others = prev.filter(b => b.betType !== betType);
+      const isPicked = prev.some(b => b.betType === betType && b.lane === validLane);
+      return isPicked ? others : [...others, { lane: validLane, betType }];
+    });
+  }, []);
+
+  // Same for exotics: the same lanes again clears the pick
+  const handleToggleExoticBet = useCallback((selection: ExoticBetSelection) => {
+    setExoticBetSelection(prev => {
+      const others = prev.filter(b => b.betType !== selection.betType);
+      const isPicked = prev.some(
+        b => b.betType === selection.betType && b.lanes.join(",") === selection.lanes.join(","),
+      );
+      return isPicked ? others : [...others, selection];
+    });
+  }, []);
+
+  const { submitBets } = betSubmission;
+  const handlePlaceBets = useCallback(async () => {
+    if (!placeBetValue || pendingBets.length + pendingExoticBets.length === 0) return;
+    const placed = await submitBets(pendingBets, placeBetValue, pendingExoticBets);
+    // Don't clear bet amount - user might want to place more bets with same amount
+    if (placed) {
+      setBetSelection([]);
+      setExoticBetSelection([]);
     }
-  }, [placeBetValue, treasuryContract?.address, writeUsdcAsync]);
-
-  const handlePlaceBet = useCallback(
-    async (lane: number, betType: BetType) => {
-      if (!placeBetValue) return;
-      const validLane = BigInt(Math.max(0, Math.min(Number(LANE_COUNT - 1), Math.floor(lane))));
-      await writeRaffeRaceAsync({
-        functionName: "placeBet",
-        args: [validLane, placeBetValue, BigInt(betType)],
-      } as any);
-      // Don't clear bet amount - user might want to place multiple bets with same amount
-    },
-    [placeBetValue, writeRaffeRaceAsync],
-  );
+  }, [placeBetValue, pendingBets, pendingExoticBets, submitBets]);
 
   const handleClaimPayout = useCallback(async () => {
-    await writeRaffeRaceAsync({ functionName: "claimNextWinningPayout" } as any);
+    await writeRaffeRaceAsync({ functionName: "claimNextWinningPayout" });
     setSyncClaimSnapshotAfterUserAction(true);
     setJumpToNextWinningClaimAfterClaim(true);
   }, [writeRaffeRaceAsync]);
@@ -247,6 +325,12 @@ export const RaceDashboard = () => {
           <p className="text-base-content/70">
             Enter the queue, wait for a race, place your bets, and watch your raffe compete!
           </p>
+          {presence ? (
+            <p className="text-sm text-base-content/60">
+              {presence.watchingRace !== null ? `${presence.watchingRace} watching this race · ` : ""}
+              {presence.bettorsOnline} {presence.bettorsOnline === 1 ? "bettor" : "bettors"} online
+            </p>
+          ) : null}
         </div>
 
         {/* Replay is the hero element */}
@@ -254,44 +338,17 @@ export const RaceDashboard = () => {
           <div className="card-body gap-4 px-0">
             <div className="flex items-center justify-between">
               <h2 className="card-title">Race replay</h2>
-              <div className="flex items-center gap-2">
-                <div className="join">
-                  {([1, 2, 3] as PlaybackSpeed[]).map(speed => (
-                    <button
-                      key={speed}
-                      className={`btn btn-sm join-item ${replay.playbackSpeed === speed ? "btn-active" : ""}`}
-                      onClick={() => replay.setPlaybackSpeed(speed)}
-                      disabled={!replay.simulation}
-                    >
-                      {speed}x
-                    </button>
-                  ))}
-                </div>
-                <button className="btn btn-sm" onClick={replay.reset} disabled={!replay.simulation}>
-                  Reset
-                </button>
-                <button
-                  className="btn btn-sm"
-                  onClick={() => replay.stepBy(-1)}
-                  disabled={!replay.simulation || replay.frame === 0}
-                >
-                  ◀︎ Tick
-                </button>
-                <button
-                  className="btn btn-sm"
-                  onClick={() => replay.stepBy(1)}
-                  disabled={!replay.simulation || replay.frame >= replay.lastFrameIndex}
-                >
-                  Tick ▶︎
-                </button>
-                <button
-                  className="btn btn-sm btn-primary"
-                  onClick={() => replay.setIsPlaying(p => !p)}
-                  disabled={!replay.simulation}
-                >
-                  {replay.isPlaying ? "Pause" : "Play"}
-                </button>
-              </div>
+              <ReplayControls
+                hasSimulation={!!replay.simulation}
+                isPlaying={replay.isPlaying}
+                setIsPlaying={replay.setIsPlaying}
+                playbackSpeed={replay.playbackSpeed}
+                setPlaybackSpeed={replay.setPlaybackSpeed}
+                frame={replay.frame}
+                lastFrameIndex={replay.lastFrameIndex}
+                stepBy={replay.stepBy}
+                reset={replay.reset}
+              />
             </div>
 
             <div className="flex flex-col gap-3">
@@ -337,6 +394,7 @@ export const RaceDashboard = () => {
                   playbackSpeed={replay.playbackSpeed}
                   svgResetNonce={replay.svgResetNonce}
                   myBets={myBets}
+                  caption={commentary.caption}
                 />
               </div>
 
@@ -475,6 +533,11 @@ export const RaceDashboard = () => {
                 laneStats={laneStats}
                 parsedRaffes={parsedRaffes}
                 parsedOdds={parsedOdds}
+                parsedExoticOdds={parsedExoticOdds}
+                parsedPool={parsedPool}
+                totalOnLane={parsed?.totalOnLane ?? null}
+                estimatedProbabilities={oddsEstimate.estimate}
+                estimateProgress={oddsEstimate.progress}
                 betAmountUsdc={betAmountUsdc}
                 setBetAmountUsdc={setBetAmountUsdc}
                 placeBetValue={placeBetValue}
@@ -482,15 +545,21 @@ export const RaceDashboard = () => {
                 userUsdcBalance={userUsdcBalance}
                 maxBetAmount={maxBetAmount}
                 myBets={myBets}
+                myExoticBets={myExoticBets}
                 canBet={canBet}
                 isViewingLatest={isViewingLatest}
                 raffeRaceContract={raffeRaceContract}
                 needsApproval={needsApproval}
                 hasEnoughUsdc={hasEnoughUsdc}
                 exceedsMaxBet={exceedsMaxBet}
-                isApproving={isApproving}
-                onApprove={handleApprove}
-                onPlaceBet={handlePlaceBet}
+                pendingBets={pendingBets}
+                pendingExoticBets={pendingExoticBets}
+                totalStake={totalStake}
+                approvalMode={betSubmission.approvalMode}
+                submittingLabel={betSubmission.pendingLabel}
+                onToggleBet={handleToggleBet}
+                onToggleExoticBet={handleToggleExoticBet}
+                onPlaceBets={handlePlaceBets}
               />
             ) : null}
 
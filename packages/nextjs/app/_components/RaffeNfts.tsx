@@ -1,6 +1,7 @@
 "use client";
 
 import { useCallback, useEffect, useMemo, useState } from "react";
+import Link from "next/link";
 import { Address } from "@scaffold-ui/components";
 import { encodePacked, formatUnits, keccak256, toHex } from "viem";
 import { useAccount, useBlockNumber, usePublicClient } from "wagmi";
@@ -12,6 +13,7 @@ import {
   useTargetNetwork,
   useUsdcContract,
 } from "~~/hooks/scaffold-eth";
+import { useRaffeRaceClient } from "~~/hooks/useRaffeRaceClient";
 import { containsProfanity } from "~~/utils/profanityFilter";
 
 const MINT_FEE = 1_000_000n; // 1 USDC (6 decimals)
@@ -71,6 +73,7 @@ export const RaffeNfts = () => {
   const { address: connectedAddress } = useAccount();
   const { targetNetwork } = useTargetNetwork();
   const publicClient = usePublicClient({ chainId: targetNetwork.id });
+  const raffeRaceClient = useRaffeRaceClient();
 
   const [mintName, setMintName] = useState("");
   const [ownedNfts, setOwnedNfts] = useState<
@@ -206,7 +209,7 @@ export const RaffeNfts = () => {
   // Build pending commits from chain data + local secrets
   useEffect(() => {
     const fetchCommitDetails = async () => {
-      if (!chainPendingCommitIds || !publicClient || !raffeNftContract?.address || !connectedAddress) {
+      if (!chainPendingCommitIds || !raffeRaceClient || !connectedAddress) {
         setPendingCommits([]);
         return;
       }
@@ -221,21 +224,9 @@ export const RaffeNfts = () => {
 
       for (const commitId of chainIds) {
         try {
-          const result = await publicClient.readContract({
-            address: raffeNftContract.address as `0x${string}`,
-            abi: raffeNftContract.abi,
-            functionName: "getCommit",
-            args: [commitId],
-          });
-
-          const [, name, commitBlock, , minRevealBlock, maxRevealBlock] = result as [
-            string,
-            string,
-            bigint,
-            number,
-            bigint,
-            bigint,
-          ];
+          const [, name, commitBlock, , minRevealBlock, maxRevealBlock] = await raffeRaceClient.raffeNft.read.getCommit(
+            [commitId],
+          );
 
           const secret = getSecret(connectedAddress, name);
 
@@ -256,12 +247,12 @@ export const RaffeNfts = () => {
     };
 
     void fetchCommitDetails();
-  }, [chainPendingCommitIds, publicClient, raffeNftContract?.address, raffeNftContract?.abi, connectedAddress]);
+  }, [chainPendingCommitIds, raffeRaceClient, connectedAddress]);
 
   // Fetch owned NFT details
   useEffect(() => {
     const run = async () => {
-      if (!connectedAddress || !publicClient || !raffeNftContract?.address) {
+      if (!connectedAddress || !raffeRaceClient) {
         setOwnedNfts([]);
         return;
       }
@@ -273,60 +264,16 @@ export const RaffeNfts = () => {
           return;
         }
 
-        const calls = ownedTokenIds.flatMap(id => [
-          {
-            address: raffeNftContract.address as `0x${string}`,
-            abi: raffeNftContract.abi as any,
-            functionName: "nameOf",
-            args: [id],
-          },
-          {
-            address: raffeNftContract.address as `0x${string}`,
-            abi: raffeNftContract.abi as any,
-            functionName: "statsOf",
-            args: [id],
-          },
+        const [names, stats] = await Promise.all([
+          raffeRaceClient.getRaffeNamesBatch(ownedTokenIds),
+          raffeRaceClient.getRaffeStatsBatch(ownedTokenIds),
         ]);
-
-        let results: { result?: unknown }[];
-
-        try {
-          results = (await publicClient.multicall({ contracts: calls as any, allowFailure: true })) as any;
-        } catch {
-          const settled = await Promise.allSettled(
-            ownedTokenIds.flatMap(id => [
-              (publicClient as any).readContract({
-                address: raffeNftContract.address,
-                abi: raffeNftContract.abi,
-                functionName: "nameOf",
-                args: [id],
-              }),
-              (publicClient as any).readContract({
-                address: raffeNftContract.address,
-                abi: raffeNftContract.abi,
-                functionName: "statsOf",
-                args: [id],
-              }),
-            ]),
-          );
-          results = settled.map(r => (r.status === "fulfilled" ? { result: r.value } : {}));
-        }
-
-        const clampStat = (n: number) => Math.max(1, Math.min(10, Math.floor(n)));
-
         setOwnedNfts(
-          ownedTokenIds.map((tokenId, i) => {
-            const name = (((results[i * 2] as any)?.result as string) ?? "").trim();
-            const statsRaw = (results[i * 2 + 1] as any)?.result;
-            const tuple = (Array.isArray(statsRaw) ? statsRaw : []) as any[];
-            return {
-              tokenId,
-              name,
-              zip: clampStat(Number(tuple[0] ?? 10)),
-              moxie: clampStat(Number(tuple[1] ?? 10)),
-              hustle: clampStat(Number(tuple[2] ?? 10)),
-            };
-          }),
+          ownedTokenIds.map(tokenId => ({
+            tokenId,
+            name: names.get(tokenId) ?? "",
+            ...(stats.get(tokenId) ?? { zip: 10, moxie: 10, hustle: 10 }),
+          })),
         );
       } finally {
         setIsLoadingOwnedNfts(false);
@@ -334,7 +281,7 @@ export const RaffeNfts = () => {
     };
 
     void run();
-  }, [connectedAddress, publicClient, raffeNftContract?.address, raffeNftContract?.abi, ownedTokenIds, nextTokenId]);
+  }, [connectedAddress, raffeRaceClient, ownedTokenIds, nextTokenId]);
 
   // Validate name for profanity
   const validateName = useCallback((name: string): boolean => {
@@ -704,12 +651,18 @@ export const RaffeNfts = () => {
                               playbackRate={1}
                               playing={false}
                               sizePx={96}
+                              background
                             />
                             <span>{nft.name || "(unnamed)"}</span>
                           </span>
                         </div>
-                        <div className="text-xs opacity-70">
-                          Zip: {nft.zip}/10 · Moxie: {nft.moxie}/10 · Hustle: {nft.hustle}/10
+                        <div className="flex flex-col items-end gap-1">
+                          <div className="text-xs opacity-70">
+                            Zip: {nft.zip}/10 · Moxie: {nft.moxie}/10 · Hustle: {nft.hustle}/10
+                          </div>
+                          <Link href={`/raffe/${nft.tokenId.toString()}`} className="link link-primary text-xs">
+                            Career &amp; form
+                          </Link>
                         </div>
                       </div>
                     </div>
@@ -0,0 +1,204 @@
+"use client";
+
+import {
+  BET_TYPE,
+  BetSelection,
+  BetType,
+  EXOTIC_BET_TYPE,
+  ExoticBetSelection,
+  ExoticBetType,
+  ParsedExoticOdds,
+  ParsedOdds,
+} from "../types";
+import { calculatePayout, exoticOddsFor, formatOddsBps, formatUsdc } from "../utils";
+import { LaneName } from "./LaneName";
+
+interface BetSlipProps {
+  pendingBets: BetSelection[];
+  pendingExoticBets: ExoticBetSelection[];
+  // Stake per bet; null until a valid amount is entered
+  amount: bigint | null;
+  parsedOdds: ParsedOdds | null;
+  parsedExoticOdds: ParsedExoticOdds | null;
+  // Win odds are the race's pool odds with these bets in, so payouts are estimates until betting closes
+  parimutuel?: boolean;
+  maxBetAmount: bigint | null;
+  laneTokenIds: bigint[];
+}
+
+const BET_TYPE_LABEL: Record<BetType, string> = {
+  [BET_TYPE.WIN]: "Win",
+  [BET_TYPE.PLACE]: "Place",
+  [BET_TYPE.SHOW]: "Show",
+};
+
+// The last paying position, the only one where a dead heat splits the payout (betDeadHeatDivisor)
+const SPLIT_POSITION: Record<BetType, string> = {
+  [BET_TYPE.WIN]: "1st",
+  [BET_TYPE.PLACE]: "2nd",
+  [BET_TYPE.SHOW]: "3rd",
+};
+
+// Positions above it pay in full, tied or not
+const FULL_PAY_POSITIONS: Record<BetType, string | null> = {
+  [BET_TYPE.WIN]: null,
+  [BET_TYPE.PLACE]: "1st",
+  [BET_TYPE.SHOW]: "1st or 2nd",
+};
+
+const EXOTIC_BET_TYPE_LABEL: Record<ExoticBetType, string> = {
+  [EXOTIC_BET_TYPE.EXACTA]: "Exacta",
+  [EXOTIC_BET_TYPE.QUINELLA]: "Quinella",
+  [EXOTIC_BET_TYPE.TRIFECTA]: "Trifecta",
+};
+
+// Ties wider than this are possible but vanishingly rare; 2- and 3-way show how the split goes
+const DEAD_HEAT_WAYS = [2, 3];
+
+const oddsForBet = (odds: ParsedOdds | null, { lane, betType }: BetSelection) => {
+  if (!odds?.oddsSet) return 0n;
+  return [odds.winOddsBps, odds.placeOddsBps, odds.showOddsBps][betType]?.[lane] ?? 0n;
+};
+
+const oddsForExoticBet = (odds: ParsedExoticOdds | null, { lanes, betType }: ExoticBetSelection) =>
+  odds?.oddsSet ? exoticOddsFor(odds, betType, lanes) : 0n;
+
+/**
+ * The bets picked in PlaceBetCard before they're placed: what each pays at the race's fixed odds (or, on a parimutuel
+ * race, the pool's current odds), what a dead heat would cut that to, and the total stake. Payouts use the contract's own rule (race-core's calculatePayout mirrors
+ * ClaimLib.calculatePayout, which settlement liability and claims both go through), so they match to the unit.
+ */
+export const BetSlip = ({
+  pendingBets,
+  pendingExoticBets,
+  amount,
+  parsedOdds,
+  parsedExoticOdds,
+  parimutuel = false,
+  maxBetAmount,
+  laneTokenIds,
+}: BetSlipProps) => {
+  if (pendingBets.length === 0 && pendingExoticBets.length === 0) return null;
+
+  const bets = [...pendingBets].sort((a, b) => a.betType - b.betType);
+  const exoticBets = [...pendingExoticBets].sort((a, b) => a.betType - b.betType);
+  const betCount = bets.length + exoticBets.length;
+  const overMax = amount !== null && maxBetAmount !== null && amount > maxBetAmount;
+  const totalStake = amount !== null ? amount * BigInt(betCount) : null;
+  // Every bet type pays on its own positions, so every bet on the slip can pay at once
+  const bestCase =
+    amount !== null
+      ? bets.reduce((sum, bet) => sum + calculatePayout(amount, oddsForBet(parsedOdds, bet), 1), 0n) +
+        exoticBets.reduce((sum, bet) => sum + calculatePayout(amount, oddsForExoticBet(parsedExoticOdds, bet), 1), 0n)
+      : null;
+
+  const laneLabel = (lane: number) => {
+    const tokenId = laneTokenIds[lane] ?? 0n;
+    return tokenId !== 0n ? <LaneName tokenId={tokenId} fallback={`Lane ${lane}`} /> : `Lane ${lane}`;
+  };
+  const overMaxWarning =
+    overMax && maxBetAmount !== null ? (
+      <div className="text-xs text-error">Over the {formatUsdc(maxBetAmount)} USDC max bet</div>
+    ) : null;
+
+  return (
+    <div className="rounded-lg border border-base-300 bg-base-200 p-3 text-sm flex flex-col gap-2">
+      <div className="font-semibold">Bet slip</div>
+
+      {bets.map(bet => {
+        const oddsBps = oddsForBet(parsedOdds, bet);
+        return (
+          <div key={bet.betType} className="flex flex-col gap-0.5">
+            <div className="flex items-baseline justify-between gap-2">
+              <span>
+                <span className="font-medium">{BET_TYPE_LABEL[bet.betType]}</span> · {laneLabel(bet.lane)}{" "}
+                <span className="opacity-60">@ {formatOddsBps(oddsBps)}</span>
+              </span>
+              {amount !== null && oddsBps > 0n ? (
+                <span className="font-mono">
+                  {parimutuel ? "pays about" : "pays"} {formatUsdc(calculatePayout(amount, oddsBps, 1))} USDC
+                </span>
+              ) : null}
+            </div>
+            {amount !== null && oddsBps > 0n ? (
+              <div className="text-xs opacity-60">
+                {FULL_PAY_POSITIONS[bet.betType] ? `Full payout for ${FULL_PAY_POSITIONS[bet.betType]}. ` : ""}
+                Dead heat for {SPLIT_POSITION[bet.betType]}:{" "}
+                {DEAD_HEAT_WAYS.map(ways => `${ways}-way ${formatUsdc(calculatePayout(amount, oddsBps, ways))}`).join(
+                  ", ",
+                )}{" "}
+                USDC
+              </div>
+            ) : null}
+            {overMaxWarning}
+          </div>
+        );
+      })}
+
+      {exoticBets.map(bet => {
+        const oddsBps = oddsForExoticBet(parsedExoticOdds, bet);
+        return (
+          <div key={bet.betType} className="flex flex-col gap-0.5">
+            <div className="flex items-baseline justify-between gap-2">
+              <span>
+                <span className="font-medium">{EXOTIC_BET_TYPE_LABEL[bet.betType]}</span> ·{" "}
+                {bet.lanes.map((lane, i) => (
+                  <span key={i}>
+                    {i > 0 ? (bet.betType === EXOTIC_BET_TYPE.QUINELLA ? " / " : " → ") : null}
+                    {laneLabel(lane)}
+                  </span>
+                ))}{" "}
+                <span className="opacity-60">@ {formatOddsBps(oddsBps)}</span>
+              </span>
+              {amount !== null && oddsBps > 0n ? (
+                <span className="font-mono">pays {formatUsdc(calculatePayout(amount, oddsBps, 1))} USDC</span>
+              ) : null}
+            </div>
+            {amount !== null && oddsBps > 0n ? (
+              <div className="text-xs opacity-60">
+                Dead heat that lets 2 or 3 combinations win:{" "}
+                {DEAD_HEAT_WAYS.map(ways => `${ways}-way ${formatUsdc(calculatePayout(amount, oddsBps, ways))}`).join(
+                  ", ",
+                )}{" "}
+                USDC
+              </div>
+            ) : null}
+            {overMaxWarning}
+          </div>
+        );
+      })}
+
+      {totalStake !== null && bestCase !== null ? (
+        <div className="border-t border-base-300 pt-2 flex flex-col gap-0.5">
+          <div className="flex justify-between">
+            <span>Total stake</span>
+            <span className="font-mono">{formatUsdc(totalStake)} USDC</span>
+          </div>
+          {betCount > 1 ? (
+            <div className="flex justify-between opacity-70">
+              <span>If every bet pays</span>
+              <span className="font-mono">{formatUsdc(bestCase)} USDC</span>
+            </div>
+          ) : null}
+        </div>
+      ) : (
+        <div className="text-xs opacity-60">Enter an amount to see what these pay.</div>
+      )}
+
+      {parimutuel ? (
+        <div className="text-xs opacity-60">
+          Pool odds include your bet and keep moving as others bet; what you&apos;re paid is set when the race settles.
+        </div>
+      ) : null}
+
+      <div className="text-xs opacity-60">
+        In a dead heat the payout is divided by the number of raffes tied on that position, rounded down to the smallest
+        USDC unit.
+        {exoticBets.length > 0
+          ? " For exotic bets tied raffes share the positions they cover, so several combinations can win; each pays " +
+            "its odds divided by how many won."
+          : null}
+      </div>
+    </div>
+  );
+};
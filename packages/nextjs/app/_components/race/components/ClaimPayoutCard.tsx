@@ -1,15 +1,14 @@
 "use client";
 
 import { useMemo } from "react";
-import { USDC_DECIMALS } from "../constants";
-import { BET_TYPE, NextWinningClaim } from "../types";
+import { CLAIM_EXPIRATION_BLOCKS, USDC_DECIMALS } from "../constants";
+import { BET_TYPE, EXOTIC_BET_TYPE, NextWinningClaim } from "../types";
+import { formatExoticLanes, isExoticBetType } from "../utils";
 import { LaneName } from "./LaneName";
+import { claimExpiresAtBlock, isClaimExpired } from "@se-2/race-core";
 import { formatUnits } from "viem";
 import { RaffeAnimated } from "~~/components/assets/RaffeAnimated";
 
-// Matches contract constant CLAIM_EXPIRATION_BLOCKS
-const CLAIM_EXPIRATION_BLOCKS = 5400n;
-
 interface ClaimPayoutCardProps {
   connectedAddress: `0x${string}` | undefined;
   raffeRaceContract: any;
@@ -29,11 +28,21 @@ const getBetTypeName = (betType: number): string => {
       return "Place";
     case BET_TYPE.SHOW:
       return "Show";
+    case EXOTIC_BET_TYPE.EXACTA:
+      return "Exacta";
+    case EXOTIC_BET_TYPE.QUINELLA:
+      return "Quinella";
+    case EXOTIC_BET_TYPE.TRIFECTA:
+      return "Trifecta";
     default:
       return "Win";
   }
 };
 
+// Exotic claims name every lane (the card only has the first lane's raffe), null for Win/Place/Show
+const exoticLanesLabel = ({ betType, betLanes }: NextWinningClaim): string | null =>
+  isExoticBetType(betType) ? formatExoticLanes(betType, betLanes) : null;
+
 interface CountdownState {
   blocksRemaining: bigint;
   percentRemaining: number;
@@ -57,9 +66,10 @@ export const ClaimPayoutCard = ({
       return null;
     }
 
-    const expirationBlock = displayedNextWinningClaim.settledAtBlock + CLAIM_EXPIRATION_BLOCKS;
+    const { settledAtBlock } = displayedNextWinningClaim;
+    const expirationBlock = claimExpiresAtBlock(settledAtBlock);
 
-    if (activeBlockNumber >= expirationBlock) {
+    if (isClaimExpired(activeBlockNumber, settledAtBlock)) {
       return {
         blocksRemaining: 0n,
         percentRemaining: 0,
@@ -141,14 +151,15 @@ export const ClaimPayoutCard = ({
                 <span className="text-xs opacity-70">Your bet</span>
                 <span className="text-sm font-medium">
                   {formatUnits(displayedNextWinningClaim.betAmount, USDC_DECIMALS)} USDC for{" "}
-                  {displayedNextWinningClaim.betTokenId !== 0n ? (
-                    <LaneName
-                      tokenId={displayedNextWinningClaim.betTokenId}
-                      fallback={`Lane ${displayedNextWinningClaim.betLane}`}
-                    />
-                  ) : (
-                    `Lane ${displayedNextWinningClaim.betLane}`
-                  )}{" "}
+                  {exoticLanesLabel(displayedNextWinningClaim) ??
+                    (displayedNextWinningClaim.betTokenId !== 0n ? (
+                      <LaneName
+                        tokenId={displayedNextWinningClaim.betTokenId}
+                        fallback={`Lane ${displayedNextWinningClaim.betLane}`}
+                      />
+                    ) : (
+                      `Lane ${displayedNextWinningClaim.betLane}`
+                    ))}{" "}
                   to{" "}
                   <span className="text-primary font-semibold">
                     {getBetTypeName(displayedNextWinningClaim.betType)}
@@ -5,9 +5,16 @@ import { LANE_COUNT } from "../constants";
 import { LaneStats, QueueEntry } from "../types";
 import { LaneName } from "./LaneName";
 import { Address } from "@scaffold-ui/components";
-import { usePublicClient } from "wagmi";
 import { RaffeAnimated } from "~~/components/assets/RaffeAnimated";
-import { useDeployedContractInfo } from "~~/hooks/scaffold-eth";
+import { useRaffeRaceClient } from "~~/hooks/useRaffeRaceClient";
+import type { RaffeRaceClient } from "~~/utils/raffeRace/client";
+
+const FULL_STATS: LaneStats = { zip: 10, moxie: 10, hustle: 10 };
+
+const statsByTokenId = async (client: RaffeRaceClient, tokenIds: bigint[]): Promise<Record<string, LaneStats>> => {
+  const stats = await client.getRaffeStatsBatch(tokenIds);
+  return Object.fromEntries(tokenIds.map(tokenId => [tokenId.toString(), stats.get(tokenId) ?? FULL_STATS]));
+};
 
 /* ─────────────────────────────────────────────────────────────────────────────
  * NftDropdown - Custom dropdown with NFT previews
@@ -176,118 +183,24 @@ export const EnterNftCard = ({
   raffeRaceContract,
   onEnterQueue,
 }: EnterNftCardProps) => {
-  const publicClient = usePublicClient();
-  const { data: raffeNftContract } = useDeployedContractInfo({ contractName: "RaffeNFT" });
+  const raffeRaceClient = useRaffeRaceClient();
 
-  // Fetch stats for owned tokens - using same pattern as RaffeNfts.tsx
+  // Stats for owned tokens and queue entries (tokens whose stats can't be read show as full stats)
   const [ownedTokenStats, setOwnedTokenStats] = useState<Record<string, LaneStats>>({});
-
-  useEffect(() => {
-    const fetchOwnedStats = async () => {
-      if (!publicClient || !raffeNftContract?.address || !raffeNftContract?.abi || ownedTokenIds.length === 0) {
-        setOwnedTokenStats({});
-        return;
-      }
-
-      const calls = ownedTokenIds.map(tokenId => ({
-        address: raffeNftContract.address as `0x${string}`,
-        abi: raffeNftContract.abi as any,
-        functionName: "statsOf",
-        args: [tokenId],
-      }));
-
-      let results: { result?: unknown }[];
-
-      try {
-        results = (await publicClient.multicall({ contracts: calls as any, allowFailure: true })) as any;
-      } catch {
-        // Fallback to individual reads if multicall fails
-        const settled = await Promise.allSettled(
-          ownedTokenIds.map(tokenId =>
-            (publicClient as any).readContract({
-              address: raffeNftContract.address,
-              abi: raffeNftContract.abi,
-              functionName: "statsOf",
-              args: [tokenId],
-            }),
-          ),
-        );
-        results = settled.map(r => (r.status === "fulfilled" ? { result: r.value } : {}));
-      }
-
-      const clampStat = (n: number) => Math.max(1, Math.min(10, Math.floor(n)));
-      const statsMap: Record<string, LaneStats> = {};
-
-      ownedTokenIds.forEach((tokenId, i) => {
-        const statsRaw = (results[i] as any)?.result;
-        const tuple = (Array.isArray(statsRaw) ? statsRaw : []) as any[];
-        statsMap[tokenId.toString()] = {
-          zip: clampStat(Number(tuple[0] ?? 10)),
-          moxie: clampStat(Number(tuple[1] ?? 10)),
-          hustle: clampStat(Number(tuple[2] ?? 10)),
-        };
-      });
-
-      setOwnedTokenStats(statsMap);
-    };
-
-    void fetchOwnedStats();
-  }, [publicClient, raffeNftContract?.address, raffeNftContract?.abi, ownedTokenIds]);
-
-  // Fetch stats for all queue entries - using same pattern as RaffeNfts.tsx
   const [queueStats, setQueueStats] = useState<Record<string, LaneStats>>({});
 
   useEffect(() => {
-    const fetchStats = async () => {
-      if (!publicClient || !raffeNftContract?.address || !raffeNftContract?.abi || queueEntries.length === 0) {
-        setQueueStats({});
-        return;
-      }
-
-      const calls = queueEntries.map(entry => ({
-        address: raffeNftContract.address as `0x${string}`,
-        abi: raffeNftContract.abi as any,
-        functionName: "statsOf",
-        args: [entry.tokenId],
-      }));
-
-      let results: { result?: unknown }[];
-
-      try {
-        results = (await publicClient.multicall({ contracts: calls as any, allowFailure: true })) as any;
-      } catch {
-        // Fallback to individual reads if multicall fails
-        const settled = await Promise.allSettled(
-          queueEntries.map(entry =>
-            (publicClient as any).readContract({
-              address: raffeNftContract.address,
-              abi: raffeNftContract.abi,
-              functionName: "statsOf",
-              args: [entry.tokenId],
-            }),
-          ),
-        );
-        results = settled.map(r => (r.status === "fulfilled" ? { result: r.value } : {}));
-      }
+    if (!raffeRaceClient) return;
+    void statsByTokenId(raffeRaceClient, ownedTokenIds).then(setOwnedTokenStats);
+  }, [raffeRaceClient, ownedTokenIds]);
 
-      const clampStat = (n: number) => Math.max(1, Math.min(10, Math.floor(n)));
-      const statsMap: Record<string, LaneStats> = {};
-
-      queueEntries.forEach((entry, i) => {
-        const statsRaw = (results[i] as any)?.result;
-        const tuple = (Array.isArray(statsRaw) ? statsRaw : []) as any[];
-        statsMap[entry.tokenId.toString()] = {
-          zip: clampStat(Number(tuple[0] ?? 10)),
-          moxie: clampStat(Number(tuple[1] ?? 10)),
-          hustle: clampStat(Number(tuple[2] ?? 10)),
-        };
-      });
-
-      setQueueStats(statsMap);
-    };
-
-    void fetchStats();
-  }, [publicClient, raffeNftContract?.address, raffeNftContract?.abi, queueEntries]);
+  useEffect(() => {
+    if (!raffeRaceClient) return;
+    void statsByTokenId(
+      raffeRaceClient,
+      queueEntries.map(entry => entry.tokenId),
+    ).then(setQueueStats);
+  }, [raffeRaceClient, queueEntries]);
 
   // Determine which entries are "Up Next" (first LANE_COUNT entries)
   const upNextTokenIds = useMemo(() => {
@@ -0,0 +1,144 @@
+"use client";
+
+import { useState } from "react";
+import { LANE_COUNT } from "../constants";
+import { EXOTIC_BET_TYPE, ExoticBetSelection, ExoticBetType, MyExoticBets, ParsedExoticOdds } from "../types";
+import { exoticOddsFor, exoticPicks, formatOddsBps, normalizeExoticLanes } from "../utils";
+import { LaneName } from "./LaneName";
+
+interface ExoticBetPickerProps {
+  laneTokenIds: bigint[];
+  parsedExoticOdds: ParsedExoticOdds | null;
+  myExoticBets: MyExoticBets | null;
+  pendingExoticBets: ExoticBetSelection[];
+  disabled: boolean;
+  onToggleExoticBet: (selection: ExoticBetSelection) => void;
+}
+
+const EXOTIC_TYPES: { betType: ExoticBetType; label: string; rule: string; bet: keyof MyExoticBets }[] = [
+  { betType: EXOTIC_BET_TYPE.EXACTA, label: "Exacta", rule: "Pick 1st and 2nd in order", bet: "exacta" },
+  { betType: EXOTIC_BET_TYPE.QUINELLA, label: "Quinella", rule: "Pick 1st and 2nd in either order", bet: "quinella" },
+  { betType: EXOTIC_BET_TYPE.TRIFECTA, label: "Trifecta", rule: "Pick 1st, 2nd and 3rd in order", bet: "trifecta" },
+];
+
+const POSITION_LABELS = ["1st", "2nd", "3rd"];
+
+const sameLanes = (a: readonly number[], b: readonly number[]) =>
+  a.length === b.length && a.every((l, i) => l === b[i]);
+
+/**
+ * Exacta / Quinella / Trifecta picks for PlaceBetCard: a lane per finishing position, priced from the race's exotic
+ * odds. Added picks go on the bet slip next to Win/Place/Show and are placed with them.
+ */
+export const ExoticBetPicker = ({
+  laneTokenIds,
+  parsedExoticOdds,
+  myExoticBets,
+  pendingExoticBets,
+  disabled,
+  onToggleExoticBet,
+}: ExoticBetPickerProps) => {
+  const [betType, setBetType] = useState<ExoticBetType>(EXOTIC_BET_TYPE.EXACTA);
+  // Lane per position, null until chosen
+  const [draft, setDraft] = useState<(number | null)[]>([null, null, null]);
+
+  const pending = pendingExoticBets.find(b => b.betType === betType) ?? null;
+
+  // Switching type starts from the pick already on the slip for it, if any
+  const selectType = (next: ExoticBetType) => {
+    const onSlip = pendingExoticBets.find(b => b.betType === next);
+    setBetType(next);
+    setDraft(onSlip ? [...onSlip.lanes, null, null, null].slice(0, 3) : [null, null, null]);
+  };
+
+  const type = EXOTIC_TYPES.find(t => t.betType === betType)!;
+  const placed = myExoticBets?.[type.bet];
+  const picks = exoticPicks(betType);
+  const chosen = draft.slice(0, picks);
+  const lanes = chosen.every(l => l !== null) ? normalizeExoticLanes(betType, chosen as number[]) : null;
+  const oddsBps = lanes && parsedExoticOdds?.oddsSet ? exoticOddsFor(parsedExoticOdds, betType, lanes) : 0n;
+  const isPending = !!pending && !!lanes && sameLanes(pending.lanes, lanes);
+  const offered = parsedExoticOdds?.oddsSet === true;
+
+  const pickLane = (position: number, lane: number) =>
+    setDraft(prev => prev.map((l, i) => (i === position ? (l === lane ? null : lane) : l === lane ? null : l)));
+
+  const laneLabel = (lane: number) => {
+    const tokenId = laneTokenIds[lane] ?? 0n;
+    return tokenId !== 0n ? <LaneName tokenId={tokenId} fallback={`Lane ${lane}`} /> : `Lane ${lane}`;
+  };
+  const renderLanes = (picked: readonly number[]) =>
+    picked.map((lane, i) => (
+      <span key={i}>
+        {i > 0 ? (betType === EXOTIC_BET_TYPE.QUINELLA ? " / " : " → ") : null}
+        {laneLabel(lane)}
+      </span>
+    ));
+
+  return (
+    <div className="rounded-lg border border-base-300 p-3 flex flex-col gap-2 text-sm">
+      <div className="flex items-center justify-between gap-2">
+        <span className="font-semibold">Exotic bets</span>
+        <div className="join">
+          {EXOTIC_TYPES.map(t => (
+            <button
+              key={t.betType}
+              className={`btn btn-xs join-item ${t.betType === betType ? "btn-active" : ""}`}
+              onClick={() => selectType(t.betType)}
+            >
+              {t.label}
+            </button>
+          ))}
+        </div>
+      </div>
+      <div className="text-xs opacity-70">{type.rule}</div>
+
+      {!offered ? (
+        <div className="text-xs opacity-60">Exotic odds aren&apos;t up for this race yet.</div>
+      ) : placed?.hasBet ? (
+        <div className="text-xs">
+          {type.label} placed: {renderLanes(placed.lanes)}
+        </div>
+      ) : (
+        <>
+          {Array.from({ length: picks }).map((_, position) => (
+            <div key={position} className="flex items-center gap-2">
+              <span className="w-8 text-xs opacity-70">{POSITION_LABELS[position]}</span>
+              <div className="flex flex-wrap gap-1">
+                {Array.from({ length: LANE_COUNT }).map((_, lane) => (
+                  <button
+                    key={lane}
+                    className={`btn btn-xs ${draft[position] === lane ? "btn-secondary" : "btn-outline"}`}
+                    disabled={disabled}
+                    onClick={() => pickLane(position, lane)}
+                  >
+                    {lane}
+                  </button>
+                ))}
+              </div>
+            </div>
+          ))}
+
+          <div className="flex items-center justify-between gap-2">
+            <span className="text-xs">
+              {lanes ? (
+                <>
+                  {renderLanes(lanes)} <span className="opacity-60">@ {formatOddsBps(oddsBps)}</span>
+                </>
+              ) : (
+                <span className="opacity-60">Pick a lane for each position</span>
+              )}
+            </span>
+            <button
+              className="btn btn-xs btn-secondary"
+              disabled={disabled || !lanes || oddsBps === 0n}
+              onClick={() => lanes && onToggleExoticBet({ lanes, betType })}
+            >
+              {isPending ? "Remove from slip" : pending ? "Replace on slip" : "Add to slip"}
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,22 @@
+import { PayoutStatus } from "../types";
+
+const BADGE_CLASS: Record<PayoutStatus, string> = {
+  pending: "badge-ghost",
+  lost: "badge-ghost",
+  claimed: "badge-success",
+  unclaimed: "badge-info",
+  expired: "badge-error",
+};
+
+interface PayoutStatusBadgeProps {
+  status: PayoutStatus;
+  refund?: boolean; // cancelled race: the "payout" is the stake coming back
+}
+
+export const PayoutStatusBadge = ({ status, refund = false }: PayoutStatusBadgeProps) => {
+  return (
+    <span className={`badge badge-sm ${BADGE_CLASS[status]}`}>
+      {refund && status !== "pending" ? `refund ${status}` : status}
+    </span>
+  );
+};
@@ -0,0 +1,107 @@
+"use client";
+
+import { useMemo } from "react";
+import { TRACK_LENGTH } from "../constants";
+import { LaneName } from "./LaneName";
+import {
+  FINISH_TIME_PRECISION,
+  FinishMargin,
+  PHOTO_FINISH_MAX_LENGTHS,
+  RaceSimulationWithMargins,
+  describeMargin,
+  laneDistanceAt,
+} from "@se-2/race-core";
+import { RaffeAnimated } from "~~/components/assets/RaffeAnimated";
+
+// Zoomed scale of the photo: pixels per track unit (the track itself draws 3)
+const PX_PER_UNIT = 12;
+const SPRITE_PX = 56;
+const STRIP_WIDTH_PX = 320;
+// Where the finish line sits in the strip, leaving room for the trailing lane's sprite on its left
+const FINISH_X_PX = STRIP_WIDTH_PX - 40;
+
+const POSITION_LABELS = ["1st", "2nd", "3rd"] as const;
+
+const placingOf = (simulation: RaceSimulationWithMargins, lane: number) =>
+  [simulation.finishOrder.first, simulation.finishOrder.second, simulation.finishOrder.third].findIndex(position =>
+    position.lanes.includes(lane),
+  );
+
+/**
+ * The closest decision that changed a payout (1st/2nd, 2nd/3rd or 3rd/out), if it's close enough for a photo,
+ * with the placing of the group that got there first.
+ */
+export const findPhotoFinish = (simulation: RaceSimulationWithMargins) => {
+  let photo: { margin: FinishMargin; placing: number } | null = null;
+  for (const margin of simulation.margins) {
+    const placing = placingOf(simulation, margin.ahead[0]!);
+    if (placing < 0) break;
+    if (margin.lengths <= PHOTO_FINISH_MAX_LENGTHS && (!photo || margin.lengths < photo.margin.lengths)) {
+      photo = { margin, placing };
+    }
+  }
+  return photo;
+};
+
+/**
+ * Finish-line camera for close results: the lanes involved in the tightest paying decision, frozen at the instant
+ * the leader's nose hit the line and magnified so a nose is visible.
+ */
+export const PhotoFinish = ({
+  idPrefix,
+  simulation,
+  laneTokenIds,
+}: {
+  idPrefix: string;
+  simulation: RaceSimulationWithMargins;
+  laneTokenIds: bigint[];
+}) => {
+  const photo = useMemo(() => findPhotoFinish(simulation), [simulation]);
+  if (!photo) return null;
+
+  const { margin, placing } = photo;
+  const crossedAt = simulation.finishTimes[margin.ahead[0]!]!;
+  const lanes = [...margin.ahead, ...margin.behind].sort((a, b) => a - b);
+
+  return (
+    <div className="flex flex-col items-center gap-1 w-full">
+      <div className="text-sm font-bold uppercase tracking-wide opacity-70">Photo finish</div>
+      <div className="relative rounded-lg overflow-hidden bg-base-300" style={{ width: STRIP_WIDTH_PX }}>
+        {/* Finish line */}
+        <div
+          className="absolute top-0 bottom-0"
+          style={{
+            left: FINISH_X_PX,
+            width: 3,
+            background: "repeating-linear-gradient(180deg, #fff 0px, #fff 6px, #222 6px, #222 12px)",
+          }}
+        />
+        {lanes.map(lane => {
+          const tokenId = laneTokenIds[lane] ?? 0n;
+          const offset =
+            (laneDistanceAt(simulation.frames, lane, crossedAt, FINISH_TIME_PRECISION) - TRACK_LENGTH) * PX_PER_UNIT;
+          return (
+            <div key={lane} className="relative" style={{ height: SPRITE_PX }}>
+              <div className="absolute top-0" style={{ left: FINISH_X_PX + offset - SPRITE_PX }}>
+                <RaffeAnimated
+                  idPrefix={`${idPrefix}-photo-${lane}`}
+                  tokenId={tokenId}
+                  playbackRate={1}
+                  playing={false}
+                  sizePx={SPRITE_PX}
+                />
+              </div>
+              <span className="absolute left-2 top-1 text-xs font-semibold">
+                <LaneName tokenId={tokenId} fallback={`Lane ${lane}`} />
+              </span>
+            </div>
+          );
+        })}
+      </div>
+      <div className="text-sm">
+        {placing === 0 ? "Won" : POSITION_LABELS[placing]} by{" "}
+        <span className="font-semibold">{describeMargin(margin.lengths)}</span>
+      </div>
+    </div>
+  );
+};
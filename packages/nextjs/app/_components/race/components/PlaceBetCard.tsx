@@ -1,7 +1,24 @@
 "use client";
 
 import { LANE_COUNT, ODDS_SCALE, USDC_DECIMALS } from "../constants";
-import { BET_TYPE, BetType, LaneStats, MyBets, ParsedOdds, ParsedRaffes } from "../types";
+import { BetApprovalMode } from "../hooks/useBetSubmission";
+import { EstimatedProbabilities } from "../hooks/useEstimatedProbabilities";
+import {
+  BET_TYPE,
+  BetSelection,
+  BetType,
+  ExoticBetSelection,
+  LaneStats,
+  MyBets,
+  MyExoticBets,
+  ParsedExoticOdds,
+  ParsedOdds,
+  ParsedRacePool,
+  ParsedRaffes,
+} from "../types";
+import { formatUsdc, impliedPoolOdds } from "../utils";
+import { BetSlip } from "./BetSlip";
+import { ExoticBetPicker } from "./ExoticBetPicker";
 import { LaneName } from "./LaneName";
 import { formatUnits } from "viem";
 import { RaffeAnimated } from "~~/components/assets/RaffeAnimated";
@@ -14,12 +31,19 @@ interface PlaceBetCardProps {
   laneStats: LaneStats[];
   parsedRaffes: ParsedRaffes | null;
   parsedOdds: ParsedOdds | null;
+  parsedExoticOdds: ParsedExoticOdds | null;
+  parsedPool: ParsedRacePool | null;
+  totalOnLane: bigint[] | null; // Win stakes per lane, the parimutuel pool's split
+  // Simulated chances shown until the odds are set, and how far along the simulation is (null when not running)
+  estimatedProbabilities: EstimatedProbabilities | null;
+  estimateProgress: number | null;
 
   // User state
   connectedAddress: `0x${string}` | undefined;
   userUsdcBalance: bigint | undefined;
   maxBetAmount: bigint | null;
   myBets: MyBets | null;
+  myExoticBets: MyExoticBets | null;
 
   // Flags
   canBet: boolean;
@@ -28,16 +52,22 @@ interface PlaceBetCardProps {
   needsApproval: boolean;
   hasEnoughUsdc: boolean;
   exceedsMaxBet: boolean;
-  isApproving: boolean;
+  approvalMode: BetApprovalMode;
+  // Status of the bets being placed (wallet confirmation, then mining); null when idle
+  submittingLabel: string | null;
 
-  // Bet amount state
+  // Bet amount and picks
   betAmountUsdc: string;
   setBetAmountUsdc: (amount: string) => void;
   placeBetValue: bigint | null;
+  pendingBets: BetSelection[];
+  pendingExoticBets: ExoticBetSelection[];
+  totalStake: bigint | null;
 
   // Actions
-  onApprove: () => Promise<void>;
-  onPlaceBet: (lane: number, betType: BetType) => Promise<void>;
+  onToggleBet: (lane: number, betType: BetType) => void;
+  onToggleExoticBet: (selection: ExoticBetSelection) => void;
+  onPlaceBets: () => Promise<void>;
 }
 
 export const PlaceBetCard = ({
@@ -47,59 +77,91 @@ export const PlaceBetCard = ({
   laneStats,
   parsedRaffes,
   parsedOdds,
+  parsedExoticOdds,
+  parsedPool,
+  totalOnLane,
+  estimatedProbabilities,
+  estimateProgress,
   connectedAddress,
   userUsdcBalance,
   maxBetAmount,
   myBets,
+  myExoticBets,
   canBet,
   isViewingLatest,
   raffeRaceContract,
   needsApproval,
   hasEnoughUsdc,
   exceedsMaxBet,
-  isApproving,
+  approvalMode,
+  submittingLabel,
   betAmountUsdc,
   setBetAmountUsdc,
   placeBetValue,
-  onApprove,
-  onPlaceBet,
+  pendingBets,
+  pendingExoticBets,
+  totalStake,
+  onToggleBet,
+  onToggleExoticBet,
+  onPlaceBets,
 }: PlaceBetCardProps) => {
+  const isSubmitting = submittingLabel !== null;
+  const pendingCount = pendingBets.length + pendingExoticBets.length;
+
+  // Parimutuel races pay from the Win pool, so their odds move with every bet until betting closes
+  const parimutuel = parsedPool?.parimutuel === true;
+
+  // Before the odds are set, a lane's estimated chance stands in for its odds
+  const estimateLabel = (probBps: number[] | undefined, lane: number) => {
+    const bps = probBps?.[lane];
+    return bps === undefined ? "—" : `≈${(bps / 100).toFixed(0)}%`;
+  };
+
   const winOddsLabelForLane = (lane: number) => {
-    if (!parsedOdds?.oddsSet) return "—";
-    const bps = Number(parsedOdds.winOddsBps[lane] ?? 0n);
+    if (!parsedOdds?.oddsSet) return estimateLabel(estimatedProbabilities?.winProbBps, lane);
+    const bps = Number((parimutuel ? parsedPool.impliedOddsBps : parsedOdds.winOddsBps)[lane] ?? 0n);
     if (!Number.isFinite(bps) || bps <= 0) return "—";
     return `${(bps / ODDS_SCALE).toFixed(2)}x`;
   };
 
   const placeOddsLabelForLane = (lane: number) => {
-    if (!parsedOdds?.oddsSet) return "—";
+    if (!parsedOdds?.oddsSet) return estimateLabel(estimatedProbabilities?.placeProbBps, lane);
     const bps = Number(parsedOdds.placeOddsBps[lane] ?? 0n);
     if (!Number.isFinite(bps) || bps <= 0) return "—";
     return `${(bps / ODDS_SCALE).toFixed(2)}x`;
   };
 
   const showOddsLabelForLane = (lane: number) => {
-    if (!parsedOdds?.oddsSet) return "—";
+    if (!parsedOdds?.oddsSet) return estimateLabel(estimatedProbabilities?.showProbBps, lane);
     const bps = Number(parsedOdds.showOddsBps[lane] ?? 0n);
     if (!Number.isFinite(bps) || bps <= 0) return "—";
     return `${(bps / ODDS_SCALE).toFixed(2)}x`;
   };
 
+  // The slip prices a parimutuel Win bet on the pool as it would stand with the bet in
+  const pendingWin = pendingBets.find(b => b.betType === BET_TYPE.WIN);
+  const slipOdds =
+    parimutuel && parsedOdds && totalOnLane
+      ? {
+          ...parsedOdds,
+          winOddsBps: impliedPoolOdds(
+            totalOnLane,
+            parsedPool.takeBps,
+            pendingWin && placeBetValue ? [{ lane: pendingWin.lane, amount: placeBetValue }] : [],
+          ),
+        }
+      : parsedOdds;
+
   // Check if user already has a specific bet type
   const hasWinBet = myBets?.win.hasBet ?? false;
   const hasPlaceBet = myBets?.place.hasBet ?? false;
   const hasShowBet = myBets?.show.hasBet ?? false;
-  const hasAllBets = hasWinBet && hasPlaceBet && hasShowBet;
 
   // Get the lane for each bet type if placed
   const winBetLane = hasWinBet ? myBets?.win.lane : null;
   const placeBetLane = hasPlaceBet ? myBets?.place.lane : null;
   const showBetLane = hasShowBet ? myBets?.show.lane : null;
 
-  const handlePlaceBet = async (lane: number, betType: BetType) => {
-    await onPlaceBet(lane, betType);
-  };
-
   const renderCompactBetButton = (lane: number, betType: BetType, label: string, odds: string, disabled: boolean) => {
     // Check if THIS bet type on THIS lane is already placed
     let isThisBetPlaced = false;
@@ -113,18 +175,19 @@ export const PlaceBetCard = ({
     if (betType === BET_TYPE.PLACE && hasPlaceBet) isBetTypeDisabled = true;
     if (betType === BET_TYPE.SHOW && hasShowBet) isBetTypeDisabled = true;
 
-    const btnDisabled = disabled || isBetTypeDisabled || !placeBetValue || needsApproval;
+    const isThisBetPicked = pendingBets.some(b => b.betType === betType && b.lane === lane);
+    const btnDisabled = disabled || isBetTypeDisabled || isSubmitting;
 
     return (
       <button
         key={betType}
-        className={`btn px-4 min-w-0 ${isThisBetPlaced ? "btn-primary" : "btn-outline"} ${
-          isBetTypeDisabled && !isThisBetPlaced ? "opacity-50" : ""
-        }`}
+        className={`btn px-4 min-w-0 ${
+          isThisBetPlaced ? "btn-primary" : isThisBetPicked ? "btn-secondary" : "btn-outline"
+        } ${isBetTypeDisabled && !isThisBetPlaced ? "opacity-50" : ""}`}
         disabled={btnDisabled}
         onClick={e => {
           e.stopPropagation();
-          handlePlaceBet(lane, betType);
+          onToggleBet(lane, betType);
         }}
       >
         <div className="flex flex-col items-center leading-tight">
@@ -148,10 +211,40 @@ export const PlaceBetCard = ({
     <div className="card bg-base-100 border border-base-300">
       <div className="card-body gap-3">
         <h3 className="font-semibold">Place a bet</h3>
-        <p className="text-sm opacity-70">
-          You can place up to 1 Win (1st place), 1 Place (1st or 2nd place), and 1 Show (1st, 2nd, or 3rd place) bet per
-          race.
-        </p>
+        {parimutuel ? (
+          <>
+            <p className="text-sm opacity-70">
+              This race is a parimutuel pool: Win bets only, one per race. Everyone who backs the winner shares the pool
+              after a {parsedPool.takeBps / 100}% house take, so the odds keep moving until betting closes.
+            </p>
+            <div className="flex justify-between rounded-lg bg-base-200 px-3 py-2 text-sm">
+              <span>Pool</span>
+              <span className="font-mono">{formatUsdc(parsedPool.pool)} USDC</span>
+            </div>
+          </>
+        ) : (
+          <p className="text-sm opacity-70">
+            You can place up to 1 Win (1st place), 1 Place (1st or 2nd place), and 1 Show (1st, 2nd, or 3rd place) bet
+            per race, plus 1 each of the exotic bets below. Pick the ones you want, then place them together.
+          </p>
+        )}
+
+        {!parsedOdds?.oddsSet && (estimatedProbabilities || estimateProgress !== null) && (
+          <div className="flex flex-col gap-1 text-xs opacity-70">
+            {estimatedProbabilities ? (
+              <span>
+                Odds aren&apos;t set yet. Each lane shows its estimated chance from{" "}
+                {estimatedProbabilities.samples.toLocaleString()} simulated races
+                {estimatedProbabilities.source === "table" ? " per lineup in the score table" : ""}.
+              </span>
+            ) : (
+              <span>Odds aren&apos;t set yet. Simulating races to estimate each lane&apos;s chances…</span>
+            )}
+            {estimateProgress !== null && (
+              <progress className="progress progress-primary w-full" value={estimateProgress} max={1} />
+            )}
+          </div>
+        )}
 
         {/* Bet amount input and approval button - on same line */}
         <div className={!canBet ? "opacity-50 pointer-events-none" : ""}>
@@ -172,16 +265,22 @@ export const PlaceBetCard = ({
                 />
                 <span className="absolute right-3 top-1/2 -translate-y-1/2 text-sm opacity-70">USDC</span>
               </div>
-              {/* Approval button - always visible, disabled when not needed */}
+              {/* One button for the whole pick: approval (when needed) goes along with the bets */}
               <button
-                className="btn btn-outline flex-shrink-0"
+                className="btn btn-primary flex-shrink-0"
                 disabled={
-                  !needsApproval || !placeBetValue || isApproving || !hasEnoughUsdc || exceedsMaxBet || hasAllBets
+                  pendingCount === 0 ||
+                  !placeBetValue ||
+                  isSubmitting ||
+                  !hasEnoughUsdc ||
+                  exceedsMaxBet ||
+                  !connectedAddress ||
+                  !isViewingLatest
                 }
-                onClick={onApprove}
+                onClick={onPlaceBets}
               >
-                {isApproving ? <span className="loading loading-spinner loading-xs" /> : null}
-                Approve USDC
+                {isSubmitting ? <span className="loading loading-spinner loading-xs" /> : null}
+                {isSubmitting ? submittingLabel : pendingCount > 1 ? `Place ${pendingCount} bets` : "Place bet"}
               </button>
             </div>
             {connectedAddress && userUsdcBalance !== undefined && (
@@ -201,7 +300,29 @@ export const PlaceBetCard = ({
           </div>
         </div>
 
-        {!needsApproval && placeBetValue && <div className="text-xs text-success">✓ Approved — ready to place bet</div>}
+        <BetSlip
+          pendingBets={pendingBets}
+          pendingExoticBets={pendingExoticBets}
+          amount={placeBetValue}
+          parsedOdds={slipOdds}
+          parsedExoticOdds={parsedExoticOdds}
+          parimutuel={parimutuel}
+          maxBetAmount={maxBetAmount}
+          laneTokenIds={laneTokenIds}
+        />
+
+        {pendingCount > 0 && totalStake !== null && (
+          <div className="text-xs opacity-70">
+            {!needsApproval
+              ? "USDC already approved."
+              : approvalMode === "batch"
+                ? "USDC approval is included, one confirmation in your wallet."
+                : // The permit goes in with a Win/Place/Show bet, exotic bets alone need an approve transaction
+                  approvalMode === "permit" && pendingBets.length > 0
+                  ? "You'll sign a USDC permit (no gas), then confirm each bet."
+                  : "Your wallet will ask you to approve USDC first, then confirm each bet."}
+          </div>
+        )}
 
         {/* Lane selection with inline bet type buttons */}
         <div className="flex flex-col gap-2 w-full">
@@ -256,20 +377,22 @@ export const PlaceBetCard = ({
                         winOddsLabelForLane(lane),
                         !raffeRaceContract || !connectedAddress || !canBet || !isViewingLatest,
                       )}
-                      {renderCompactBetButton(
-                        lane,
-                        BET_TYPE.PLACE,
-                        "Place",
-                        placeOddsLabelForLane(lane),
-                        !raffeRaceContract || !connectedAddress || !canBet || !isViewingLatest,
-                      )}
-                      {renderCompactBetButton(
-                        lane,
-                        BET_TYPE.SHOW,
-                        "Show",
-                        showOddsLabelForLane(lane),
-                        !raffeRaceContract || !connectedAddress || !canBet || !isViewingLatest,
-                      )}
+                      {!parimutuel &&
+                        renderCompactBetButton(
+                          lane,
+                          BET_TYPE.PLACE,
+                          "Place",
+                          placeOddsLabelForLane(lane),
+                          !raffeRaceContract || !connectedAddress || !canBet || !isViewingLatest,
+                        )}
+                      {!parimutuel &&
+                        renderCompactBetButton(
+                          lane,
+                          BET_TYPE.SHOW,
+                          "Show",
+                          showOddsLabelForLane(lane),
+                          !raffeRaceContract || !connectedAddress || !canBet || !isViewingLatest,
+                        )}
                     </div>
                     <div className="flex flex-col items-end text-[10px] opacity-70 leading-tight">
                       <span>Zip:{laneStats[lane]?.zip ?? 10}</span>
@@ -316,20 +439,22 @@ export const PlaceBetCard = ({
                         winOddsLabelForLane(lane),
                         !raffeRaceContract || !connectedAddress || !canBet || !isViewingLatest,
                       )}
-                      {renderCompactBetButton(
-                        lane,
-                        BET_TYPE.PLACE,
-                        "Place",
-                        placeOddsLabelForLane(lane),
-                        !raffeRaceContract || !connectedAddress || !canBet || !isViewingLatest,
-                      )}
-                      {renderCompactBetButton(
-                        lane,
-                        BET_TYPE.SHOW,
-                        "Show",
-                        showOddsLabelForLane(lane),
-                        !raffeRaceContract || !connectedAddress || !canBet || !isViewingLatest,
-                      )}
+                      {!parimutuel &&
+                        renderCompactBetButton(
+                          lane,
+                          BET_TYPE.PLACE,
+                          "Place",
+                          placeOddsLabelForLane(lane),
+                          !raffeRaceContract || !connectedAddress || !canBet || !isViewingLatest,
+                        )}
+                      {!parimutuel &&
+                        renderCompactBetButton(
+                          lane,
+                          BET_TYPE.SHOW,
+                          "Show",
+                          showOddsLabelForLane(lane),
+                          !raffeRaceContract || !connectedAddress || !canBet || !isViewingLatest,
+                        )}
                     </div>
 
                     <div className="ml-auto flex flex-col items-end text-[10px] opacity-70 leading-tight">
@@ -344,19 +469,49 @@ export const PlaceBetCard = ({
           })}
         </div>
 
+        {!parimutuel && (
+          <ExoticBetPicker
+            laneTokenIds={laneTokenIds}
+            parsedExoticOdds={parsedExoticOdds}
+            myExoticBets={myExoticBets}
+            pendingExoticBets={pendingExoticBets}
+            disabled={!raffeRaceContract || !connectedAddress || !canBet || !isViewingLatest || isSubmitting}
+            onToggleExoticBet={onToggleExoticBet}
+          />
+        )}
+
         {/* Bet type explanations */}
-        <div className="text-xs opacity-60 space-y-1 pt-2 border-t border-base-300">
-          <div>
-            <strong>Win:</strong> Raffe must finish 1st
-          </div>
-          <div>
-            <strong>Place:</strong> Raffe must finish 1st or 2nd
+        {parimutuel ? (
+          <div className="text-xs opacity-60 space-y-1 pt-2 border-t border-base-300">
+            <div>
+              <strong>Win:</strong> Raffe must finish 1st
+            </div>
+            <div>
+              Odds shown are what each raffe would pay if betting closed now; the final odds are fixed when the race
+              settles.
+            </div>
+            <div className="italic pt-1">
+              In a dead heat the pool is split evenly between the tied raffes that were backed.
+            </div>
           </div>
-          <div>
-            <strong>Show:</strong> Raffe must finish 1st, 2nd, or 3rd
+        ) : (
+          <div className="text-xs opacity-60 space-y-1 pt-2 border-t border-base-300">
+            <div>
+              <strong>Win:</strong> Raffe must finish 1st
+            </div>
+            <div>
+              <strong>Place:</strong> Raffe must finish 1st or 2nd
+            </div>
+            <div>
+              <strong>Show:</strong> Raffe must finish 1st, 2nd, or 3rd
+            </div>
+            <div>
+              <strong>Exacta / Quinella / Trifecta:</strong> Raffes must finish 1st and 2nd in order, 1st and 2nd in
+              either order, or 1st, 2nd and 3rd in order
+            </div>
+            <div className="italic pt-1">Dead heat rules apply for ties at qualifying positions.</div>
           </div>
-          <div className="italic pt-1">Dead heat rules apply for ties at qualifying positions.</div>
-        </div>
+        )}
       </div>
     </div>
   );
@@ -3,6 +3,8 @@
 import { MyBets, ParsedFinishOrder, ParsedRace, ParsedSchedule, RaceStatus } from "../types";
 import { BlockCountdownBar } from "./BlockCountdownBar";
 import { LaneName } from "./LaneName";
+import { PhotoFinish } from "./PhotoFinish";
+import { RaceSimulationWithMargins, describeMargin } from "@se-2/race-core";
 import { RaffeAnimated } from "~~/components/assets/RaffeAnimated";
 
 /* ─────────────────────────────────────────────────────────────────────────────
@@ -18,6 +20,7 @@ interface RaceResultsOverlayProps {
   parsedSchedule: ParsedSchedule | null;
   blockNumber: bigint | undefined;
   myBets: MyBets | null;
+  simulation: RaceSimulationWithMargins | null;
 }
 
 const RaceResultsOverlay = ({
@@ -29,9 +32,16 @@ const RaceResultsOverlay = ({
   parsedSchedule,
   blockNumber,
   myBets,
+  simulation,
 }: RaceResultsOverlayProps) => {
   const raceIdStr = (viewingRaceId ?? 0n).toString();
 
+  // "by a neck": how far a placing finished ahead of the next one (only known once the race has been replayed)
+  const marginAfter = (lanes: number[]) => {
+    const margin = simulation?.margins.find(m => lanes.some(lane => m.ahead.includes(lane)));
+    return margin ? <span className="text-sm opacity-60">by {describeMargin(margin.lengths)}</span> : null;
+  };
+
   // Check if user placed any bets and if any won
   const hasAnyBet = myBets?.win.hasBet || myBets?.place.hasBet || myBets?.show.hasBet;
 
@@ -95,6 +105,7 @@ const RaceResultsOverlay = ({
                   </div>
                 );
               })}
+              {marginAfter(parsedFinishOrder.first.lanes)}
             </div>
           )}
 
@@ -120,6 +131,7 @@ const RaceResultsOverlay = ({
                   </div>
                 );
               })}
+              {marginAfter(parsedFinishOrder.second.lanes)}
             </div>
           )}
 
@@ -145,6 +157,7 @@ const RaceResultsOverlay = ({
                   </div>
                 );
               })}
+              {marginAfter(parsedFinishOrder.third.lanes)}
             </div>
           )}
         </div>
@@ -163,6 +176,10 @@ const RaceResultsOverlay = ({
         </div>
       ) : null}
 
+      {simulation ? (
+        <PhotoFinish idPrefix={`${idPrefix}-${raceIdStr}`} simulation={simulation} laneTokenIds={laneTokenIds} />
+      ) : null}
+
       {parsedSchedule?.settledAtBlock && (
         <div className="w-full mt-2">
           <BlockCountdownBar
@@ -184,7 +201,7 @@ const RaceResultsOverlay = ({
 interface RaceOverlayProps {
   // State
   status: RaceStatus;
-  simulation: unknown | null;
+  simulation: RaceSimulationWithMargins | null;
   raceIsOver: boolean;
   isPlaying: boolean;
   raceStarted: boolean;
@@ -255,6 +272,7 @@ export const RaceOverlay = ({
             parsedSchedule={parsedSchedule}
             blockNumber={blockNumber}
             myBets={myBets}
+            simulation={simulation}
           />
         ) : null}
       </>
@@ -306,6 +324,7 @@ export const RaceOverlay = ({
           parsedSchedule={parsedSchedule}
           blockNumber={blockNumber}
           myBets={myBets}
+          simulation={null}
         />
       ) : status === "no_race" ? (
         // No race exists - prompt to create one
@@ -31,6 +31,9 @@ interface RaceTrackProps {
 
   // Bet state
   myBets: MyBets | null;
+
+  // Play-by-play line to show over the track (see useRaceCommentary)
+  caption?: string | null;
 }
 
 /**
@@ -71,6 +74,7 @@ export const RaceTrack = memo(function RaceTrack({
   playbackSpeed,
   svgResetNonce,
   myBets,
+  caption,
 }: RaceTrackProps) {
   const { trackBaseY, trackVerticalSpread, raffeSize, worldPaddingLeft } = dimensions;
 
@@ -256,6 +260,15 @@ export const RaceTrack = memo(function RaceTrack({
           </div>
         </div>
       </div>
+
+      {/* Commentary caption - fixed to the viewport, not the scrolling world */}
+      {caption ? (
+        <div className="absolute inset-x-0 bottom-3 z-20 flex justify-center pointer-events-none">
+          <div className="px-3 py-1 rounded-full bg-base-100/85 backdrop-blur-sm shadow text-sm font-semibold">
+            {caption}
+          </div>
+        </div>
+      ) : null}
     </>
   );
 });
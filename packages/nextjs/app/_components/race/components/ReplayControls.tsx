@@ -0,0 +1,57 @@
+"use client";
+
+import { Dispatch, SetStateAction } from "react";
+import { PlaybackSpeed } from "../types";
+
+interface ReplayControlsProps {
+  hasSimulation: boolean;
+  isPlaying: boolean;
+  setIsPlaying: Dispatch<SetStateAction<boolean>>;
+  playbackSpeed: PlaybackSpeed;
+  setPlaybackSpeed: (speed: PlaybackSpeed) => void;
+  frame: number;
+  lastFrameIndex: number;
+  stepBy: (delta: -1 | 1) => void;
+  reset: () => void;
+}
+
+export const ReplayControls = ({
+  hasSimulation,
+  isPlaying,
+  setIsPlaying,
+  playbackSpeed,
+  setPlaybackSpeed,
+  frame,
+  lastFrameIndex,
+  stepBy,
+  reset,
+}: ReplayControlsProps) => {
+  return (
+    <div className="flex items-center gap-2">
+      <div className="join">
+        {([1, 2, 3] as PlaybackSpeed[]).map(speed => (
+          <button
+            key={speed}
+            className={`btn btn-sm join-item ${playbackSpeed === speed ? "btn-active" : ""}`}
+            onClick={() => setPlaybackSpeed(speed)}
+            disabled={!hasSimulation}
+          >
+            {speed}x
+          </button>
+        ))}
+      </div>
+      <button className="btn btn-sm" onClick={reset} disabled={!hasSimulation}>
+        Reset
+      </button>
+      <button className="btn btn-sm" onClick={() => stepBy(-1)} disabled={!hasSimulation || frame === 0}>
+        ◀︎ Tick
+      </button>
+      <button className="btn btn-sm" onClick={() => stepBy(1)} disabled={!hasSimulation || frame >= lastFrameIndex}>
+        Tick ▶︎
+      </button>
+      <button className="btn btn-sm btn-primary" onClick={() => setIsPlaying(p => !p)} disabled={!hasSimulation}>
+        {isPlaying ? "Pause" : "Play"}
+      </button>
+    </div>
+  );
+};
@@ -1,10 +1,15 @@
 export * from "./AdminStatusCard";
+export * from "./BetSlip";
 export * from "./BlockCountdownBar";
 export * from "./ClaimPayoutCard";
 export * from "./EnterNftCard";
+export * from "./ExoticBetPicker";
 export * from "./LaneName";
+export * from "./PayoutStatusBadge";
+export * from "./PhotoFinish";
 export * from "./PlaceBetCard";
 export * from "./RaceOverlay";
 export * from "./RaceQueueCard";
 export * from "./RaceStatusCard";
 export * from "./RaceTrack";
+export * from "./ReplayControls";
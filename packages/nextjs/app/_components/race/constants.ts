@@ -1,8 +1,18 @@
-// Race-related constants - keep in sync with RaffeRaceConstants.sol
+import { TRACK_LENGTH } from "@se-2/race-core";
+
+// Contract values are generated from RaffeRaceConstants.sol into @se-2/race-core; don't redefine them here
+export {
+  BETTING_WINDOW_BLOCKS,
+  CLAIM_EXPIRATION_BLOCKS,
+  FINISH_OVERSHOOT,
+  LANE_COUNT,
+  MAX_TICKS,
+  ODDS_SCALE,
+  SPEED_RANGE,
+  TRACK_LENGTH,
+} from "@se-2/race-core";
 
 export const USDC_DECIMALS = 6;
-export const LANE_COUNT = 6 as const;
-export const ODDS_SCALE = 10000;
 
 // Fixed odds in basis points (temporary until dynamic odds)
 // Win: 5.70x, Place: 2.40x, Show: 1.60x
@@ -10,15 +20,6 @@ export const TEMP_FIXED_WIN_ODDS_BPS = 57000n;
 export const TEMP_FIXED_PLACE_ODDS_BPS = 24000n;
 export const TEMP_FIXED_SHOW_ODDS_BPS = 16000n;
 
-// Window sizes
-export const BETTING_WINDOW_BLOCKS = 30n;
-
-// Race simulation parameters
-export const SPEED_RANGE = 10;
-export const TRACK_LENGTH = 1000;
-export const FINISH_OVERSHOOT = 10; // Race runs until all are 10 units past finish
-export const MAX_TICKS = 500;
-
 // Replay speed baseline multiplier:
 // - "1x" should feel faster than real-time UI defaults
 // - higher speeds scale proportionally (2x/3x still work the same, just faster)
@@ -1,15 +1,12 @@
 export * from "./useRaceData";
+export * from "./useRaceFeed";
 export * from "./useRaceReplay";
+export * from "./useRaceSnapshot";
 export * from "./useRaceCamera";
+export * from "./useRaceCommentary";
 export * from "./useTrackDimensions";
+export * from "./useBetSubmission";
+export * from "./useEstimatedProbabilities";
 
 // Re-export individual hooks from useRaceData for convenience
-export {
-  useViewingRace,
-  useRaceDetails,
-  useRaceStatus,
-  useMyBet,
-  useMyBets,
-  useWinningClaims,
-  useRaceQueue,
-} from "./useRaceData";
+export { useViewingRace, useRaceStatus, useMyBet, useRaceQueue } from "./useRaceData";
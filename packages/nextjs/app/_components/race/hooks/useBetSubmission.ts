@@ -0,0 +1,246 @@
+"use client";
+
+import { useCallback, useState } from "react";
+import { BetSelection, ExoticBetSelection } from "../types";
+import { useQuery } from "@tanstack/react-query";
+import { Abi, Address, encodeFunctionData, erc20Abi } from "viem";
+import { useAccount, useCapabilities, usePublicClient, useSendCalls, useSignTypedData } from "wagmi";
+import { waitForCallsStatus } from "wagmi/actions";
+import { useScaffoldWriteContract, useTargetNetwork } from "~~/hooks/scaffold-eth";
+import { wagmiConfig } from "~~/services/web3/wagmiConfig";
+import { PERMIT_TYPES, getPermitDomain, getPermitNonce, splitPermitSignature } from "~~/utils/raffeRace/permit";
+import { AllowedChainIds, notification } from "~~/utils/scaffold-eth";
+import { getParsedErrorWithAllAbis } from "~~/utils/scaffold-eth/contract";
+
+type DeployedContract = { address: Address; abi: Abi } | undefined;
+
+/** How the stake gets approved: in the same call batch, by a signed permit, or by its own approve transaction. */
+export type BetApprovalMode = "batch" | "permit" | "approve";
+
+// How long a signed permit stays usable; it's submitted right away, so this only has to outlast slow confirmations
+const PERMIT_DEADLINE_SECONDS = 20 * 60;
+
+// placeExoticBet always takes three lanes; the ones the bet type doesn't use are ignored
+const exoticLaneArgs = (lanes: readonly number[]) => [lanes[0] ?? 0, lanes[1] ?? 0, lanes[2] ?? 0] as const;
+
+interface UseBetSubmissionParams {
+  raffeRaceContract: DeployedContract;
+  usdcContract: DeployedContract;
+  usdcContractName: string | null | undefined;
+  treasuryAddress: Address | undefined;
+  userUsdcAllowance: bigint | undefined;
+  refetchUserUsdcAllowance: () => Promise<unknown>;
+}
+
+/**
+ * Places one or more bets, approving USDC for the whole stake first when the allowance is short.
+ *
+ * Wallets that can execute an atomic call batch (EIP-5792 `wallet_sendCalls`) get approve + every placeBet (and
+ * placeExoticBet) in a single confirmation, and either all of it lands or none of it does. Other wallets go through
+ * the transactions one by one; when USDC supports EIP-2612 the approval is a signed permit sent with the first
+ * Win/Place/Show bet (placeBetWithPermit) rather than an approve transaction of its own. Exotic bets have no permit
+ * path, so with only exotics picked the approval is its own transaction.
+ *
+ * `pendingLabel` is the one status line to show while any of that is in flight.
+ */
+export const useBetSubmission = ({
+  raffeRaceContract,
+  usdcContract,
+  usdcContractName,
+  treasuryAddress,
+  userUsdcAllowance,
+  refetchUserUsdcAllowance,
+}: UseBetSubmissionParams) => {
+  const { targetNetwork } = useTargetNetwork();
+  const { address: connectedAddress, chain: accountChain } = useAccount();
+  const [pendingLabel, setPendingLabel] = useState<string | null>(null);
+
+  const { writeContractAsync: writeRaffeRaceAsync } = useScaffoldWriteContract({ contractName: "RaffeRace" });
+  // Default to MockUSDC if not yet determined to prevent invalid contract lookups
+  const { writeContractAsync: writeUsdcAsync } = useScaffoldWriteContract({
+    contractName: (usdcContractName ?? "MockUSDC") as any,
+  });
+
+  // Wallets without EIP-5792 reject wallet_getCapabilities; that just means no batching
+  const { data: capabilities } = useCapabilities({
+    chainId: targetNetwork.id,
+    query: { enabled: !!connectedAddress, retry: false },
+  });
+  const atomicStatus = capabilities?.atomic?.status;
+  const canBatch =
+    (atomicStatus === "supported" || atomicStatus === "ready") &&
+    accountChain?.id === targetNetwork.id &&
+    !!usdcContract &&
+    !!treasuryAddress;
+  const { sendCallsAsync } = useSendCalls();
+
+  const publicClient = usePublicClient({ chainId: targetNetwork.id });
+  const { signTypedDataAsync } = useSignTypedData();
+  const { data: permitDomain } = useQuery({
+    queryKey: ["usdcPermitDomain", targetNetwork.id, usdcContract?.address],
+    queryFn: () => getPermitDomain(publicClient!, usdcContract!.address),
+    enabled: !!publicClient && !!usdcContract,
+    // A token's signing domain is fixed at deployment
+    staleTime: Infinity,
+  });
+  const approvalMode: BetApprovalMode = canBatch ? "batch" : permitDomain ? "permit" : "approve";
+
+  const sendBatch = useCallback(
+    async (bets: BetSelection[], exoticBets: ExoticBetSelection[], amount: bigint, approveTotal: bigint | null) => {
+      if (!raffeRaceContract || !usdcContract || !treasuryAddress) return false;
+      const count = bets.length + exoticBets.length;
+
+      const calls: { to: Address; data: `0x${string}` }[] = [];
+      if (approveTotal !== null) {
+        calls.push({
+          to: usdcContract.address,
+          data: encodeFunctionData({ abi: erc20Abi, functionName: "approve", args: [treasuryAddress, approveTotal] }),
+        });
+      }
+      for (const { lane, betType } of bets) {
+        calls.push({
+          to: raffeRaceContract.address,
+          data: encodeFunctionData({
+            abi: raffeRaceContract.abi,
+            functionName: "placeBet",
+            args: [lane, amount, betType],
+          }),
+        });
+      }
+      for (const { lanes, betType } of exoticBets) {
+        calls.push({
+          to: raffeRaceContract.address,
+          data: encodeFunctionData({
+            abi: raffeRaceContract.abi,
+            functionName: "placeExoticBet",
+            args: [exoticLaneArgs(lanes), amount, betType],
+          }),
+        });
+      }
+
+      const chainId = targetNetwork.id as AllowedChainIds;
+      let notificationId: string | null = notification.loading("Awaiting for user confirmation");
+      try {
+        setPendingLabel("Confirm in wallet");
+        const { id } = await sendCallsAsync({ calls, chainId, forceAtomic: true });
+        notification.remove(notificationId);
+
+        setPendingLabel(count === 1 ? "Placing bet" : "Placing bets");
+        notificationId = notification.loading("Waiting for bets to complete.");
+        const result = await waitForCallsStatus(wagmiConfig, { id, timeout: 120_000 });
+        notification.remove(notificationId);
+        notificationId = null;
+
+        // Atomic, so a failure means none of the calls went through
+        if (result.status !== "success") throw new Error("Bet batch reverted, no bets were placed");
+        notification.success(count === 1 ? "Bet placed!" : `${count} bets placed!`, { icon: "🎉" });
+        return true;
+      } catch (error: any) {
+        if (notificationId) notification.remove(notificationId);
+        console.error("⚡️ ~ file: useBetSubmission.ts ~ error", error);
+        notification.error(getParsedErrorWithAllAbis(error, chainId));
+        return false;
+      }
+    },
+    [raffeRaceContract, usdcContract, treasuryAddress, targetNetwork.id, sendCallsAsync],
+  );
+
+  // Sign a permit for `value`, returning the arguments placeBetWithPermit takes after the bet itself
+  const signPermit = useCallback(
+    async (value: bigint) => {
+      if (!permitDomain || !publicClient || !usdcContract || !treasuryAddress || !connectedAddress) return null;
+      try {
+        const nonce = await getPermitNonce(publicClient, usdcContract.address, connectedAddress);
+        const deadline = BigInt(Math.floor(Date.now() / 1000) + PERMIT_DEADLINE_SECONDS);
+        const signature = await signTypedDataAsync({
+          domain: permitDomain,
+          types: PERMIT_TYPES,
+          primaryType: "Permit",
+          message: { owner: connectedAddress, spender: treasuryAddress, value, nonce, deadline },
+        });
+        const { v, r, s } = splitPermitSignature(signature);
+        return [value, deadline, v, r, s] as const;
+      } catch (error: any) {
+        console.error("⚡️ ~ file: useBetSubmission.ts ~ error", error);
+        notification.error(getParsedErrorWithAllAbis(error, targetNetwork.id as AllowedChainIds));
+        return null;
+      }
+    },
+    [permitDomain, publicClient, usdcContract, treasuryAddress, connectedAddress, signTypedDataAsync, targetNetwork.id],
+  );
+
+  // Each transaction confirmed (and notified) on its own
+  const sendSequential = useCallback(
+    async (bets: BetSelection[], exoticBets: ExoticBetSelection[], amount: bigint, approveTotal: bigint | null) => {
+      if (!treasuryAddress) return false;
+      const steps = bets.length + exoticBets.length + (approveTotal !== null ? 1 : 0);
+      let step = 0;
+      const nextStep = () => setPendingLabel(steps === 1 ? "Confirm in wallet" : `Confirm ${++step} of ${steps}`);
+
+      try {
+        let permit: Awaited<ReturnType<typeof signPermit>> = null;
+        // The permit rides on placeBetWithPermit, so it needs a Win/Place/Show bet to go in with
+        if (approveTotal !== null && approvalMode === "permit" && bets.length > 0) {
+          nextStep();
+          permit = await signPermit(approveTotal);
+          if (!permit) return false;
+        } else if (approveTotal !== null) {
+          nextStep();
+          const hash = await (writeUsdcAsync as any)({
+            functionName: "approve",
+            args: [treasuryAddress, approveTotal],
+          });
+          if (!hash) return false;
+        }
+        for (const [i, { lane, betType }] of bets.entries()) {
+          nextStep();
+          // The permit covers the whole stake, so it only needs to go in with the first bet
+          const hash =
+            i === 0 && permit
+              ? await writeRaffeRaceAsync({
+                  functionName: "placeBetWithPermit",
+                  args: [lane, amount, betType, ...permit],
+                })
+              : await writeRaffeRaceAsync({ functionName: "placeBet", args: [lane, amount, betType] });
+          if (!hash) return false;
+        }
+        for (const { lanes, betType } of exoticBets) {
+          nextStep();
+          const hash = await writeRaffeRaceAsync({
+            functionName: "placeExoticBet",
+            args: [exoticLaneArgs(lanes), amount, betType],
+          });
+          if (!hash) return false;
+        }
+        return true;
+      } catch {
+        // The transactor has already shown the error
+        return false;
+      }
+    },
+    [treasuryAddress, approvalMode, signPermit, writeUsdcAsync, writeRaffeRaceAsync],
+  );
+
+  /** Place `bets` and `exoticBets`, each for `amount`. Resolves true once every bet is on chain. */
+  const submitBets = useCallback(
+    async (bets: BetSelection[], amount: bigint, exoticBets: ExoticBetSelection[] = []) => {
+      const count = bets.length + exoticBets.length;
+      if (count === 0 || amount <= 0n || pendingLabel !== null) return false;
+      const total = amount * BigInt(count);
+      const approveTotal = userUsdcAllowance === undefined || userUsdcAllowance < total ? total : null;
+
+      try {
+        return canBatch
+          ? await sendBatch(bets, exoticBets, amount, approveTotal)
+          : await sendSequential(bets, exoticBets, amount, approveTotal);
+      } finally {
+        setPendingLabel(null);
+        // Approvals aren't in the race feed, so don't wait for a poll to notice
+        await refetchUserUsdcAllowance();
+      }
+    },
+    [pendingLabel, userUsdcAllowance, canBatch, sendBatch, sendSequential, refetchUserUsdcAllowance],
+  );
+
+  return { submitBets, approvalMode, pendingLabel, isSubmitting: pendingLabel !== null };
+};
@@ -0,0 +1,88 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { LANE_COUNT } from "../constants";
+import { MonteCarloPool, lookupScoreTable } from "@se-2/race-core";
+import { createBrowserMonteCarloPool } from "~~/utils/race/browserMonteCarloPool";
+import { fetchPublicScoreTable } from "~~/utils/race/scoreTable";
+
+// Enough for a preview; the bot prices the race itself with its own sample count
+const ESTIMATE_SAMPLES = 2_000;
+
+export type EstimatedProbabilities = {
+  // "table": looked up in the published score table; "monte-carlo": simulated in the browser
+  source: "table" | "monte-carlo";
+  samples: number;
+  winProbBps: number[];
+  placeProbBps: number[];
+  showProbBps: number[];
+};
+
+// One worker pool per page, started on first use
+let pool: MonteCarloPool | undefined;
+const getPool = () => (pool ??= createBrowserMonteCarloPool());
+
+/**
+ * Estimated Win / Place / Show chances for the lanes while the race waits for its on-chain odds. Read from the
+ * published score table when there is one, otherwise simulated off the main thread. `progress` runs 0..1 while a
+ * simulation is going and is null otherwise. A run is aborted when the race or its scores change, or when `enabled`
+ * turns off.
+ */
+export const useEstimatedProbabilities = ({
+  raceId,
+  laneScore,
+  enabled,
+}: {
+  raceId: bigint | null;
+  laneScore: number[];
+  enabled: boolean;
+}) => {
+  const [estimate, setEstimate] = useState<EstimatedProbabilities | null>(null);
+  const [progress, setProgress] = useState<number | null>(null);
+  const laneScoreKey = laneScore.join(",");
+
+  useEffect(() => {
+    setEstimate(null);
+    setProgress(null);
+    if (!enabled || raceId === null || laneScore.length !== LANE_COUNT) return;
+
+    const controller = new AbortController();
+    const estimateFromTable = async (): Promise<EstimatedProbabilities | null> => {
+      const table = await fetchPublicScoreTable();
+      if (!table) return null;
+      try {
+        return { source: "table", samples: table.samples, ...lookupScoreTable(table, laneScore) };
+      } catch {
+        // Scores outside the table's range
+        return null;
+      }
+    };
+    const simulate = async (): Promise<EstimatedProbabilities> => {
+      setProgress(0);
+      const { samples, winProbBps, placeProbBps, showProbBps } = await getPool().estimateWinPlaceShow({
+        score: laneScore,
+        samples: ESTIMATE_SAMPLES,
+        signal: controller.signal,
+        onProgress: ({ done, total }) => setProgress(done / total),
+      });
+      return { source: "monte-carlo", samples, winProbBps, placeProbBps, showProbBps };
+    };
+
+    estimateFromTable()
+      .then(fromTable => fromTable ?? (controller.signal.aborted ? null : simulate()))
+      .then(next => {
+        if (next && !controller.signal.aborted) setEstimate(next);
+      })
+      .catch(err => {
+        if (!controller.signal.aborted) console.error("Odds estimate failed", err);
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setProgress(null);
+      });
+
+    return () => controller.abort();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [enabled, raceId, laneScoreKey]);
+
+  return { estimate, progress };
+};
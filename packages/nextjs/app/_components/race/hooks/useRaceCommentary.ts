@@ -0,0 +1,67 @@
+"use client";
+
+import { useMemo } from "react";
+import { BASE_REPLAY_SPEED_MULTIPLIER } from "../constants";
+import { RaceEvent, RaceSimulationWithMargins, describeRaceEvent, generateCommentary } from "@se-2/race-core";
+import { useQuery } from "@tanstack/react-query";
+import { useRaffeRaceClient } from "~~/hooks/useRaffeRaceClient";
+
+// How long a caption stays up on the track, in frames (~2s at 1x)
+const CAPTION_FRAMES = 25;
+
+export type CommentaryLine = {
+  frame: number;
+  kind: RaceEvent["kind"];
+  text: string;
+  // Time into the replay at 1x once the race has started, for the recap
+  atMs: number;
+};
+
+/**
+ * Play-by-play for the replayed race with the raffes' names filled in, plus the caption to show at `frame`.
+ * Names are read once per lineup; until they arrive lanes go by their number, like on the track.
+ */
+export const useRaceCommentary = ({
+  simulation,
+  laneTokenIds,
+  frame,
+  raceStarted,
+}: {
+  simulation: RaceSimulationWithMargins | null;
+  laneTokenIds: bigint[];
+  frame: number;
+  raceStarted: boolean;
+}) => {
+  const client = useRaffeRaceClient();
+  const lineupKey = laneTokenIds.join(",");
+  const { data: names } = useQuery({
+    queryKey: ["raffeNames", client?.chainId, lineupKey],
+    queryFn: () => client!.getRaffeNamesBatch(laneTokenIds.filter(tokenId => tokenId !== 0n)),
+    enabled: !!client && laneTokenIds.some(tokenId => tokenId !== 0n),
+    // Names are set at mint and never change
+    staleTime: Infinity,
+  });
+
+  const events = useMemo(() => (simulation ? generateCommentary(simulation) : []), [simulation]);
+
+  const lines = useMemo<CommentaryLine[]>(() => {
+    const laneName = (lane: number) => names?.get(laneTokenIds[lane] ?? 0n) || `#${lane + 1}`;
+    const tickMs = 120 / BASE_REPLAY_SPEED_MULTIPLIER;
+    return events.map(event => ({
+      frame: event.frame,
+      kind: event.kind,
+      text: describeRaceEvent(event, laneName),
+      atMs: event.frame * tickMs,
+    }));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [events, names, lineupKey]);
+
+  const caption = useMemo(() => {
+    if (!raceStarted) return null;
+    // The results overlay covers the final standings, so the "result" line is for the recap only
+    const current = lines.findLast(line => line.frame <= frame && line.kind !== "result");
+    return current && frame - current.frame < CAPTION_FRAMES ? current.text : null;
+  }, [lines, frame, raceStarted]);
+
+  return { lines, caption };
+};
@@ -1,24 +1,7 @@
 "use client";
 
-import { useEffect, useMemo, useRef, useState } from "react";
-import { LANE_COUNT } from "../constants";
-import {
-  BetInfo,
-  CooldownStatus,
-  LaneStats,
-  MyBet,
-  MyBets,
-  NextWinningClaim,
-  ParsedFinishOrder,
-  ParsedOdds,
-  ParsedRace,
-  ParsedRaffes,
-  ParsedSchedule,
-  QueueEntry,
-  RaceStatus,
-} from "../types";
-import { clampStat, parseStats } from "../utils";
-import { Hex } from "viem";
+import { useEffect, useMemo, useState } from "react";
+import { CooldownStatus, ParsedRace, ParsedSchedule, RaceStatus } from "../types";
 import { useAccount, useBlockNumber, usePublicClient } from "wagmi";
 import {
   useDeployedContractInfo,
@@ -26,13 +9,19 @@ import {
   useTargetNetwork,
   useUsdcContract,
 } from "~~/hooks/scaffold-eth";
+import { useRaffeRaceClient } from "~~/hooks/useRaffeRaceClient";
+import { useGlobalState } from "~~/services/store/store";
+import { parseBet, parseCreateRaceCooldown, parseQueueEntries } from "~~/utils/raffeRace/parse";
 
 export const useRaceData = () => {
   const { targetNetwork } = useTargetNetwork();
   const publicClient = usePublicClient({ chainId: targetNetwork.id });
+  const raffeRaceClient = useRaffeRaceClient();
   const { address: connectedAddress } = useAccount();
   // Block number is fetched once here; live watching is done conditionally in RaceDashboard
   const { data: blockNumber } = useBlockNumber({ watch: false });
+  // While the race feed is streaming, its events refresh the reads below instead of per-block polling
+  const { connected: raceFeedConnected, blockNumber: feedBlockNumber } = useGlobalState(state => state.raceFeed);
 
   const [ownedTokenNameById, setOwnedTokenNameById] = useState<Record<string, string>>({});
   const [isLoadingOwnedTokenNames, setIsLoadingOwnedTokenNames] = useState(false);
@@ -43,7 +32,7 @@ export const useRaceData = () => {
   });
   const { data: raffeNftContract } = useDeployedContractInfo({ contractName: "RaffeNFT" });
   const { data: usdcContract, contractName: usdcContractName } = useUsdcContract();
-  const { data: treasuryContract } = useDeployedContractInfo({ contractName: "HouseTreasury" as any });
+  const { data: treasuryContract } = useDeployedContractInfo({ contractName: "HouseTreasury" });
 
   // Owned tokens - watch to detect new NFTs (mints, transfers)
   const { data: ownedTokenIdsData, isLoading: isOwnedTokensLoading } = useScaffoldReadContract({
@@ -54,16 +43,12 @@ export const useRaceData = () => {
     // Watch by default to detect new NFTs
   });
 
-  const ownedTokenIds = useMemo(() => {
-    const raw = (ownedTokenIdsData as readonly bigint[] | undefined) ?? [];
-    return raw.map(x => BigInt(x)).filter(x => x !== 0n);
-  }, [ownedTokenIdsData]);
+  const ownedTokenIds = useMemo(() => (ownedTokenIdsData ?? []).filter(x => x !== 0n), [ownedTokenIdsData]);
 
   // Fetch names for owned tokens
   useEffect(() => {
     const run = async () => {
-      if (!publicClient) return;
-      if (!raffeNftContract?.address || !raffeNftContract?.abi) return;
+      if (!raffeRaceClient) return;
       if (ownedTokenIds.length === 0) {
         setOwnedTokenNameById({});
         return;
@@ -71,129 +56,90 @@ export const useRaceData = () => {
 
       setIsLoadingOwnedTokenNames(true);
       try {
-        const calls = ownedTokenIds.map(tokenId => ({
-          address: raffeNftContract.address as `0x${string}`,
-          abi: raffeNftContract.abi as any,
-          functionName: "nameOf",
-          args: [tokenId],
-        }));
-
-        let res: { result?: string }[] | { status: "success" | "failure"; result?: string }[];
-
-        try {
-          res = (await publicClient.multicall({ contracts: calls as any, allowFailure: true })) as any;
-        } catch {
-          const results = await Promise.allSettled(
-            ownedTokenIds.map(tokenId =>
-              (publicClient as any).readContract({
-                address: raffeNftContract.address as `0x${string}`,
-                abi: raffeNftContract.abi as any,
-                functionName: "nameOf",
-                args: [tokenId],
-              }),
-            ),
-          );
-          res = results.map(r =>
-            r.status === "fulfilled" ? { status: "success", result: r.value } : { status: "failure" },
-          );
-        }
-
-        const next: Record<string, string> = {};
-        ownedTokenIds.forEach((tokenId, i) => {
-          const row: any = res[i];
-          const name =
-            (row?.status === "success" ? (row?.result as string | undefined) : (row?.result as string | undefined)) ??
-            "";
-          next[tokenId.toString()] = String(name).trim();
-        });
-        setOwnedTokenNameById(next);
+        const names = await raffeRaceClient.getRaffeNamesBatch(ownedTokenIds);
+        setOwnedTokenNameById(
+          Object.fromEntries(ownedTokenIds.map(tokenId => [tokenId.toString(), names.get(tokenId) ?? ""])),
+        );
       } finally {
         setIsLoadingOwnedTokenNames(false);
       }
     };
 
     void run();
-  }, [publicClient, raffeNftContract?.address, raffeNftContract?.abi, ownedTokenIds]);
+  }, [raffeRaceClient, ownedTokenIds]);
 
   // Race IDs - watch to detect new races being created
   const { data: nextRaceIdData } = useScaffoldReadContract({
     contractName: "RaffeRace",
     functionName: "nextRaceId",
     query: { enabled: !!raffeRaceContract },
-    // Watch by default to detect new race creation
+    watch: !raceFeedConnected, // Watch to detect new race creation (the feed signals it when connected)
   });
-  const nextRaceId = (nextRaceIdData as bigint | undefined) ?? 0n;
+  const nextRaceId = nextRaceIdData ?? 0n;
   const hasAnyRace = !!raffeRaceContract && nextRaceId > 0n;
   const latestRaceId = hasAnyRace ? nextRaceId - 1n : null;
 
   // Cooldown status - watch to detect when cooldown ends
   const { data: cooldownData } = useScaffoldReadContract({
     contractName: "RaffeRace",
-    functionName: "getCreateRaceCooldown" as any,
+    functionName: "getCreateRaceCooldown",
     query: { enabled: !!raffeRaceContract },
-    // Watch by default for cooldown status updates
-  } as any);
+    watch: !raceFeedConnected, // Watch for cooldown status updates (counted down from feed blocks when connected)
+  });
 
   const cooldownStatus = useMemo<CooldownStatus | null>(() => {
     if (!cooldownData) return null;
-    const [canCreate, blocksRemaining, cooldownEndsAtBlock] = cooldownData as unknown as [boolean, bigint, bigint];
+    const { canCreate, blocksRemaining, cooldownEndsAtBlock } = parseCreateRaceCooldown(cooldownData);
+    if (raceFeedConnected && feedBlockNumber !== null && cooldownEndsAtBlock > 0n) {
+      const remaining = cooldownEndsAtBlock > feedBlockNumber ? cooldownEndsAtBlock - feedBlockNumber : 0n;
+      return { canCreate: canCreate || remaining === 0n, blocksRemaining: remaining, cooldownEndsAtBlock };
+    }
     return { canCreate, blocksRemaining, cooldownEndsAtBlock };
-  }, [cooldownData]);
+  }, [cooldownData, raceFeedConnected, feedBlockNumber]);
 
   // Settled liability - watch to reflect claims and cleanup
-  const { data: settledLiabilityData } = useScaffoldReadContract({
+  const { data: settledLiability } = useScaffoldReadContract({
     contractName: "RaffeRace",
     functionName: "settledLiability",
-    query: { enabled: !!raffeRaceContract, refetchInterval: 5000 },
+    query: { enabled: !!raffeRaceContract, refetchInterval: raceFeedConnected ? false : 5000 },
+    watch: !raceFeedConnected,
   });
 
-  const settledLiability = useMemo(() => {
-    try {
-      return settledLiabilityData === undefined || settledLiabilityData === null
-        ? null
-        : BigInt(settledLiabilityData as any);
-    } catch {
-      return null;
-    }
-  }, [settledLiabilityData]);
-
   // Max bet amount - config value, never changes
-  const { data: maxBetAmountData } = useScaffoldReadContract({
+  const { data: maxBetAmount } = useScaffoldReadContract({
     contractName: "RaffeRace",
-    functionName: "maxBetAmount" as any,
+    functionName: "maxBetAmount",
     query: { enabled: !!raffeRaceContract },
     watch: false,
-  } as any);
-
-  const maxBetAmount = useMemo(() => {
-    try {
-      return maxBetAmountData === undefined || maxBetAmountData === null ? null : BigInt(maxBetAmountData as any);
-    } catch {
-      return null;
-    }
-  }, [maxBetAmountData]);
+  });
 
   // USDC balances - refetch to reflect transactions
   const { data: userUsdcBalance } = useScaffoldReadContract({
     contractName: usdcContractName as any,
     functionName: "balanceOf" as any,
     args: [connectedAddress],
-    query: { enabled: !!usdcContract && !!usdcContractName && !!connectedAddress, refetchInterval: 5000 },
+    query: {
+      enabled: !!usdcContract && !!usdcContractName && !!connectedAddress,
+      // The feed covers bets and claims; the slow poll picks up transfers it can't see
+      refetchInterval: raceFeedConnected ? 30_000 : 5000,
+    },
+    watch: !raceFeedConnected,
   } as any);
 
-  const { data: userUsdcAllowance } = useScaffoldReadContract({
+  const { data: userUsdcAllowance, refetch: refetchUserUsdcAllowance } = useScaffoldReadContract({
     contractName: usdcContractName as any,
     functionName: "allowance" as any,
     args: [connectedAddress, treasuryContract?.address],
     query: { enabled: !!usdcContract && !!usdcContractName && !!treasuryContract && !!connectedAddress },
-    // Watch by default to reflect allowance changes
+    watch: !raceFeedConnected, // Watch to reflect allowance changes (refetched after approve when streaming)
   } as any);
 
   const { data: treasuryBalance } = useScaffoldReadContract({
-    contractName: "HouseTreasury" as any,
-    functionName: "balance" as any,
-    query: { enabled: !!treasuryContract, refetchInterval: 5000 },
-  } as any);
+    contractName: "HouseTreasury",
+    functionName: "balance",
+    query: { enabled: !!treasuryContract, refetchInterval: raceFeedConnected ? false : 5000 },
+    watch: !raceFeedConnected,
+  });
 
   return {
     // Network & account
@@ -223,11 +169,12 @@ export const useRaceData = () => {
 
     // Treasury & betting limits
     cooldownStatus,
-    settledLiability,
-    maxBetAmount,
+    settledLiability: settledLiability ?? null,
+    maxBetAmount: maxBetAmount ?? null,
     userUsdcBalance: userUsdcBalance as unknown as bigint | undefined,
     userUsdcAllowance: userUsdcAllowance as unknown as bigint | undefined,
-    treasuryBalance: treasuryBalance as unknown as bigint | undefined,
+    refetchUserUsdcAllowance,
+    treasuryBalance,
   };
 };
 
@@ -290,259 +237,6 @@ export const useViewingRace = (latestRaceId: bigint | null, hasAnyRace: boolean)
   return { viewingRaceId, isViewingLatest, setViewRaceId };
 };
 
-export const useRaceDetails = (
-  viewingRaceId: bigint | null,
-  hasAnyRace: boolean,
-  raffeRaceContract: any,
-  raffeNftContract: any,
-) => {
-  // Track if we've seen this race as settled (to stop watching once settled)
-  const [hasSeenSettled, setHasSeenSettled] = useState(false);
-  const prevRaceIdRef = useRef<bigint | null>(null);
-
-  // Reset when race changes
-  useEffect(() => {
-    if (viewingRaceId !== prevRaceIdRef.current) {
-      setHasSeenSettled(false);
-      prevRaceIdRef.current = viewingRaceId;
-    }
-  }, [viewingRaceId]);
-
-  // Race data - watch until settled to detect settlement, then stop watching
-  const { data: raceData } = useScaffoldReadContract({
-    contractName: "RaffeRace",
-    functionName: "getRaceById",
-    args: [viewingRaceId ?? 0n],
-    query: { enabled: hasAnyRace && viewingRaceId !== null },
-    watch: !hasSeenSettled, // Stop watching once settled for smooth animation
-  });
-
-  const { data: raceScheduleData } = useScaffoldReadContract({
-    contractName: "RaffeRace",
-    functionName: "getRaceScheduleById" as any,
-    args: [viewingRaceId ?? 0n],
-    query: { enabled: hasAnyRace && viewingRaceId !== null },
-    watch: !hasSeenSettled, // Watch until settled for schedule updates
-  } as any);
-
-  const { data: raceRaffesData } = useScaffoldReadContract({
-    contractName: "RaffeRace",
-    functionName: "getRaceRaffesById",
-    args: [viewingRaceId ?? 0n],
-    query: { enabled: hasAnyRace && viewingRaceId !== null },
-    watch: !hasSeenSettled, // Watch until settled to detect lineup finalization
-  });
-
-  const { data: raceScoreData } = useScaffoldReadContract({
-    contractName: "RaffeRace",
-    functionName: "getRaceScoreById" as any,
-    args: [viewingRaceId ?? 0n],
-    query: { enabled: hasAnyRace && viewingRaceId !== null },
-    watch: !hasSeenSettled, // Watch until settled for score updates
-  } as any);
-
-  const { data: raceOddsData } = useScaffoldReadContract({
-    contractName: "RaffeRace",
-    functionName: "getRaceOddsById" as any,
-    args: [viewingRaceId ?? 0n],
-    query: { enabled: hasAnyRace && viewingRaceId !== null },
-    watch: !hasSeenSettled, // Watch until settled to detect odds being set
-  } as any);
-
-  // Fetch finish order (only after settlement)
-  const { data: finishOrderData } = useScaffoldReadContract({
-    contractName: "RaffeRace",
-    functionName: "getRaceFinishOrderById" as any,
-    args: [viewingRaceId ?? 0n],
-    query: { enabled: hasAnyRace && viewingRaceId !== null && hasSeenSettled },
-    watch: false, // Only needed after settlement
-  } as any);
-
-  // Parse race data
-  const parsed = useMemo<ParsedRace | null>(() => {
-    if (!raceData) return null;
-    const [bettingCloseBlock, settled, winner, seed, totalPot, totalOnLane] = raceData;
-    return {
-      bettingCloseBlock: bettingCloseBlock as bigint,
-      settled: settled as boolean,
-      winner: Number(winner as any),
-      seed: seed as Hex,
-      totalPot: totalPot as bigint,
-      totalOnLane: (totalOnLane as readonly bigint[]).map(x => BigInt(x)),
-    };
-  }, [raceData]);
-
-  // Once we see the race is settled, stop watching (for smooth animation)
-  useEffect(() => {
-    if (parsed?.settled && !hasSeenSettled) {
-      setHasSeenSettled(true);
-    }
-  }, [parsed?.settled, hasSeenSettled]);
-
-  const parsedSchedule = useMemo<ParsedSchedule | null>(() => {
-    if (!raceScheduleData) return null;
-    // Contract returns [oddsDeadlineBlock, bettingCloseBlock, settledAtBlock]
-    const [oddsDeadlineBlock, bettingCloseBlock, settledAtBlock] = raceScheduleData as unknown as [
-      bigint,
-      bigint,
-      bigint,
-    ];
-    return { oddsDeadlineBlock, bettingCloseBlock, settledAtBlock };
-  }, [raceScheduleData]);
-
-  const parsedRaffes = useMemo<ParsedRaffes | null>(() => {
-    if (!raceRaffesData) return null;
-    const [assignedCount, tokenIds, originalOwners] = raceRaffesData;
-    return {
-      assignedCount: Number(assignedCount as any),
-      tokenIds: (tokenIds as readonly bigint[]).map(x => BigInt(x)),
-      originalOwners: originalOwners as readonly `0x${string}`[],
-    };
-  }, [raceRaffesData]);
-
-  const parsedOdds = useMemo<ParsedOdds | null>(() => {
-    if (!raceOddsData) return null;
-    // Contract returns: (oddsSet, winOddsBps[6], placeOddsBps[6], showOddsBps[6])
-    const [oddsSet, winOddsBps, placeOddsBps, showOddsBps] = raceOddsData as any;
-    const winArr = (Array.isArray(winOddsBps) ? winOddsBps : []) as any[];
-    const placeArr = (Array.isArray(placeOddsBps) ? placeOddsBps : []) as any[];
-    const showArr = (Array.isArray(showOddsBps) ? showOddsBps : []) as any[];
-    const winOdds = Array.from({ length: LANE_COUNT }, (_, i) => BigInt(winArr[i] ?? 0)) as bigint[];
-    return {
-      oddsSet: Boolean(oddsSet),
-      winOddsBps: winOdds,
-      placeOddsBps: Array.from({ length: LANE_COUNT }, (_, i) => BigInt(placeArr[i] ?? 0)) as bigint[],
-      showOddsBps: Array.from({ length: LANE_COUNT }, (_, i) => BigInt(showArr[i] ?? 0)) as bigint[],
-      oddsBps: winOdds, // Backwards compat alias
-    };
-  }, [raceOddsData]);
-
-  const laneScore = useMemo(() => {
-    if (!raceScoreData) return Array.from({ length: LANE_COUNT }, () => 10);
-    const raw = raceScoreData as any;
-    const arr = (Array.isArray(raw) ? raw : []) as any[];
-    return Array.from({ length: LANE_COUNT }, (_, i) => clampStat(Number(arr[i] ?? 10)));
-  }, [raceScoreData]);
-
-  const laneTokenIds = useMemo(() => {
-    if (!parsedRaffes?.tokenIds) return Array.from({ length: LANE_COUNT }, () => 0n);
-    const arr = parsedRaffes.tokenIds ?? [];
-    return Array.from({ length: LANE_COUNT }, (_, i) => BigInt(arr[i] ?? 0n));
-  }, [parsedRaffes?.tokenIds]);
-
-  const bettingCloseBlock = useMemo(() => {
-    const fromSchedule = parsedSchedule?.bettingCloseBlock;
-    const fromRace = parsed?.bettingCloseBlock;
-    const value = fromSchedule ?? fromRace ?? null;
-    return value && value > 0n ? value : null;
-  }, [parsedSchedule, parsed]);
-
-  // Lane stats (individual reads) - static, no need to watch
-  const { data: lane0StatsData } = useScaffoldReadContract({
-    contractName: "RaffeNFT",
-    functionName: "statsOf" as any,
-    args: [laneTokenIds[0]],
-    query: { enabled: !!raffeNftContract && laneTokenIds[0] !== 0n },
-    watch: false,
-  } as any);
-  const { data: lane1StatsData } = useScaffoldReadContract({
-    contractName: "RaffeNFT",
-    functionName: "statsOf" as any,
-    args: [laneTokenIds[1]],
-    query: { enabled: !!raffeNftContract && laneTokenIds[1] !== 0n },
-    watch: false,
-  } as any);
-  const { data: lane2StatsData } = useScaffoldReadContract({
-    contractName: "RaffeNFT",
-    functionName: "statsOf" as any,
-    args: [laneTokenIds[2]],
-    query: { enabled: !!raffeNftContract && laneTokenIds[2] !== 0n },
-    watch: false,
-  } as any);
-  const { data: lane3StatsData } = useScaffoldReadContract({
-    contractName: "RaffeNFT",
-    functionName: "statsOf" as any,
-    args: [laneTokenIds[3]],
-    query: { enabled: !!raffeNftContract && laneTokenIds[3] !== 0n },
-    watch: false,
-  } as any);
-  const { data: lane4StatsData } = useScaffoldReadContract({
-    contractName: "RaffeNFT",
-    functionName: "statsOf" as any,
-    args: [laneTokenIds[4] ?? 0n],
-    query: { enabled: !!raffeNftContract && (laneTokenIds[4] ?? 0n) !== 0n },
-    watch: false,
-  } as any);
-  const { data: lane5StatsData } = useScaffoldReadContract({
-    contractName: "RaffeNFT",
-    functionName: "statsOf" as any,
-    args: [laneTokenIds[5] ?? 0n],
-    query: { enabled: !!raffeNftContract && (laneTokenIds[5] ?? 0n) !== 0n },
-    watch: false,
-  } as any);
-
-  const laneStats = useMemo<LaneStats[]>(() => {
-    return [
-      parseStats(lane0StatsData),
-      parseStats(lane1StatsData),
-      parseStats(lane2StatsData),
-      parseStats(lane3StatsData),
-      parseStats(lane4StatsData),
-      parseStats(lane5StatsData),
-    ];
-  }, [lane0StatsData, lane1StatsData, lane2StatsData, lane3StatsData, lane4StatsData, lane5StatsData]);
-
-  // Lineup is always finalized immediately when race is created (no separate step)
-  const lineupFinalized = (parsedRaffes?.assignedCount ?? 0) === Number(LANE_COUNT);
-
-  // Parse finish order data (for Win/Place/Show)
-  const parsedFinishOrder = useMemo<ParsedFinishOrder | null>(() => {
-    if (!finishOrderData) return null;
-    const [firstLanes, firstCount, secondLanes, secondCount, thirdLanes, thirdCount, finalDistances] =
-      finishOrderData as any;
-
-    const parsePositionLanes = (lanes: any, count: number): number[] => {
-      const arr = Array.isArray(lanes) ? lanes : [];
-      return arr.slice(0, count).map((x: any) => Number(x));
-    };
-
-    const fc = Number(firstCount ?? 0);
-    const sc = Number(secondCount ?? 0);
-    const tc = Number(thirdCount ?? 0);
-
-    return {
-      first: {
-        lanes: parsePositionLanes(firstLanes, fc),
-        count: fc,
-      },
-      second: {
-        lanes: parsePositionLanes(secondLanes, sc),
-        count: sc,
-      },
-      third: {
-        lanes: parsePositionLanes(thirdLanes, tc),
-        count: tc,
-      },
-      finalDistances: Array.isArray(finalDistances)
-        ? finalDistances.map((x: any) => Number(x))
-        : Array.from({ length: LANE_COUNT }, () => 0),
-    };
-  }, [finishOrderData]);
-
-  return {
-    parsed,
-    parsedSchedule,
-    parsedRaffes,
-    parsedOdds,
-    parsedFinishOrder,
-    laneScore,
-    laneTokenIds,
-    laneStats,
-    bettingCloseBlock,
-    lineupFinalized,
-  };
-};
-
 export const useRaceStatus = (
   raffeRaceContract: any,
   hasAnyRace: boolean,
@@ -593,200 +287,71 @@ export const useMyBet = (
   raffeRaceContract: any,
   hasAnyRace: boolean,
 ) => {
+  const raceFeedConnected = useGlobalState(state => state.raceFeed.connected);
   const { data: myBetData } = useScaffoldReadContract({
     contractName: "RaffeRace",
     functionName: "getBetById",
     args: [viewingRaceId ?? 0n, connectedAddress],
     query: { enabled: !!raffeRaceContract && !!connectedAddress && hasAnyRace && viewingRaceId !== null },
-    // Watch to detect bet confirmation
+    watch: !raceFeedConnected, // Watch to detect bet confirmation
   });
 
-  return useMemo<MyBet | null>(() => {
-    if (!myBetData) return null;
-    const [amount, lane, claimed] = myBetData;
-    const amt = BigInt(amount as any);
-    return {
-      amount: amt,
-      lane: Number(lane as any),
-      claimed: claimed as boolean,
-      hasBet: amt !== 0n,
-    };
-  }, [myBetData]);
-};
-
-// New hook for Win/Place/Show bets
-export const useMyBets = (
-  viewingRaceId: bigint | null,
-  connectedAddress: `0x${string}` | undefined,
-  raffeRaceContract: any,
-  hasAnyRace: boolean,
-) => {
-  const { data: myBetsData } = useScaffoldReadContract({
-    contractName: "RaffeRace",
-    functionName: "getUserBetsById" as any,
-    args: [viewingRaceId ?? 0n, connectedAddress],
-    query: { enabled: !!raffeRaceContract && !!connectedAddress && hasAnyRace && viewingRaceId !== null },
-    // Watch to detect bet confirmation
-  } as any);
-
-  return useMemo<MyBets | null>(() => {
-    if (!myBetsData) return null;
-    const data = myBetsData as unknown as [bigint, number, boolean, bigint, number, boolean, bigint, number, boolean];
-    const [winAmount, winLane, winClaimed, placeAmount, placeLane, placeClaimed, showAmount, showLane, showClaimed] =
-      data;
-
-    const parseBet = (amount: bigint, lane: number, claimed: boolean): BetInfo => {
-      const amt = BigInt(amount ?? 0);
-      return {
-        amount: amt,
-        lane: Number(lane ?? 0),
-        claimed: Boolean(claimed),
-        hasBet: amt !== 0n,
-      };
-    };
-
-    return {
-      win: parseBet(winAmount, winLane, winClaimed),
-      place: parseBet(placeAmount, placeLane, placeClaimed),
-      show: parseBet(showAmount, showLane, showClaimed),
-    };
-  }, [myBetsData]);
-};
-
-export const useWinningClaims = (connectedAddress: `0x${string}` | undefined, raffeRaceContract: any) => {
-  const { data: nextWinningClaimData } = useScaffoldReadContract({
-    contractName: "RaffeRace",
-    functionName: "getNextWinningClaim",
-    args: [connectedAddress],
-    query: { enabled: !!raffeRaceContract && !!connectedAddress },
-    // Watch to detect new claimable winnings after settlement
-  });
-
-  const { data: winningClaimRemainingData } = useScaffoldReadContract({
-    contractName: "RaffeRace",
-    functionName: "getWinningClaimRemaining",
-    args: [connectedAddress],
-    query: { enabled: !!raffeRaceContract && !!connectedAddress },
-    // Watch to detect claim updates
-  });
-
-  const winningClaimRemaining = useMemo(() => {
-    if (winningClaimRemainingData === undefined || winningClaimRemainingData === null) return null;
-    try {
-      return BigInt(winningClaimRemainingData as any);
-    } catch {
-      return null;
-    }
-  }, [winningClaimRemainingData]);
-
-  const nextWinningClaim = useMemo<NextWinningClaim | null>(() => {
-    if (!nextWinningClaimData) return null;
-    const out = nextWinningClaimData as any;
-    return {
-      hasClaim: Boolean(out?.hasClaim),
-      raceId: BigInt(out?.raceId ?? 0),
-      status: Number(out?.status ?? 0),
-      betType: Number(out?.betType ?? 0),
-      betLane: Number(out?.betLane ?? 0),
-      betTokenId: BigInt(out?.betTokenId ?? 0),
-      betAmount: BigInt(out?.betAmount ?? 0),
-      winner: Number(out?.winner ?? 0),
-      payout: BigInt(out?.payout ?? 0),
-      bettingCloseBlock: BigInt(out?.bettingCloseBlock ?? 0),
-      settledAtBlock: BigInt(out?.settledAtBlock ?? 0),
-    };
-  }, [nextWinningClaimData]);
-
-  return { nextWinningClaim, winningClaimRemaining };
+  return useMemo(() => (myBetData ? parseBet(myBetData) : null), [myBetData]);
 };
 
 // Hook for the persistent race queue
 export const useRaceQueue = (raffeRaceContract: any, connectedAddress: `0x${string}` | undefined) => {
+  const raceFeedConnected = useGlobalState(state => state.raceFeed.connected);
   // Active queue length
   const { data: activeQueueLengthData } = useScaffoldReadContract({
     contractName: "RaffeRace",
-    functionName: "getActiveQueueLength" as any,
+    functionName: "getActiveQueueLength",
     query: { enabled: !!raffeRaceContract },
-  } as any);
+    watch: !raceFeedConnected,
+  });
 
   // User's queue status
   const { data: userInQueueData } = useScaffoldReadContract({
     contractName: "RaffeRace",
-    functionName: "isUserInQueue" as any,
+    functionName: "isUserInQueue",
     args: [connectedAddress],
     query: { enabled: !!raffeRaceContract && !!connectedAddress },
-  } as any);
+    watch: !raceFeedConnected,
+  });
 
   // User's queued token
   const { data: userQueuedTokenData } = useScaffoldReadContract({
     contractName: "RaffeRace",
-    functionName: "getUserQueuedToken" as any,
+    functionName: "getUserQueuedToken",
     args: [connectedAddress],
     query: { enabled: !!raffeRaceContract && !!connectedAddress },
-  } as any);
+    watch: !raceFeedConnected,
+  });
 
   // User's queue position
   const { data: userQueuePositionData } = useScaffoldReadContract({
     contractName: "RaffeRace",
-    functionName: "getUserQueuePosition" as any,
+    functionName: "getUserQueuePosition",
     args: [connectedAddress],
     query: { enabled: !!raffeRaceContract && !!connectedAddress },
-  } as any);
+    watch: !raceFeedConnected,
+  });
 
   // Queue entries (first 20)
   const { data: queueEntriesData } = useScaffoldReadContract({
     contractName: "RaffeRace",
-    functionName: "getQueueEntries" as any,
+    functionName: "getQueueEntries",
     args: [0n, 20n],
     query: { enabled: !!raffeRaceContract },
-  } as any);
+    watch: !raceFeedConnected,
+  });
 
-  const activeQueueLength = useMemo(() => {
-    if (activeQueueLengthData === undefined) return 0;
-    try {
-      return Number(BigInt(activeQueueLengthData as any));
-    } catch {
-      return 0;
-    }
-  }, [activeQueueLengthData]);
-
-  const userInQueue = useMemo(() => {
-    return Boolean(userInQueueData);
-  }, [userInQueueData]);
-
-  const userQueuedToken = useMemo(() => {
-    if (!userQueuedTokenData) return null;
-    try {
-      const val = BigInt(userQueuedTokenData as any);
-      return val === 0n ? null : val;
-    } catch {
-      return null;
-    }
-  }, [userQueuedTokenData]);
-
-  const userQueuePosition = useMemo(() => {
-    if (!userQueuePositionData) return null;
-    try {
-      const val = Number(BigInt(userQueuePositionData as any));
-      return val === 0 ? null : val;
-    } catch {
-      return null;
-    }
-  }, [userQueuePositionData]);
-
-  const queueEntries = useMemo<QueueEntry[]>(() => {
-    if (!queueEntriesData) return [];
-    const entries = queueEntriesData as unknown as any[];
-    if (!Array.isArray(entries)) return [];
-    return entries
-      .map((e: any) => ({
-        index: BigInt(e?.index ?? 0),
-        tokenId: BigInt(e?.tokenId ?? 0),
-        owner: (e?.owner ?? "0x0") as `0x${string}`,
-        isValid: Boolean(e?.isValid),
-      }))
-      .filter(e => e.isValid);
-  }, [queueEntriesData]);
+  const activeQueueLength = Number(activeQueueLengthData ?? 0n);
+  const userInQueue = Boolean(userInQueueData);
+  // 0 means "not queued" for both the token and the (1-based) position
+  const userQueuedToken = userQueuedTokenData ? userQueuedTokenData : null;
+  const userQueuePosition = userQueuePositionData ? Number(userQueuePositionData) : null;
+  const queueEntries = useMemo(() => (queueEntriesData ? parseQueueEntries(queueEntriesData) : []), [queueEntriesData]);
 
   return {
     activeQueueLength,
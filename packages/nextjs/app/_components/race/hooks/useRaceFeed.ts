@@ -0,0 +1,109 @@
+"use client";
+
+import { useEffect } from "react";
+import { Query, QueryClient, useQueryClient } from "@tanstack/react-query";
+import { useGlobalState } from "~~/services/store/store";
+import type { RaceFeedEvent } from "~~/utils/raceFeed/types";
+
+// wagmi keys contract reads as ["readContract", { address, functionName, args, chainId }]
+type ReadContractKey = readonly [string, { functionName?: string; args?: readonly unknown[] } | undefined];
+
+// Global reads that move when a race is created, settled or cancelled
+const LIFECYCLE_READS = ["nextRaceId", "getCreateRaceCooldown", "settledLiability"];
+const QUEUE_READS = [
+  "getActiveQueueLength",
+  "isUserInQueue",
+  "getUserQueuedToken",
+  "getUserQueuePosition",
+  "getQueueEntries",
+];
+// Reads keyed by a bettor address; only the bettor's own browser holds them. Per-race state (and the bettor's
+// bets and claims on it) comes from useRaceSnapshot, which re-reads on every streamed block instead.
+const BETTOR_READS = ["getBetById", "balanceOf"];
+
+const readMatcher =
+  (functionNames: readonly string[], argsMatch?: (args: readonly unknown[]) => boolean) => (query: Query) => {
+    const [kind, params] = query.queryKey as unknown as ReadContractKey;
+    if (kind !== "readContract" || !functionNames.includes(params?.functionName ?? "")) return false;
+    return !argsMatch || argsMatch(params?.args ?? []);
+  };
+
+const forBettor = (bettor: string) => (args: readonly unknown[]) =>
+  args.some(arg => typeof arg === "string" && arg.toLowerCase() === bettor);
+
+const invalidate = (queryClient: QueryClient, predicate: (query: Query) => boolean) =>
+  void queryClient.invalidateQueries({ predicate });
+
+// Patch cached tuples in place where the event carries the new value, so no client needs a read for it
+const patchReads = <T>(queryClient: QueryClient, predicate: (query: Query) => boolean, patch: (data: T) => T) =>
+  queryClient.setQueriesData<T>({ predicate }, data => (data === undefined ? data : patch(data)));
+
+function applyFeedEvent(queryClient: QueryClient, event: Exclude<RaceFeedEvent, { type: "block" }>) {
+  switch (event.type) {
+    case "raceCreated":
+      invalidate(queryClient, readMatcher([...LIFECYCLE_READS, ...QUEUE_READS]));
+      return;
+    case "oddsSet":
+    case "poolSettled":
+      // Only per-race state moves, which useRaceSnapshot reads with the block
+      return;
+    case "betPlaced":
+    case "exoticBetPlaced": {
+      const amount = BigInt(event.potDelta.total);
+      patchReads<bigint>(queryClient, readMatcher(["balance"]), balance => balance + amount);
+      invalidate(queryClient, readMatcher(BETTOR_READS, forBettor(event.bettor)));
+      return;
+    }
+    case "raceSettled":
+    case "raceCancelled":
+      invalidate(queryClient, readMatcher(LIFECYCLE_READS));
+      if (event.type === "raceCancelled") invalidate(queryClient, readMatcher(QUEUE_READS));
+      return;
+    case "claimed":
+      if (!event.expired)
+        patchReads<bigint>(queryClient, readMatcher(["balance"]), balance => balance - BigInt(event.amount));
+      invalidate(queryClient, readMatcher(["settledLiability"]));
+      invalidate(queryClient, readMatcher(BETTOR_READS, forBettor(event.bettor)));
+      return;
+    case "queueChanged":
+      invalidate(queryClient, readMatcher(QUEUE_READS));
+      return;
+  }
+}
+
+/**
+ * Subscribe the dashboard to /api/races/events. While the stream is open race reads stop polling every block
+ * (see raceFeed in the global store) and are patched or refetched only when the stream says something changed.
+ * Mount once; if the stream drops, reads fall back to polling until EventSource reconnects.
+ */
+export const useRaceFeed = () => {
+  const queryClient = useQueryClient();
+  const setRaceFeed = useGlobalState(state => state.setRaceFeed);
+
+  useEffect(() => {
+    if (typeof EventSource === "undefined") return;
+    const source = new EventSource("/api/races/events");
+
+    source.onopen = () => {
+      setRaceFeed({ connected: true });
+      // Catch up on anything that happened while we weren't listening
+      invalidate(queryClient, readMatcher([...LIFECYCLE_READS, ...QUEUE_READS, ...BETTOR_READS]));
+    };
+    source.onerror = () => setRaceFeed({ connected: false });
+    source.onmessage = message => {
+      let event: RaceFeedEvent;
+      try {
+        event = JSON.parse(message.data) as RaceFeedEvent;
+      } catch {
+        return;
+      }
+      if (event.type === "block") setRaceFeed({ blockNumber: BigInt(event.blockNumber) });
+      else applyFeedEvent(queryClient, event);
+    };
+
+    return () => {
+      source.close();
+      setRaceFeed({ connected: false, blockNumber: null });
+    };
+  }, [queryClient, setRaceFeed]);
+};
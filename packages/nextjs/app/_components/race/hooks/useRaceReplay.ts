@@ -3,8 +3,8 @@
 import { useEffect, useMemo, useRef, useState } from "react";
 import { BASE_REPLAY_SPEED_MULTIPLIER, LANE_COUNT, MAX_TICKS, SPEED_RANGE, TRACK_LENGTH } from "../constants";
 import { PlaybackSpeed } from "../types";
+import { simulateRaceWithMargins } from "@se-2/race-core";
 import { Hex, isHex } from "viem";
-import { simulateRaceFromSeed } from "~~/utils/race/simulateRace";
 
 interface UseRaceReplayProps {
   seed: Hex | undefined;
@@ -41,7 +41,7 @@ export const useRaceReplay = ({ seed, settled, laneScore }: UseRaceReplayProps)
   // Run simulation (uses laneScoreKey for stable dependency)
   const simulation = useMemo(() => {
     if (!canSimulate || !seed) return null;
-    return simulateRaceFromSeed({
+    return simulateRaceWithMargins({
       seed,
       laneCount: LANE_COUNT,
       maxTicks: MAX_TICKS,
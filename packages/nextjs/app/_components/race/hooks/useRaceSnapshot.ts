@@ -0,0 +1,117 @@
+"use client";
+
+import { useMemo, useRef } from "react";
+import { LANE_COUNT } from "../constants";
+import { BettorSnapshot, RaceSnapshot } from "../types";
+import { replaceEqualDeep, skipToken, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useBlockNumber } from "wagmi";
+import { useRaffeRaceClient } from "~~/hooks/useRaffeRaceClient";
+import { useGlobalState } from "~~/services/store/store";
+
+type UseRaceSnapshotOptions = {
+  /** Also read this bettor's bets on the race and their claim queue, at the same block */
+  bettor?: `0x${string}`;
+};
+
+/**
+ * Everything about one race, read in a single multicall pinned to one block so the screen never mixes values
+ * from different blocks. Re-read only when a new block arrives (from the race feed while it's streaming,
+ * otherwise by watching blocks). Once a race is settled or cancelled its own state can't change again, so that
+ * part is cached for the session and only the bettor's side keeps following new blocks.
+ */
+export const useRaceSnapshot = (raceId: bigint | null, { bettor }: UseRaceSnapshotOptions = {}) => {
+  const client = useRaffeRaceClient();
+  const queryClient = useQueryClient();
+  const { connected: raceFeedConnected, blockNumber: feedBlockNumber } = useGlobalState(state => state.raceFeed);
+  const { data: watchedBlockNumber } = useBlockNumber({ chainId: client?.chainId, watch: !raceFeedConnected });
+  const blockNumber = (raceFeedConnected ? feedBlockNumber : null) ?? watchedBlockNumber;
+
+  const raceKey = ["raceSnapshot", client?.chainId, client?.addresses.raffeRace, raceId?.toString()] as const;
+  const finalKey = [...raceKey, "final"] as const;
+
+  // Filled in by the live query below the first time it sees the race settled or cancelled
+  const { data: finalRace } = useQuery<RaceSnapshot>({
+    queryKey: finalKey,
+    queryFn: skipToken,
+    staleTime: Infinity,
+    gcTime: Infinity,
+  });
+
+  // The lineup is fixed when a race is created, so after the first read lane stats ride along in the same call
+  const laneTokenIdsRef = useRef<{ raceId: bigint; tokenIds: bigint[] } | null>(null);
+
+  const { data: live, isLoading } = useQuery({
+    queryKey: [...raceKey, bettor?.toLowerCase() ?? null, finalRace ? "final" : null, blockNumber?.toString()],
+    queryFn:
+      client && raceId !== null && blockNumber !== undefined && (!finalRace || bettor)
+        ? async (): Promise<RaceSnapshot> => {
+            if (finalRace) {
+              const bettorSnapshot: BettorSnapshot = await client.getBettorSnapshot(raceId, bettor!, blockNumber);
+              return { ...finalRace, blockNumber, bettor: bettorSnapshot };
+            }
+
+            const known = laneTokenIdsRef.current?.raceId === raceId ? laneTokenIdsRef.current.tokenIds : undefined;
+            const snapshot = await client.getRaceSnapshot(raceId, { blockNumber, bettor, laneTokenIds: known });
+            if (snapshot.raffes.assignedCount === LANE_COUNT) {
+              laneTokenIdsRef.current = { raceId, tokenIds: snapshot.raffes.tokenIds };
+            }
+            if (snapshot.flags.settled || snapshot.flags.cancelled) {
+              queryClient.setQueryData<RaceSnapshot>(finalKey, { ...snapshot, bettor: null });
+            }
+            return snapshot;
+          }
+        : skipToken,
+    // A block's state never goes stale; a new block is a new query
+    staleTime: Infinity,
+    gcTime: 30_000,
+    // Keep showing the previous block's read while the next one loads, but never another race's or bettor's
+    placeholderData: (previous, previousQuery) =>
+      previous?.raceId === raceId && previousQuery?.queryKey[4] === (bettor?.toLowerCase() ?? null)
+        ? previous
+        : undefined,
+  });
+
+  // Each block's read is a fresh object; keep unchanged parts referentially stable so memos downstream hold
+  const stableRef = useRef<RaceSnapshot | null>(null);
+  const snapshot = useMemo(() => {
+    const next = live ?? (finalRace ? { ...finalRace, bettor: null } : null);
+    stableRef.current = next ? replaceEqualDeep(stableRef.current, next) : null;
+    return stableRef.current;
+  }, [live, finalRace]);
+
+  const laneTokenIds = useMemo(
+    () => snapshot?.raffes.tokenIds ?? Array.from({ length: LANE_COUNT }, () => 0n),
+    [snapshot?.raffes.tokenIds],
+  );
+  const bettingCloseBlock = useMemo(() => {
+    const value = snapshot?.schedule.bettingCloseBlock ?? snapshot?.race.bettingCloseBlock ?? null;
+    return value && value > 0n ? value : null;
+  }, [snapshot?.schedule.bettingCloseBlock, snapshot?.race.bettingCloseBlock]);
+  const laneScore = useMemo(() => snapshot?.score ?? Array.from({ length: LANE_COUNT }, () => 10), [snapshot?.score]);
+  const laneStats = useMemo(
+    () => snapshot?.laneStats ?? Array.from({ length: LANE_COUNT }, () => ({ zip: 10, moxie: 10, hustle: 10 })),
+    [snapshot?.laneStats],
+  );
+
+  return {
+    snapshot,
+    isLoading,
+    parsed: snapshot?.race ?? null,
+    parsedSchedule: snapshot?.schedule ?? null,
+    parsedRaffes: snapshot?.raffes ?? null,
+    parsedOdds: snapshot?.odds ?? null,
+    parsedExoticOdds: snapshot?.exoticOdds ?? null,
+    parsedPool: snapshot?.pool ?? null,
+    parsedFinishOrder: snapshot?.finishOrder ?? null,
+    laneScore,
+    laneTokenIds,
+    laneStats,
+    bettingCloseBlock,
+    // Lineup is always finalized immediately when race is created (no separate step)
+    lineupFinalized: (snapshot?.raffes.assignedCount ?? 0) === LANE_COUNT,
+    myBets: snapshot?.bettor?.bets ?? null,
+    myExoticBets: snapshot?.bettor?.exoticBets ?? null,
+    nextWinningClaim: snapshot?.bettor?.nextWinningClaim ?? null,
+    winningClaimRemaining: snapshot?.bettor?.winningClaimRemaining ?? null,
+  };
+};
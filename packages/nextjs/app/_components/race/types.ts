@@ -19,6 +19,12 @@ export interface ParsedRace {
   totalOnLane: bigint[];
 }
 
+export interface ParsedRaceFlags {
+  settled: boolean;
+  oddsSet: boolean;
+  cancelled: boolean;
+}
+
 export interface ParsedSchedule {
   oddsDeadlineBlock: bigint; // Block by which bot must call setProbabilities()
   bettingCloseBlock: bigint; // Block when betting window closes (0 if probabilities not set yet)
@@ -40,6 +46,22 @@ export interface ParsedOdds {
   oddsBps: bigint[]; // Backwards compat alias for winOddsBps
 }
 
+// Exotic odds grids, indexed by exoticComboIndex (0 = combination not offered)
+export interface ParsedExoticOdds {
+  oddsSet: boolean;
+  exactaOddsBps: bigint[]; // 36 ordered pairs
+  quinellaOddsBps: bigint[]; // 36 pairs, only low-high ones priced
+  trifectaOddsBps: bigint[]; // 216 ordered triples
+}
+
+// A race's betting mode and, for a parimutuel race, its live Win pool
+export interface ParsedRacePool {
+  parimutuel: boolean;
+  takeBps: number; // House take from the pool
+  pool: bigint; // Total staked into the pool
+  impliedOddsBps: bigint[]; // What each lane would pay as sole winner if betting closed now (0 = unbacked)
+}
+
 export interface LaneStats {
   zip: number;
   moxie: number;
@@ -69,6 +91,30 @@ export const BET_TYPE = {
 
 export type BetType = (typeof BET_TYPE)[keyof typeof BET_TYPE];
 
+// Exotic bet types (matches contract): each names lanes in finishing order instead of one lane
+export const EXOTIC_BET_TYPE = {
+  EXACTA: 3,
+  QUINELLA: 4,
+  TRIFECTA: 5,
+} as const;
+
+export type ExoticBetType = (typeof EXOTIC_BET_TYPE)[keyof typeof EXOTIC_BET_TYPE];
+
+// A bet picked in PlaceBetCard but not yet placed
+export interface BetSelection {
+  lane: number;
+  betType: BetType;
+}
+
+// An exotic bet picked in PlaceBetCard: lanes for 1st, 2nd (and 3rd for Trifecta)
+export interface ExoticBetSelection {
+  lanes: number[];
+  betType: ExoticBetType;
+}
+
+// Where a resolved bet's payout stands (history views)
+export type PayoutStatus = "pending" | "lost" | "claimed" | "unclaimed" | "expired";
+
 // Individual bet info
 export interface BetInfo {
   amount: bigint;
@@ -84,18 +130,34 @@ export interface MyBets {
   show: BetInfo;
 }
 
+// Exotic bet info; lanes are as stored (only the ones the bet type uses, Quinella low-high)
+export interface ExoticBetInfo {
+  amount: bigint;
+  lanes: number[];
+  claimed: boolean;
+  hasBet: boolean;
+}
+
+// A user's exotic bets in a race
+export interface MyExoticBets {
+  exacta: ExoticBetInfo;
+  quinella: ExoticBetInfo;
+  trifecta: ExoticBetInfo;
+}
+
 export interface NextWinningClaim {
   hasClaim: boolean;
   raceId: bigint;
   status: number;
-  betType: number; // 0=Win, 1=Place, 2=Show
-  betLane: number;
+  betType: number; // 0=Win, 1=Place, 2=Show, 3=Exacta, 4=Quinella, 5=Trifecta
+  betLane: number; // First lane for exotic bets
   betTokenId: bigint;
   betAmount: bigint;
   winner: number;
   payout: bigint;
   bettingCloseBlock: bigint;
   settledAtBlock: bigint; // For claim expiration countdown
+  betLanes: readonly number[]; // Every lane of an exotic bet (unused ones 0); all 0 for Win/Place/Show
 }
 
 export interface ClaimSnapshot {
@@ -124,3 +186,28 @@ export interface ParsedFinishOrder {
   third: PositionInfo;
   finalDistances: number[];
 }
+
+// One race as read at a single block (see useRaceSnapshot)
+export interface RaceSnapshot {
+  raceId: bigint;
+  blockNumber: bigint;
+  race: ParsedRace;
+  flags: ParsedRaceFlags;
+  schedule: ParsedSchedule;
+  raffes: ParsedRaffes;
+  odds: ParsedOdds;
+  exoticOdds: ParsedExoticOdds;
+  pool: ParsedRacePool;
+  score: number[];
+  finishOrder: ParsedFinishOrder | null; // null until settled
+  laneStats: LaneStats[];
+  bettor: BettorSnapshot | null; // null when read without a bettor
+}
+
+// A bettor's bets on the snapshot's race and their claim queue, read at the same block
+export interface BettorSnapshot {
+  bets: MyBets;
+  exoticBets: MyExoticBets;
+  nextWinningClaim: NextWinningClaim;
+  winningClaimRemaining: bigint;
+}
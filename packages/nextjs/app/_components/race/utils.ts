@@ -1,6 +1,22 @@
-import { USDC_DECIMALS } from "./constants";
+import { ODDS_SCALE, USDC_DECIMALS } from "./constants";
+import { EXOTIC_BET_TYPE, ExoticBetType, ParsedOdds, PayoutStatus } from "./types";
+import { exoticPicks } from "@se-2/race-core";
 import { formatUnits } from "viem";
 
+// Payout and dead-heat rules live in race-core so the app, API routes and bot price bets identically
+export {
+  betDeadHeatDivisor,
+  calculatePayout,
+  exoticDeadHeatDivisor,
+  exoticOddsFor,
+  exoticPicks,
+  impliedPoolOdds,
+  isExoticBetType,
+  normalizeExoticLanes,
+  settledBetPayout,
+  settledExoticPayout,
+} from "@se-2/race-core";
+
 /**
  * Clamp a value between 0 and 1
  */
@@ -13,39 +29,80 @@ export const formatUsdc = (amount: bigint): string => {
   return formatUnits(amount, USDC_DECIMALS);
 };
 
+/**
+ * Format decimal odds in basis points as e.g. "2.40x" ("—" when unset)
+ */
+export const formatOddsBps = (bps: number | bigint): string => {
+  const n = Number(bps);
+  if (!Number.isFinite(n) || n <= 0) return "—";
+  return `${(n / ODDS_SCALE).toFixed(2)}x`;
+};
+
+/**
+ * Format an exotic bet's lanes as e.g. "Lane 1 → Lane 4" ("Lane 1 / Lane 4" for Quinella, which has no order).
+ * Lanes the bet type doesn't use (0 as the contract stores them) are dropped.
+ */
+export const formatExoticLanes = (betType: ExoticBetType, lanes: readonly number[]): string =>
+  lanes
+    .slice(0, exoticPicks(betType))
+    .map(lane => `Lane ${lane}`)
+    .join(betType === EXOTIC_BET_TYPE.QUINELLA ? " / " : " → ");
+
 /**
  * Clamp a stat value between 1 and 10
  */
 export const clampStat = (n: number): number => Math.max(1, Math.min(10, Math.floor(n)));
 
 /**
- * Parse stats from raw contract data
- * Handles both array format [zip, moxie, hustle] and object format {zip, moxie, hustle}
- * Viem returns tuples as arrays with named properties, so check array first
+ * Build ParsedOdds from plain bps arrays (e.g. the indexer's copy of RaceProbabilitiesSet)
  */
-export const parseStats = (raw: unknown): { zip: number; moxie: number; hustle: number } => {
-  if (!raw) {
-    return { zip: 10, moxie: 10, hustle: 10 };
-  }
+export const parsedOddsFromBps = (odds: {
+  winOddsBps: readonly number[];
+  placeOddsBps: readonly number[];
+  showOddsBps: readonly number[];
+}): ParsedOdds => {
+  const winOddsBps = odds.winOddsBps.map(x => BigInt(x));
+  return {
+    oddsSet: true,
+    winOddsBps,
+    placeOddsBps: odds.placeOddsBps.map(x => BigInt(x)),
+    showOddsBps: odds.showOddsBps.map(x => BigInt(x)),
+    oddsBps: winOddsBps,
+  };
+};
 
-  // Handle array/tuple format FIRST (viem returns tuples as arrays with named properties)
-  if (Array.isArray(raw) && raw.length >= 3) {
-    return {
-      zip: clampStat(Number(raw[0] ?? 10)),
-      moxie: clampStat(Number(raw[1] ?? 10)),
-      hustle: clampStat(Number(raw[2] ?? 10)),
-    };
+/**
+ * Pair one race's indexed claim events with the bets they paid (`payout` null = race not resolved yet).
+ * Claimed events don't name the bet, but the contract pays a bettor's bets in bet type order (Win → Place → Show →
+ * Exacta → Quinella → Trifecta) and a ClaimExpired forfeits everything still unpaid, so the n-th paying bet matches
+ * the n-th paid claim.
+ */
+export const withPayoutStatus = <T extends { bettor: string; betType: number; payout: bigint | null }>(
+  bets: T[],
+  claims: { bettor: string; amount: string; expired: boolean }[],
+): (T & { payoutStatus: PayoutStatus })[] => {
+  const paidByBettor = new Map<string, number>();
+  const expiredBettors = new Set<string>();
+  for (const c of claims) {
+    if (c.expired) expiredBettors.add(c.bettor);
+    else if (BigInt(c.amount) > 0n) paidByBettor.set(c.bettor, (paidByBettor.get(c.bettor) ?? 0) + 1);
   }
 
-  // Handle pure object format (not array)
-  const obj = raw as any;
-  if (typeof obj === "object" && ("zip" in obj || "moxie" in obj || "hustle" in obj)) {
-    return {
-      zip: clampStat(Number(obj.zip ?? 10)),
-      moxie: clampStat(Number(obj.moxie ?? 10)),
-      hustle: clampStat(Number(obj.hustle ?? 10)),
-    };
+  const statusByBet = new Map<string, PayoutStatus>();
+  const seenPaying = new Map<string, number>();
+  for (const bet of [...bets].sort((a, b) => a.betType - b.betType)) {
+    if (bet.payout === null || bet.payout === 0n) continue;
+    const n = seenPaying.get(bet.bettor) ?? 0;
+    seenPaying.set(bet.bettor, n + 1);
+    statusByBet.set(
+      `${bet.bettor}-${bet.betType}`,
+      n < (paidByBettor.get(bet.bettor) ?? 0) ? "claimed" : expiredBettors.has(bet.bettor) ? "expired" : "unclaimed",
+    );
   }
 
-  return { zip: 10, moxie: 10, hustle: 10 };
+  return bets.map(bet => ({
+    ...bet,
+    payoutStatus:
+      bet.payout === null ? "pending" : bet.payout === 0n ? "lost" : statusByBet.get(`${bet.bettor}-${bet.betType}`)!,
+  }));
 };
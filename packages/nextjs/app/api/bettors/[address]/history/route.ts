@@ -0,0 +1,28 @@
+import type { NextRequest } from "next/server";
+import { isAddress } from "viem";
+import { getBettorHistory } from "~~/utils/indexer/queries";
+import { getIndexReadStore, indexerUnavailableResponse } from "~~/utils/indexer/server";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/bettors/:address/history
+ * Every bet and claim of one address, from the indexer.
+ */
+export async function GET(_req: NextRequest, ctx: { params: Promise<{ address: string }> }) {
+  const { address } = await ctx.params;
+  if (!isAddress(address, { strict: false })) {
+    return Response.json({ error: "Invalid address" }, { status: 400 });
+  }
+
+  const store = getIndexReadStore();
+  if (!store) return indexerUnavailableResponse();
+
+  try {
+    return Response.json(getBettorHistory(store, address));
+  } catch (e) {
+    console.error(`Error reading bets of ${address}:`, e);
+    return Response.json({ error: "Failed to read bet history" }, { status: 500 });
+  }
+}
@@ -1,44 +1,20 @@
 import type { NextRequest } from "next/server";
-import { createPublicClient, http } from "viem";
-import type { Abi } from "viem";
-import { foundry } from "viem/chains";
-import deployedContracts from "~~/contracts/deployedContracts";
+import { createHash } from "node:crypto";
+import type { Hex } from "viem";
+import type { LaneStats } from "~~/app/_components/race/types";
+import { getRaffeCareer } from "~~/utils/indexer/queries";
+import { getIndexReadStore } from "~~/utils/indexer/server";
+import { RaffeRaceRecord, buildRaffeMetadata, raffeRaceRecord } from "~~/utils/nft/raffeMetadata";
 import { renderRaffeSvg } from "~~/utils/nft/renderRaffeSvg";
+import { RaffeRaceClient } from "~~/utils/raffeRace/client";
+import { decodeRaffeRaceError } from "~~/utils/raffeRace/errors";
+import { getServerChain, getServerRaffeRaceClient } from "~~/utils/raffeRace/server";
 
 export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
 
-const raffeNftAbi = [
-  {
-    type: "function",
-    name: "seedOf",
-    stateMutability: "view",
-    inputs: [{ name: "tokenId", type: "uint256" }],
-    outputs: [{ name: "", type: "bytes32" }],
-  },
-  {
-    type: "function",
-    name: "nameOf",
-    stateMutability: "view",
-    inputs: [{ name: "tokenId", type: "uint256" }],
-    outputs: [{ name: "", type: "string" }],
-  },
-  {
-    type: "function",
-    name: "statsOf",
-    stateMutability: "view",
-    inputs: [{ name: "tokenId", type: "uint256" }],
-    outputs: [
-      { name: "readiness", type: "uint8" },
-      { name: "conditioning", type: "uint8" },
-      { name: "speed", type: "uint8" },
-    ],
-  },
-] as const satisfies Abi;
-
-const publicClient = createPublicClient({
-  chain: foundry,
-  transport: http(),
-});
+// Marketplaces revalidate often enough to pick up new race results; unchanged metadata costs them a 304
+const CACHE_CONTROL = "public, max-age=60, s-maxage=300, stale-while-revalidate=86400";
 
 function parseTokenId(raw: string | undefined): bigint | null {
   if (!raw) return null;
@@ -51,73 +27,99 @@ function parseTokenId(raw: string | undefined): bigint | null {
   }
 }
 
-export async function GET(_req: NextRequest, ctx: { params: Promise<{ tokenId: string }> }) {
+/**
+ * The raffe's race record, or null when there's no indexer for this deployment (the metadata then goes without it).
+ * Placings come from the contract's finish orders; the indexer only knows which races the raffe ran in.
+ */
+async function readRaceRecord(client: RaffeRaceClient, tokenId: bigint): Promise<RaffeRaceRecord | null> {
+  const store = getIndexReadStore();
+  const checkpoint = store?.getCheckpoint();
+  if (
+    !store ||
+    checkpoint?.chainId !== client.chainId ||
+    checkpoint.contract.toLowerCase() !== client.addresses.raffeRace.toLowerCase()
+  ) {
+    return null;
+  }
+
+  const { races } = getRaffeCareer(store, tokenId);
+  const settled = races.filter(race => race.status === "settled");
+  const orders = await Promise.all(
+    settled.map(async race => [race.raceId, await client.getRaceFinishOrder(BigInt(race.raceId))] as const),
+  );
+  return raffeRaceRecord(races, new Map(orders));
+}
+
+/**
+ * GET /api/nft/:tokenId[?chainId=N]
+ * ERC-721 metadata for a raffe on one of the configured target networks (the first by default).
+ */
+export async function GET(req: NextRequest, ctx: { params: Promise<{ tokenId: string }> }) {
   const { tokenId: tokenIdParam } = await ctx.params;
   const tokenId = parseTokenId(tokenIdParam);
   if (!tokenId) {
     return Response.json({ error: "Invalid tokenId" }, { status: 400 });
   }
 
-  const chainId = foundry.id;
-  const addr = (deployedContracts as any)?.[chainId]?.RaffeNFT?.address as `0x${string}` | undefined;
-  if (!addr) {
+  const chainIdParam = req.nextUrl.searchParams.get("chainId");
+  if (chainIdParam !== null && !/^\d+$/.test(chainIdParam)) {
+    return Response.json({ error: "Invalid chainId" }, { status: 400 });
+  }
+  const chain = getServerChain(chainIdParam === null ? undefined : Number(chainIdParam));
+  if (!chain) {
+    return Response.json({ error: `Chain ${chainIdParam} is not supported` }, { status: 400 });
+  }
+
+  const client = getServerRaffeRaceClient(chain.id);
+  if (!client) {
     return Response.json(
-      { error: `RaffeNFT not configured for chainId=${chainId}. Redeploy + regenerate deployedContracts.` },
-      { status: 500 },
+      { error: `RaffeNFT is not deployed on ${chain.name}. Redeploy + regenerate deployedContracts.` },
+      { status: 503 },
     );
   }
 
+  let seed: Hex, name: string, stats: LaneStats;
   try {
-    const [seed, mintedName, stats] = await Promise.all([
-      publicClient.readContract({
-        address: addr,
-        abi: raffeNftAbi,
-        functionName: "seedOf",
-        args: [tokenId],
-      }),
-      publicClient.readContract({
-        address: addr,
-        abi: raffeNftAbi,
-        functionName: "nameOf",
-        args: [tokenId],
-      }),
-      publicClient.readContract({
-        address: addr,
-        abi: raffeNftAbi,
-        functionName: "statsOf",
-        args: [tokenId],
-      }),
+    // seedOf reverts for tokens that were never minted (or were burned)
+    [seed, name, stats] = await Promise.all([
+      client.raffeNft.read.seedOf([tokenId]),
+      client.raffeNft.read.nameOf([tokenId]),
+      client.getRaffeStats(tokenId),
     ]);
+  } catch (e) {
+    if (decodeRaffeRaceError(e)?.message.includes("nonexistent token")) {
+      return Response.json({ error: "Token not found" }, { status: 404 });
+    }
+    console.error(`Error reading raffe ${tokenId} on ${chain.name}:`, e);
+    return Response.json({ error: "Failed to read the token from the chain" }, { status: 502 });
+  }
 
-    const [readiness, conditioning, speed] = stats as readonly [number, number, number];
+  let record: RaffeRaceRecord | null;
+  try {
+    record = await readRaceRecord(client, tokenId);
+  } catch (e) {
+    console.error(`Error reading race record of raffe ${tokenId} on ${chain.name}:`, e);
+    return Response.json({ error: "Failed to read the raffe's race record" }, { status: 502 });
+  }
 
+  try {
     const svg = await renderRaffeSvg({ tokenId, seed });
     const image = `data:image/svg+xml;base64,${Buffer.from(svg).toString("base64")}`;
+    const body = JSON.stringify(buildRaffeMetadata({ tokenId, name: name.trim(), seed, stats, image, record }));
 
-    const nameTrimmed = (mintedName ?? "").trim();
-    const displayName = nameTrimmed.length ? nameTrimmed : `Raffe #${tokenId.toString()}`;
-
-    return Response.json(
-      {
-        name: displayName,
-        description: "A raffe racer from Raffe Race. Appearance is derived deterministically from an on-chain seed.",
-        image,
-        attributes: [
-          { trait_type: "tokenId", value: tokenId.toString() },
-          { trait_type: "seed", value: seed },
-          { trait_type: "readiness", value: readiness },
-          { trait_type: "conditioning", value: conditioning },
-          { trait_type: "speed", value: speed },
-        ],
-      },
-      {
-        headers: {
-          // Helps marketplaces cache, while still allowing you to change the baseURI per deployment.
-          "Cache-Control": "public, max-age=60, s-maxage=300, stale-while-revalidate=86400",
-        },
-      },
-    );
-  } catch {
-    return Response.json({ error: "Token not found (or contract not deployed on this RPC)" }, { status: 404 });
+    const etag = `"${createHash("sha256").update(body).digest("base64url").slice(0, 27)}"`;
+    const headers = { "Cache-Control": CACHE_CONTROL, ETag: etag };
+    // Proxies may weaken the tag on the way back; the body is identical either way
+    const ifNoneMatch = req.headers
+      .get("if-none-match")
+      ?.split(/\s*,\s*/)
+      .map(tag => tag.replace(/^W\//, ""));
+    if (ifNoneMatch?.includes(etag)) {
+      return new Response(null, { status: 304, headers });
+    }
+    return new Response(body, { headers: { ...headers, "Content-Type": "application/json" } });
+  } catch (e) {
+    console.error(`Error building metadata of raffe ${tokenId}:`, e);
+    return Response.json({ error: "Failed to build token metadata" }, { status: 500 });
   }
 }
@@ -1,65 +1,88 @@
 import { NextRequest, NextResponse } from "next/server";
+import { isAddress } from "viem";
+import { getPresenceStore } from "~~/utils/presence/server";
+import type { PresenceCounts, PresenceHeartbeat } from "~~/utils/presence/types";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
 
 /**
- * Simple presence tracking for active users.
- * Users send heartbeats, and the endpoint returns count of recently active users.
- *
- * Note: This uses in-memory storage, so counts may be approximate across
- * multiple serverless function instances. For production accuracy, use Redis.
+ * Presence tracking for active users.
+ * Browsers send heartbeats (usePresenceHeartbeat); the endpoint returns how many visitors are online, how many of
+ * them have a wallet connected, and how many are on a given page or watching a given race. Storage is in-memory,
+ * or Redis when PRESENCE_REDIS_URL is set (see utils/presence/server.ts).
  */
 
-// In-memory store: visitorId -> lastSeen timestamp
-const activeUsers = new Map<string, number>();
+const MAX_VISITOR_ID_LENGTH = 64;
+const MAX_PAGE_LENGTH = 128;
+
+// `activeUsers` is the original field the race bot reads to decide whether anyone is around to race for
+const withActiveUsers = (counts: PresenceCounts) => ({ ...counts, activeUsers: counts.online });
 
-// How long until a user is considered inactive (30 seconds = 3 missed heartbeats)
-const INACTIVE_THRESHOLD_MS = 15_000;
+function parseHeartbeat(body: unknown): PresenceHeartbeat | string {
+  if (!body || typeof body !== "object") return "JSON body required";
+  const { visitorId, page, raceId, wallet } = body as Record<string, unknown>;
 
-// Clean up stale entries periodically
-function cleanupStaleUsers() {
-  const now = Date.now();
-  for (const [id, lastSeen] of activeUsers.entries()) {
-    if (now - lastSeen > INACTIVE_THRESHOLD_MS) {
-      activeUsers.delete(id);
-    }
+  if (typeof visitorId !== "string" || !visitorId || visitorId.length > MAX_VISITOR_ID_LENGTH) {
+    return "visitorId required";
+  }
+  if (page !== undefined && (typeof page !== "string" || !page.startsWith("/") || page.length > MAX_PAGE_LENGTH)) {
+    return "page must be a pathname";
+  }
+  if (raceId !== undefined && raceId !== null && (typeof raceId !== "string" || !/^\d+$/.test(raceId))) {
+    return "raceId must be a decimal string";
   }
+  if (wallet !== undefined && wallet !== null && (typeof wallet !== "string" || !isAddress(wallet))) {
+    return "wallet must be an address";
+  }
+
+  return {
+    visitorId,
+    page: (page as string | undefined)?.split("?")[0] ?? "/",
+    raceId: (raceId as string | null | undefined) ?? null,
+    wallet: (wallet as string | null | undefined)?.toLowerCase() ?? null,
+  };
 }
 
 /**
  * POST /api/presence
- * Body: { visitorId: string }
- * Records a heartbeat for the visitor
+ * Body: { visitorId: string, page?: string, raceId?: string | null, wallet?: string | null }
+ * Records a heartbeat and returns the counts for the visitor's page and race.
  */
 export async function POST(request: NextRequest) {
-  try {
-    const body = await request.json();
-    const visitorId = body?.visitorId;
-
-    if (!visitorId || typeof visitorId !== "string") {
-      return NextResponse.json({ error: "visitorId required" }, { status: 400 });
-    }
-
-    // Record heartbeat
-    activeUsers.set(visitorId, Date.now());
-
-    // Cleanup stale users
-    cleanupStaleUsers();
+  const beat = parseHeartbeat(await request.json().catch(() => null));
+  if (typeof beat === "string") {
+    return NextResponse.json({ error: beat }, { status: 400 });
+  }
 
-    return NextResponse.json({ ok: true, activeUsers: activeUsers.size });
-  } catch {
-    return NextResponse.json({ error: "Invalid request" }, { status: 400 });
+  try {
+    const store = getPresenceStore();
+    const now = Date.now();
+    await store.heartbeat(beat, now);
+    const counts = await store.counts({ page: beat.page, raceId: beat.raceId }, now);
+    return NextResponse.json({ ok: true, ...withActiveUsers(counts) });
+  } catch (e) {
+    console.error("Error recording presence heartbeat:", e);
+    return NextResponse.json({ error: "Presence is unavailable" }, { status: 503 });
   }
 }
 
 /**
- * GET /api/presence
- * Returns the count of active users (heartbeat within last 60 seconds)
+ * GET /api/presence[?raceId=N][&page=/path]
+ * Returns the counts (heartbeat within the last 15 seconds), scoped to a race and page when asked.
  */
-export async function GET() {
-  // Cleanup stale users first
-  cleanupStaleUsers();
+export async function GET(request: NextRequest) {
+  const raceId = request.nextUrl.searchParams.get("raceId");
+  const page = request.nextUrl.searchParams.get("page");
+  if (raceId !== null && !/^\d+$/.test(raceId)) {
+    return NextResponse.json({ error: "Invalid raceId" }, { status: 400 });
+  }
 
-  return NextResponse.json({
-    activeUsers: activeUsers.size,
-    timestamp: Date.now(),
-  });
+  try {
+    const counts = await getPresenceStore().counts({ page, raceId }, Date.now());
+    return NextResponse.json({ ...withActiveUsers(counts), timestamp: Date.now() });
+  } catch (e) {
+    console.error("Error reading presence:", e);
+    return NextResponse.json({ error: "Presence is unavailable" }, { status: 503 });
+  }
 }
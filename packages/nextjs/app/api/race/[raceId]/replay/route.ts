@@ -0,0 +1,10 @@
+import { NextRequest, NextResponse } from "next/server";
+
+export const dynamic = "force-dynamic";
+
+/** `/api/race/<raceId>/replay` is an alias: redirect to `/api/races/<raceId>/replay`, keeping the query string. */
+export function GET(request: NextRequest) {
+  const url = request.nextUrl.clone();
+  url.pathname = url.pathname.replace(/^\/api\/race\//, "/api/races/");
+  return NextResponse.redirect(url, 308);
+}
@@ -0,0 +1,92 @@
+import type { NextRequest } from "next/server";
+import { buildReplaySvg, renderReplayGif } from "~~/utils/race/replayExport";
+import { loadRaceReplay } from "~~/utils/raffeRace/replay";
+import { getServerRaffeRaceClient } from "~~/utils/raffeRace/server";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const UNAVAILABLE = {
+  not_found: { status: 404, error: "Race not found" },
+  not_settled: { status: 409, error: "Race is not settled yet" },
+  cancelled: { status: 409, error: "Race was cancelled; there is nothing to replay" },
+} as const;
+
+// Rendered GIFs, newest last. A settled race replays identically forever, so each one is rendered at most once per
+// server instance and concurrent requests share the in-flight render; the cap bounds memory.
+const GIF_CACHE_LIMIT = 32;
+const gifCache = new Map<string, Promise<Buffer>>();
+
+/** The cached render for `key`, if any, marked most recently used. */
+function getCachedGif(key: string): Promise<Buffer> | undefined {
+  const gif = gifCache.get(key);
+  if (gif) {
+    gifCache.delete(key);
+    gifCache.set(key, gif);
+  }
+  return gif;
+}
+
+/** Start a render unless one is already cached or in flight; failed renders are forgotten so they can be retried. */
+function renderGifOnce(key: string, render: () => Promise<Buffer>): Promise<Buffer> {
+  const cached = getCachedGif(key);
+  if (cached) return cached;
+  const gif = render();
+  gif.catch(() => gifCache.delete(key));
+  gifCache.set(key, gif);
+  if (gifCache.size > GIF_CACHE_LIMIT) gifCache.delete(gifCache.keys().next().value as string);
+  return gif;
+}
+
+/**
+ * GET /api/races/:raceId/replay?format=svg|gif
+ * A settled race as a shareable file, rebuilt from its on-chain seed and lane scores:
+ * - svg (default): the whole race as a self-contained animated SVG
+ * - gif: the finish as an animated GIF, rendered on the server
+ * Add `download=1` to get it as an attachment.
+ */
+export async function GET(req: NextRequest, ctx: { params: Promise<{ raceId: string }> }) {
+  const { raceId } = await ctx.params;
+  if (!/^\d+$/.test(raceId)) {
+    return Response.json({ error: "Invalid raceId" }, { status: 400 });
+  }
+  const format = req.nextUrl.searchParams.get("format") ?? "svg";
+  if (format !== "svg" && format !== "gif") {
+    return Response.json({ error: "format must be svg or gif" }, { status: 400 });
+  }
+
+  const client = getServerRaffeRaceClient();
+  if (!client) {
+    return Response.json(
+      { error: "RaffeRace not configured for the target network. Redeploy + regenerate deployedContracts." },
+      { status: 500 },
+    );
+  }
+
+  try {
+    const gifKey = `${client.chainId}:${client.addresses.raffeRace}:${raceId}`;
+    let body: string | Buffer | undefined = format === "gif" ? await getCachedGif(gifKey) : undefined;
+    if (!body) {
+      const result = await loadRaceReplay(client, BigInt(raceId));
+      if (result.status !== "ready") {
+        const { status, error } = UNAVAILABLE[result.status];
+        return Response.json({ error }, { status });
+      }
+      const { replay } = result;
+      body = format === "gif" ? await renderGifOnce(gifKey, () => renderReplayGif(replay)) : buildReplaySvg(replay);
+    }
+
+    const headers: Record<string, string> = {
+      "Content-Type": format === "gif" ? "image/gif" : "image/svg+xml",
+      // A settled race replays identically forever
+      "Cache-Control": "public, max-age=31536000, immutable",
+    };
+    if (req.nextUrl.searchParams.get("download")) {
+      headers["Content-Disposition"] = `attachment; filename="raffe-race-${raceId}.${format}"`;
+    }
+    return new Response(body, { headers });
+  } catch (e) {
+    console.error(`Error rendering replay for race ${raceId}:`, e);
+    return Response.json({ error: "Failed to render replay" }, { status: 500 });
+  }
+}
@@ -0,0 +1,29 @@
+import type { NextRequest } from "next/server";
+import { getRaceHistory } from "~~/utils/indexer/queries";
+import { getIndexReadStore, indexerUnavailableResponse } from "~~/utils/indexer/server";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/races/:raceId
+ * Indexed lineup, odds, bets and claims for one race.
+ */
+export async function GET(_req: NextRequest, ctx: { params: Promise<{ raceId: string }> }) {
+  const { raceId } = await ctx.params;
+  if (!/^\d+$/.test(raceId)) {
+    return Response.json({ error: "Invalid raceId" }, { status: 400 });
+  }
+
+  const store = getIndexReadStore();
+  if (!store) return indexerUnavailableResponse();
+
+  try {
+    const detail = getRaceHistory(store, BigInt(raceId));
+    if (!detail) return Response.json({ error: "Race not indexed" }, { status: 404 });
+    return Response.json(detail);
+  } catch (e) {
+    console.error(`Error reading race ${raceId}:`, e);
+    return Response.json({ error: "Failed to read race history" }, { status: 500 });
+  }
+}
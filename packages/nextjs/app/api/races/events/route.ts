@@ -0,0 +1,68 @@
+import type { NextRequest } from "next/server";
+import { RACE_FEED_RETRY_MS, getRaceFeed } from "~~/utils/raceFeed/server";
+import type { RaceFeedEvent } from "~~/utils/raceFeed/types";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// Comment lines keep proxies from closing an idle stream between blocks
+const KEEPALIVE_MS = 15_000;
+
+/**
+ * GET /api/races/events
+ * Server-Sent Events stream of normalized RaffeRace events (see RaceFeedEvent) plus new block numbers.
+ * Reconnecting clients send Last-Event-ID and get the log events they missed replayed first.
+ */
+export async function GET(req: NextRequest) {
+  const feed = getRaceFeed();
+  if (!feed) {
+    return Response.json({ error: "RaffeRace is not deployed on the target network" }, { status: 503 });
+  }
+
+  const encoder = new TextEncoder();
+  let close: () => void = () => undefined;
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const write = (chunk: string) => {
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          close();
+        }
+      };
+      const send = (event: RaceFeedEvent) =>
+        write(`${event.type === "block" ? "" : `id: ${event.id}\n`}data: ${JSON.stringify(event)}\n\n`);
+
+      write(`retry: ${RACE_FEED_RETRY_MS}\n\n`);
+      const unsubscribe = feed.subscribe(send, req.headers.get("last-event-id"));
+      const keepalive = setInterval(() => write(": keepalive\n\n"), KEEPALIVE_MS);
+
+      let closed = false;
+      close = () => {
+        if (closed) return;
+        closed = true;
+        clearInterval(keepalive);
+        unsubscribe();
+        try {
+          controller.close();
+        } catch {
+          // Already closed by the client
+        }
+      };
+      req.signal.addEventListener("abort", close);
+    },
+    cancel() {
+      close();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    },
+  });
+}
@@ -0,0 +1,60 @@
+import type { NextRequest } from "next/server";
+import { listEndedRaces } from "~~/utils/indexer/queries";
+import { getIndexReadStore, indexerUnavailableResponse } from "~~/utils/indexer/server";
+import type { RaceHistoryFilter } from "~~/utils/indexer/types";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+function parsePositiveInt(raw: string | null, fallback: number): number | null {
+  if (raw === null || raw === "") return fallback;
+  if (!/^\d+$/.test(raw)) return null;
+  const n = Number(raw);
+  return n >= 1 ? n : null;
+}
+
+function parseFilter(params: URLSearchParams): RaceHistoryFilter | string {
+  const status = params.get("status");
+  if (status !== null && status !== "settled" && status !== "cancelled") return "status must be settled or cancelled";
+
+  const deadHeat = params.get("deadHeat");
+  if (deadHeat !== null && deadHeat !== "true" && deadHeat !== "false") return "deadHeat must be true or false";
+
+  const tokenId = params.get("tokenId");
+  if (tokenId !== null && !/^\d+$/.test(tokenId)) return "tokenId must be a non-negative integer";
+
+  const page = parsePositiveInt(params.get("page"), 1);
+  if (page === null) return "page must be a positive integer";
+  const pageSize = parsePositiveInt(params.get("pageSize"), DEFAULT_PAGE_SIZE);
+  if (pageSize === null || pageSize > MAX_PAGE_SIZE) return `pageSize must be between 1 and ${MAX_PAGE_SIZE}`;
+
+  return {
+    status: status ?? undefined,
+    deadHeatOnly: deadHeat === "true",
+    tokenId: tokenId ?? undefined,
+    page,
+    pageSize,
+  };
+}
+
+/**
+ * GET /api/races?status=settled|cancelled&deadHeat=true&tokenId=7&page=1&pageSize=20
+ * Paginated history of ended races from the indexer database, newest first.
+ */
+export async function GET(req: NextRequest) {
+  const filter = parseFilter(req.nextUrl.searchParams);
+  if (typeof filter === "string") return Response.json({ error: filter }, { status: 400 });
+
+  const store = getIndexReadStore();
+  if (!store) return indexerUnavailableResponse();
+
+  try {
+    return Response.json(listEndedRaces(store, filter));
+  } catch (e) {
+    console.error("Error reading race history:", e);
+    return Response.json({ error: "Failed to read race history" }, { status: 500 });
+  }
+}
@@ -0,0 +1,27 @@
+import type { NextRequest } from "next/server";
+import { getRaffeCareer } from "~~/utils/indexer/queries";
+import { getIndexReadStore, indexerUnavailableResponse } from "~~/utils/indexer/server";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/raffes/:tokenId/career
+ * Every race the raffe was assigned to, from the indexer. Finish positions are read on-chain by the client.
+ */
+export async function GET(_req: NextRequest, ctx: { params: Promise<{ tokenId: string }> }) {
+  const { tokenId } = await ctx.params;
+  if (!/^\d+$/.test(tokenId) || BigInt(tokenId) === 0n) {
+    return Response.json({ error: "Invalid tokenId" }, { status: 400 });
+  }
+
+  const store = getIndexReadStore();
+  if (!store) return indexerUnavailableResponse();
+
+  try {
+    return Response.json(getRaffeCareer(store, BigInt(tokenId)));
+  } catch (e) {
+    console.error(`Error reading career of raffe ${tokenId}:`, e);
+    return Response.json({ error: "Failed to read race history" }, { status: 500 });
+  }
+}
@@ -0,0 +1,220 @@
+"use client";
+
+import Link from "next/link";
+import { useAccount, useBlockNumber } from "wagmi";
+import { ArrowDownTrayIcon } from "@heroicons/react/24/outline";
+import { LaneName, PayoutStatusBadge } from "~~/app/_components/race/components";
+import { formatExoticLanes, formatOddsBps, formatUsdc, isExoticBetType } from "~~/app/_components/race/utils";
+import { BettorBetRow, useBettorHistory } from "~~/hooks/useBettorHistory";
+
+const BET_TYPE_LABELS = ["Win", "Place", "Show", "Exacta", "Quinella", "Trifecta"] as const;
+
+// One lane, or every lane of an exotic bet
+const laneLabel = (row: BettorBetRow) =>
+  isExoticBetType(row.betType) && row.lanes ? formatExoticLanes(row.betType, row.lanes) : `Lane ${row.lane}`;
+
+const formatSignedUsdc = (amount: bigint) => `${amount < 0n ? "-" : "+"}${formatUsdc(amount < 0n ? -amount : amount)}`;
+
+const outcomeLabel = (row: BettorBetRow) => {
+  if (row.raceStatus === "cancelled") return "Refunded";
+  if (row.payout === null) return row.raceStatus === "open" ? "Open" : "Settling";
+  return row.payout > 0n ? "Won" : "Lost";
+};
+
+const csvCell = (value: string) => (/[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+function downloadCsv(rows: BettorBetRow[], address: string) {
+  const header = [
+    "race_id",
+    "placed_block",
+    "placed_at",
+    "bet_type",
+    "lane",
+    "token_id",
+    "stake_usdc",
+    "odds",
+    "outcome",
+    "payout_usdc",
+    "payout_status",
+    "net_usdc",
+    "running_net_usdc",
+    "tx_hash",
+  ];
+  const lines = rows.map(r =>
+    [
+      r.raceId,
+      r.blockNumber,
+      r.placedAt !== null ? new Date(r.placedAt * 1000).toISOString() : "",
+      BET_TYPE_LABELS[r.betType] ?? String(r.betType),
+      // Exotic bets list every lane in order, e.g. "1 → 4"
+      isExoticBetType(r.betType) && r.lanes ? laneLabel(r).replace(/Lane /g, "") : String(r.lane),
+      r.tokenId ?? "",
+      formatUsdc(BigInt(r.amount)),
+      r.oddsBps !== null ? (r.oddsBps / 10_000).toFixed(4) : "",
+      outcomeLabel(r),
+      r.payout !== null ? formatUsdc(r.payout) : "",
+      r.payoutStatus,
+      r.net !== null ? formatSignedUsdc(r.net) : "",
+      formatSignedUsdc(r.runningNet),
+      r.txHash,
+    ]
+      .map(csvCell)
+      .join(","),
+  );
+
+  const blob = new Blob([[header.join(","), ...lines].join("\n")], { type: "text/csv;charset=utf-8" });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = `raffe-race-bets-${address.toLowerCase()}.csv`;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+export const MyBetsHistory = () => {
+  const { address: connectedAddress } = useAccount();
+  const { data: blockNumber } = useBlockNumber({ watch: true });
+  const { rows, totals, indexedToBlock, isLoading, error } = useBettorHistory(connectedAddress, blockNumber);
+
+  // Newest first on screen; the running net still accumulates oldest → newest.
+  const displayRows = [...rows].reverse();
+
+  return (
+    <div className="flex flex-col gap-6 w-full max-w-6xl px-4 py-8">
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div className="flex flex-col gap-2">
+          <h1 className="text-4xl font-bold">My Bets</h1>
+          <p className="text-base-content/70">
+            Every bet you placed, what it paid and where you stand.
+            {indexedToBlock ? ` Indexed through block ${indexedToBlock}.` : ""}
+          </p>
+        </div>
+        <button
+          className="btn btn-sm btn-primary"
+          disabled={!connectedAddress || rows.length === 0}
+          onClick={() => connectedAddress && downloadCsv(rows, connectedAddress)}
+        >
+          <ArrowDownTrayIcon className="h-4 w-4" />
+          Export CSV
+        </button>
+      </div>
+
+      {!connectedAddress ? (
+        <div className="alert">Connect a wallet to see your bets.</div>
+      ) : error ? (
+        <div className="alert alert-warning">{error.message}</div>
+      ) : (
+        <>
+          <div className="stats stats-vertical sm:stats-horizontal shadow bg-base-200">
+            <div className="stat">
+              <div className="stat-title">Net P&amp;L</div>
+              <div className={`stat-value ${totals.net > 0n ? "text-success" : totals.net < 0n ? "text-error" : ""}`}>
+                {formatSignedUsdc(totals.net)}
+              </div>
+              <div className="stat-desc">USDC on resolved bets</div>
+            </div>
+            <div className="stat">
+              <div className="stat-title">Staked</div>
+              <div className="stat-value text-2xl">{formatUsdc(totals.staked)}</div>
+              <div className="stat-desc">{totals.pending > 0n ? `${formatUsdc(totals.pending)} still open` : " "}</div>
+            </div>
+            <div className="stat">
+              <div className="stat-title">Claimed</div>
+              <div className="stat-value text-2xl">{formatUsdc(totals.claimed)}</div>
+            </div>
+            <div className="stat">
+              <div className="stat-title">Unclaimed</div>
+              <div className="stat-value text-2xl text-info">{formatUsdc(totals.unclaimed)}</div>
+              <div className="stat-desc">Claim from the home page</div>
+            </div>
+            <div className="stat">
+              <div className="stat-title">Expired</div>
+              <div className="stat-value text-2xl text-error">{formatUsdc(totals.expired)}</div>
+              <div className="stat-desc">Forfeited after the claim window</div>
+            </div>
+          </div>
+
+          <div className="overflow-x-auto w-full shadow rounded-xl">
+            <table className="table bg-base-100 table-zebra w-full table-sm">
+              <thead>
+                <tr className="text-sm text-base-content">
+                  <th className="bg-primary">Race</th>
+                  <th className="bg-primary">Placed</th>
+                  <th className="bg-primary">Bet</th>
+                  <th className="bg-primary">Raffe</th>
+                  <th className="bg-primary text-end">Stake</th>
+                  <th className="bg-primary text-end">Odds</th>
+                  <th className="bg-primary">Outcome</th>
+                  <th className="bg-primary text-end">Payout</th>
+                  <th className="bg-primary">Status</th>
+                  <th className="bg-primary text-end">Net</th>
+                  <th className="bg-primary text-end">Running</th>
+                </tr>
+              </thead>
+              <tbody>
+                {isLoading ? (
+                  <tr>
+                    <td colSpan={11} className="text-center py-8">
+                      <span className="loading loading-spinner loading-md" />
+                    </td>
+                  </tr>
+                ) : displayRows.length === 0 ? (
+                  <tr>
+                    <td colSpan={11} className="text-center py-8 opacity-70">
+                      No bets yet.
+                    </td>
+                  </tr>
+                ) : (
+                  displayRows.map(row => (
+                    <tr key={`${row.raceId}-${row.betType}`} className="hover">
+                      <td>
+                        <Link href={`/races/${row.raceId}`} className="link link-primary font-mono">
+                          #{row.raceId}
+                        </Link>
+                      </td>
+                      <td className="text-xs">
+                        {row.placedAt !== null
+                          ? new Date(row.placedAt * 1000).toLocaleString()
+                          : `Block ${row.blockNumber}`}
+                      </td>
+                      <td>
+                        {BET_TYPE_LABELS[row.betType] ?? row.betType} · {laneLabel(row)}
+                      </td>
+                      <td>
+                        {row.tokenId ? (
+                          <Link href={`/raffe/${row.tokenId}`} className="link link-hover">
+                            <LaneName tokenId={BigInt(row.tokenId)} fallback={`Raffe #${row.tokenId}`} />
+                          </Link>
+                        ) : (
+                          "—"
+                        )}
+                      </td>
+                      <td className="text-end font-mono">{formatUsdc(BigInt(row.amount))}</td>
+                      <td className="text-end font-mono">{formatOddsBps(row.oddsBps ?? 0)}</td>
+                      <td>{outcomeLabel(row)}</td>
+                      <td className="text-end font-mono">{row.payout !== null ? formatUsdc(row.payout) : "—"}</td>
+                      <td>
+                        <PayoutStatusBadge status={row.payoutStatus} refund={row.raceStatus === "cancelled"} />
+                        {row.payoutStatus === "unclaimed" && row.claimDeadlineBlock !== null && blockNumber ? (
+                          <div className="text-xs opacity-60 mt-1">
+                            {(row.claimDeadlineBlock - blockNumber).toString()} blocks left
+                          </div>
+                        ) : null}
+                      </td>
+                      <td
+                        className={`text-end font-mono ${row.net !== null && row.net > 0n ? "text-success" : row.net !== null && row.net < 0n ? "text-error" : ""}`}
+                      >
+                        {row.net !== null ? formatSignedUsdc(row.net) : "—"}
+                      </td>
+                      <td className="text-end font-mono">{formatSignedUsdc(row.runningNet)}</td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
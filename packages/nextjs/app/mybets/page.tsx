@@ -0,0 +1,14 @@
+"use client";
+
+import { MyBetsHistory } from "./_components/MyBetsHistory";
+import type { NextPage } from "next";
+
+const MyBetsPage: NextPage = () => {
+  return (
+    <div className="flex items-center flex-col grow">
+      <MyBetsHistory />
+    </div>
+  );
+};
+
+export default MyBetsPage;
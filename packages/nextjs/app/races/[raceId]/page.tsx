@@ -0,0 +1,19 @@
+import { notFound } from "next/navigation";
+import { RaceHistoryDetailView } from "../_components/RaceHistoryDetailView";
+
+type PageProps = {
+  params: Promise<{ raceId: string }>;
+};
+
+const RacePage = async (props: PageProps) => {
+  const { raceId } = await props.params;
+  if (!/^\d+$/.test(raceId)) notFound();
+
+  return (
+    <div className="flex flex-col grow">
+      <RaceHistoryDetailView raceId={BigInt(raceId)} />
+    </div>
+  );
+};
+
+export default RacePage;
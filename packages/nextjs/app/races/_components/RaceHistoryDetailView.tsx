@@ -0,0 +1,430 @@
+"use client";
+
+import { useMemo } from "react";
+import Link from "next/link";
+import { Address } from "@scaffold-ui/components";
+import { useAccount, useBlockNumber } from "wagmi";
+import { ArrowLeftIcon } from "@heroicons/react/24/outline";
+import {
+  LaneName,
+  PayoutStatusBadge,
+  RaceOverlay,
+  RaceTrack,
+  ReplayControls,
+} from "~~/app/_components/race/components";
+import { LANE_COUNT } from "~~/app/_components/race/constants";
+import {
+  useRaceCamera,
+  useRaceCommentary,
+  useRaceReplay,
+  useRaceSnapshot,
+  useRaceStatus,
+  useTrackDimensions,
+} from "~~/app/_components/race/hooks";
+import { BetType, ParsedFinishOrder, PayoutStatus } from "~~/app/_components/race/types";
+import {
+  exoticOddsFor,
+  formatExoticLanes,
+  formatOddsBps,
+  formatUsdc,
+  isExoticBetType,
+  settledBetPayout,
+  settledExoticPayout,
+  withPayoutStatus,
+} from "~~/app/_components/race/utils";
+import { useDeployedContractInfo, useScaffoldReadContract } from "~~/hooks/scaffold-eth";
+import { useRaceHistoryDetail } from "~~/hooks/useRaceHistory";
+import type { RaceHistoryBet } from "~~/utils/indexer/types";
+import { isZeroAddress } from "~~/utils/scaffold-eth/common";
+
+const BET_TYPE_LABELS = ["Win", "Place", "Show", "Exacta", "Quinella", "Trifecta"] as const;
+const POSITION_LABELS = ["1st", "2nd", "3rd"] as const;
+
+const formatReplayTime = (ms: number) => {
+  const seconds = Math.floor(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+};
+
+type BetRow = RaceHistoryBet & { payout: bigint | null; payoutStatus: PayoutStatus };
+
+const finishPositionOf = (lane: number, finishOrder: ParsedFinishOrder | null): number | null => {
+  if (!finishOrder) return null;
+  const idx = [finishOrder.first, finishOrder.second, finishOrder.third].findIndex(p => p.lanes.includes(lane));
+  return idx === -1 ? null : idx;
+};
+
+export const RaceHistoryDetailView = ({ raceId }: { raceId: bigint }) => {
+  const trackDimensions = useTrackDimensions();
+  const { address: connectedAddress } = useAccount();
+  const { data: blockNumber } = useBlockNumber({ watch: false });
+
+  const { data: raffeRaceContract } = useDeployedContractInfo({ contractName: "RaffeRace" });
+  const { data: nextRaceIdData } = useScaffoldReadContract({
+    contractName: "RaffeRace",
+    functionName: "nextRaceId",
+    query: { enabled: !!raffeRaceContract },
+    watch: false,
+  });
+  const raceExists = nextRaceIdData !== undefined && raceId < (nextRaceIdData as bigint);
+
+  const {
+    parsed,
+    parsedSchedule,
+    parsedRaffes,
+    parsedOdds,
+    parsedExoticOdds,
+    parsedPool,
+    parsedFinishOrder,
+    laneScore,
+    laneTokenIds,
+    laneStats,
+    bettingCloseBlock,
+    lineupFinalized,
+    myBets,
+  } = useRaceSnapshot(raceExists ? raceId : null, { bettor: connectedAddress });
+  const { data: history, error: historyError } = useRaceHistoryDetail(raceId);
+
+  const replay = useRaceReplay({
+    seed: parsed?.seed,
+    settled: parsed?.settled ?? false,
+    laneScore,
+  });
+  const commentary = useRaceCommentary({
+    simulation: replay.simulation,
+    laneTokenIds,
+    frame: replay.frame,
+    raceStarted: replay.raceStarted,
+  });
+  const camera = useRaceCamera({
+    simulation: replay.simulation,
+    currentDistances: replay.currentDistances,
+    playbackSpeed: replay.playbackSpeed,
+    cameraStartX: trackDimensions.cameraStartX,
+    worldPaddingLeft: trackDimensions.worldPaddingLeft,
+    worldPaddingRight: trackDimensions.worldPaddingRight,
+    cameraFinishInset: trackDimensions.cameraFinishInset,
+  });
+  const status = useRaceStatus(raffeRaceContract, raceExists, parsed, parsedSchedule, null, blockNumber);
+
+  const isCancelled = history?.race?.status === "cancelled";
+
+  const betRows = useMemo<BetRow[]>(() => {
+    if (!history) return [];
+    const priced = history.bets.map(bet => {
+      const amount = BigInt(bet.amount);
+      let payout: bigint | null = null;
+      if (isCancelled) payout = amount;
+      else if (isExoticBetType(bet.betType)) {
+        if (parsed?.settled && parsedFinishOrder && parsedExoticOdds?.oddsSet) {
+          payout = settledExoticPayout(
+            { amount, lanes: bet.lanes ?? [], betType: bet.betType },
+            parsedFinishOrder,
+            parsedExoticOdds,
+          );
+        }
+      } else if (parsed?.settled && parsedFinishOrder && parsedOdds?.oddsSet) {
+        payout = settledBetPayout(
+          { amount, lane: bet.lane, betType: bet.betType as BetType },
+          parsedFinishOrder,
+          parsedOdds,
+        );
+      }
+      return { ...bet, payout };
+    });
+    return withPayoutStatus(priced, history.claims);
+  }, [history, isCancelled, parsed?.settled, parsedFinishOrder, parsedOdds, parsedExoticOdds]);
+
+  const totals = useMemo(() => {
+    let staked = 0n;
+    let owed = 0n;
+    for (const b of betRows) {
+      staked += BigInt(b.amount);
+      owed += b.payout ?? 0n;
+    }
+    let paid = 0n;
+    let forfeited = 0n;
+    for (const c of history?.claims ?? []) {
+      if (c.expired) forfeited += BigInt(c.amount);
+      else paid += BigInt(c.amount);
+    }
+    return { staked, owed, paid, forfeited };
+  }, [betRows, history?.claims]);
+
+  const lanes = Array.from({ length: LANE_COUNT }, (_, lane) => {
+    const indexed = history?.lanes.find(l => l.lane === lane);
+    const tokenId = laneTokenIds[lane] || (indexed ? BigInt(indexed.tokenId) : 0n);
+    const chainOwner = parsedRaffes?.originalOwners[lane];
+    const owner = chainOwner && !isZeroAddress(chainOwner) ? chainOwner : (indexed?.owner as `0x${string}` | undefined);
+    return { lane, tokenId, owner, stats: laneStats[lane], position: finishPositionOf(lane, parsedFinishOrder) };
+  });
+
+  if (nextRaceIdData !== undefined && !raceExists) {
+    return (
+      <div className="flex flex-col items-center gap-4 py-16">
+        <h1 className="text-3xl font-bold">Race #{raceId.toString()} does not exist</h1>
+        <Link href="/races" className="btn btn-sm">
+          Back to past races
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col gap-8 w-full max-w-none px-[30px] py-8">
+      <div className="flex flex-col gap-2">
+        <Link href="/races" className="link link-hover text-sm flex items-center gap-1 opacity-70">
+          <ArrowLeftIcon className="h-4 w-4" /> Past races
+        </Link>
+        <div className="flex flex-wrap items-center gap-3">
+          <h1 className="text-4xl font-bold">Race #{raceId.toString()}</h1>
+          {isCancelled ? (
+            <span className="badge badge-ghost">{history?.race?.autoCancelled ? "Auto-cancelled" : "Cancelled"}</span>
+          ) : parsed?.settled ? (
+            <>
+              <span className="badge badge-success">Settled</span>
+              <Link href={`/verify/${raceId}`} className="link link-primary text-sm">
+                Verify settlement
+              </Link>
+              {/* Plain anchors: these are files from an API route, not pages */}
+              <a href={`/api/races/${raceId}/replay`} target="_blank" rel="noreferrer" className="link text-sm">
+                Replay SVG
+              </a>
+              <a href={`/api/races/${raceId}/replay?format=gif&download=1`} className="link text-sm">
+                Finish GIF
+              </a>
+            </>
+          ) : (
+            <span className="badge badge-info">In progress</span>
+          )}
+          {parsedFinishOrder && parsedFinishOrder.first.count > 1 ? (
+            <span className="badge badge-warning">Dead heat ×{parsedFinishOrder.first.count}</span>
+          ) : null}
+          {parsedPool?.parimutuel ? (
+            <span className="badge badge-outline">Parimutuel pool · {parsedPool.takeBps / 100}% take</span>
+          ) : null}
+        </div>
+        {history?.race ? (
+          <p className="text-base-content/70 text-sm">
+            Ended at block {history.race.endedBlock}
+            {history.race.endedAt !== null ? ` · ${new Date(history.race.endedAt * 1000).toLocaleString()}` : ""}
+          </p>
+        ) : null}
+      </div>
+
+      <div className="card bg-base-200 shadow w-full">
+        <div className="card-body gap-4 px-0">
+          <div className="flex items-center justify-between">
+            <h2 className="card-title">Race replay</h2>
+            <ReplayControls
+              hasSimulation={!!replay.simulation}
+              isPlaying={replay.isPlaying}
+              setIsPlaying={replay.setIsPlaying}
+              playbackSpeed={replay.playbackSpeed}
+              setPlaybackSpeed={replay.setPlaybackSpeed}
+              frame={replay.frame}
+              lastFrameIndex={replay.lastFrameIndex}
+              stepBy={replay.stepBy}
+              reset={replay.reset}
+            />
+          </div>
+
+          <div
+            ref={camera.viewportRefCb}
+            className="relative w-full bg-base-100 border border-base-300 overflow-hidden"
+            style={{ height: "var(--track-height)" }}
+          >
+            <div className="absolute inset-0 z-30 flex items-center justify-center pointer-events-none">
+              {isCancelled ? (
+                <div
+                  className="flex flex-col items-center gap-2 px-6 py-4 rounded-2xl bg-base-100/90 backdrop-blur-sm shadow-lg"
+                  style={{ minWidth: 320 }}
+                >
+                  <div className="text-3xl font-black text-primary drop-shadow">Race cancelled</div>
+                  <div className="text-lg font-semibold text-base-content/70">All bets were refunded</div>
+                </div>
+              ) : (
+                <RaceOverlay
+                  status={status}
+                  simulation={replay.simulation}
+                  raceIsOver={replay.raceIsOver}
+                  isPlaying={replay.isPlaying}
+                  raceStarted={replay.raceStarted}
+                  frame={replay.frame}
+                  startDelayRemainingMs={replay.startDelayRemainingMs}
+                  goPhase={replay.goPhase}
+                  viewingRaceId={raceId}
+                  parsed={parsed}
+                  parsedSchedule={parsedSchedule}
+                  laneTokenIds={laneTokenIds}
+                  parsedFinishOrder={parsedFinishOrder}
+                  myBets={myBets}
+                  blockNumber={blockNumber}
+                  bettingCloseBlock={bettingCloseBlock}
+                />
+              )}
+            </div>
+
+            <RaceTrack
+              cameraScrollRefCb={camera.cameraScrollRefCb}
+              dimensions={trackDimensions}
+              simulation={replay.simulation}
+              lineupFinalized={lineupFinalized}
+              parsedRaffes={parsedRaffes}
+              currentDistances={replay.currentDistances}
+              prevDistances={replay.prevDistances}
+              isPlaying={replay.isPlaying}
+              raceStarted={replay.raceStarted}
+              frame={replay.frame}
+              lastFrameIndex={replay.lastFrameIndex}
+              playbackSpeed={replay.playbackSpeed}
+              svgResetNonce={replay.svgResetNonce}
+              myBets={myBets}
+              caption={commentary.caption}
+            />
+          </div>
+        </div>
+      </div>
+
+      {commentary.lines.length > 1 ? (
+        <div className="card bg-base-200 shadow w-full">
+          <div className="card-body">
+            <h2 className="card-title">Race recap</h2>
+            <ol className="flex flex-col gap-1">
+              {commentary.lines.map((line, i) => (
+                <li key={i} className="flex items-baseline gap-3">
+                  {/* Jumps the replay above to this moment */}
+                  <button
+                    className="link link-hover font-mono text-xs opacity-60 w-10 text-end shrink-0"
+                    onClick={() => {
+                      replay.setIsPlaying(false);
+                      replay.setFrame(line.frame);
+                    }}
+                  >
+                    {formatReplayTime(line.atMs)}
+                  </button>
+                  <span className={line.kind === "finish" || line.kind === "result" ? "font-semibold" : ""}>
+                    {line.text}
+                  </span>
+                </li>
+              ))}
+            </ol>
+          </div>
+        </div>
+      ) : null}
+
+      <div className="card bg-base-200 shadow w-full">
+        <div className="card-body">
+          <h2 className="card-title">Lineup</h2>
+          <div className="overflow-x-auto">
+            <table className="table table-sm">
+              <thead>
+                <tr>
+                  <th>Lane</th>
+                  <th>Raffe</th>
+                  <th>Owner</th>
+                  <th className="text-center">Zip / Moxie / Hustle</th>
+                  <th className="text-end">Win</th>
+                  <th className="text-end">Place</th>
+                  <th className="text-end">Show</th>
+                  <th className="text-end">Finish</th>
+                </tr>
+              </thead>
+              <tbody>
+                {lanes.map(({ lane, tokenId, owner, stats, position }) => (
+                  <tr key={lane}>
+                    <td>{lane}</td>
+                    <td className="font-semibold">
+                      {tokenId !== 0n ? (
+                        <Link href={`/raffe/${tokenId}`} className="link link-hover">
+                          <LaneName tokenId={tokenId} fallback={`Raffe #${tokenId}`} />
+                        </Link>
+                      ) : (
+                        "—"
+                      )}
+                    </td>
+                    <td>{owner ? <Address address={owner} size="xs" /> : "—"}</td>
+                    <td className="text-center font-mono">
+                      {stats ? `${stats.zip} / ${stats.moxie} / ${stats.hustle}` : "—"}
+                    </td>
+                    <td className="text-end font-mono">{formatOddsBps(parsedOdds?.winOddsBps[lane] ?? 0n)}</td>
+                    <td className="text-end font-mono">{formatOddsBps(parsedOdds?.placeOddsBps[lane] ?? 0n)}</td>
+                    <td className="text-end font-mono">{formatOddsBps(parsedOdds?.showOddsBps[lane] ?? 0n)}</td>
+                    <td className="text-end">{position !== null ? POSITION_LABELS[position] : "—"}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+
+      <div className="card bg-base-200 shadow w-full">
+        <div className="card-body">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <h2 className="card-title">Bets &amp; payouts</h2>
+            {history ? (
+              <div className="text-sm opacity-70 flex flex-wrap gap-4">
+                <span>Staked {formatUsdc(totals.staked)} USDC</span>
+                <span>Owed {formatUsdc(totals.owed)} USDC</span>
+                <span>Paid {formatUsdc(totals.paid)} USDC</span>
+                {totals.forfeited > 0n ? <span>Forfeited {formatUsdc(totals.forfeited)} USDC</span> : null}
+              </div>
+            ) : null}
+          </div>
+          {historyError ? (
+            <div className="alert alert-warning">{historyError.message}</div>
+          ) : !history ? (
+            <span className="loading loading-spinner loading-md" />
+          ) : betRows.length === 0 ? (
+            <p className="opacity-70">No bets were placed on this race.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="table table-sm">
+                <thead>
+                  <tr>
+                    <th>Bettor</th>
+                    <th>Type</th>
+                    <th>Lane</th>
+                    <th className="text-end">Stake</th>
+                    <th className="text-end">Odds</th>
+                    <th className="text-end">Payout</th>
+                    <th>Status</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {betRows.map(bet => {
+                    const exotic = isExoticBetType(bet.betType) ? bet.betType : null;
+                    const oddsBps =
+                      exotic !== null
+                        ? parsedExoticOdds?.oddsSet
+                          ? exoticOddsFor(parsedExoticOdds, exotic, bet.lanes ?? [])
+                          : 0n
+                        : [parsedOdds?.winOddsBps, parsedOdds?.placeOddsBps, parsedOdds?.showOddsBps][bet.betType]?.[
+                            bet.lane
+                          ];
+                    const isMine = connectedAddress?.toLowerCase() === bet.bettor;
+                    return (
+                      <tr key={`${bet.txHash}-${bet.betType}`} className={isMine ? "bg-primary/10" : ""}>
+                        <td>
+                          <Address address={bet.bettor as `0x${string}`} size="xs" />
+                        </td>
+                        <td>{BET_TYPE_LABELS[bet.betType] ?? bet.betType}</td>
+                        <td>{exotic !== null && bet.lanes ? formatExoticLanes(exotic, bet.lanes) : bet.lane}</td>
+                        <td className="text-end font-mono">{formatUsdc(BigInt(bet.amount))}</td>
+                        <td className="text-end font-mono">{formatOddsBps(oddsBps ?? 0n)}</td>
+                        <td className="text-end font-mono">{bet.payout === null ? "—" : formatUsdc(bet.payout)}</td>
+                        <td>
+                          <PayoutStatusBadge status={bet.payoutStatus} refund={isCancelled} />
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
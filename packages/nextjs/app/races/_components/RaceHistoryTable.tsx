@@ -0,0 +1,175 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { ArrowLeftIcon, ArrowRightIcon } from "@heroicons/react/24/outline";
+import { LaneName } from "~~/app/_components/race/components";
+import { formatOddsBps, formatUsdc } from "~~/app/_components/race/utils";
+import { useRaceHistory } from "~~/hooks/useRaceHistory";
+import type { RaceHistoryRow, RaceHistoryStatus } from "~~/utils/indexer/types";
+
+const PAGE_SIZE = 20;
+
+const RaceResult = ({ race }: { race: RaceHistoryRow }) => {
+  if (race.status === "cancelled") {
+    return <span className="badge badge-ghost">{race.autoCancelled ? "Auto-cancelled" : "Cancelled"} · refunded</span>;
+  }
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      {race.winners.map((lane, i) => (
+        <span key={lane} className="font-semibold">
+          <LaneName tokenId={BigInt(race.winnerTokenIds[i] ?? "0")} fallback={`Lane ${lane}`} />
+        </span>
+      ))}
+      {race.deadHeatCount > 1 ? (
+        <span className="badge badge-warning badge-sm">Dead heat ×{race.deadHeatCount}</span>
+      ) : null}
+      {race.parimutuel ? <span className="badge badge-outline badge-sm">Pool</span> : null}
+    </div>
+  );
+};
+
+export const RaceHistoryTable = () => {
+  const [status, setStatus] = useState<RaceHistoryStatus | "">("");
+  const [deadHeatOnly, setDeadHeatOnly] = useState(false);
+  const [tokenId, setTokenId] = useState("");
+  const [page, setPage] = useState(1);
+
+  const tokenIdFilter = /^\d+$/.test(tokenId.trim()) ? tokenId.trim() : undefined;
+  const { data, error, isLoading, isPlaceholderData } = useRaceHistory({
+    status: status || undefined,
+    deadHeatOnly,
+    tokenId: tokenIdFilter,
+    page,
+    pageSize: PAGE_SIZE,
+  });
+
+  const totalPages = data ? Math.max(1, Math.ceil(data.total / data.pageSize)) : 1;
+
+  return (
+    <div className="flex flex-col gap-6 w-full max-w-6xl px-4 py-8">
+      <div className="flex flex-col gap-2">
+        <h1 className="text-4xl font-bold">Past races</h1>
+        <p className="text-base-content/70">
+          Every settled and cancelled race, newest first.
+          {data?.indexedToBlock ? ` Indexed through block ${data.indexedToBlock}.` : ""}
+        </p>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-4">
+        <label className="form-control">
+          <span className="label-text text-xs mb-1">Status</span>
+          <select
+            className="select select-sm select-bordered"
+            value={status}
+            onChange={e => {
+              setStatus(e.target.value as RaceHistoryStatus | "");
+              setPage(1);
+            }}
+          >
+            <option value="">All</option>
+            <option value="settled">Settled</option>
+            <option value="cancelled">Cancelled</option>
+          </select>
+        </label>
+        <label className="form-control">
+          <span className="label-text text-xs mb-1">Raffe #</span>
+          <input
+            className="input input-sm input-bordered w-28"
+            inputMode="numeric"
+            placeholder="Any"
+            value={tokenId}
+            onChange={e => {
+              setTokenId(e.target.value);
+              setPage(1);
+            }}
+          />
+        </label>
+        <label className="label cursor-pointer gap-2">
+          <input
+            type="checkbox"
+            className="checkbox checkbox-sm"
+            checked={deadHeatOnly}
+            onChange={e => {
+              setDeadHeatOnly(e.target.checked);
+              setPage(1);
+            }}
+          />
+          <span className="label-text">Dead heats only</span>
+        </label>
+      </div>
+
+      {error ? (
+        <div className="alert alert-warning">{error.message}</div>
+      ) : (
+        <div className="overflow-x-auto w-full shadow rounded-xl">
+          <table className={`table bg-base-100 table-zebra w-full ${isPlaceholderData ? "opacity-60" : ""}`}>
+            <thead>
+              <tr className="text-sm text-base-content">
+                <th className="bg-primary">Race</th>
+                <th className="bg-primary">Result</th>
+                <th className="bg-primary text-end">Winner odds</th>
+                <th className="bg-primary text-end">Pot (USDC)</th>
+                <th className="bg-primary text-end">Bets</th>
+                <th className="bg-primary">Ended</th>
+              </tr>
+            </thead>
+            <tbody>
+              {isLoading ? (
+                <tr>
+                  <td colSpan={6} className="text-center py-8">
+                    <span className="loading loading-spinner loading-md" />
+                  </td>
+                </tr>
+              ) : !data?.races.length ? (
+                <tr>
+                  <td colSpan={6} className="text-center py-8 opacity-70">
+                    No races match these filters.
+                  </td>
+                </tr>
+              ) : (
+                data.races.map(race => (
+                  <tr key={race.raceId} className="hover text-sm">
+                    <td>
+                      <Link href={`/races/${race.raceId}`} className="link link-primary font-mono">
+                        #{race.raceId}
+                      </Link>
+                    </td>
+                    <td>
+                      <RaceResult race={race} />
+                    </td>
+                    <td className="text-end font-mono">
+                      {race.winnerWinOddsBps.length ? race.winnerWinOddsBps.map(formatOddsBps).join(" / ") : "—"}
+                    </td>
+                    <td className="text-end font-mono">{formatUsdc(BigInt(race.pot))}</td>
+                    <td className="text-end">{race.betCount}</td>
+                    <td className="text-xs">
+                      <div>Block {race.endedBlock}</div>
+                      {race.endedAt !== null ? (
+                        <div className="opacity-60">{new Date(race.endedAt * 1000).toLocaleString()}</div>
+                      ) : null}
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {data && totalPages > 1 ? (
+        <div className="justify-end flex gap-3">
+          <button className="btn btn-sm btn-primary" disabled={page <= 1} onClick={() => setPage(p => p - 1)}>
+            <ArrowLeftIcon className="h-4 w-4" />
+          </button>
+          <span className="self-center font-medium">
+            Page {page} of {totalPages}
+          </span>
+          <button className="btn btn-sm btn-primary" disabled={page >= totalPages} onClick={() => setPage(p => p + 1)}>
+            <ArrowRightIcon className="h-4 w-4" />
+          </button>
+        </div>
+      ) : null}
+    </div>
+  );
+};
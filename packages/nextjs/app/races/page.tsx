@@ -0,0 +1,14 @@
+"use client";
+
+import { RaceHistoryTable } from "./_components/RaceHistoryTable";
+import type { NextPage } from "next";
+
+const RacesPage: NextPage = () => {
+  return (
+    <div className="flex items-center flex-col grow">
+      <RaceHistoryTable />
+    </div>
+  );
+};
+
+export default RacesPage;
@@ -0,0 +1,19 @@
+import { notFound } from "next/navigation";
+import { RaffeProfile } from "../_components/RaffeProfile";
+
+type PageProps = {
+  params: Promise<{ tokenId: string }>;
+};
+
+const RaffePage = async (props: PageProps) => {
+  const { tokenId } = await props.params;
+  if (!/^\d+$/.test(tokenId) || BigInt(tokenId) === 0n) notFound();
+
+  return (
+    <div className="flex items-center flex-col grow">
+      <RaffeProfile tokenId={BigInt(tokenId)} />
+    </div>
+  );
+};
+
+export default RaffePage;
@@ -0,0 +1,217 @@
+"use client";
+
+import Link from "next/link";
+import { Address } from "@scaffold-ui/components";
+import { formatOddsBps, formatUsdc } from "~~/app/_components/race/utils";
+import { RaffeAnimated } from "~~/components/assets/RaffeAnimated";
+import { useScaffoldReadContract } from "~~/hooks/scaffold-eth";
+import { useRaffeCareer } from "~~/hooks/useRaffeCareer";
+import {
+  RAFFE_TRAIT_CATEGORIES,
+  RAFFE_TRAIT_TABLE,
+  raffeTraitRarity,
+  raffeTraitsFromSeed,
+} from "~~/utils/nft/raffeTraits";
+import { parseRaffeStats } from "~~/utils/raffeRace/parse";
+
+const ordinal = (n: number) => {
+  const mod100 = n % 100;
+  if (mod100 >= 11 && mod100 <= 13) return `${n}th`;
+  return `${n}${["th", "st", "nd", "rd"][n % 10] ?? "th"}`;
+};
+
+const formatSignedUsdc = (amount: bigint) => `${amount < 0n ? "-" : "+"}${formatUsdc(amount < 0n ? -amount : amount)}`;
+
+export const RaffeProfile = ({ tokenId }: { tokenId: bigint }) => {
+  const { data: nameData } = useScaffoldReadContract({
+    contractName: "RaffeNFT",
+    functionName: "nameOf",
+    args: [tokenId],
+    watch: false,
+  });
+  const { data: ownerData, error: ownerError } = useScaffoldReadContract({
+    contractName: "RaffeNFT",
+    functionName: "ownerOf",
+    args: [tokenId],
+  });
+  const { data: statsData } = useScaffoldReadContract({
+    contractName: "RaffeNFT",
+    functionName: "statsOf",
+    args: [tokenId],
+    watch: false,
+  });
+  const { data: seedData } = useScaffoldReadContract({
+    contractName: "RaffeNFT",
+    functionName: "seedOf",
+    args: [tokenId],
+    watch: false,
+  });
+
+  const { entries, stats, indexedToBlock, isLoading, error } = useRaffeCareer(tokenId);
+
+  if (ownerError) {
+    return (
+      <div className="flex flex-col items-center gap-4 py-16">
+        <h1 className="text-3xl font-bold">Raffe #{tokenId.toString()} does not exist</h1>
+      </div>
+    );
+  }
+
+  const name = (nameData ?? "").trim() || `Raffe #${tokenId.toString()}`;
+  const { zip, moxie, hustle } = statsData ? parseRaffeStats(statsData) : { zip: 10, moxie: 10, hustle: 10 };
+  const ownerNet = stats.ownerPayout - stats.ownerStake;
+  const traits = seedData ? raffeTraitsFromSeed(seedData) : null;
+
+  return (
+    <div className="flex flex-col gap-8 w-full max-w-5xl px-4 py-8">
+      <div className="flex flex-col sm:flex-row items-center gap-6">
+        <div className="rounded-2xl bg-base-200 p-4">
+          <RaffeAnimated
+            idPrefix={`profile-${tokenId.toString()}`}
+            tokenId={tokenId}
+            playbackRate={1}
+            sizePx={220}
+            background
+          />
+        </div>
+        <div className="flex flex-col gap-2">
+          <h1 className="text-4xl font-bold">{name}</h1>
+          <div className="text-sm opacity-70">Token #{tokenId.toString()}</div>
+          {ownerData ? (
+            <div className="flex items-center gap-2 text-sm">
+              <span className="opacity-70">Owner</span>
+              <Address address={ownerData as `0x${string}`} size="sm" />
+            </div>
+          ) : null}
+          <div className="text-sm">
+            Zip: {zip}/10 · Moxie: {moxie}/10 · Hustle: {hustle}/10
+          </div>
+          {traits ? (
+            <div className="flex flex-wrap gap-1">
+              {RAFFE_TRAIT_CATEGORIES.map(category => (
+                <span
+                  key={category}
+                  className="badge badge-outline"
+                  title={`${(raffeTraitRarity(category, traits[category]) * 100).toFixed(0)}% of raffes`}
+                >
+                  {RAFFE_TRAIT_TABLE[category].label}: {traits[category]}
+                </span>
+              ))}
+            </div>
+          ) : null}
+          <div className="flex items-center gap-2 mt-1">
+            <span className="text-sm opacity-70">Form</span>
+            {stats.form.length ? (
+              <span className="font-mono text-xl font-bold tracking-wider" title="Most recent start on the right">
+                {stats.form.join("-")}
+              </span>
+            ) : (
+              <span className="text-sm opacity-70">No starts yet</span>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {error ? <div className="alert alert-warning">{error.message}</div> : null}
+
+      <div className="stats stats-vertical sm:stats-horizontal shadow bg-base-200">
+        <div className="stat">
+          <div className="stat-title">Starts</div>
+          <div className="stat-value">{stats.starts}</div>
+          <div className="stat-desc">{stats.scratched ? `${stats.scratched} cancelled` : " "}</div>
+        </div>
+        <div className="stat">
+          <div className="stat-title">Wins / Places / Shows</div>
+          <div className="stat-value">
+            {stats.wins}-{stats.places}-{stats.shows}
+          </div>
+          <div className="stat-desc">
+            {stats.starts ? `${((stats.wins / stats.starts) * 100).toFixed(0)}% strike rate` : " "}
+          </div>
+        </div>
+        <div className="stat">
+          <div className="stat-title">Average finish</div>
+          <div className="stat-value">{stats.averageFinish !== null ? stats.averageFinish.toFixed(2) : "—"}</div>
+          <div className="stat-desc">1 = always first</div>
+        </div>
+        <div className="stat">
+          <div className="stat-title">Owner earnings</div>
+          <div className={`stat-value ${ownerNet > 0n ? "text-success" : ownerNet < 0n ? "text-error" : ""}`}>
+            {formatSignedUsdc(ownerNet)}
+          </div>
+          <div className="stat-desc">
+            USDC won backing it: {formatUsdc(stats.ownerPayout)} on {formatUsdc(stats.ownerStake)} staked
+          </div>
+        </div>
+      </div>
+
+      <div className="card bg-base-200 shadow w-full">
+        <div className="card-body">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <h2 className="card-title">Race record</h2>
+            {indexedToBlock ? <span className="text-xs opacity-60">Indexed through block {indexedToBlock}</span> : null}
+          </div>
+          {isLoading ? (
+            <span className="loading loading-spinner loading-md" />
+          ) : entries.length === 0 ? (
+            <p className="opacity-70">This raffe hasn&apos;t been drawn into a race yet.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="table table-sm">
+                <thead>
+                  <tr>
+                    <th>Race</th>
+                    <th>Lane</th>
+                    <th>Finish</th>
+                    <th className="text-end">Win odds</th>
+                    <th>Entered by</th>
+                    <th className="text-end">Owner bets</th>
+                    <th>Date</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {entries.map(e => (
+                    <tr key={e.raceId}>
+                      <td>
+                        <Link href={`/races/${e.raceId}`} className="link link-primary font-mono">
+                          #{e.raceId}
+                        </Link>
+                      </td>
+                      <td>{e.lane}</td>
+                      <td>
+                        {e.position !== null ? (
+                          <span className={e.position === 1 ? "font-bold text-success" : ""}>
+                            {ordinal(e.position)}
+                            {e.deadHeat ? " (dead heat)" : ""}
+                          </span>
+                        ) : e.status === "cancelled" ? (
+                          <span className="opacity-70">Cancelled</span>
+                        ) : e.status === "open" ? (
+                          <span className="opacity-70">Upcoming</span>
+                        ) : (
+                          <span className="loading loading-dots loading-xs" />
+                        )}
+                      </td>
+                      <td className="text-end font-mono">{formatOddsBps(e.odds?.winOddsBps[e.lane] ?? 0)}</td>
+                      <td>
+                        <Address address={e.owner as `0x${string}`} size="xs" />
+                      </td>
+                      <td className="text-end font-mono">
+                        {e.ownerStake === 0n || e.status === "open"
+                          ? "—"
+                          : formatSignedUsdc(e.ownerPayout - e.ownerStake)}
+                      </td>
+                      <td className="text-xs opacity-70">
+                        {e.endedAt !== null ? new Date(e.endedAt * 1000).toLocaleDateString() : "—"}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
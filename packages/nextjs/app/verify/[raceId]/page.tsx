@@ -0,0 +1,19 @@
+import { notFound } from "next/navigation";
+import { SettlementVerifier } from "../_components/SettlementVerifier";
+
+type PageProps = {
+  params: Promise<{ raceId: string }>;
+};
+
+const VerifyRacePage = async (props: PageProps) => {
+  const { raceId } = await props.params;
+  if (!/^\d+$/.test(raceId)) notFound();
+
+  return (
+    <div className="flex items-center flex-col grow">
+      <SettlementVerifier raceId={BigInt(raceId)} />
+    </div>
+  );
+};
+
+export default VerifyRacePage;
@@ -0,0 +1,186 @@
+"use client";
+
+import { ReactNode } from "react";
+import Link from "next/link";
+import { FinishOrder } from "@se-2/race-core";
+import { useQuery } from "@tanstack/react-query";
+import { ArrowLeftIcon, CheckCircleIcon, XCircleIcon } from "@heroicons/react/24/outline";
+import { useRaffeRaceClient } from "~~/hooks/useRaffeRaceClient";
+import { verifyRaceSettlement } from "~~/utils/raffeRace/verify";
+
+const UNVERIFIABLE = {
+  not_found: "does not exist",
+  not_settled: "hasn't settled yet, so there is nothing to verify",
+  cancelled: "was cancelled and refunded, so no winner was drawn",
+} as const;
+
+const lanes = (values: readonly (number | bigint)[]) => (values.length ? values.join(", ") : "—");
+
+const Row = ({ label, hint, children }: { label: string; hint?: string; children: ReactNode }) => (
+  <tr>
+    <th className="align-top whitespace-nowrap">
+      {label}
+      {hint ? <div className="text-xs font-normal opacity-60">{hint}</div> : null}
+    </th>
+    <td className="font-mono text-sm break-all">{children}</td>
+  </tr>
+);
+
+const FinishOrderCells = ({ order }: { order: FinishOrder }) => (
+  <>
+    <td className="font-mono">{lanes(order.first.lanes)}</td>
+    <td className="font-mono">{lanes(order.second.lanes)}</td>
+    <td className="font-mono">{lanes(order.third.lanes)}</td>
+  </>
+);
+
+/**
+ * Re-derives a race's result from public chain data in the browser and shows each step next to what the contract
+ * stored. The same check runs from the command line with `yarn verify:race <raceId>`.
+ */
+export const SettlementVerifier = ({ raceId }: { raceId: bigint }) => {
+  const client = useRaffeRaceClient();
+  const { data, error, isLoading } = useQuery({
+    queryKey: ["raceVerification", client?.chainId, client?.addresses.raffeRace, raceId.toString()],
+    queryFn: () => verifyRaceSettlement(client!, raceId),
+    enabled: !!client,
+    // A settled race's result never changes; anything else is worth another look once it settles
+    staleTime: query => (query.state.data?.status === "checked" ? Infinity : 0),
+  });
+
+  return (
+    <div className="flex flex-col gap-8 w-full max-w-5xl px-4 py-8">
+      <div className="flex flex-col gap-2">
+        <Link href={`/races/${raceId}`} className="link link-hover text-sm flex items-center gap-1 opacity-70">
+          <ArrowLeftIcon className="h-4 w-4" /> Race #{raceId.toString()}
+        </Link>
+        <h1 className="text-4xl font-bold">Verify race #{raceId.toString()}</h1>
+        <p className="text-base-content/70 text-sm max-w-3xl">
+          The winner is drawn from the hash of the block at which betting closed, which nobody knew while bets were
+          open. This page fetches that hash, re-derives the seed the contract used, replays the race with the lane
+          scores stored at creation and checks the result against what the contract recorded.
+        </p>
+      </div>
+
+      {error ? <div className="alert alert-error">{error.message}</div> : null}
+
+      {isLoading || !client ? (
+        <span className="loading loading-spinner loading-md" />
+      ) : data && data.status !== "checked" ? (
+        <div className="alert">
+          Race #{raceId.toString()} {UNVERIFIABLE[data.status]}.
+        </div>
+      ) : data ? (
+        <>
+          <div className={`alert ${data.report.pass ? "alert-success" : "alert-error"}`}>
+            {data.report.pass ? <CheckCircleIcon className="h-6 w-6" /> : <XCircleIcon className="h-6 w-6" />}
+            <span className="font-semibold">
+              {data.report.pass
+                ? "PASS: the stored result is exactly what the seed and scores produce"
+                : "FAIL: the stored result does not match the replay"}
+            </span>
+          </div>
+
+          <div className="card bg-base-200 shadow w-full">
+            <div className="card-body">
+              <h2 className="card-title">Checks</h2>
+              <div className="overflow-x-auto">
+                <table className="table table-sm">
+                  <thead>
+                    <tr>
+                      <th></th>
+                      <th>Check</th>
+                      <th>Recomputed</th>
+                      <th>Stored on-chain</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {data.report.checks.map(check => (
+                      <tr key={check.label}>
+                        <td>
+                          {check.pass ? (
+                            <CheckCircleIcon className="h-5 w-5 text-success" />
+                          ) : (
+                            <XCircleIcon className="h-5 w-5 text-error" />
+                          )}
+                        </td>
+                        <td>{check.label}</td>
+                        <td className="font-mono text-xs break-all">{check.expected}</td>
+                        <td className="font-mono text-xs break-all">{check.actual}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          </div>
+
+          <div className="card bg-base-200 shadow w-full">
+            <div className="card-body">
+              <h2 className="card-title">Inputs and intermediate values</h2>
+              <div className="overflow-x-auto">
+                <table className="table table-sm">
+                  <tbody>
+                    <Row label="RaffeRace">{data.report.raceAddress}</Row>
+                    <Row label="Betting close block">{data.report.bettingCloseBlock.toString()}</Row>
+                    <Row label="Block hash" hint="blockhash(bettingCloseBlock)">
+                      {data.report.blockHash}
+                    </Row>
+                    <Row label="Base seed" hint="keccak256(blockHash, raceId, RaffeRace)">
+                      {data.report.baseSeed}
+                    </Row>
+                    <Row label="Simulation seed" hint={'keccak256(baseSeed, "RACE_SIM")'}>
+                      {data.report.simSeed}
+                    </Row>
+                    <Row label="Lane raffes">{lanes(data.laneTokenIds)}</Row>
+                    <Row label="Lane scores" hint="getRaceScoreById, fixed at creation">
+                      {lanes(data.report.score)}
+                    </Row>
+                    <Row label="Ticks simulated">{data.report.simulated.ticks}</Row>
+                    <Row label="Finish times" hint="tick × 10000 + fraction of the tick">
+                      {lanes(data.report.simulated.finishTimes)}
+                    </Row>
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          </div>
+
+          <div className="card bg-base-200 shadow w-full">
+            <div className="card-body">
+              <h2 className="card-title">Result</h2>
+              <div className="overflow-x-auto">
+                <table className="table table-sm">
+                  <thead>
+                    <tr>
+                      <th></th>
+                      <th>1st</th>
+                      <th>2nd</th>
+                      <th>3rd</th>
+                      <th>Final distances (lanes 0–5)</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    <tr>
+                      <th>Replayed</th>
+                      <FinishOrderCells order={data.report.simulated.finishOrder} />
+                      <td className="font-mono">{lanes(data.report.simulated.finalDistances)}</td>
+                    </tr>
+                    <tr>
+                      <th>Stored</th>
+                      <FinishOrderCells order={data.report.stored.finishOrder} />
+                      <td className="font-mono">{lanes(data.report.stored.finalDistances)}</td>
+                    </tr>
+                  </tbody>
+                </table>
+              </div>
+              <p className="text-xs opacity-60">
+                Lanes are 0-indexed as stored by the contract. Several lanes in one position is a dead heat.
+              </p>
+            </div>
+          </div>
+        </>
+      ) : null}
+    </div>
+  );
+};
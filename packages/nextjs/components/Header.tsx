@@ -24,6 +24,14 @@ export const menuLinks: HeaderMenuLink[] = [
     label: "Your Raffes",
     href: "/yourraffes",
   },
+  {
+    label: "Races",
+    href: "/races",
+  },
+  {
+    label: "My Bets",
+    href: "/mybets",
+  },
   {
     label: "Admin",
     href: "/admin",
@@ -4,7 +4,8 @@ import { memo, useEffect, useMemo, useRef, useState } from "react";
 import type { Hex } from "viem";
 import { isHex } from "viem";
 import { useScaffoldReadContract } from "~~/hooks/scaffold-eth";
-import { DEFAULT_RAFFE_PALETTE, raffePaletteFromSeed } from "~~/utils/nft/raffePalette";
+import { styleRaffeSvg } from "~~/utils/nft/styleRaffeSvg";
+import { decodeEmbeddedCssImport, prefixSvgIds } from "~~/utils/nft/svgIds";
 
 type Props = {
   /**
@@ -13,7 +14,7 @@ type Props = {
    */
   idPrefix: string;
   /**
-   * If provided, we will read `seedOf(tokenId)` from the RaffeNFT contract and apply seed-based palette rules.
+   * If provided, we will read `seedOf(tokenId)` from the RaffeNFT contract and apply seed-based traits and palette.
    */
   tokenId?: bigint;
   /**
@@ -37,6 +38,10 @@ type Props = {
    * Size in CSS pixels for the rendered SVG (applies to both width and height).
    */
   sizePx?: number;
+  /**
+   * Draw the raffe's background trait (portraits). Off by default so sprites stay transparent on the track.
+   */
+  background?: boolean;
   className?: string;
 };
 
@@ -52,88 +57,10 @@ async function fetchRaffeSvgText(): Promise<string> {
   return await raffeSvgTextPromise;
 }
 
-function decodeEmbeddedCssImport(svg: string): string {
-  // The exported SVG uses a base64 CSS @import inside <style><![CDATA[ ... ]]></style>.
-  // We decode it so we can safely prefix ids (SVGR-style) without dealing with base64 rewriting.
-  const re = /@import\s+"data:text\/css;base64,([^"]+)";/;
-  const match = svg.match(re);
-  if (!match) return svg;
-
-  const base64 = match[1] ?? "";
-  let decoded = "";
-  try {
-    decoded = globalThis.atob(base64);
-  } catch {
-    return svg; // fall back to original if decode fails
-  }
-
-  return svg.replace(re, decoded);
-}
-
-function prefixIds(svg: string, prefix: string): string {
-  // Collect ids.
-  const ids = new Set<string>();
-  svg.replace(/\bid="([^"]+)"/g, (_, id: string) => {
-    ids.add(id);
-    return "";
-  });
-
-  if (ids.size === 0) return svg;
-
-  const map = new Map<string, string>();
-  for (const id of ids) {
-    map.set(id, `${prefix}-${id}`);
-  }
-
-  let out = svg;
-
-  // Replace id="..."
-  out = out.replace(/\bid="([^"]+)"/g, (full, id: string) => {
-    const next = map.get(id);
-    return next ? `id="${next}"` : full;
-  });
-
-  // Replace url(#...)
-  out = out.replace(/url\(#([^)]+)\)/g, (full, id: string) => {
-    const next = map.get(id);
-    return next ? `url(#${next})` : full;
-  });
-
-  // Replace href="#..." and xlink:href="#..."
-  out = out.replace(/\b(xlink:href|href)="#([^"]+)"/g, (full, attr: string, id: string) => {
-    const next = map.get(id);
-    return next ? `${attr}="#${next}"` : full;
-  });
-
-  // Replace occurrences of "#id" (CSS selectors, etc). We only replace known ids, using a boundary.
-  for (const [id, next] of map.entries()) {
-    const re = new RegExp(`#${escapeRegExp(id)}(?![A-Za-z0-9_-])`, "g");
-    out = out.replace(re, `#${next}`);
-  }
-
-  return out;
-}
-
-function escapeRegExp(s: string): string {
-  return s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
-}
-
 function isBytes32Hex(value: unknown): value is Hex {
   return typeof value === "string" && isHex(value) && value.length === 66;
 }
 
-function applyHexReplacements(svg: string, replacements: Record<string, string>): string {
-  let out = svg;
-  for (const [from, to] of Object.entries(replacements)) {
-    if (!from || !to) continue;
-    if (from.toLowerCase() === to.toLowerCase()) continue;
-    // Negative lookahead (?![0-9a-fA-F]) prevents short hex colors like #223
-    // from matching inside longer colors like #2234bf
-    out = out.replace(new RegExp(escapeRegExp(from) + "(?![0-9a-fA-F])", "gi"), to);
-  }
-  return out;
-}
-
 function addRuntimeOverrides(svg: string): string {
   // Add a class so our override styles can be scoped to this SVG only.
   // Also add play-state overrides that are driven by CSS variables from the wrapper (fallback).
@@ -160,6 +87,7 @@ export const RaffeAnimated = memo(function RaffeAnimated({
   resetNonce = 0,
   playing = true,
   sizePx = 72,
+  background = false,
   className,
 }: Props) {
   const [svgMarkup, setSvgMarkup] = useState<string | null>(null);
@@ -201,25 +129,8 @@ export const RaffeAnimated = memo(function RaffeAnimated({
     (async () => {
       const raw = await fetchRaffeSvgText();
       const decoded = decodeEmbeddedCssImport(raw);
-      const colorized = resolvedSeed
-        ? (() => {
-            const palette = raffePaletteFromSeed(resolvedSeed);
-            return applyHexReplacements(decoded, {
-              [DEFAULT_RAFFE_PALETTE.body]: palette.body,
-              [DEFAULT_RAFFE_PALETTE.faceHighlight]: palette.faceHighlight,
-              [DEFAULT_RAFFE_PALETTE.spots]: palette.spots,
-              [DEFAULT_RAFFE_PALETTE.accentDark]: palette.accentDark,
-              [DEFAULT_RAFFE_PALETTE.legs]: palette.legs,
-              [DEFAULT_RAFFE_PALETTE.tailStroke]: palette.tailStroke,
-              [DEFAULT_RAFFE_PALETTE.tailBall]: palette.tailBall,
-              [DEFAULT_RAFFE_PALETTE.feet]: palette.feet,
-              [DEFAULT_RAFFE_PALETTE.hornCircles]: palette.hornCircles,
-              [DEFAULT_RAFFE_PALETTE.eyePupil]: palette.eyePupil,
-              [DEFAULT_RAFFE_PALETTE.eyeWhite]: palette.eyeWhite,
-            });
-          })()
-        : decoded;
-      const prefixed = prefixIds(colorized, idPrefix);
+      const styled = resolvedSeed ? styleRaffeSvg(decoded, resolvedSeed, { background }) : decoded;
+      const prefixed = prefixSvgIds(styled, idPrefix);
       const finalSvg = addRuntimeOverrides(prefixed);
       if (!cancelled) setSvgMarkup(finalSvg);
     })().catch(() => {
@@ -228,7 +139,7 @@ export const RaffeAnimated = memo(function RaffeAnimated({
     return () => {
       cancelled = true;
     };
-  }, [idPrefix, resolvedSeed, isWaitingForSeed]);
+  }, [idPrefix, resolvedSeed, isWaitingForSeed, background]);
 
   // IMPORTANT: Don't use dangerouslySetInnerHTML in render, because React may re-apply it on every parent re-render,
   // which recreates the SVG subtree and restarts CSS animations. Instead, imperatively set innerHTML only when the
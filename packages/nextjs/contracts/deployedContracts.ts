@@ -491,6 +491,19 @@ const deployedContracts = {
           inputs: [],
           stateMutability: "nonpayable",
         },
+        {
+          type: "function",
+          name: "DOMAIN_SEPARATOR",
+          inputs: [],
+          outputs: [
+            {
+              name: "",
+              type: "bytes32",
+              internalType: "bytes32",
+            },
+          ],
+          stateMutability: "view",
+        },
         {
           type: "function",
           name: "allowance",
@@ -571,6 +584,49 @@ const deployedContracts = {
           ],
           stateMutability: "pure",
         },
+        {
+          type: "function",
+          name: "eip712Domain",
+          inputs: [],
+          outputs: [
+            {
+              name: "fields",
+              type: "bytes1",
+              internalType: "bytes1",
+            },
+            {
+              name: "name",
+              type: "string",
+              internalType: "string",
+            },
+            {
+              name: "version",
+              type: "string",
+              internalType: "string",
+            },
+            {
+              name: "chainId",
+              type: "uint256",
+              internalType: "uint256",
+            },
+            {
+              name: "verifyingContract",
+              type: "address",
+              internalType: "address",
+            },
+            {
+              name: "salt",
+              type: "bytes32",
+              internalType: "bytes32",
+            },
+            {
+              name: "extensions",
+              type: "uint256[]",
+              internalType: "uint256[]",
+            },
+          ],
+          stateMutability: "view",
+        },
         {
           type: "function",
           name: "faucet",
@@ -615,6 +671,68 @@ const deployedContracts = {
           ],
           stateMutability: "view",
         },
+        {
+          type: "function",
+          name: "nonces",
+          inputs: [
+            {
+              name: "owner",
+              type: "address",
+              internalType: "address",
+            },
+          ],
+          outputs: [
+            {
+              name: "",
+              type: "uint256",
+              internalType: "uint256",
+            },
+          ],
+          stateMutability: "view",
+        },
+        {
+          type: "function",
+          name: "permit",
+          inputs: [
+            {
+              name: "owner",
+              type: "address",
+              internalType: "address",
+            },
+            {
+              name: "spender",
+              type: "address",
+              internalType: "address",
+            },
+            {
+              name: "value",
+              type: "uint256",
+              internalType: "uint256",
+            },
+            {
+              name: "deadline",
+              type: "uint256",
+              internalType: "uint256",
+            },
+            {
+              name: "v",
+              type: "uint8",
+              internalType: "uint8",
+            },
+            {
+              name: "r",
+              type: "bytes32",
+              internalType: "bytes32",
+            },
+            {
+              name: "s",
+              type: "bytes32",
+              internalType: "bytes32",
+            },
+          ],
+          outputs: [],
+          stateMutability: "nonpayable",
+        },
         {
           type: "function",
           name: "symbol",
@@ -719,6 +837,12 @@ const deployedContracts = {
           ],
           anonymous: false,
         },
+        {
+          type: "event",
+          name: "EIP712DomainChanged",
+          inputs: [],
+          anonymous: false,
+        },
         {
           type: "event",
           name: "Transfer",
@@ -744,6 +868,33 @@ const deployedContracts = {
           ],
           anonymous: false,
         },
+        {
+          type: "error",
+          name: "ECDSAInvalidSignature",
+          inputs: [],
+        },
+        {
+          type: "error",
+          name: "ECDSAInvalidSignatureLength",
+          inputs: [
+            {
+              name: "length",
+              type: "uint256",
+              internalType: "uint256",
+            },
+          ],
+        },
+        {
+          type: "error",
+          name: "ECDSAInvalidSignatureS",
+          inputs: [
+            {
+              name: "s",
+              type: "bytes32",
+              internalType: "bytes32",
+            },
+          ],
+        },
         {
           type: "error",
           name: "ERC20InsufficientAllowance",
@@ -830,6 +981,65 @@ const deployedContracts = {
             },
           ],
         },
+        {
+          type: "error",
+          name: "ERC2612ExpiredSignature",
+          inputs: [
+            {
+              name: "deadline",
+              type: "uint256",
+              internalType: "uint256",
+            },
+          ],
+        },
+        {
+          type: "error",
+          name: "ERC2612InvalidSigner",
+          inputs: [
+            {
+              name: "signer",
+              type: "address",
+              internalType: "address",
+            },
+            {
+              name: "owner",
+              type: "address",
+              internalType: "address",
+            },
+          ],
+        },
+        {
+          type: "error",
+          name: "InvalidAccountNonce",
+          inputs: [
+            {
+              name: "account",
+              type: "address",
+              internalType: "address",
+            },
+            {
+              name: "currentNonce",
+              type: "uint256",
+              internalType: "uint256",
+            },
+          ],
+        },
+        {
+          type: "error",
+          name: "InvalidShortString",
+          inputs: [],
+        },
+        {
+          type: "error",
+          name: "StringTooLong",
+          inputs: [
+            {
+              name: "str",
+              type: "string",
+              internalType: "string",
+            },
+          ],
+        },
       ],
       inheritedFunctions: {},
       deployedOnBlock: 14,
@@ -2953,6 +3163,19 @@ const deployedContracts = {
           ],
           stateMutability: "view",
         },
+        {
+          type: "function",
+          name: "BET_TYPE_EXACTA",
+          inputs: [],
+          outputs: [
+            {
+              name: "",
+              type: "uint8",
+              internalType: "uint8",
+            },
+          ],
+          stateMutability: "view",
+        },
         {
           type: "function",
           name: "BET_TYPE_PLACE",
@@ -2966,6 +3189,19 @@ const deployedContracts = {
           ],
           stateMutability: "view",
         },
+        {
+          type: "function",
+          name: "BET_TYPE_QUINELLA",
+          inputs: [],
+          outputs: [
+            {
+              name: "",
+              type: "uint8",
+              internalType: "uint8",
+            },
+          ],
+          stateMutability: "view",
+        },
         {
           type: "function",
           name: "BET_TYPE_SHOW",
@@ -2979,6 +3215,19 @@ const deployedContracts = {
           ],
           stateMutability: "view",
         },
+        {
+          type: "function",
+          name: "BET_TYPE_TRIFECTA",
+          inputs: [],
+          outputs: [
+            {
+              name: "",
+              type: "uint8",
+              internalType: "uint8",
+            },
+          ],
+          stateMutability: "view",
+        },
         {
           type: "function",
           name: "BET_TYPE_WIN",
@@ -3581,6 +3830,11 @@ const deployedContracts = {
                   type: "uint64",
                   internalType: "uint64",
                 },
+                {
+                  name: "betLanes",
+                  type: "uint8[3]",
+                  internalType: "uint8[3]",
+                },
               ],
             },
           ],
@@ -3657,6 +3911,11 @@ const deployedContracts = {
                   type: "uint64",
                   internalType: "uint64",
                 },
+                {
+                  name: "betLanes",
+                  type: "uint8[3]",
+                  internalType: "uint8[3]",
+                },
               ],
             },
           ],
@@ -3884,6 +4143,40 @@ const deployedContracts = {
           ],
           stateMutability: "view",
         },
+        {
+          type: "function",
+          name: "getRaceExoticOddsById",
+          inputs: [
+            {
+              name: "raceId",
+              type: "uint256",
+              internalType: "uint256",
+            },
+          ],
+          outputs: [
+            {
+              name: "oddsSet",
+              type: "bool",
+              internalType: "bool",
+            },
+            {
+              name: "exactaOddsBps",
+              type: "uint32[36]",
+              internalType: "uint32[36]",
+            },
+            {
+              name: "quinellaOddsBps",
+              type: "uint32[36]",
+              internalType: "uint32[36]",
+            },
+            {
+              name: "trifectaOddsBps",
+              type: "uint32[216]",
+              internalType: "uint32[216]",
+            },
+          ],
+          stateMutability: "view",
+        },
         {
           type: "function",
           name: "getRaceFinishOrderById",
@@ -3998,7 +4291,7 @@ const deployedContracts = {
         },
         {
           type: "function",
-          name: "getRaceRaffesById",
+          name: "getRacePoolById",
           inputs: [
             {
               name: "raceId",
@@ -4008,17 +4301,51 @@ const deployedContracts = {
           ],
           outputs: [
             {
-              name: "assignedCount",
-              type: "uint8",
-              internalType: "uint8",
+              name: "parimutuel",
+              type: "bool",
+              internalType: "bool",
             },
             {
-              name: "tokenIds",
-              type: "uint256[6]",
-              internalType: "uint256[6]",
+              name: "takeBps",
+              type: "uint16",
+              internalType: "uint16",
             },
             {
-              name: "originalOwners",
+              name: "pool",
+              type: "uint256",
+              internalType: "uint256",
+            },
+            {
+              name: "impliedOddsBps",
+              type: "uint32[6]",
+              internalType: "uint32[6]",
+            },
+          ],
+          stateMutability: "view",
+        },
+        {
+          type: "function",
+          name: "getRaceRaffesById",
+          inputs: [
+            {
+              name: "raceId",
+              type: "uint256",
+              internalType: "uint256",
+            },
+          ],
+          outputs: [
+            {
+              name: "assignedCount",
+              type: "uint8",
+              internalType: "uint8",
+            },
+            {
+              name: "tokenIds",
+              type: "uint256[6]",
+              internalType: "uint256[6]",
+            },
+            {
+              name: "originalOwners",
               type: "address[6]",
               internalType: "address[6]",
             },
@@ -4137,6 +4464,91 @@ const deployedContracts = {
           ],
           stateMutability: "view",
         },
+        {
+          type: "function",
+          name: "getUserExoticBetsById",
+          inputs: [
+            {
+              name: "raceId",
+              type: "uint256",
+              internalType: "uint256",
+            },
+            {
+              name: "bettor",
+              type: "address",
+              internalType: "address",
+            },
+          ],
+          outputs: [
+            {
+              name: "exacta",
+              type: "tuple",
+              internalType: "struct RaffeRaceBase.ExoticBet",
+              components: [
+                {
+                  name: "amount",
+                  type: "uint128",
+                  internalType: "uint128",
+                },
+                {
+                  name: "lanes",
+                  type: "uint8[3]",
+                  internalType: "uint8[3]",
+                },
+                {
+                  name: "claimed",
+                  type: "bool",
+                  internalType: "bool",
+                },
+              ],
+            },
+            {
+              name: "quinella",
+              type: "tuple",
+              internalType: "struct RaffeRaceBase.ExoticBet",
+              components: [
+                {
+                  name: "amount",
+                  type: "uint128",
+                  internalType: "uint128",
+                },
+                {
+                  name: "lanes",
+                  type: "uint8[3]",
+                  internalType: "uint8[3]",
+                },
+                {
+                  name: "claimed",
+                  type: "bool",
+                  internalType: "bool",
+                },
+              ],
+            },
+            {
+              name: "trifecta",
+              type: "tuple",
+              internalType: "struct RaffeRaceBase.ExoticBet",
+              components: [
+                {
+                  name: "amount",
+                  type: "uint128",
+                  internalType: "uint128",
+                },
+                {
+                  name: "lanes",
+                  type: "uint8[3]",
+                  internalType: "uint8[3]",
+                },
+                {
+                  name: "claimed",
+                  type: "bool",
+                  internalType: "bool",
+                },
+              ],
+            },
+          ],
+          stateMutability: "view",
+        },
         {
           type: "function",
           name: "getUserQueuePosition",
@@ -4322,6 +4734,19 @@ const deployedContracts = {
           ],
           stateMutability: "view",
         },
+        {
+          type: "function",
+          name: "parimutuelNextRace",
+          inputs: [],
+          outputs: [
+            {
+              name: "",
+              type: "bool",
+              internalType: "bool",
+            },
+          ],
+          stateMutability: "view",
+        },
         {
           type: "function",
           name: "placeBet",
@@ -4345,6 +4770,77 @@ const deployedContracts = {
           outputs: [],
           stateMutability: "nonpayable",
         },
+        {
+          type: "function",
+          name: "placeBetWithPermit",
+          inputs: [
+            {
+              name: "lane",
+              type: "uint8",
+              internalType: "uint8",
+            },
+            {
+              name: "amount",
+              type: "uint256",
+              internalType: "uint256",
+            },
+            {
+              name: "betType",
+              type: "uint8",
+              internalType: "uint8",
+            },
+            {
+              name: "permitValue",
+              type: "uint256",
+              internalType: "uint256",
+            },
+            {
+              name: "deadline",
+              type: "uint256",
+              internalType: "uint256",
+            },
+            {
+              name: "v",
+              type: "uint8",
+              internalType: "uint8",
+            },
+            {
+              name: "r",
+              type: "bytes32",
+              internalType: "bytes32",
+            },
+            {
+              name: "s",
+              type: "bytes32",
+              internalType: "bytes32",
+            },
+          ],
+          outputs: [],
+          stateMutability: "nonpayable",
+        },
+        {
+          type: "function",
+          name: "placeExoticBet",
+          inputs: [
+            {
+              name: "lanes",
+              type: "uint8[3]",
+              internalType: "uint8[3]",
+            },
+            {
+              name: "amount",
+              type: "uint256",
+              internalType: "uint256",
+            },
+            {
+              name: "betType",
+              type: "uint8",
+              internalType: "uint8",
+            },
+          ],
+          outputs: [],
+          stateMutability: "nonpayable",
+        },
         {
           type: "function",
           name: "queueHead",
@@ -4384,6 +4880,34 @@ const deployedContracts = {
           ],
           stateMutability: "view",
         },
+        {
+          type: "function",
+          name: "setExoticProbabilities",
+          inputs: [
+            {
+              name: "raceId",
+              type: "uint256",
+              internalType: "uint256",
+            },
+            {
+              name: "exactaProbBps",
+              type: "uint16[36]",
+              internalType: "uint16[36]",
+            },
+            {
+              name: "quinellaProbBps",
+              type: "uint16[36]",
+              internalType: "uint16[36]",
+            },
+            {
+              name: "trifectaProbBps",
+              type: "uint16[216]",
+              internalType: "uint16[216]",
+            },
+          ],
+          outputs: [],
+          stateMutability: "nonpayable",
+        },
         {
           type: "function",
           name: "setHouseEdgeBps",
@@ -4410,6 +4934,19 @@ const deployedContracts = {
           outputs: [],
           stateMutability: "nonpayable",
         },
+        {
+          type: "function",
+          name: "setParimutuelNextRace",
+          inputs: [
+            {
+              name: "enabled",
+              type: "bool",
+              internalType: "bool",
+            },
+          ],
+          outputs: [],
+          stateMutability: "nonpayable",
+        },
         {
           type: "function",
           name: "setProbabilities",
@@ -4669,6 +5206,43 @@ const deployedContracts = {
           ],
           anonymous: false,
         },
+        {
+          type: "event",
+          name: "ExoticBetPlaced",
+          inputs: [
+            {
+              name: "raceId",
+              type: "uint256",
+              indexed: true,
+              internalType: "uint256",
+            },
+            {
+              name: "bettor",
+              type: "address",
+              indexed: true,
+              internalType: "address",
+            },
+            {
+              name: "betType",
+              type: "uint8",
+              indexed: false,
+              internalType: "uint8",
+            },
+            {
+              name: "lanes",
+              type: "uint8[3]",
+              indexed: false,
+              internalType: "uint8[3]",
+            },
+            {
+              name: "amount",
+              type: "uint256",
+              indexed: false,
+              internalType: "uint256",
+            },
+          ],
+          anonymous: false,
+        },
         {
           type: "event",
           name: "ExpiredLiabilityReleased",
@@ -4751,6 +5325,44 @@ const deployedContracts = {
           ],
           anonymous: false,
         },
+        {
+          type: "event",
+          name: "ParimutuelModeUpdated",
+          inputs: [
+            {
+              name: "enabled",
+              type: "bool",
+              indexed: false,
+              internalType: "bool",
+            },
+          ],
+          anonymous: false,
+        },
+        {
+          type: "event",
+          name: "ParimutuelPoolSettled",
+          inputs: [
+            {
+              name: "raceId",
+              type: "uint256",
+              indexed: true,
+              internalType: "uint256",
+            },
+            {
+              name: "pool",
+              type: "uint256",
+              indexed: false,
+              internalType: "uint256",
+            },
+            {
+              name: "winOddsBps",
+              type: "uint32[6]",
+              indexed: false,
+              internalType: "uint32[6]",
+            },
+          ],
+          anonymous: false,
+        },
         {
           type: "event",
           name: "QueueEntered",
@@ -4906,6 +5518,25 @@ const deployedContracts = {
               indexed: false,
               internalType: "uint64",
             },
+            {
+              name: "parimutuel",
+              type: "bool",
+              indexed: false,
+              internalType: "bool",
+            },
+          ],
+          anonymous: false,
+        },
+        {
+          type: "event",
+          name: "RaceExoticOddsSet",
+          inputs: [
+            {
+              name: "raceId",
+              type: "uint256",
+              indexed: true,
+              internalType: "uint256",
+            },
           ],
           anonymous: false,
         },
@@ -5121,6 +5752,11 @@ const deployedContracts = {
           name: "InvalidBetType",
           inputs: [],
         },
+        {
+          type: "error",
+          name: "InvalidCombination",
+          inputs: [],
+        },
         {
           type: "error",
           name: "InvalidHouseRaffe",
@@ -5196,6 +5832,11 @@ const deployedContracts = {
           name: "OddsWindowNotExpired",
           inputs: [],
         },
+        {
+          type: "error",
+          name: "ParimutuelWinOnly",
+          inputs: [],
+        },
         {
           type: "error",
           name: "PreviousRaceNotSettled",
@@ -0,0 +1,138 @@
+"use client";
+
+import { useMemo } from "react";
+import { claimExpiresAtBlock, isClaimExpired } from "@se-2/race-core";
+import { useQuery } from "@tanstack/react-query";
+import { BetType, PayoutStatus } from "~~/app/_components/race/types";
+import {
+  betDeadHeatDivisor,
+  calculatePayout,
+  exoticOddsFor,
+  isExoticBetType,
+  settledExoticPayout,
+  withPayoutStatus,
+} from "~~/app/_components/race/utils";
+import { useSettledRaceResults } from "~~/hooks/useSettledRaceResults";
+import type { BettorBet, BettorHistory } from "~~/utils/indexer/types";
+
+export type BettorBetRow = BettorBet & {
+  payout: bigint | null; // null until the race settles or is cancelled (refund = stake)
+  payoutStatus: PayoutStatus;
+  claimDeadlineBlock: bigint | null; // unclaimed winnings are forfeited from this block on
+  net: bigint | null; // return minus stake; forfeited winnings count as nothing returned
+  runningNet: bigint; // cumulative net of resolved bets up to and including this one
+};
+
+export type BettorTotals = {
+  staked: bigint;
+  pending: bigint; // stake on races that haven't resolved
+  claimed: bigint;
+  unclaimed: bigint;
+  expired: bigint;
+  net: bigint;
+};
+
+/**
+ * Full bet history of one address from the indexer, priced with on-chain finish orders.
+ * Rows are oldest first so `runningNet` reads like a statement.
+ */
+export function useBettorHistory(address: string | undefined, currentBlock: bigint | undefined) {
+  const historyQuery = useQuery({
+    queryKey: ["bettorHistory", address?.toLowerCase()],
+    enabled: !!address,
+    queryFn: async (): Promise<BettorHistory> => {
+      const res = await fetch(`/api/bettors/${address}/history`);
+      const body = await res.json().catch(() => null);
+      if (!res.ok) throw new Error(body?.error ?? `Request failed (${res.status})`);
+      return body as BettorHistory;
+    },
+    refetchInterval: 15_000,
+  });
+
+  const settledRaceIds = useMemo(
+    () => [...new Set((historyQuery.data?.bets ?? []).filter(b => b.raceStatus === "settled").map(b => b.raceId))],
+    [historyQuery.data],
+  );
+  const resultsQuery = useSettledRaceResults(settledRaceIds);
+
+  const rows = useMemo<BettorBetRow[]>(() => {
+    const history = historyQuery.data;
+    if (!history) return [];
+    const results = resultsQuery.data;
+
+    const priced = history.bets.map(bet => {
+      const amount = BigInt(bet.amount);
+      const result = results?.get(bet.raceId);
+      // The index has no exotic odds; settled races read them with the finish order
+      const oddsBps =
+        isExoticBetType(bet.betType) && result?.exoticOdds.oddsSet
+          ? Number(exoticOddsFor(result.exoticOdds, bet.betType, bet.lanes ?? []))
+          : bet.oddsBps;
+      let payout: bigint | null = null;
+      if (bet.raceStatus === "cancelled") payout = amount;
+      else if (bet.raceStatus === "settled" && result) {
+        if (isExoticBetType(bet.betType)) {
+          payout = settledExoticPayout(
+            { amount, lanes: bet.lanes ?? [], betType: bet.betType },
+            result.order,
+            result.exoticOdds,
+          );
+        } else {
+          const divisor = betDeadHeatDivisor({ lane: bet.lane, betType: bet.betType as BetType }, result.order);
+          payout = divisor === null ? 0n : calculatePayout(amount, BigInt(oddsBps ?? 0), divisor);
+        }
+      }
+      return { ...bet, oddsBps, bettor: history.bettor, payout };
+    });
+
+    // Claims only make sense per race
+    const statusByKey = new Map<string, PayoutStatus>();
+    for (const raceId of new Set(priced.map(b => b.raceId))) {
+      const raceBets = priced.filter(b => b.raceId === raceId);
+      const raceClaims = history.claims.filter(c => c.raceId === raceId).map(c => ({ ...c, bettor: history.bettor }));
+      for (const b of withPayoutStatus(raceBets, raceClaims)) statusByKey.set(`${raceId}-${b.betType}`, b.payoutStatus);
+    }
+
+    let runningNet = 0n;
+    return priced.map(bet => {
+      const settledAtBlock = bet.raceStatus === "settled" && bet.raceEndedBlock ? BigInt(bet.raceEndedBlock) : null;
+      const claimDeadlineBlock = settledAtBlock === null ? null : claimExpiresAtBlock(settledAtBlock);
+      let payoutStatus = statusByKey.get(`${bet.raceId}-${bet.betType}`) ?? "pending";
+      // Past the deadline the contract forfeits on the next claim, even if no ClaimExpired has been emitted yet
+      if (
+        payoutStatus === "unclaimed" &&
+        settledAtBlock !== null &&
+        currentBlock !== undefined &&
+        isClaimExpired(currentBlock, settledAtBlock)
+      ) {
+        payoutStatus = "expired";
+      }
+
+      const stake = BigInt(bet.amount);
+      const net = bet.payout === null ? null : (payoutStatus === "expired" ? 0n : bet.payout) - stake;
+      if (net !== null) runningNet += net;
+      return { ...bet, payoutStatus, claimDeadlineBlock, net, runningNet };
+    });
+  }, [historyQuery.data, resultsQuery.data, currentBlock]);
+
+  const totals = useMemo<BettorTotals>(() => {
+    const t: BettorTotals = { staked: 0n, pending: 0n, claimed: 0n, unclaimed: 0n, expired: 0n, net: 0n };
+    for (const r of rows) {
+      t.staked += BigInt(r.amount);
+      if (r.payout === null) t.pending += BigInt(r.amount);
+      else if (r.payoutStatus === "claimed") t.claimed += r.payout;
+      else if (r.payoutStatus === "unclaimed") t.unclaimed += r.payout;
+      else if (r.payoutStatus === "expired") t.expired += r.payout;
+    }
+    t.net = rows.length ? rows[rows.length - 1]!.runningNet : 0n;
+    return t;
+  }, [rows]);
+
+  return {
+    rows,
+    totals,
+    indexedToBlock: historyQuery.data?.indexedToBlock ?? null,
+    isLoading: historyQuery.isLoading || resultsQuery.isLoading,
+    error: historyQuery.error ?? resultsQuery.error,
+  };
+}
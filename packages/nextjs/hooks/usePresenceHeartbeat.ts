@@ -1,6 +1,9 @@
 "use client";
 
-import { useEffect, useRef } from "react";
+import { useEffect, useState } from "react";
+import { usePathname } from "next/navigation";
+import { useAccount } from "wagmi";
+import type { PresenceCounts } from "~~/utils/presence/types";
 
 // Generate a unique visitor ID per browser session
 function getVisitorId(): string {
@@ -16,28 +19,42 @@ function getVisitorId(): string {
 
 /**
  * Hook that sends presence heartbeats to track active users.
- * Only sends heartbeats when the page is visible.
+ * Only sends heartbeats when the page is visible. Each heartbeat carries the current page, the race being
+ * watched (if any) and the connected wallet; a change to any of them is sent right away.
  *
+ * Returns the latest counts for this page and race, or null until the first heartbeat is answered.
+ *
+ * @param raceId - Race shown on the page, for "N watching this race"
  * @param intervalMs - How often to send heartbeats (default: 15 seconds)
  */
-export function usePresenceHeartbeat(intervalMs = 15_000) {
-  const visitorIdRef = useRef<string>("");
+export function usePresenceHeartbeat({
+  raceId = null,
+  intervalMs = 15_000,
+}: { raceId?: bigint | null; intervalMs?: number } = {}) {
+  const page = usePathname();
+  const { address } = useAccount();
+  const [counts, setCounts] = useState<PresenceCounts | null>(null);
+  const raceKey = raceId?.toString() ?? null;
 
   useEffect(() => {
-    visitorIdRef.current = getVisitorId();
-    if (!visitorIdRef.current) return;
+    const visitorId = getVisitorId();
+    if (!visitorId) return;
 
     let isVisible = !document.hidden;
+    let cancelled = false;
 
     const sendHeartbeat = async () => {
-      if (!isVisible || !visitorIdRef.current) return;
+      if (!isVisible) return;
 
       try {
-        await fetch("/api/presence", {
+        const res = await fetch("/api/presence", {
           method: "POST",
           headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ visitorId: visitorIdRef.current }),
+          body: JSON.stringify({ visitorId, page, raceId: raceKey, wallet: address ?? null }),
         });
+        if (!res.ok) return;
+        const body = (await res.json()) as PresenceCounts;
+        if (!cancelled) setCounts(body);
       } catch {
         // Silently fail - presence is best-effort
       }
@@ -61,8 +78,11 @@ export function usePresenceHeartbeat(intervalMs = 15_000) {
     document.addEventListener("visibilitychange", handleVisibilityChange);
 
     return () => {
+      cancelled = true;
       clearInterval(intervalId);
       document.removeEventListener("visibilitychange", handleVisibilityChange);
     };
-  }, [intervalMs]);
+  }, [intervalMs, page, raceKey, address]);
+
+  return counts;
 }
@@ -0,0 +1,42 @@
+"use client";
+
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+import type { RaceHistoryDetail, RaceHistoryFilter, RaceHistoryPage } from "~~/utils/indexer/types";
+
+async function fetchJson<T>(url: string): Promise<T> {
+  const res = await fetch(url);
+  const body = await res.json().catch(() => null);
+  if (!res.ok) throw new Error(body?.error ?? `Request failed (${res.status})`);
+  return body as T;
+}
+
+/**
+ * One page of ended races from the indexer (/api/races).
+ * Keeps showing the previous page while the next one loads so the table doesn't collapse.
+ */
+export function useRaceHistory(filter: RaceHistoryFilter) {
+  const params = new URLSearchParams({ page: String(filter.page), pageSize: String(filter.pageSize) });
+  if (filter.status) params.set("status", filter.status);
+  if (filter.deadHeatOnly) params.set("deadHeat", "true");
+  if (filter.tokenId) params.set("tokenId", filter.tokenId);
+
+  return useQuery({
+    queryKey: ["raceHistory", params.toString()],
+    queryFn: () => fetchJson<RaceHistoryPage>(`/api/races?${params}`),
+    placeholderData: keepPreviousData,
+    refetchInterval: 15_000,
+  });
+}
+
+/**
+ * Indexed lineup, odds, bets and claims for one race (/api/races/:raceId).
+ * Claims keep arriving after settlement, so this polls until the page is left.
+ */
+export function useRaceHistoryDetail(raceId: bigint | null) {
+  return useQuery({
+    queryKey: ["raceHistoryDetail", raceId?.toString()],
+    queryFn: () => fetchJson<RaceHistoryDetail>(`/api/races/${raceId}`),
+    enabled: raceId !== null,
+    refetchInterval: 15_000,
+  });
+}
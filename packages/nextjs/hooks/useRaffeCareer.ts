@@ -0,0 +1,142 @@
+"use client";
+
+import { useMemo } from "react";
+import { simulateRaceFromSeed } from "@se-2/race-core";
+import { useQuery } from "@tanstack/react-query";
+import { Hex } from "viem";
+import { LANE_COUNT, MAX_TICKS, SPEED_RANGE, TRACK_LENGTH } from "~~/app/_components/race/constants";
+import { BetType, ParsedFinishOrder } from "~~/app/_components/race/types";
+import { parsedOddsFromBps, settledBetPayout } from "~~/app/_components/race/utils";
+import { useSettledRaceResults } from "~~/hooks/useSettledRaceResults";
+import type { RaffeCareer, RaffeCareerRace } from "~~/utils/indexer/types";
+
+export type RaffeCareerEntry = RaffeCareerRace & {
+  position: number | null; // 1-based finish, ties share a position; null unless settled
+  deadHeat: boolean;
+  ownerStake: bigint;
+  ownerPayout: bigint;
+};
+
+export type RaffeCareerStats = {
+  starts: number; // settled races only
+  wins: number;
+  places: number; // finished 2nd
+  shows: number; // finished 3rd
+  scratched: number; // assigned to a race that was cancelled
+  averageFinish: number | null;
+  form: number[]; // last starts, oldest first (read left to right like a racecard)
+  ownerStake: bigint;
+  ownerPayout: bigint;
+};
+
+const FORM_LENGTH = 6;
+
+/**
+ * Finish position of one lane. 1st-3rd come straight from the contract; below that the contract keeps no order, so
+ * we replay the settled race from its seed and rank by finish time (the same sim the contract settled with).
+ */
+function finishPositionOf(lane: number, order: ParsedFinishOrder, seed: Hex, score: number[]): number {
+  if (order.first.lanes.includes(lane)) return 1;
+  if (order.second.lanes.includes(lane)) return 1 + order.first.count;
+  if (order.third.lanes.includes(lane)) return 1 + order.first.count + order.second.count;
+  const sim = simulateRaceFromSeed({
+    seed,
+    laneCount: LANE_COUNT,
+    maxTicks: MAX_TICKS,
+    speedRange: SPEED_RANGE,
+    trackLength: TRACK_LENGTH,
+    score,
+  });
+  return 1 + sim.finishTimes.filter(t => t < sim.finishTimes[lane]!).length;
+}
+
+/**
+ * Career record of one raffe: races from the indexer (RaffeAssigned), placings from getRaceFinishOrderById.
+ * "Owner earnings" are what the entering owner won backing their own raffe; the contract pays no purse to owners.
+ */
+export function useRaffeCareer(tokenId: bigint) {
+  const careerQuery = useQuery({
+    queryKey: ["raffeCareer", tokenId.toString()],
+    queryFn: async (): Promise<RaffeCareer> => {
+      const res = await fetch(`/api/raffes/${tokenId}/career`);
+      const body = await res.json().catch(() => null);
+      if (!res.ok) throw new Error(body?.error ?? `Request failed (${res.status})`);
+      return body as RaffeCareer;
+    },
+    refetchInterval: 30_000,
+  });
+
+  const settledRaceIds = useMemo(
+    () => (careerQuery.data?.races ?? []).filter(r => r.status === "settled").map(r => r.raceId),
+    [careerQuery.data],
+  );
+
+  const resultsQuery = useSettledRaceResults(settledRaceIds);
+
+  const entries = useMemo<RaffeCareerEntry[]>(() => {
+    const results = resultsQuery.data;
+    return (careerQuery.data?.races ?? []).map(race => {
+      const ownerStake = race.ownerBets.reduce((sum, b) => sum + BigInt(b.amount), 0n);
+      const result = race.status === "settled" && race.seed ? results?.get(race.raceId) : undefined;
+      if (!result) {
+        return {
+          ...race,
+          position: null,
+          deadHeat: false,
+          ownerStake,
+          ownerPayout: race.status === "cancelled" ? ownerStake : 0n,
+        };
+      }
+
+      const { order, score } = result;
+      const position = finishPositionOf(race.lane, order, race.seed as Hex, score);
+      const tiedGroup = [order.first, order.second, order.third][position - 1];
+      const odds = race.odds ? parsedOddsFromBps(race.odds) : null;
+      const ownerPayout = odds
+        ? race.ownerBets.reduce(
+            (sum, b) =>
+              sum +
+              settledBetPayout(
+                { amount: BigInt(b.amount), lane: race.lane, betType: b.betType as BetType },
+                order,
+                odds,
+              ),
+            0n,
+          )
+        : 0n;
+
+      return {
+        ...race,
+        position,
+        deadHeat: (tiedGroup?.count ?? 0) > 1,
+        ownerStake,
+        ownerPayout,
+      };
+    });
+  }, [careerQuery.data, resultsQuery.data]);
+
+  const stats = useMemo<RaffeCareerStats>(() => {
+    const placed = entries.filter(e => e.position !== null);
+    const positions = placed.map(e => e.position!);
+    return {
+      starts: placed.length,
+      wins: positions.filter(p => p === 1).length,
+      places: positions.filter(p => p === 2).length,
+      shows: positions.filter(p => p === 3).length,
+      scratched: entries.filter(e => e.status === "cancelled").length,
+      averageFinish: positions.length ? positions.reduce((a, b) => a + b, 0) / positions.length : null,
+      form: positions.slice(0, FORM_LENGTH).reverse(),
+      // Open races are left out until their bets resolve
+      ownerStake: entries.filter(e => e.status !== "open").reduce((sum, e) => sum + e.ownerStake, 0n),
+      ownerPayout: entries.reduce((sum, e) => sum + e.ownerPayout, 0n),
+    };
+  }, [entries]);
+
+  return {
+    entries,
+    stats,
+    indexedToBlock: careerQuery.data?.indexedToBlock ?? null,
+    isLoading: careerQuery.isLoading || resultsQuery.isLoading,
+    error: careerQuery.error ?? resultsQuery.error,
+  };
+}
@@ -0,0 +1,26 @@
+"use client";
+
+import { useMemo } from "react";
+import { PublicClient } from "viem";
+import { usePublicClient, useWalletClient } from "wagmi";
+import { useTargetNetwork } from "~~/hooks/scaffold-eth";
+import { RaffeRaceClient, createRaffeRaceClient, getRaffeRaceAddresses } from "~~/utils/raffeRace/client";
+
+/**
+ * The typed race contracts client for the target network, with the connected wallet for writes.
+ * Null until the public client is ready, or when the race contracts aren't deployed on the target network.
+ */
+export function useRaffeRaceClient(): RaffeRaceClient | null {
+  const { targetNetwork } = useTargetNetwork();
+  const publicClient = usePublicClient({ chainId: targetNetwork.id });
+  const { data: walletClient } = useWalletClient({ chainId: targetNetwork.id });
+
+  return useMemo(() => {
+    if (!publicClient || !getRaffeRaceAddresses(targetNetwork.id)) return null;
+    return createRaffeRaceClient({
+      publicClient: publicClient as PublicClient,
+      walletClient,
+      chainId: targetNetwork.id,
+    });
+  }, [publicClient, walletClient, targetNetwork.id]);
+}
@@ -0,0 +1,38 @@
+"use client";
+
+import { useQuery } from "@tanstack/react-query";
+import { ParsedExoticOdds, ParsedFinishOrder } from "~~/app/_components/race/types";
+import { useRaffeRaceClient } from "~~/hooks/useRaffeRaceClient";
+
+export type SettledRaceResult = {
+  order: ParsedFinishOrder;
+  score: number[];
+  exoticOdds: ParsedExoticOdds; // exotic bets aren't priced in the index, only on chain
+};
+
+/**
+ * Finish order, lane scores and exotic odds of settled races, read on-chain.
+ * Settled results are final, so each set is read once and cached for the session.
+ */
+export function useSettledRaceResults(raceIds: string[]) {
+  const client = useRaffeRaceClient();
+
+  return useQuery({
+    queryKey: ["settledRaceResults", client?.addresses.raffeRace, raceIds.join(",")],
+    enabled: !!client && raceIds.length > 0,
+    staleTime: Infinity,
+    queryFn: async () => {
+      const rows = await Promise.all(
+        raceIds.map(async raceId => {
+          const [order, score, exoticOdds] = await Promise.all([
+            client!.getRaceFinishOrder(BigInt(raceId)),
+            client!.getRaceScore(BigInt(raceId)),
+            client!.getRaceExoticOdds(BigInt(raceId)),
+          ]);
+          return [raceId, { order, score, exoticOdds } satisfies SettledRaceResult] as const;
+        }),
+      );
+      return new Map(rows);
+    },
+  });
+}
@@ -3,6 +3,11 @@ import type { NextConfig } from "next";
 const nextConfig: NextConfig = {
   reactStrictMode: true,
   devIndicators: false,
+  // Native addon used by the race history API routes to read the indexer database.
+  serverExternalPackages: ["better-sqlite3"],
+  // Workspace packages shipped as TypeScript source: race-core (sim, odds, payouts, contract constants) and the
+  // indexer's SQLite store.
+  transpilePackages: ["@se-2/race-core", "@se-2/indexer"],
   typescript: {
     ignoreBuildErrors: process.env.NEXT_PUBLIC_IGNORE_BUILD_ERROR === "true",
   },
@@ -0,0 +1,120 @@
+import { createMemoryPresenceStore } from "../utils/presence/memoryStore";
+import { createRedisPresenceStore } from "../utils/presence/redisStore";
+import { createRespConnection } from "../utils/presence/resp";
+import type { PresenceCounts, PresenceHeartbeat, PresenceStore } from "../utils/presence/types";
+
+/**
+ * Runs the same heartbeat scenario against the in-memory presence store and a Redis server, and checks both give
+ * the expected counts at every step. Keys go under a throwaway prefix and expire on their own.
+ *
+ * Usage:
+ *   yarn presence:check                              (redis://127.0.0.1:6379)
+ *   yarn presence:check redis://:secret@host:6380/2
+ *   PRESENCE_REDIS_URL=... yarn presence:check
+ */
+
+const TTL_MS = 60_000;
+const WALLET_A = "0x00000000000000000000000000000000000000a1";
+
+type Step = {
+  label: string;
+  at: number;
+  beat: Omit<PresenceHeartbeat, "page"> & { page?: string };
+  scope: { page?: string; raceId?: string };
+  expected: PresenceCounts;
+};
+
+// Times are relative to the start of the run; the stores only ever compare them with each other
+const STEPS: Step[] = [
+  {
+    label: "first visitor watches race 5 with a wallet",
+    at: 0,
+    beat: { visitorId: "a", raceId: "5", wallet: WALLET_A },
+    scope: { page: "/", raceId: "5" },
+    expected: { online: 1, bettorsOnline: 1, onPage: 1, watchingRace: 1 },
+  },
+  {
+    label: "second visitor joins race 5 without a wallet",
+    at: 1_000,
+    beat: { visitorId: "b", raceId: "5", wallet: null },
+    scope: { page: "/", raceId: "5" },
+    expected: { online: 2, bettorsOnline: 1, onPage: 2, watchingRace: 2 },
+  },
+  {
+    label: "same wallet in another tab on a profile page counts once",
+    at: 2_000,
+    beat: { visitorId: "c", page: "/raffe/1", raceId: null, wallet: WALLET_A },
+    scope: { page: "/", raceId: "5" },
+    expected: { online: 3, bettorsOnline: 1, onPage: 2, watchingRace: 2 },
+  },
+  {
+    label: "first visitor moves to race 6",
+    at: 3_000,
+    beat: { visitorId: "a", raceId: "6", wallet: WALLET_A },
+    scope: { page: "/", raceId: "5" },
+    expected: { online: 3, bettorsOnline: 1, onPage: 2, watchingRace: 1 },
+  },
+  {
+    label: "the profile tab disconnects its wallet; the race tab still has it",
+    at: 3_500,
+    beat: { visitorId: "c", page: "/raffe/1", raceId: null, wallet: null },
+    scope: { page: "/", raceId: "5" },
+    expected: { online: 3, bettorsOnline: 1, onPage: 2, watchingRace: 1 },
+  },
+  {
+    label: "the last tab disconnects its wallet and stops counting as a bettor at once",
+    at: 4_000,
+    beat: { visitorId: "a", raceId: "6", wallet: null },
+    scope: { page: "/", raceId: "5" },
+    expected: { online: 3, bettorsOnline: 0, onPage: 2, watchingRace: 1 },
+  },
+  {
+    label: "everyone else goes quiet past the window",
+    at: 4_000 + TTL_MS + 1,
+    beat: { visitorId: "b", raceId: "5", wallet: null },
+    scope: { page: "/", raceId: "6" },
+    expected: { online: 1, bettorsOnline: 0, onPage: 1, watchingRace: 0 },
+  },
+];
+
+async function runScenario(store: PresenceStore, start: number): Promise<string[]> {
+  const failures: string[] = [];
+  for (const step of STEPS) {
+    const now = start + step.at;
+    await store.heartbeat({ page: "/", ...step.beat }, now);
+    const actual = await store.counts(step.scope, now);
+    const ok = (Object.keys(step.expected) as (keyof PresenceCounts)[]).every(k => actual[k] === step.expected[k]);
+    console.log(`  ${ok ? "✓" : "✗"} ${step.label}: ${JSON.stringify(actual)}`);
+    if (!ok) failures.push(`${step.label}: expected ${JSON.stringify(step.expected)}`);
+  }
+  return failures;
+}
+
+async function main() {
+  const url = process.argv[2] ?? process.env.PRESENCE_REDIS_URL ?? "redis://127.0.0.1:6379";
+  const start = Date.now();
+
+  console.log("memory");
+  const failures = await runScenario(createMemoryPresenceStore({ ttlMs: TTL_MS }), start);
+
+  console.log(`redis (${url.replace(/\/\/[^@]*@/, "//***@")})`);
+  const connection = createRespConnection(url);
+  try {
+    const prefix = `raffe:presence-check:${start}`;
+    failures.push(...(await runScenario(createRedisPresenceStore(connection, { ttlMs: TTL_MS, prefix }), start)));
+  } finally {
+    connection.close();
+  }
+
+  if (failures.length) {
+    console.error(`\n${failures.length} step(s) failed:\n${failures.map(f => `  ${f}`).join("\n")}`);
+    process.exitCode = 1;
+  } else {
+    console.log("\nBoth stores agree");
+  }
+}
+
+main().catch(err => {
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,278 @@
+import deployedContracts from "../contracts/deployedContracts";
+import { FINISH_TIME_PRECISION, RaceSimulation, simulateRaceFromSeed } from "@se-2/race-core";
+import {
+  Address,
+  BaseError,
+  ContractFunctionRevertedError,
+  Hex,
+  createPublicClient,
+  encodePacked,
+  http,
+  isAddress,
+  keccak256,
+  parseAbi,
+  toBytes,
+} from "viem";
+import { foundry } from "viem/chains";
+
+/**
+ * Exact-parity check between the TS sim (@se-2/race-core simulateRace.ts) and RaffeRaceSimulator on a local chain.
+ *
+ * For every random (seed, scores) case it compares, against `simulateFullRace` + `traceFullRace`:
+ * - per-tick distances and tick count
+ * - per-lane finish times (tick * 10000 + fractional crossing)
+ * - final distances
+ * - finish order incl. dead-heat lanes for 1st / 2nd / 3rd
+ *
+ * On a mismatch it prints the diverging seed, the scores and the first tick where the two sims disagree, and
+ * exits non-zero. Cases are derived from --seed, so a failing run can be reproduced exactly.
+ *
+ * Usage (with `yarn chain` + `yarn deploy` running):
+ *   yarn sim:parity --runs 5000
+ *
+ * Flags:
+ *   --runs N            (default 2000) random cases to check
+ *   --seed S            (default 0) harness seed; cases are keccak256(seed, i)
+ *   --rpc URL           (default http://127.0.0.1:8545)
+ *   --simulator ADDR    (default RaffeRaceSimulator from deployedContracts[31337])
+ *   --concurrency C     (default 8) eth_calls in flight
+ *   --max-failures F    (default 10) stop after this many mismatches
+ */
+
+const LANE_COUNT = 6;
+const POSITIONS = ["first", "second", "third"] as const;
+
+// traceFullRace is a debug view; declared here so the script works before deployedContracts is regenerated.
+const traceAbi = parseAbi([
+  "function traceFullRace(bytes32 seed, uint8[6] scores) pure returns (uint16[6][] frames, uint64[6] finishTime)",
+]);
+
+type Args = {
+  runs: number;
+  seed: bigint;
+  rpc: string;
+  simulator?: Address;
+  concurrency: number;
+  maxFailures: number;
+};
+
+type ChainRace = {
+  frames: number[][]; // frames[t] = distances after tick t
+  finishTimes: number[];
+  distances: number[];
+  finishOrder: Record<(typeof POSITIONS)[number], number[]>; // lanes per position, `count` entries
+};
+
+type Mismatch = {
+  caseIndex: number;
+  seed: Hex;
+  scores: number[];
+  firstTick: number | null; // null = both sims agree tick by tick; only the ordering differs
+  problems: string[];
+};
+
+function parseArgs(argv: string[]): Args {
+  const args: Args = { runs: 2000, seed: 0n, rpc: "http://127.0.0.1:8545", concurrency: 8, maxFailures: 10 };
+
+  for (let i = 0; i < argv.length; i++) {
+    const flag = argv[i];
+    const value = () => {
+      const v = argv[++i];
+      if (v === undefined) throw new Error(`${flag} needs a value`);
+      return v;
+    };
+    const int = () => {
+      const n = Number(value());
+      if (!Number.isInteger(n) || n < 1) throw new Error(`${flag} must be a positive integer`);
+      return n;
+    };
+
+    if (flag === "--runs") args.runs = int();
+    else if (flag === "--seed") args.seed = BigInt(value());
+    else if (flag === "--rpc") args.rpc = value();
+    else if (flag === "--simulator") {
+      const addr = value();
+      if (!isAddress(addr)) throw new Error(`--simulator ${addr} is not an address`);
+      args.simulator = addr;
+    } else if (flag === "--concurrency") args.concurrency = int();
+    else if (flag === "--max-failures") args.maxFailures = int();
+    else throw new Error(`Unknown flag ${flag}`);
+  }
+  return args;
+}
+
+/**
+ * Case i of a run. Every fourth case gives all lanes the same score, which is where dead heats actually happen;
+ * the rest draw each lane's score uniformly from 1..10.
+ */
+function makeCase(runSeed: bigint, i: number): { seed: Hex; scores: number[] } {
+  const seed = keccak256(encodePacked(["uint256", "uint256"], [runSeed, BigInt(i)]));
+  const bytes = toBytes(keccak256(encodePacked(["bytes32", "string"], [seed, "SCORES"])));
+  const scores =
+    i % 4 === 3
+      ? Array.from({ length: LANE_COUNT }, () => (bytes[0]! % 10) + 1)
+      : Array.from({ length: LANE_COUNT }, (_, a) => (bytes[a]! % 10) + 1);
+  return { seed, scores };
+}
+
+const sameLanes = (a: readonly number[], b: readonly number[]) =>
+  a.length === b.length && a.every((x, i) => x === b[i]);
+
+const describeLanes = (lanes: readonly number[]) => (lanes.length ? `[${lanes.join(", ")}]` : "[]");
+
+function compare(ts: RaceSimulation, chain: ChainRace): { firstTick: number | null; problems: string[] } {
+  const problems: string[] = [];
+  let firstTick: number | null = null;
+  const markTick = (t: number) => {
+    if (firstTick === null || t < firstTick) firstTick = t;
+  };
+
+  // TS frames[0] is the start line; TS frames[t + 1] is the state after tick t, like chain frames[t].
+  const tsTicks = ts.frames.length - 1;
+  const common = Math.min(tsTicks, chain.frames.length);
+  for (let t = 0; t < common; t++) {
+    const tsFrame = ts.frames[t + 1]!;
+    const chainFrame = chain.frames[t]!;
+    if (!sameLanes(tsFrame, chainFrame)) {
+      markTick(t);
+      problems.push(`tick ${t}: distances ts=${describeLanes(tsFrame)} chain=${describeLanes(chainFrame)}`);
+      break;
+    }
+  }
+  if (tsTicks !== chain.frames.length) {
+    markTick(common);
+    problems.push(`tick count: ts=${tsTicks} chain=${chain.frames.length}`);
+  }
+
+  for (let a = 0; a < LANE_COUNT; a++) {
+    const tsTime = ts.finishTimes[a]!;
+    const chainTime = chain.finishTimes[a]!;
+    if (tsTime !== chainTime) {
+      markTick(Math.floor(Math.min(tsTime, chainTime) / FINISH_TIME_PRECISION));
+      problems.push(`lane ${a} finish time: ts=${tsTime} chain=${chainTime}`);
+    }
+  }
+
+  if (!sameLanes(ts.distances, chain.distances)) {
+    problems.push(`final distances: ts=${describeLanes(ts.distances)} chain=${describeLanes(chain.distances)}`);
+  }
+
+  for (const pos of POSITIONS) {
+    const tsLanes = ts.finishOrder[pos].lanes;
+    const chainLanes = chain.finishOrder[pos];
+    if (!sameLanes(tsLanes, chainLanes)) {
+      const heat = tsLanes.length > 1 || chainLanes.length > 1 ? " (dead heat)" : "";
+      problems.push(`${pos}${heat}: ts=${describeLanes(tsLanes)} chain=${describeLanes(chainLanes)}`);
+    }
+  }
+
+  return { firstTick, problems };
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  const deployed = deployedContracts[foundry.id].RaffeRaceSimulator;
+  const address = args.simulator ?? deployed.address;
+  const client = createPublicClient({ chain: foundry, transport: http(args.rpc) });
+
+  const readChainRace = async (seed: Hex, scores: number[]): Promise<ChainRace> => {
+    const lanes = scores as unknown as readonly [number, number, number, number, number, number];
+    const [fo, [frames, finishTime]] = await Promise.all([
+      client.readContract({ address, abi: deployed.abi, functionName: "simulateFullRace", args: [seed, lanes] }),
+      client.readContract({ address, abi: traceAbi, functionName: "traceFullRace", args: [seed, lanes] }),
+    ]);
+    const positionLanes = (p: { lanes: readonly number[]; count: number }) => p.lanes.slice(0, p.count);
+    return {
+      frames: frames.map(f => [...f]),
+      finishTimes: finishTime.map(Number),
+      distances: [...fo.distances],
+      finishOrder: {
+        first: positionLanes(fo.first),
+        second: positionLanes(fo.second),
+        third: positionLanes(fo.third),
+      },
+    };
+  };
+
+  console.log(`Checking ${args.runs} races against RaffeRaceSimulator at ${address} (${args.rpc}), seed ${args.seed}`);
+
+  const mismatches: Mismatch[] = [];
+  let next = 0;
+  let checked = 0;
+  let deadHeats = 0;
+  const startedAt = Date.now();
+
+  const worker = async () => {
+    while (next < args.runs && mismatches.length < args.maxFailures) {
+      const caseIndex = next++;
+      const { seed, scores } = makeCase(args.seed, caseIndex);
+
+      let ts: RaceSimulation | undefined;
+      let tsError: string | undefined;
+      try {
+        ts = simulateRaceFromSeed({ seed, score: scores });
+      } catch (e) {
+        tsError = e instanceof Error ? e.message : String(e);
+      }
+
+      let chain: ChainRace | undefined;
+      let chainError: string | undefined;
+      try {
+        chain = await readChainRace(seed, scores);
+      } catch (e) {
+        // Only a revert counts as a result ("race did not finish"); RPC failures abort the run
+        const revert = e instanceof BaseError ? e.walk(err => err instanceof ContractFunctionRevertedError) : null;
+        if (!(revert instanceof ContractFunctionRevertedError)) throw e;
+        chainError = revert.reason ?? revert.shortMessage;
+      }
+
+      if (ts && chain) {
+        const { firstTick, problems } = compare(ts, chain);
+        if (problems.length) mismatches.push({ caseIndex, seed, scores, firstTick, problems });
+        if (ts.finishOrder.first.count > 1 || ts.finishOrder.second.count > 1 || ts.finishOrder.third.count > 1) {
+          deadHeats++;
+        }
+      } else if (ts || chain) {
+        // One side finished the race and the other did not
+        mismatches.push({
+          caseIndex,
+          seed,
+          scores,
+          firstTick: null,
+          problems: [`ts: ${tsError ?? "finished"}`, `chain: ${chainError ?? "finished"}`],
+        });
+      } else {
+        throw new Error(`case ${caseIndex}: both sims failed (ts: ${tsError}; chain: ${chainError})`);
+      }
+
+      checked++;
+      if (checked % 500 === 0) console.log(`  ${checked}/${args.runs}`);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(args.concurrency, args.runs) }, worker));
+
+  const secs = ((Date.now() - startedAt) / 1000).toFixed(1);
+  console.log(`Checked ${checked} races in ${secs}s (${deadHeats} with a dead heat)`);
+
+  if (!mismatches.length) {
+    console.log("✅ TS sim matches RaffeRaceSimulator");
+    return;
+  }
+
+  mismatches.sort((a, b) => a.caseIndex - b.caseIndex);
+  for (const m of mismatches) {
+    console.log(`\n❌ case ${m.caseIndex}`);
+    console.log(`  seed:       ${m.seed}`);
+    console.log(`  scores:     [${m.scores.join(", ")}]`);
+    console.log(`  first tick: ${m.firstTick ?? "none (ticks agree, finish ordering differs)"}`);
+    for (const p of m.problems) console.log(`  ${p}`);
+  }
+  console.log(`\n${mismatches.length} mismatch(es)${mismatches.length >= args.maxFailures ? " (stopped early)" : ""}`);
+  process.exitCode = 1;
+}
+
+main().catch(err => {
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,321 @@
+import { SCORE_TABLE_PUBLIC_PATH } from "../utils/race/scoreTable";
+import {
+  SCORE_TABLE_LANES,
+  SCORE_TABLE_MAX_SCORE,
+  SCORE_TABLE_MIN_SCORE,
+  SCORE_TABLE_ROW_COUNT,
+  SCORE_TABLE_VERSION,
+  ScoreTable,
+  sortedScoreTuples,
+} from "@se-2/race-core";
+import { createNodeMonteCarloPool } from "@se-2/race-core/node";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
+/**
+ * Generate the Win / Place / Show score-combination table (see scoreTable.ts in @se-2/race-core).
+ *
+ * Every sorted 6-lane score tuple (5005 rows) is priced with `estimateWinPlaceShowMonteCarlo6`, i.e. the exact
+ * TS port of the on-chain sim with SettlementLib dead-heat weighting, on a worker_threads pool.
+ *
+ * Output:
+ * - Versioned JSON table (also the checkpoint while running), served by Next from public/
+ * - Solidity shards holding the packed table + a ScoreTable6 router that applies
+ *   OddsLib.adjustProbabilitiesForSymmetry
+ *
+ * Usage:
+ *   yarn workspace @se-2/nextjs generate:score-table --samples 2000
+ *
+ * Flags:
+ *   --samples N          (default 2000) Monte Carlo samples per sorted tuple
+ *   --workers W          (default cpuCount-1) worker threads
+ *   --salt S             (default 0) estimator salt; part of the table metadata
+ *   --json-out PATH      (default packages/nextjs/public/score-table/score-table-6lane.v1.json)
+ *   --sol-out-dir PATH   (default packages/foundry/contracts/scoreTable)
+ *   --resume             continue from a partial --json-out file
+ *   --no-sol             skip Solidity output
+ */
+
+const ESTIMATOR = "estimateWinPlaceShowMonteCarlo6";
+const VALUES_PER_ROW = SCORE_TABLE_LANES * 3;
+const ENTRY_BYTES = VALUES_PER_ROW * 2; // uint16 big-endian
+// ~10.8KB of table data per shard keeps each contract well under the 24KB limit.
+const ENTRIES_PER_SHARD = 300;
+const SHARD_COUNT = Math.ceil(SCORE_TABLE_ROW_COUNT / ENTRIES_PER_SHARD);
+const CHECKPOINT_EVERY_MS = 10_000;
+
+type Args = {
+  samples: number;
+  workers: number;
+  salt: bigint;
+  jsonOut: string;
+  solOutDir: string;
+  resume: boolean;
+  emitSol: boolean;
+};
+
+function parseArgs(argv: string[]): Args {
+  const args: Args = {
+    samples: 2000,
+    workers: Math.max(1, os.availableParallelism() - 1),
+    salt: 0n,
+    jsonOut: path.resolve(__dirname, "../public", `.${SCORE_TABLE_PUBLIC_PATH}`),
+    solOutDir: path.resolve(__dirname, "../../foundry/contracts/scoreTable"),
+    resume: false,
+    emitSol: true,
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const flag = argv[i];
+    const value = () => {
+      const v = argv[++i];
+      if (v === undefined) throw new Error(`${flag} needs a value`);
+      return v;
+    };
+    const int = () => {
+      const n = Number(value());
+      if (!Number.isInteger(n) || n < 1) throw new Error(`${flag} must be a positive integer`);
+      return n;
+    };
+
+    if (flag === "--samples") args.samples = int();
+    else if (flag === "--workers") args.workers = int();
+    else if (flag === "--salt") args.salt = BigInt(value());
+    else if (flag === "--json-out") args.jsonOut = path.resolve(value());
+    else if (flag === "--sol-out-dir") args.solOutDir = path.resolve(value());
+    else if (flag === "--resume") args.resume = true;
+    else if (flag === "--no-sol") args.emitSol = false;
+    else throw new Error(`Unknown flag ${flag}`);
+  }
+  return args;
+}
+
+function fmtDuration(sec: number): string {
+  const s = Math.max(0, Math.round(sec));
+  const h = Math.floor(s / 3600);
+  const m = Math.floor((s % 3600) / 60);
+  return h > 0 ? `${h}h${String(m).padStart(2, "0")}m` : `${m}m${String(s % 60).padStart(2, "0")}s`;
+}
+
+function writeTable(file: string, table: ScoreTable) {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  // One row per line keeps diffs between regenerations readable.
+  const rows = table.rows.map(r => `    ${JSON.stringify(r)}`).join(",\n");
+  const head = JSON.stringify({ ...table, rows: undefined }, null, 2).slice(0, -2);
+  fs.writeFileSync(file, `${head},\n  "rows": [\n${rows}\n  ]\n}\n`);
+}
+
+function shardContract(shardIndex: number, rows: number[][], startIndex: number, table: ScoreTable): string {
+  const hex = Buffer.from(Uint8Array.from(rows.flatMap(row => row.flatMap(v => [(v >> 8) & 0xff, v & 0xff])))).toString(
+    "hex",
+  );
+
+  return `// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.19;
+
+// AUTO-GENERATED by packages/nextjs/scripts/generate-score-table.ts - do not edit.
+
+/// @notice Score table v${table.version} shard ${shardIndex} of ${SHARD_COUNT} (6 lanes, ${table.samples} samples/row).
+/// @dev Entries ${startIndex} to ${startIndex + rows.length - 1}. Each entry is ${ENTRY_BYTES} bytes:
+///      win[6], place[6], show[6] as uint16 bps (big-endian), by sorted-score position.
+contract ScoreTableShard${shardIndex} {
+    uint256 internal constant ENTRY_BYTES = ${ENTRY_BYTES};
+    uint256 internal constant SHARD_START = ${startIndex};
+    uint256 internal constant SHARD_LEN = ${rows.length};
+
+    bytes internal constant TABLE = hex"${hex}";
+
+    function getByGlobalIndex(uint256 globalIdx) external pure returns (uint16[${VALUES_PER_ROW}] memory row) {
+        require(globalIdx >= SHARD_START && globalIdx < SHARD_START + SHARD_LEN, "Index out of shard range");
+        uint256 off = (globalIdx - SHARD_START) * ENTRY_BYTES;
+        for (uint256 i = 0; i < ${VALUES_PER_ROW}; i++) {
+            row[i] = (uint16(uint8(TABLE[off + i * 2])) << 8) | uint16(uint8(TABLE[off + i * 2 + 1]));
+        }
+    }
+}
+`;
+}
+
+function routerContract(table: ScoreTable): string {
+  return `// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.19;
+
+// AUTO-GENERATED by packages/nextjs/scripts/generate-score-table.ts - do not edit.
+
+import { OddsLib } from "../libraries/OddsLib.sol";
+
+interface IScoreTableShard {
+    function getByGlobalIndex(uint256 globalIdx) external pure returns (uint16[${VALUES_PER_ROW}] memory row);
+}
+
+/// @notice Router for the 6-lane Win/Place/Show score table.
+/// @dev Index order is all sorted tuples (a<=b<=c<=d<=e<=f) with values in [${SCORE_TABLE_MIN_SCORE}..${SCORE_TABLE_MAX_SCORE}], in nested-loop order.
+///      Lookups map rows back to lane order and apply OddsLib.adjustProbabilitiesForSymmetry,
+///      matching lookupScoreTable() in packages/race-core/src/scoreTable.ts.
+contract ScoreTable6 {
+    uint16 public constant TABLE_VERSION = ${table.version};
+    uint256 public constant SAMPLES_PER_ROW = ${table.samples};
+    uint256 internal constant TABLE_LEN = ${SCORE_TABLE_ROW_COUNT};
+    uint256 internal constant ENTRIES_PER_SHARD = ${ENTRIES_PER_SHARD};
+    uint256 internal constant SHARD_COUNT = ${SHARD_COUNT};
+
+    address[${SHARD_COUNT}] public shards;
+
+    constructor(address[${SHARD_COUNT}] memory _shards) {
+        shards = _shards;
+    }
+
+    /// @notice Win/Place/Show probabilities (bps) in lane order for a 6-lane score vector.
+    function getProbabilities(uint8[6] calldata scores)
+        external
+        view
+        returns (uint16[6] memory winProbBps, uint16[6] memory placeProbBps, uint16[6] memory showProbBps)
+    {
+        // Stable insertion sort of lanes by score (ties keep lane order).
+        uint8[6] memory lanes = [0, 1, 2, 3, 4, 5];
+        for (uint256 i = 1; i < 6; i++) {
+            uint8 lane = lanes[i];
+            uint256 j = i;
+            while (j > 0 && scores[lanes[j - 1]] > scores[lane]) {
+                lanes[j] = lanes[j - 1];
+                j--;
+            }
+            lanes[j] = lane;
+        }
+
+        uint8[6] memory sorted;
+        for (uint256 i = 0; i < 6; i++) {
+            sorted[i] = scores[lanes[i]];
+        }
+
+        uint256 idx = indexSorted(sorted);
+        uint16[${VALUES_PER_ROW}] memory row = IScoreTableShard(shards[idx / ENTRIES_PER_SHARD]).getByGlobalIndex(idx);
+
+        for (uint256 pos = 0; pos < 6; pos++) {
+            winProbBps[lanes[pos]] = row[pos];
+            placeProbBps[lanes[pos]] = row[6 + pos];
+            showProbBps[lanes[pos]] = row[12 + pos];
+        }
+
+        uint8[6] memory s = scores;
+        winProbBps = OddsLib.adjustProbabilitiesForSymmetry(winProbBps, s);
+        placeProbBps = OddsLib.adjustProbabilitiesForSymmetry(placeProbBps, s);
+        showProbBps = OddsLib.adjustProbabilitiesForSymmetry(showProbBps, s);
+    }
+
+    /// @notice Row index of a sorted tuple: count the tuples that sort before it, position by position.
+    function indexSorted(uint8[6] memory sorted) public pure returns (uint256 idx) {
+        require(sorted[0] >= ${SCORE_TABLE_MIN_SCORE} && sorted[5] <= ${SCORE_TABLE_MAX_SCORE}, "ScoreTable6: bad tuple");
+        uint8 prev = ${SCORE_TABLE_MIN_SCORE};
+        for (uint256 pos = 0; pos < 6; pos++) {
+            require(sorted[pos] >= prev, "ScoreTable6: not sorted");
+            uint256 remaining = 5 - pos;
+            for (uint8 v = prev; v < sorted[pos]; v++) {
+                // Non-decreasing sequences of \`remaining\` values from [v, ${SCORE_TABLE_MAX_SCORE}]
+                idx += _choose(${SCORE_TABLE_MAX_SCORE} - uint256(v) + remaining, remaining);
+            }
+            prev = sorted[pos];
+        }
+        require(idx < TABLE_LEN, "ScoreTable6: index out of range");
+    }
+
+    function _choose(uint256 n, uint256 k) private pure returns (uint256 r) {
+        if (n < k) return 0;
+        r = 1;
+        for (uint256 i = 1; i <= k; i++) {
+            r = (r * (n - k + i)) / i;
+        }
+    }
+}
+`;
+}
+
+function emitSolidity(table: ScoreTable, outDir: string) {
+  fs.mkdirSync(outDir, { recursive: true });
+  for (let shard = 0; shard < SHARD_COUNT; shard++) {
+    const start = shard * ENTRIES_PER_SHARD;
+    const rows = table.rows.slice(start, start + ENTRIES_PER_SHARD);
+    const file = path.join(outDir, `ScoreTableShard${shard}.sol`);
+    fs.writeFileSync(file, shardContract(shard, rows, start, table));
+    console.log(`  Wrote: ${file} (${rows.length} entries)`);
+  }
+  const router = path.join(outDir, "ScoreTable6.sol");
+  fs.writeFileSync(router, routerContract(table));
+  console.log(`  Wrote: ${router}`);
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+
+  let table: ScoreTable = {
+    version: SCORE_TABLE_VERSION,
+    laneCount: SCORE_TABLE_LANES,
+    minScore: SCORE_TABLE_MIN_SCORE,
+    maxScore: SCORE_TABLE_MAX_SCORE,
+    samples: args.samples,
+    salt: args.salt.toString(),
+    estimator: ESTIMATOR,
+    rowCount: SCORE_TABLE_ROW_COUNT,
+    rows: [],
+  };
+
+  if (args.resume && fs.existsSync(args.jsonOut)) {
+    const prev = JSON.parse(fs.readFileSync(args.jsonOut, "utf8")) as ScoreTable;
+    if (prev.version !== table.version || prev.samples !== table.samples || prev.salt !== table.salt) {
+      throw new Error(
+        `Checkpoint (v${prev.version}, samples=${prev.samples}, salt=${prev.salt}) does not match this run; drop --resume`,
+      );
+    }
+    table = prev;
+    console.log(`Resuming from ${args.jsonOut}: ${table.rows.length}/${SCORE_TABLE_ROW_COUNT} rows`);
+  }
+
+  const tuples = Array.from(sortedScoreTuples());
+  if (tuples.length !== SCORE_TABLE_ROW_COUNT) throw new Error(`Expected ${SCORE_TABLE_ROW_COUNT} tuples`);
+
+  const pool = createNodeMonteCarloPool(args.workers);
+  const startAt = Date.now();
+  const startRow = table.rows.length;
+  let lastCheckpointAt = startAt;
+  console.log(`Workers: ${args.workers} | samples/tuple: ${args.samples} | rows: ${startRow}/${SCORE_TABLE_ROW_COUNT}`);
+
+  try {
+    // Price `workers` tuples at a time; rows are committed strictly in table order.
+    for (let i = startRow; i < SCORE_TABLE_ROW_COUNT; i += args.workers) {
+      const batch = tuples.slice(i, i + args.workers);
+      const results = await Promise.all(
+        batch.map(score => pool.estimateWinPlaceShow({ score, samples: args.samples, salt: args.salt })),
+      );
+      for (const r of results) table.rows.push([...r.winProbBps, ...r.placeProbBps, ...r.showProbBps]);
+
+      const now = Date.now();
+      if (table.rows.length === SCORE_TABLE_ROW_COUNT || now - lastCheckpointAt >= CHECKPOINT_EVERY_MS) {
+        writeTable(args.jsonOut, table);
+        lastCheckpointAt = now;
+        const done = table.rows.length - startRow;
+        const elapsedSec = (now - startAt) / 1000;
+        const etaSec = ((SCORE_TABLE_ROW_COUNT - table.rows.length) * elapsedSec) / Math.max(1, done);
+        const pct = ((100 * table.rows.length) / SCORE_TABLE_ROW_COUNT).toFixed(1);
+        console.log(
+          `[${pct}%] ${table.rows.length}/${SCORE_TABLE_ROW_COUNT} | elapsed ${fmtDuration(elapsedSec)} | ETA ${fmtDuration(etaSec)}`,
+        );
+      }
+    }
+  } finally {
+    pool.destroy();
+  }
+
+  writeTable(args.jsonOut, table);
+  console.log(`\nTable: ${args.jsonOut}`);
+
+  if (args.emitSol) {
+    console.log(`Generating ${SHARD_COUNT} shard contracts + router...`);
+    emitSolidity(table, args.solOutDir);
+  }
+}
+
+main().catch(err => {
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,127 @@
+import scaffoldConfig from "../scaffold.config";
+import {
+  RAFFE_TRAIT_CATEGORIES,
+  RAFFE_TRAIT_TABLE,
+  RaffeTraitCategory,
+  raffeTraitRarity,
+  raffeTraitsFromSeed,
+} from "../utils/nft/raffeTraits";
+import { createRaffeRaceClient } from "../utils/raffeRace/client";
+import { serverRpcUrl } from "../utils/raffeRace/server";
+import { Address, PublicClient, createPublicClient, http, isAddress } from "viem";
+
+/**
+ * Trait distribution across every minted raffe, next to the configured rarities in utils/nft/raffeTraits.ts.
+ *
+ * Reads nextTokenId and every token's seed from RaffeNFT, rolls the traits the same way the renderers do and
+ * counts them. Burned tokens (seedOf reverts) are left out.
+ *
+ * Usage:
+ *   yarn traits:report
+ *   yarn traits:report --rpc https://mainnet.base.org --json
+ *
+ * Flags:
+ *   --rpc URL           (default RACE_FEED_RPC_URL, then scaffold.config rpcOverrides, then the chain's public RPC)
+ *   --raffe-nft ADDR    (default RaffeNFT from deployedContracts for the target network)
+ *   --json              print the counts as JSON instead
+ */
+
+type Args = {
+  rpc?: string;
+  raffeNft?: Address;
+  json: boolean;
+};
+
+// Seeds read per multicall
+const BATCH_SIZE = 500;
+
+function parseArgs(argv: string[]): Args {
+  const args: Args = { json: false };
+
+  for (let i = 0; i < argv.length; i++) {
+    const flag = argv[i];
+    const value = () => {
+      const v = argv[++i];
+      if (v === undefined) throw new Error(`${flag} needs a value`);
+      return v;
+    };
+
+    if (flag === "--rpc") args.rpc = value();
+    else if (flag === "--raffe-nft") {
+      const addr = value();
+      if (!isAddress(addr)) throw new Error(`--raffe-nft ${addr} is not an address`);
+      args.raffeNft = addr;
+    } else if (flag === "--json") args.json = true;
+    else throw new Error(`Unknown argument ${flag}`);
+  }
+  return args;
+}
+
+type TraitCount = { name: string; count: number; share: number; expected: number };
+
+const percent = (share: number) => `${(share * 100).toFixed(1)}%`.padStart(6);
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  const chain = scaffoldConfig.targetNetworks[0];
+  const publicClient = createPublicClient({ chain, transport: http(args.rpc ?? serverRpcUrl(chain.id)) });
+  const client = createRaffeRaceClient({
+    publicClient: publicClient as PublicClient,
+    chainId: chain.id,
+    addresses: args.raffeNft ? { raffeNft: args.raffeNft } : undefined,
+  });
+
+  const nextTokenId = await client.raffeNft.read.nextTokenId();
+  const counts = Object.fromEntries(
+    RAFFE_TRAIT_CATEGORIES.map(category => [category, new Map<string, number>()]),
+  ) as Record<RaffeTraitCategory, Map<string, number>>;
+
+  let minted = 0;
+  for (let start = 1n; start < nextTokenId; start += BigInt(BATCH_SIZE)) {
+    const tokenIds: bigint[] = [];
+    for (let tokenId = start; tokenId < nextTokenId && tokenId < start + BigInt(BATCH_SIZE); tokenId++) {
+      tokenIds.push(tokenId);
+    }
+    const seeds = await client.getRaffeSeedsBatch(tokenIds);
+    for (const seed of seeds.values()) {
+      const traits = raffeTraitsFromSeed(seed);
+      for (const category of RAFFE_TRAIT_CATEGORIES) {
+        counts[category].set(traits[category], (counts[category].get(traits[category]) ?? 0) + 1);
+      }
+    }
+    minted += seeds.size;
+  }
+
+  const report = Object.fromEntries(
+    RAFFE_TRAIT_CATEGORIES.map(category => [
+      category,
+      RAFFE_TRAIT_TABLE[category].options.map<TraitCount>(({ name }) => {
+        const count = counts[category].get(name) ?? 0;
+        return { name, count, share: minted ? count / minted : 0, expected: raffeTraitRarity(category, name) };
+      }),
+    ]),
+  ) as Record<RaffeTraitCategory, TraitCount[]>;
+
+  if (args.json) {
+    console.log(
+      JSON.stringify({ chainId: chain.id, raffeNft: client.addresses.raffeNft, minted, traits: report }, null, 2),
+    );
+    return;
+  }
+
+  console.log(`Trait distribution of ${minted} raffe(s) on ${chain.name} (RaffeNFT ${client.addresses.raffeNft})`);
+  for (const category of RAFFE_TRAIT_CATEGORIES) {
+    console.log(`\n${RAFFE_TRAIT_TABLE[category].label}`);
+    console.log(`  ${"".padEnd(12)} ${"count".padStart(6)} ${"actual".padStart(6)} ${"target".padStart(6)}`);
+    for (const row of report[category]) {
+      console.log(
+        `  ${row.name.padEnd(12)} ${String(row.count).padStart(6)} ${percent(row.share)} ${percent(row.expected)}`,
+      );
+    }
+  }
+}
+
+main().catch(err => {
+  console.error(err);
+  process.exit(1);
+});
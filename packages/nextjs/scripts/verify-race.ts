@@ -0,0 +1,113 @@
+import scaffoldConfig from "../scaffold.config";
+import { createRaffeRaceClient } from "../utils/raffeRace/client";
+import { serverRpcUrl } from "../utils/raffeRace/server";
+import { RaceVerification, verifyRaceSettlement } from "../utils/raffeRace/verify";
+import { FinishOrder } from "@se-2/race-core";
+import { Address, PublicClient, createPublicClient, http, isAddress } from "viem";
+
+/**
+ * Verify race settlements from public chain data, the same check as the /verify/[raceId] page.
+ *
+ * For each race it fetches the hash of the betting close block, re-derives the seed the contract used, reads the
+ * lane scores, replays the race with @se-2/race-core and compares winners, 2nd / 3rd place and final distances
+ * with what getRaceFinishOrderById stored. Prints every intermediate value and exits non-zero if any race fails.
+ *
+ * Usage:
+ *   yarn verify:race 42
+ *   yarn verify:race 40 41 42 --rpc https://mainnet.base.org
+ *
+ * Flags:
+ *   --rpc URL           (default RACE_FEED_RPC_URL, then scaffold.config rpcOverrides, then the chain's public RPC)
+ *   --raffe-race ADDR   (default RaffeRace from deployedContracts for the target network)
+ *   --json              print the reports as JSON instead
+ */
+
+type Args = {
+  raceIds: bigint[];
+  rpc?: string;
+  raffeRace?: Address;
+  json: boolean;
+};
+
+function parseArgs(argv: string[]): Args {
+  const args: Args = { raceIds: [], json: false };
+
+  for (let i = 0; i < argv.length; i++) {
+    const flag = argv[i];
+    const value = () => {
+      const v = argv[++i];
+      if (v === undefined) throw new Error(`${flag} needs a value`);
+      return v;
+    };
+
+    if (flag === "--rpc") args.rpc = value();
+    else if (flag === "--raffe-race") {
+      const addr = value();
+      if (!isAddress(addr)) throw new Error(`--raffe-race ${addr} is not an address`);
+      args.raffeRace = addr;
+    } else if (flag === "--json") args.json = true;
+    else if (/^\d+$/.test(flag)) args.raceIds.push(BigInt(flag));
+    else throw new Error(`Unknown argument ${flag}`);
+  }
+  if (!args.raceIds.length) throw new Error("Pass at least one race id");
+  return args;
+}
+
+const lanes = (values: readonly (number | bigint)[]) => `[${values.join(", ")}]`;
+const order = (o: FinishOrder) =>
+  `1st ${lanes(o.first.lanes)}  2nd ${lanes(o.second.lanes)}  3rd ${lanes(o.third.lanes)}`;
+
+function printVerification(result: RaceVerification) {
+  if (result.status !== "checked") {
+    const why = { not_found: "does not exist", not_settled: "is not settled yet", cancelled: "was cancelled" };
+    console.log(`\n⏭️  race ${result.raceId} ${why[result.status]}; nothing to verify`);
+    return;
+  }
+
+  const { report, laneTokenIds } = result;
+  console.log(`\n${report.pass ? "✅" : "❌"} race ${report.raceId} ${report.pass ? "PASS" : "FAIL"}`);
+  console.log(`  RaffeRace:           ${report.raceAddress}`);
+  console.log(`  betting close block: ${report.bettingCloseBlock}`);
+  console.log(`  block hash:          ${report.blockHash}`);
+  console.log(`  base seed:           ${report.baseSeed}  keccak256(blockHash, raceId, raffeRace)`);
+  console.log(`  sim seed:            ${report.simSeed}  keccak256(baseSeed, "RACE_SIM")`);
+  console.log(`  lane raffes:         ${lanes(laneTokenIds)}`);
+  console.log(`  lane scores:         ${lanes(report.score)}`);
+  console.log(`  simulated:           ${order(report.simulated.finishOrder)} in ${report.simulated.ticks} ticks`);
+  console.log(`  stored:              ${order(report.stored.finishOrder)}`);
+  console.log(`  finish times:        ${lanes(report.simulated.finishTimes)}`);
+  for (const check of report.checks) {
+    const detail = check.pass ? check.expected : `expected ${check.expected}, stored ${check.actual}`;
+    console.log(`  ${check.pass ? "✓" : "✗"} ${check.label}: ${detail}`);
+  }
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  const chain = scaffoldConfig.targetNetworks[0];
+  const publicClient = createPublicClient({ chain, transport: http(args.rpc ?? serverRpcUrl(chain.id)) });
+  const client = createRaffeRaceClient({
+    publicClient: publicClient as PublicClient,
+    chainId: chain.id,
+    addresses: args.raffeRace ? { raffeRace: args.raffeRace } : undefined,
+  });
+
+  const results: RaceVerification[] = [];
+  for (const raceId of args.raceIds) {
+    results.push(await verifyRaceSettlement(client, raceId));
+  }
+
+  if (args.json) {
+    console.log(JSON.stringify(results, (_, v) => (typeof v === "bigint" ? v.toString() : v), 2));
+  } else {
+    console.log(`Verifying ${args.raceIds.length} race(s) on ${chain.name} (RaffeRace ${client.addresses.raffeRace})`);
+    results.forEach(printVerification);
+  }
+
+  if (results.some(r => r.status === "checked" && !r.report.pass)) process.exitCode = 1;
+}
+
+main().catch(err => {
+  console.error(err);
+  process.exit(1);
+});
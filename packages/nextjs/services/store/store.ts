@@ -11,9 +11,17 @@ import { ChainWithAttributes, NETWORKS_EXTRA_DATA } from "~~/utils/scaffold-eth"
  * Think about it as a global useState.
  */
 
+type RaceFeedState = {
+  // True while the /api/races/events stream is open; race reads stop polling and follow the stream instead
+  connected: boolean;
+  blockNumber: bigint | null;
+};
+
 type GlobalState = {
   targetNetwork: ChainWithAttributes;
   setTargetNetwork: (newTargetNetwork: ChainWithAttributes) => void;
+  raceFeed: RaceFeedState;
+  setRaceFeed: (update: Partial<RaceFeedState>) => void;
 };
 
 export const useGlobalState = create<GlobalState>(set => ({
@@ -22,4 +30,6 @@ export const useGlobalState = create<GlobalState>(set => ({
     ...NETWORKS_EXTRA_DATA[scaffoldConfig.targetNetworks[0].id],
   },
   setTargetNetwork: (newTargetNetwork: ChainWithAttributes) => set(() => ({ targetNetwork: newTargetNetwork })),
+  raceFeed: { connected: false, blockNumber: null },
+  setRaceFeed: (update: Partial<RaceFeedState>) => set(state => ({ raceFeed: { ...state.raceFeed, ...update } })),
 }));
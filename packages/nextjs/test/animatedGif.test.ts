@@ -0,0 +1,64 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import sharp from "sharp";
+import { joinGifFrames } from "~~/utils/race/animatedGif";
+
+const WIDTH = 6;
+const HEIGHT = 4;
+const COLORS = ["#ff0000", "#00ff00", "#0000ff"];
+
+/** A single-frame GIF filled with one color, encoded the way renderReplayGif encodes its stills. */
+const solidGif = (background: string) =>
+  sharp({ create: { width: WIDTH, height: HEIGHT, channels: 3, background } })
+    .gif({ effort: 3 })
+    .toBuffer();
+
+/** The RGB of the top-left pixel of each page of an animated GIF. */
+async function pageColors(gif: Buffer, pages: number) {
+  const colors: number[][] = [];
+  for (let page = 0; page < pages; page++) {
+    const data = await sharp(gif, { page }).raw().toBuffer();
+    colors.push([...data.subarray(0, 3)]);
+  }
+  return colors;
+}
+
+describe("joinGifFrames", () => {
+  it("stitches frames into one animation with their own colors, delays and loop count", async () => {
+    const frames = await Promise.all(COLORS.map(solidGif));
+    const gif = joinGifFrames(frames, [100, 250, 1_000], 3);
+
+    assert.equal(gif.toString("ascii", 0, 6), "GIF89a");
+    assert.equal(gif[gif.length - 1], 0x3b);
+
+    const meta = await sharp(gif, { animated: true }).metadata();
+    assert.equal(meta.width, WIDTH);
+    assert.equal(meta.pageHeight, HEIGHT);
+    assert.equal(meta.pages, 3);
+    // The raw NETSCAPE2.0 repeat count (libvips reports it as plays, one more)
+    const loopAt = gif.indexOf("NETSCAPE2.0", 0, "ascii") + 11;
+    assert.equal(gif.readUInt16LE(loopAt + 2), 3);
+    assert.deepEqual(meta.delay, [100, 250, 1_000]);
+
+    assert.deepEqual(await pageColors(gif, 3), [
+      [255, 0, 0],
+      [0, 255, 0],
+      [0, 0, 255],
+    ]);
+  });
+
+  it("loops forever by default, reuses the last delay and never goes below 20ms", async () => {
+    const frames = await Promise.all(COLORS.map(solidGif));
+    const meta = await sharp(joinGifFrames(frames, [5, 300]), { animated: true }).metadata();
+    assert.equal(meta.loop, 0);
+    assert.deepEqual(meta.delay, [20, 300, 300]);
+  });
+
+  it("rejects an empty frame list and input that isn't a GIF", async () => {
+    assert.throws(() => joinGifFrames([], []), /at least one frame/);
+    const png = await sharp({ create: { width: 2, height: 2, channels: 3, background: "#000" } })
+      .png()
+      .toBuffer();
+    assert.throws(() => joinGifFrames([png], [100]), /Not a GIF/);
+  });
+});
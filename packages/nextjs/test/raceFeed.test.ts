@@ -0,0 +1,170 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import type { PublicClient } from "viem";
+import { RACE_FEED_IDLE_STOP_MS, createRaceFeed, isAfter, toFeedEvent } from "~~/utils/raceFeed/server";
+import type { RaceFeedEvent } from "~~/utils/raceFeed/types";
+
+type FeedLog = Parameters<typeof toFeedEvent>[0];
+
+const TX = `0x${"ab".repeat(32)}` as const;
+const BETTOR = "0x00000000000000000000000000000000000000Aa";
+
+const raceLog = (eventName: string, args: Record<string, unknown>, blockNumber = 10n, logIndex = 0) =>
+  ({ eventName, args, blockNumber, logIndex, transactionHash: TX }) as unknown as FeedLog;
+
+describe("isAfter", () => {
+  it("orders by block, then log index", () => {
+    assert.equal(isAfter("11-0", "10-5"), true);
+    assert.equal(isAfter("10-6", "10-5"), true);
+    assert.equal(isAfter("10-5", "10-5"), false);
+    assert.equal(isAfter("10-4", "10-5"), false);
+    assert.equal(isAfter("9-99", "10-0"), false);
+  });
+
+  it("compares block numbers as integers, not strings", () => {
+    assert.equal(isAfter("100-0", "99-0"), true);
+    assert.equal(isAfter("10-10", "10-9"), true);
+  });
+
+  it("replays everything after an id it can't parse", () => {
+    assert.equal(isAfter("10-0", "10"), true);
+  });
+});
+
+describe("toFeedEvent", () => {
+  it("carries the log position as the event id", () => {
+    assert.deepEqual(toFeedEvent(raceLog("RaceCancelled", { raceId: 4n }, 1_234n, 7)), {
+      id: "1234-7",
+      blockNumber: "1234",
+      txHash: TX,
+      raceId: "4",
+      type: "raceCancelled",
+      auto: false,
+    });
+  });
+
+  it("turns a Win/Place/Show bet into a pot delta on its pool and lane", () => {
+    const event = toFeedEvent(
+      raceLog("BetPlaced", { raceId: 2n, bettor: BETTOR, lane: 3, betType: 1, amount: 5_000n }),
+    );
+    assert.deepEqual(event, {
+      id: "10-0",
+      blockNumber: "10",
+      txHash: TX,
+      raceId: "2",
+      type: "betPlaced",
+      bettor: BETTOR.toLowerCase(),
+      lane: 3,
+      betType: 1,
+      amount: "5000",
+      potDelta: { total: "5000", pool: "place", lane: 3 },
+    });
+  });
+
+  it("keeps only the meaningful winners of a dead heat", () => {
+    const event = toFeedEvent(
+      raceLog("RaceSettledDeadHeat", { raceId: 1n, seed: TX, winners: [2, 5, 0, 0, 0, 0], deadHeatCount: 2 }),
+    );
+    assert.deepEqual(event && "winners" in event ? event.winners : null, [2, 5]);
+  });
+
+  it("maps queue events by owner and token, without a race", () => {
+    const event = toFeedEvent(raceLog("QueueEntered", { owner: BETTOR, tokenId: 42n }));
+    assert.equal(event?.type, "queueChanged");
+    assert.equal(event && "raceId" in event, false);
+  });
+
+  it("reports expired claims as forfeited payouts", () => {
+    const event = toFeedEvent(raceLog("ClaimExpired", { raceId: 3n, bettor: BETTOR, forfeitedPayout: 900n }));
+    assert.deepEqual(event && "expired" in event ? [event.amount, event.expired] : null, ["900", true]);
+  });
+
+  it("drops events the feed doesn't carry", () => {
+    assert.equal(toFeedEvent(raceLog("RaceExoticOddsSet", { raceId: 1n })), null);
+    assert.equal(toFeedEvent(raceLog("RaceBotUpdated", { raceBot: BETTOR })), null);
+  });
+});
+
+/** Stand-in for the public client's watchers: lets the test push logs and see whether polling is running. */
+function fakeClient() {
+  let onLogs: ((logs: FeedLog[]) => void) | null = null;
+  const state = { starts: 0, running: false };
+  const client = {
+    watchContractEvent: (params: { onLogs: (logs: FeedLog[]) => void }) => {
+      state.starts++;
+      state.running = true;
+      onLogs = params.onLogs;
+      return () => {
+        state.running = false;
+        onLogs = null;
+      };
+    },
+    watchBlockNumber: () => () => undefined,
+  } as unknown as PublicClient;
+  const emit = (...logs: FeedLog[]) => onLogs?.(logs);
+  return { client, state, emit };
+}
+
+describe("createRaceFeed", () => {
+  const ADDRESS = "0x0000000000000000000000000000000000000001";
+  const cancelled = (raceId: bigint, blockNumber: bigint) => raceLog("RaceCancelled", { raceId }, blockNumber);
+
+  it("keeps watching between a client dropping and reconnecting, so nothing mined in between is lost", t => {
+    t.mock.timers.enable();
+    const { client, state, emit } = fakeClient();
+    const feed = createRaceFeed(client, ADDRESS);
+
+    const first: string[] = [];
+    const leave = feed.subscribe(event => "id" in event && first.push(event.id));
+    emit(cancelled(1n, 10n));
+    leave();
+
+    // Mined while nobody is connected
+    t.mock.timers.tick(RACE_FEED_IDLE_STOP_MS - 1);
+    assert.equal(state.running, true);
+    emit(cancelled(2n, 11n));
+
+    const resumed: string[] = [];
+    feed.subscribe(event => "id" in event && resumed.push(event.id), first.at(-1));
+    assert.deepEqual(first, ["10-0"]);
+    assert.deepEqual(resumed, ["11-0"]);
+    assert.equal(state.starts, 1);
+  });
+
+  it("stops polling once nobody has listened for the grace period, and restarts on the next subscriber", t => {
+    t.mock.timers.enable();
+    const { client, state } = fakeClient();
+    const feed = createRaceFeed(client, ADDRESS);
+
+    const leaveA = feed.subscribe(() => undefined);
+    const leaveB = feed.subscribe(() => undefined);
+    leaveA();
+    t.mock.timers.tick(RACE_FEED_IDLE_STOP_MS);
+    assert.equal(state.running, true, "one listener is still there");
+
+    leaveB();
+    leaveB();
+    t.mock.timers.tick(RACE_FEED_IDLE_STOP_MS);
+    assert.equal(state.running, false);
+
+    feed.subscribe(() => undefined);
+    assert.equal(state.running, true);
+    assert.equal(state.starts, 2);
+  });
+
+  it("replays only buffered events after Last-Event-ID", t => {
+    t.mock.timers.enable();
+    const { client, emit } = fakeClient();
+    const feed = createRaceFeed(client, ADDRESS);
+    const leave = feed.subscribe(() => undefined);
+    emit(cancelled(1n, 10n), cancelled(2n, 11n), cancelled(3n, 12n));
+
+    const replayed: RaceFeedEvent[] = [];
+    feed.subscribe(event => replayed.push(event), "11-0")();
+    assert.deepEqual(
+      replayed.map(event => ("id" in event ? event.id : null)),
+      ["12-0"],
+    );
+    leave();
+  });
+});
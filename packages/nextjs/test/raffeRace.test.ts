@@ -0,0 +1,126 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { BaseError, ContractFunctionRevertedError, encodeErrorResult } from "viem";
+import { RaffeRaceError, decodeRaffeRaceError, raffeRaceErrorsAbi, withDecodedErrors } from "~~/utils/raffeRace/errors";
+import {
+  parseQueueEntries,
+  parseRaceFinishOrder,
+  parseRaceOdds,
+  parseRaceScore,
+  parseUserExoticBets,
+} from "~~/utils/raffeRace/parse";
+
+const OWNER = "0x00000000000000000000000000000000000000aa";
+
+/** A viem call error wrapping a revert, as `readContract` / `writeContract` throw it. */
+function revertWith(errorName: string, args?: readonly unknown[], { decodedByViem = true } = {}) {
+  const data = encodeErrorResult({ abi: raffeRaceErrorsAbi, errorName, args } as Parameters<
+    typeof encodeErrorResult
+  >[0]);
+  // Without the ABI viem can only keep the raw revert data, which decodeRaffeRaceError then decodes itself
+  const reverted = new ContractFunctionRevertedError({
+    abi: decodedByViem ? raffeRaceErrorsAbi : [],
+    data,
+    functionName: "placeBet",
+  });
+  return new BaseError("The contract function reverted.", { cause: reverted });
+}
+
+describe("decodeRaffeRaceError", () => {
+  it("turns a custom error into its user-facing message", () => {
+    const error = decodeRaffeRaceError(revertWith("NotRaceBot"));
+    assert.ok(error instanceof RaffeRaceError);
+    assert.equal(error.errorName, "NotRaceBot");
+    assert.equal(error.message, "Only the race bot can do that");
+  });
+
+  it("decodes raw revert data viem couldn't, including errors from RaffeNFT", () => {
+    const error = decodeRaffeRaceError(revertWith("NameTooLong", [40n], { decodedByViem: false }));
+    assert.equal(error?.errorName, "NameTooLong");
+    assert.deepEqual(error?.args, [40n]);
+    assert.equal(error?.message, "That name is too long");
+  });
+
+  it("falls back to the error's signature when it has no wording", () => {
+    assert.equal(
+      decodeRaffeRaceError(revertWith("ERC721NonexistentToken", [7n]))?.message,
+      "ERC721NonexistentToken(7)",
+    );
+  });
+
+  it("leaves anything that isn't a contract revert alone", () => {
+    assert.equal(decodeRaffeRaceError(new Error("network down")), null);
+    assert.equal(decodeRaffeRaceError(new BaseError("HTTP request failed.")), null);
+  });
+});
+
+describe("withDecodedErrors", () => {
+  it("rethrows rejected calls as RaffeRaceError and passes everything else through", async () => {
+    const read = withDecodedErrors({
+      ok: async (n: number) => n * 2,
+      reverts: async () => {
+        throw revertWith("BettingClosed");
+      },
+      fails: async () => {
+        throw new Error("timeout");
+      },
+      chainId: 31337,
+    });
+    assert.equal(await read.ok(21), 42);
+    assert.equal(read.chainId, 31337);
+    await assert.rejects(read.reverts(), { name: "RaffeRaceError", message: "Betting is closed for this race" });
+    await assert.rejects(read.fails(), { message: "timeout" });
+  });
+});
+
+describe("RaffeRace view decoders", () => {
+  it("pads lane arrays to six lanes", () => {
+    const odds = parseRaceOdds([true, [20_000, 30_000], [15_000], []] as unknown as Parameters<
+      typeof parseRaceOdds
+    >[0]);
+    assert.deepEqual(odds.winOddsBps, [20_000n, 30_000n, 0n, 0n, 0n, 0n]);
+    assert.deepEqual(odds.placeOddsBps, [15_000n, 0n, 0n, 0n, 0n, 0n]);
+    assert.equal(odds.oddsBps, odds.winOddsBps);
+  });
+
+  it("clamps lane scores to 1-10 and reads a missing lineup as full score", () => {
+    assert.deepEqual(
+      parseRaceScore([0, 3, 12, 7] as unknown as Parameters<typeof parseRaceScore>[0]),
+      [1, 3, 10, 7, 10, 10],
+    );
+  });
+
+  it("keeps only the lanes that share each finishing position", () => {
+    const order = parseRaceFinishOrder([
+      [2, 5, 0, 0, 0, 0],
+      2,
+      [1, 0, 0, 0, 0, 0],
+      1,
+      [0, 0, 0, 0, 0, 0],
+      0,
+      [1_000, 990, 1_010, 950, 900, 1_010],
+    ] as unknown as Parameters<typeof parseRaceFinishOrder>[0]);
+    assert.deepEqual(order.first, { lanes: [2, 5], count: 2 });
+    assert.deepEqual(order.second, { lanes: [1], count: 1 });
+    assert.deepEqual(order.third, { lanes: [], count: 0 });
+  });
+
+  it("trims exotic picks to the lanes each bet type uses", () => {
+    const bets = parseUserExoticBets([
+      { amount: 5n, lanes: [3, 1, 0], claimed: false },
+      { amount: 0n, lanes: [0, 0, 0], claimed: false },
+      { amount: 9n, lanes: [4, 0, 2], claimed: true },
+    ] as unknown as Parameters<typeof parseUserExoticBets>[0]);
+    assert.deepEqual(bets.exacta, { amount: 5n, lanes: [3, 1], claimed: false, hasBet: true });
+    assert.equal(bets.quinella.hasBet, false);
+    assert.deepEqual(bets.trifecta.lanes, [4, 0, 2]);
+  });
+
+  it("drops vacated queue slots", () => {
+    const entries = parseQueueEntries([
+      { index: 0n, tokenId: 1n, owner: OWNER, isValid: false },
+      { index: 1n, tokenId: 4n, owner: OWNER, isValid: true },
+    ]);
+    assert.deepEqual(entries, [{ index: 1n, tokenId: 4n, owner: OWNER, isValid: true }]);
+  });
+});
@@ -0,0 +1,159 @@
+import assert from "node:assert/strict";
+import net from "node:net";
+import { after, before, beforeEach, describe, it } from "node:test";
+import { RespConnection, RespReplyError, createRespConnection } from "~~/utils/presence/resp";
+
+/**
+ * Scripted Redis stand-in: records each command it receives and answers it with the next queued reply. A reply
+ * given as several chunks is written a chunk at a time, so the client has to put it back together.
+ */
+function createFakeRedis() {
+  const commands: string[][] = [];
+  const replies: (string | string[])[] = [];
+  let connections = 0;
+  let deferred: net.Socket | null = null;
+
+  const answer = async (socket: net.Socket) => {
+    const reply = replies.shift();
+    if (reply === undefined) return;
+    for (const chunk of [reply].flat()) {
+      socket.write(chunk);
+      await new Promise(resolve => setTimeout(resolve, 5));
+    }
+  };
+
+  const server = net.createServer(socket => {
+    connections++;
+    let buffer = "";
+    socket.on("data", async chunk => {
+      buffer += chunk.toString("utf8");
+      // Commands arrive as arrays of bulk strings: *<n> then n times $<len> <data>
+      for (let parsed = readCommand(buffer); parsed; parsed = readCommand(buffer)) {
+        buffer = buffer.slice(parsed.length);
+        commands.push(parsed.args);
+        if (parsed.args[0] === "HOLD") deferred = socket;
+        else await answer(socket);
+      }
+    });
+  });
+
+  return {
+    server,
+    commands,
+    replies,
+    get connections() {
+      return connections;
+    },
+    /** Answer a HOLD command that was left waiting. */
+    release: () => deferred && answer(deferred),
+    url: () => `redis://127.0.0.1:${(server.address() as net.AddressInfo).port}`,
+  };
+}
+
+function readCommand(buffer: string): { args: string[]; length: number } | undefined {
+  const header = /^\*(\d+)\r\n/.exec(buffer);
+  if (!header) return undefined;
+  let at = header[0].length;
+  const args: string[] = [];
+  for (let i = 0; i < Number(header[1]); i++) {
+    const bulk = /^\$(\d+)\r\n/.exec(buffer.slice(at));
+    if (!bulk) return undefined;
+    at += bulk[0].length;
+    const bytes = Buffer.from(buffer.slice(at), "utf8");
+    const length = Number(bulk[1]);
+    if (bytes.length < length + 2) return undefined;
+    const arg = bytes.subarray(0, length).toString("utf8");
+    args.push(arg);
+    at += arg.length + 2;
+  }
+  return { args, length: at };
+}
+
+describe("createRespConnection", () => {
+  const redis = createFakeRedis();
+  let connection: RespConnection;
+
+  before(() => new Promise<void>(resolve => redis.server.listen(0, "127.0.0.1", resolve)));
+  after(() => new Promise<void>(resolve => redis.server.close(() => resolve())));
+  beforeEach(() => {
+    connection?.close();
+    redis.commands.length = 0;
+    redis.replies.length = 0;
+    connection = createRespConnection(redis.url(), { timeoutMs: 500 });
+  });
+
+  it("reads simple strings, integers, bulk strings and nulls", async () => {
+    redis.replies.push("+OK\r\n", ":42\r\n", "$5\r\nhello\r\n", "$0\r\n\r\n", "$-1\r\n", "*-1\r\n");
+    assert.equal(await connection.command("SET", "k", "v"), "OK");
+    assert.equal(await connection.command("ZCARD", "k"), 42);
+    assert.equal(await connection.command("GET", "k"), "hello");
+    assert.equal(await connection.command("GET", "empty"), "");
+    assert.equal(await connection.command("GET", "missing"), null);
+    assert.equal(await connection.command("EXEC"), null);
+  });
+
+  it("reads nested arrays, and bulk strings by byte length rather than characters", async () => {
+    redis.replies.push("*3\r\n$5\r\nrâce\r\n:7\r\n*2\r\n$1\r\na\r\n$-1\r\n");
+    assert.deepEqual(await connection.command("ZRANGE", "k", 0, -1), ["râce", 7, ["a", null]]);
+  });
+
+  it("waits for replies split across packets, wherever the split falls", async () => {
+    redis.replies.push(["*2\r\n$3\r\nab", "c\r", "\n:1", "2\r\n"], ["$11\r\nhello", " world\r\n"]);
+    assert.deepEqual(await connection.command("ZRANGE", "k", 0, 1), ["abc", 12]);
+    assert.equal(await connection.command("GET", "k"), "hello world");
+  });
+
+  it("hands pipelined replies that arrive together to their commands in order", async () => {
+    redis.replies.push("+first\r\n");
+    const held = connection.command("HOLD");
+    const rest = [connection.command("GET", "a"), connection.command("GET", "b")];
+    // Both later replies land in the same packet as the held one
+    redis.replies.push("+second\r\n:3\r\n");
+    await redis.release();
+    assert.deepEqual(await Promise.all([held, ...rest]), ["first", "second", 3]);
+  });
+
+  it("sends arguments as bulk strings, measuring multi-byte ones in bytes", async () => {
+    redis.replies.push(":1\r\n");
+    await connection.command("ZADD", "presence:race:1", 1_700_000_000, "0xé");
+    assert.deepEqual(redis.commands, [["ZADD", "presence:race:1", "1700000000", "0xé"]]);
+  });
+
+  it("rejects on an error reply and keeps later replies lined up", async () => {
+    redis.replies.push("-WRONGTYPE Operation against a key holding the wrong kind of value\r\n", "+OK\r\n");
+    await assert.rejects(connection.command("ZADD", "k", 1, "m"), (error: Error) => {
+      assert.ok(error instanceof RespReplyError);
+      assert.match(error.message, /^WRONGTYPE/);
+      return true;
+    });
+    assert.equal(await connection.command("PING"), "OK");
+  });
+
+  it("surfaces an error nested in an array only after consuming the whole array", async () => {
+    redis.replies.push("*3\r\n:1\r\n-ERR bad member\r\n:2\r\n", "+PONG\r\n");
+    await assert.rejects(connection.command("EXEC"), /ERR bad member/);
+    assert.equal(await connection.command("PING"), "PONG");
+  });
+
+  it("fails pending commands on a reply it can't read, then reconnects for the next one", async () => {
+    const before = redis.connections;
+    redis.replies.push("?garbage\r\n", "+PONG\r\n");
+    await assert.rejects(connection.command("PING"), /Unexpected RESP reply type "\?"/);
+    assert.equal(await connection.command("PING"), "PONG");
+    // One connection for the first command, a fresh one after the failure
+    assert.equal(redis.connections, before + 2);
+  });
+
+  it("times out a command nobody answers", async () => {
+    await assert.rejects(connection.command("GET", "k"), /Redis GET timed out after 500ms/);
+  });
+
+  it("authenticates and selects the database from the URL before the first command", async () => {
+    connection.close();
+    connection = createRespConnection(redis.url().replace("redis://", "redis://bot:s3cr%40t@") + "/2");
+    redis.replies.push("+OK\r\n", "+OK\r\n", "+PONG\r\n");
+    assert.equal(await connection.command("PING"), "PONG");
+    assert.deepEqual(redis.commands, [["AUTH", "bot", "s3cr@t"], ["SELECT", "2"], ["PING"]]);
+    connection.close();
+  });
+});
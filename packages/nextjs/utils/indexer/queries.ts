@@ -0,0 +1,384 @@
+import {
+  BettorBet,
+  BettorClaim,
+  BettorHistory,
+  RaceHistoryBet,
+  RaceHistoryClaim,
+  RaceHistoryDetail,
+  RaceHistoryFilter,
+  RaceHistoryLane,
+  RaceHistoryOdds,
+  RaceHistoryPage,
+  RaceHistoryRow,
+  RaceHistoryStatus,
+  RaffeCareer,
+  RaffeCareerRace,
+} from "./types";
+import { RaceIndexStore } from "@se-2/indexer/store";
+
+/**
+ * Read-side queries over the indexer store. Results are JSON-ready (see ./types).
+ * Rows come back with bigint integers because the store enables safe integers.
+ */
+
+// Settled and cancelled races as one relation; a race can only ever end one way.
+const ENDED_RACES = `
+  WITH ended AS (
+    SELECT race_id, 'settled' AS status, 0 AS auto, seed, winners, dead_heat_count, block_number
+    FROM race_settled
+    UNION ALL
+    SELECT race_id, 'cancelled' AS status, auto, NULL AS seed, '[]' AS winners, 0 AS dead_heat_count, block_number
+    FROM race_cancelled
+  )`;
+
+// A settled parimutuel race's Win odds come from its pool, not from the odds the bot set
+const poolWinOdds = (raceId: string) => `
+  (SELECT win_odds_bps FROM race_pool_settled ps WHERE ps.race_id = ${raceId}
+    ORDER BY ps.block_number DESC, ps.log_index DESC LIMIT 1)`;
+
+const ROW_COLUMNS = `
+  e.race_id, e.status, e.auto, e.seed, e.winners, e.dead_heat_count, e.block_number AS ended_block,
+  c.block_number AS created_block, c.parimutuel,
+  b.timestamp AS ended_at,
+  (SELECT COALESCE(SUM(amount), 0) FROM bets WHERE bets.race_id = e.race_id) AS pot,
+  (SELECT COUNT(*) FROM bets WHERE bets.race_id = e.race_id) AS bet_count,
+  COALESCE(${poolWinOdds("e.race_id")}, (SELECT win_odds_bps FROM race_probabilities p WHERE p.race_id = e.race_id
+    ORDER BY p.block_number DESC, p.log_index DESC LIMIT 1)) AS win_odds_bps`;
+
+const ROW_JOINS = `
+  FROM ended e
+  LEFT JOIN race_created c ON c.race_id = e.race_id
+  LEFT JOIN blocks b ON b.number = e.block_number`;
+
+const FILTERS = `
+  WHERE (@status IS NULL OR e.status = @status)
+    AND (@deadHeatOnly = 0 OR e.dead_heat_count > 1)
+    AND (@tokenId IS NULL OR EXISTS (
+      SELECT 1 FROM race_lanes l WHERE l.race_id = e.race_id AND l.token_id = @tokenId))`;
+
+type EndedRaceRow = {
+  race_id: bigint;
+  status: RaceHistoryStatus;
+  auto: bigint;
+  seed: string | null;
+  winners: string;
+  dead_heat_count: bigint;
+  ended_block: bigint;
+  created_block: bigint | null;
+  parimutuel: bigint | null;
+  ended_at: bigint | null;
+  pot: bigint;
+  bet_count: bigint;
+  win_odds_bps: string | null;
+};
+
+const parseLanes = (json: string | null): number[] => (json ? (JSON.parse(json) as number[]) : []);
+// NULL for Win / Place / Show bets
+const parseBetLanes = (json: string | null): number[] | null => (json ? (JSON.parse(json) as number[]) : null);
+
+function lanesByRace(store: RaceIndexStore, raceIds: bigint[]): Map<bigint, Map<number, bigint>> {
+  const out = new Map<bigint, Map<number, bigint>>();
+  if (!raceIds.length) return out;
+  const rows = store.db
+    .prepare(
+      `SELECT race_id, lane, token_id FROM race_lanes
+       WHERE race_id IN (SELECT value FROM json_each(?)) ORDER BY block_number, log_index`,
+    )
+    .all(JSON.stringify(raceIds.map(String))) as { race_id: bigint; lane: bigint; token_id: bigint }[];
+  for (const r of rows) {
+    if (!out.has(r.race_id)) out.set(r.race_id, new Map());
+    out.get(r.race_id)!.set(Number(r.lane), r.token_id);
+  }
+  return out;
+}
+
+function toRow(r: EndedRaceRow, lanes: Map<number, bigint> | undefined): RaceHistoryRow {
+  const winners = parseLanes(r.winners);
+  const winOdds = parseLanes(r.win_odds_bps);
+  return {
+    raceId: r.race_id.toString(),
+    status: r.status,
+    autoCancelled: r.auto === 1n,
+    winners,
+    winnerTokenIds: winners.map(l => (lanes?.get(l) ?? 0n).toString()),
+    deadHeatCount: Number(r.dead_heat_count),
+    parimutuel: r.parimutuel === 1n,
+    pot: r.pot.toString(),
+    betCount: Number(r.bet_count),
+    winnerWinOddsBps: winners.map(l => winOdds[l] ?? 0),
+    seed: r.seed,
+    createdBlock: (r.created_block ?? 0n).toString(),
+    endedBlock: r.ended_block.toString(),
+    endedAt: r.ended_at === null ? null : Number(r.ended_at),
+  };
+}
+
+/** Settled / cancelled races, newest first. */
+export function listEndedRaces(store: RaceIndexStore, filter: RaceHistoryFilter): RaceHistoryPage {
+  const params = {
+    status: filter.status ?? null,
+    deadHeatOnly: filter.deadHeatOnly ? 1 : 0,
+    tokenId: filter.tokenId === undefined ? null : BigInt(filter.tokenId),
+    limit: filter.pageSize,
+    offset: (filter.page - 1) * filter.pageSize,
+  };
+
+  const { total } = store.db.prepare(`${ENDED_RACES} SELECT COUNT(*) AS total FROM ended e ${FILTERS}`).get(params) as {
+    total: bigint;
+  };
+  const rows = store.db
+    .prepare(
+      `${ENDED_RACES} SELECT ${ROW_COLUMNS} ${ROW_JOINS} ${FILTERS}
+       ORDER BY e.race_id DESC LIMIT @limit OFFSET @offset`,
+    )
+    .all(params) as EndedRaceRow[];
+  const lanes = lanesByRace(
+    store,
+    rows.map(r => r.race_id),
+  );
+
+  return {
+    races: rows.map(r => toRow(r, lanes.get(r.race_id))),
+    total: Number(total),
+    page: filter.page,
+    pageSize: filter.pageSize,
+    indexedToBlock: store.getCheckpoint()?.blockNumber.toString() ?? null,
+  };
+}
+
+/** Everything indexed about one race; null if the indexer has never seen it. */
+export function getRaceHistory(store: RaceIndexStore, raceId: bigint): RaceHistoryDetail | null {
+  const created = store.db
+    .prepare("SELECT block_number, parimutuel FROM race_created WHERE race_id = ? ORDER BY block_number DESC LIMIT 1")
+    .get(raceId) as { block_number: bigint; parimutuel: bigint } | undefined;
+
+  const ended = store.db
+    .prepare(`${ENDED_RACES} SELECT ${ROW_COLUMNS} ${ROW_JOINS} WHERE e.race_id = ?`)
+    .get(raceId) as EndedRaceRow | undefined;
+
+  if (!created && !ended) return null;
+
+  const probs = store.db
+    .prepare(
+      `SELECT win_prob_bps, place_prob_bps, show_prob_bps, place_odds_bps, show_odds_bps, betting_close_block,
+         COALESCE(${poolWinOdds("p.race_id")}, win_odds_bps) AS win_odds_bps
+       FROM race_probabilities p WHERE race_id = ? ORDER BY block_number DESC, log_index DESC LIMIT 1`,
+    )
+    .get(raceId) as Record<string, string> & { betting_close_block: bigint };
+  const odds: RaceHistoryOdds | null = probs
+    ? {
+        winProbBps: parseLanes(probs.win_prob_bps),
+        placeProbBps: parseLanes(probs.place_prob_bps),
+        showProbBps: parseLanes(probs.show_prob_bps),
+        winOddsBps: parseLanes(probs.win_odds_bps),
+        placeOddsBps: parseLanes(probs.place_odds_bps),
+        showOddsBps: parseLanes(probs.show_odds_bps),
+        bettingCloseBlock: probs.betting_close_block.toString(),
+      }
+    : null;
+
+  const laneRows = store.db
+    .prepare("SELECT lane, token_id, original_owner FROM race_lanes WHERE race_id = ? ORDER BY block_number, log_index")
+    .all(raceId) as { lane: bigint; token_id: bigint; original_owner: string }[];
+  const laneMap = new Map<number, RaceHistoryLane>();
+  for (const l of laneRows) {
+    laneMap.set(Number(l.lane), { lane: Number(l.lane), tokenId: l.token_id.toString(), owner: l.original_owner });
+  }
+  const lanes = [...laneMap.values()].sort((a, b) => a.lane - b.lane);
+
+  const bets = (
+    store.db
+      .prepare(
+        `SELECT bettor, lane, bet_type, lanes, amount, tx_hash, block_number FROM bets
+         WHERE race_id = ? ORDER BY block_number, log_index`,
+      )
+      .all(raceId) as {
+      bettor: string;
+      lane: bigint;
+      bet_type: bigint;
+      lanes: string | null;
+      amount: bigint;
+      tx_hash: string;
+      block_number: bigint;
+    }[]
+  ).map<RaceHistoryBet>(b => ({
+    bettor: b.bettor,
+    lane: Number(b.lane),
+    betType: Number(b.bet_type),
+    lanes: parseBetLanes(b.lanes),
+    amount: b.amount.toString(),
+    txHash: b.tx_hash,
+    blockNumber: b.block_number.toString(),
+  }));
+
+  const claims = (
+    store.db
+      .prepare(
+        `SELECT bettor, amount, expired, tx_hash, block_number FROM claims
+         WHERE race_id = ? ORDER BY block_number, log_index`,
+      )
+      .all(raceId) as { bettor: string; amount: bigint; expired: bigint; tx_hash: string; block_number: bigint }[]
+  ).map<RaceHistoryClaim>(c => ({
+    bettor: c.bettor,
+    amount: c.amount.toString(),
+    expired: c.expired === 1n,
+    txHash: c.tx_hash,
+    blockNumber: c.block_number.toString(),
+  }));
+
+  return {
+    race: ended ? toRow(ended, new Map(lanes.map(l => [l.lane, BigInt(l.tokenId)]))) : null,
+    raceId: raceId.toString(),
+    createdBlock: created?.block_number.toString() ?? null,
+    parimutuel: created?.parimutuel === 1n,
+    odds,
+    lanes,
+    bets,
+    claims,
+  };
+}
+
+/** Every race a raffe was assigned to (RaffeAssigned), newest first, with the owner's own bets on it. */
+export function getRaffeCareer(store: RaceIndexStore, tokenId: bigint): RaffeCareer {
+  const rows = store.db
+    .prepare(
+      `${ENDED_RACES}
+       SELECT l.race_id, l.lane, l.original_owner, e.status, e.auto, e.seed, e.block_number AS ended_block,
+         b.timestamp AS ended_at,
+         (SELECT json_array(COALESCE(${poolWinOdds("l.race_id")}, win_odds_bps), place_odds_bps, show_odds_bps)
+           FROM race_probabilities p
+           WHERE p.race_id = l.race_id ORDER BY p.block_number DESC, p.log_index DESC LIMIT 1) AS odds,
+         (SELECT json_group_array(json_object('betType', bet_type, 'amount', CAST(amount AS TEXT))) FROM bets
+           WHERE bets.race_id = l.race_id AND bets.bettor = l.original_owner AND bets.lane = l.lane
+             AND bets.lanes IS NULL) AS owner_bets
+       FROM race_lanes l
+       LEFT JOIN ended e ON e.race_id = l.race_id
+       LEFT JOIN blocks b ON b.number = e.block_number
+       WHERE l.token_id = ?
+       ORDER BY l.race_id DESC`,
+    )
+    .all(tokenId) as {
+    race_id: bigint;
+    lane: bigint;
+    original_owner: string;
+    status: RaceHistoryStatus | null;
+    auto: bigint | null;
+    seed: string | null;
+    ended_block: bigint | null;
+    ended_at: bigint | null;
+    odds: string | null;
+    owner_bets: string;
+  }[];
+
+  return {
+    tokenId: tokenId.toString(),
+    races: rows.map<RaffeCareerRace>(r => {
+      const odds = r.odds ? (JSON.parse(r.odds) as string[]).map(parseLanes) : null;
+      return {
+        raceId: r.race_id.toString(),
+        lane: Number(r.lane),
+        owner: r.original_owner,
+        status: r.status ?? "open",
+        autoCancelled: r.auto === 1n,
+        seed: r.seed,
+        endedBlock: r.ended_block?.toString() ?? null,
+        endedAt: r.ended_at === null ? null : Number(r.ended_at),
+        odds: odds ? { winOddsBps: odds[0], placeOddsBps: odds[1], showOddsBps: odds[2] } : null,
+        ownerBets: (JSON.parse(r.owner_bets) as { betType: number; amount: string }[]).map(b => ({
+          betType: Number(b.betType),
+          amount: b.amount,
+        })),
+      };
+    }),
+    indexedToBlock: store.getCheckpoint()?.blockNumber.toString() ?? null,
+  };
+}
+
+/**
+ * Every bet and claim of one address, oldest first. Odds are the last set before the bet was placed, or for a
+ * parimutuel Win bet the odds its pool settled at.
+ */
+export function getBettorHistory(store: RaceIndexStore, bettor: string): BettorHistory {
+  const address = bettor.toLowerCase();
+  const bets = store.db
+    .prepare(
+      `${ENDED_RACES}
+       SELECT bets.race_id, bets.lane, bets.bet_type, bets.lanes, bets.amount, bets.tx_hash, bets.block_number,
+         b.timestamp AS placed_at, e.status, e.seed, e.block_number AS ended_block,
+         (SELECT token_id FROM race_lanes l WHERE l.race_id = bets.race_id AND l.lane = bets.lane
+           ORDER BY l.block_number DESC, l.log_index DESC LIMIT 1) AS token_id,
+         -- Exotic odds aren't in any event, so exotic bets get none; parimutuel Win bets get the settled pool odds
+         COALESCE(
+           CASE bets.bet_type WHEN 0 THEN json_extract(${poolWinOdds("bets.race_id")}, '$[' || bets.lane || ']') END,
+           (SELECT json_extract(CASE bets.bet_type WHEN 0 THEN win_odds_bps WHEN 1 THEN place_odds_bps
+               WHEN 2 THEN show_odds_bps END, '$[' || bets.lane || ']')
+             FROM race_probabilities p
+             WHERE p.race_id = bets.race_id
+               AND (p.block_number < bets.block_number
+                 OR (p.block_number = bets.block_number AND p.log_index < bets.log_index))
+             ORDER BY p.block_number DESC, p.log_index DESC LIMIT 1)) AS odds_bps
+       FROM bets
+       LEFT JOIN ended e ON e.race_id = bets.race_id
+       LEFT JOIN blocks b ON b.number = bets.block_number
+       WHERE bets.bettor = ?
+       ORDER BY bets.block_number, bets.log_index`,
+    )
+    .all(address) as {
+    race_id: bigint;
+    lane: bigint;
+    bet_type: bigint;
+    lanes: string | null;
+    amount: bigint;
+    tx_hash: string;
+    block_number: bigint;
+    placed_at: bigint | null;
+    status: RaceHistoryStatus | null;
+    seed: string | null;
+    ended_block: bigint | null;
+    token_id: bigint | null;
+    odds_bps: bigint | null;
+  }[];
+
+  const claims = store.db
+    .prepare(
+      `SELECT c.race_id, c.amount, c.expired, c.tx_hash, c.block_number, b.timestamp AS at
+       FROM claims c LEFT JOIN blocks b ON b.number = c.block_number
+       WHERE c.bettor = ? ORDER BY c.block_number, c.log_index`,
+    )
+    .all(address) as {
+    race_id: bigint;
+    amount: bigint;
+    expired: bigint;
+    tx_hash: string;
+    block_number: bigint;
+    at: bigint | null;
+  }[];
+
+  return {
+    bettor: address,
+    bets: bets.map<BettorBet>(r => ({
+      raceId: r.race_id.toString(),
+      lane: Number(r.lane),
+      tokenId: r.token_id?.toString() ?? null,
+      betType: Number(r.bet_type),
+      lanes: parseBetLanes(r.lanes),
+      amount: r.amount.toString(),
+      oddsBps: r.odds_bps === null ? null : Number(r.odds_bps),
+      txHash: r.tx_hash,
+      blockNumber: r.block_number.toString(),
+      placedAt: r.placed_at === null ? null : Number(r.placed_at),
+      raceStatus: r.status ?? "open",
+      seed: r.seed,
+      raceEndedBlock: r.ended_block?.toString() ?? null,
+    })),
+    claims: claims.map<BettorClaim>(c => ({
+      raceId: c.race_id.toString(),
+      amount: c.amount.toString(),
+      expired: c.expired === 1n,
+      txHash: c.tx_hash,
+      blockNumber: c.block_number.toString(),
+      at: c.at === null ? null : Number(c.at),
+    })),
+    indexedToBlock: store.getCheckpoint()?.blockNumber.toString() ?? null,
+  };
+}
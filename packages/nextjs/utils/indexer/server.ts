@@ -0,0 +1,28 @@
+import { RaceIndexStore, openRaceIndexStore } from "@se-2/indexer/store";
+import fs from "node:fs";
+import path from "node:path";
+
+// `next dev` runs from packages/nextjs; the indexer writes to packages/indexer/data by default.
+const DEFAULT_INDEXER_DB_PATH = "../indexer/data/raffe-race.sqlite";
+
+let cached: { path: string; store: RaceIndexStore } | undefined;
+
+export const indexerDbPath = () => path.resolve(process.env.INDEXER_DB_PATH || DEFAULT_INDEXER_DB_PATH);
+
+/**
+ * Shared read-only handle on the indexer database for API routes.
+ * Returns null until the indexer has created the file, so routes can answer 503 instead of crashing.
+ */
+export function getIndexReadStore(): RaceIndexStore | null {
+  const dbPath = indexerDbPath();
+  if (cached?.path === dbPath) return cached.store;
+  if (!fs.existsSync(dbPath)) return null;
+  cached = { path: dbPath, store: openRaceIndexStore(dbPath, { readonly: true }) };
+  return cached.store;
+}
+
+export const indexerUnavailableResponse = () =>
+  Response.json(
+    { error: "Race history is unavailable: the indexer database was not found. Start it with `yarn indexer:start`." },
+    { status: 503 },
+  );
@@ -0,0 +1,140 @@
+/**
+ * JSON shapes served by the race history API routes (app/api/races/**).
+ * Safe to import from client components: bigint values are decimal strings, small integers are numbers.
+ */
+
+export type RaceHistoryStatus = "settled" | "cancelled";
+
+export type RaceHistoryFilter = {
+  status?: RaceHistoryStatus; // omitted = settled and cancelled
+  deadHeatOnly?: boolean;
+  tokenId?: string; // only races this raffe ran in
+  page: number; // 1-based
+  pageSize: number;
+};
+
+export type RaceHistoryRow = {
+  raceId: string;
+  status: RaceHistoryStatus;
+  autoCancelled: boolean;
+  winners: number[]; // lanes sharing first place; empty for cancelled races
+  winnerTokenIds: string[]; // token in each winning lane, same order as `winners`
+  deadHeatCount: number;
+  parimutuel: boolean; // winners shared the Win pool instead of fixed odds
+  pot: string; // sum of all bets, raw USDC units
+  betCount: number;
+  winnerWinOddsBps: number[]; // win odds of each winning lane, same order as `winners`
+  seed: string | null;
+  createdBlock: string;
+  endedBlock: string; // settlement or cancellation block
+  endedAt: number | null; // unix seconds
+};
+
+export type RaceHistoryPage = {
+  races: RaceHistoryRow[];
+  total: number;
+  page: number;
+  pageSize: number;
+  indexedToBlock: string | null;
+};
+
+export type RaceHistoryLane = {
+  lane: number;
+  tokenId: string;
+  owner: string; // treasury owner for house raffes
+};
+
+export type RaceHistoryBet = {
+  bettor: string;
+  lane: number; // first lane for exotic bets
+  betType: number; // 0 = Win, 1 = Place, 2 = Show, 3 = Exacta, 4 = Quinella, 5 = Trifecta
+  lanes: number[] | null; // exotic bets only: lanes in finishing order as emitted, unused ones 0
+  amount: string;
+  txHash: string;
+  blockNumber: string;
+};
+
+export type RaceHistoryClaim = {
+  bettor: string;
+  amount: string; // paid out, or forfeited when `expired`
+  expired: boolean;
+  txHash: string;
+  blockNumber: string;
+};
+
+export type RaceHistoryOdds = {
+  winProbBps: number[];
+  placeProbBps: number[];
+  showProbBps: number[];
+  winOddsBps: number[];
+  placeOddsBps: number[];
+  showOddsBps: number[];
+  bettingCloseBlock: string;
+};
+
+export type RaceHistoryDetail = {
+  race: RaceHistoryRow | null; // null while the race is still open (not settled or cancelled)
+  raceId: string;
+  createdBlock: string | null;
+  parimutuel: boolean;
+  odds: RaceHistoryOdds | null; // a settled parimutuel race's win odds are its pool odds
+  lanes: RaceHistoryLane[];
+  bets: RaceHistoryBet[];
+  claims: RaceHistoryClaim[];
+};
+
+export type RaffeCareerOwnerBet = {
+  betType: number;
+  amount: string;
+};
+
+export type RaffeCareerRace = {
+  raceId: string;
+  lane: number;
+  owner: string; // who entered the raffe (treasury owner for house raffes)
+  status: RaceHistoryStatus | "open";
+  autoCancelled: boolean;
+  seed: string | null;
+  endedBlock: string | null;
+  endedAt: number | null;
+  odds: Pick<RaceHistoryOdds, "winOddsBps" | "placeOddsBps" | "showOddsBps"> | null;
+  ownerBets: RaffeCareerOwnerBet[]; // bets the entering owner placed on this raffe's lane
+};
+
+export type RaffeCareer = {
+  tokenId: string;
+  races: RaffeCareerRace[]; // newest first
+  indexedToBlock: string | null;
+};
+
+export type BettorBet = {
+  raceId: string;
+  lane: number; // first lane for exotic bets
+  tokenId: string | null; // raffe in the lane, once assigned
+  betType: number;
+  lanes: number[] | null; // exotic bets only (see RaceHistoryBet)
+  amount: string;
+  oddsBps: number | null; // odds for this bet type and lane when the bet was placed; null for exotic bets
+  txHash: string;
+  blockNumber: string;
+  placedAt: number | null;
+  raceStatus: RaceHistoryStatus | "open";
+  seed: string | null;
+  raceEndedBlock: string | null; // settlement block starts the claim expiry window
+};
+
+export type BettorClaim = {
+  raceId: string;
+  amount: string;
+  expired: boolean;
+  txHash: string;
+  blockNumber: string;
+  at: number | null;
+};
+
+export type BettorHistory = {
+  bettor: string;
+  bets: BettorBet[]; // oldest first
+  claims: BettorClaim[]; // oldest first
+  indexedToBlock: string | null;
+};
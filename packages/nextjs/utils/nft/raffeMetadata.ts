@@ -0,0 +1,113 @@
+import { raffePaletteFromSeed } from "./raffePalette";
+import { RAFFE_TRAIT_CATEGORIES, RAFFE_TRAIT_TABLE, raffeTraitsFromSeed } from "./raffeTraits";
+import { effectiveScore } from "@se-2/race-core";
+import type { Hex } from "viem";
+import type { LaneStats, ParsedFinishOrder } from "~~/app/_components/race/types";
+import type { RaffeCareerRace } from "~~/utils/indexer/types";
+
+// OpenSea-style attribute: numeric traits with a max render as bars, plain ones as properties
+export type RaffeMetadataAttribute = {
+  trait_type: string;
+  value: string | number;
+  display_type?: "number";
+  max_value?: number;
+};
+
+export type RaffeMetadata = {
+  name: string;
+  description: string;
+  image: string;
+  attributes: RaffeMetadataAttribute[];
+};
+
+export type RaffeRaceRecord = {
+  starts: number; // settled races only
+  wins: number;
+  places: number; // finished 2nd
+  shows: number; // finished 3rd
+  scratched: number; // assigned to a race that was cancelled
+};
+
+/**
+ * Race record from the indexer's career rows and the on-chain finish orders of the settled ones (keyed by race id).
+ * Dead heats count for every raffe in the tied group, as they do for payouts.
+ */
+export function raffeRaceRecord(
+  races: readonly RaffeCareerRace[],
+  finishOrders: ReadonlyMap<string, ParsedFinishOrder>,
+): RaffeRaceRecord {
+  const record: RaffeRaceRecord = { starts: 0, wins: 0, places: 0, shows: 0, scratched: 0 };
+  for (const race of races) {
+    if (race.status === "cancelled") record.scratched++;
+    const order = race.status === "settled" ? finishOrders.get(race.raceId) : undefined;
+    if (!order) continue;
+    record.starts++;
+    if (order.first.lanes.includes(race.lane)) record.wins++;
+    else if (order.second.lanes.includes(race.lane)) record.places++;
+    else if (order.third.lanes.includes(race.lane)) record.shows++;
+  }
+  return record;
+}
+
+/**
+ * Token metadata for one raffe. Stats use the contract's names; the effective score is the one the race contract
+ * simulates with. The race record is left out when it couldn't be read (no indexer for this chain).
+ */
+export function buildRaffeMetadata({
+  tokenId,
+  name,
+  seed,
+  stats,
+  image,
+  record,
+}: {
+  tokenId: bigint;
+  name: string;
+  seed: Hex;
+  stats: LaneStats;
+  image: string;
+  record: RaffeRaceRecord | null;
+}): RaffeMetadata {
+  const palette = raffePaletteFromSeed(seed);
+  const traits = raffeTraitsFromSeed(seed);
+  const stat = (trait_type: string, value: number): RaffeMetadataAttribute => ({
+    trait_type,
+    value,
+    display_type: "number",
+    max_value: 10,
+  });
+
+  const attributes: RaffeMetadataAttribute[] = [
+    stat("Zip", stats.zip),
+    stat("Moxie", stats.moxie),
+    stat("Hustle", stats.hustle),
+    stat("Effective score", effectiveScore(stats.zip, stats.moxie, stats.hustle)),
+    ...RAFFE_TRAIT_CATEGORIES.map(category => ({
+      trait_type: RAFFE_TRAIT_TABLE[category].label,
+      value: traits[category],
+    })),
+    { trait_type: "Body color", value: palette.body },
+    { trait_type: "Face color", value: palette.faceHighlight },
+    { trait_type: "Spot color", value: palette.spots },
+    { trait_type: "Leg color", value: palette.legs },
+    { trait_type: "Seed", value: seed },
+  ];
+  if (record) {
+    attributes.push(
+      { trait_type: "Starts", value: record.starts, display_type: "number" },
+      { trait_type: "Wins", value: record.wins, display_type: "number" },
+      { trait_type: "Places", value: record.places, display_type: "number" },
+      { trait_type: "Shows", value: record.shows, display_type: "number" },
+      { trait_type: "Scratched", value: record.scratched, display_type: "number" },
+    );
+  }
+
+  return {
+    name: name || `Raffe #${tokenId.toString()}`,
+    description:
+      "A raffe racer from Raffe Race. Appearance is derived deterministically from an on-chain seed; " +
+      "zip, moxie and hustle average into the score it races with.",
+    image,
+    attributes,
+  };
+}
@@ -0,0 +1,255 @@
+import type { Hex } from "viem";
+import { encodePacked, keccak256 } from "viem";
+import { DeterministicDice } from "~~/utils/race/deterministicDice";
+
+/**
+ * Visual traits layered onto the raffe SVG template, rolled from the on-chain seed.
+ *
+ * Traits use their own dice stream (keccak256(seed, "RAFFE_TRAITS_V1")) so adding them left every existing raffe's
+ * colors untouched. The order categories are rolled in and each category's option order are part of the format:
+ * reordering either reshuffles every raffe, so new options go at the end of their list.
+ *
+ * Trait layers are drawn with the template's own colors (body, spots, accents), so `raffePaletteFromSeed`
+ * recolors them along with the rest of the raffe.
+ */
+
+export type RaffeTraitCategory = "spots" | "eyes" | "accessory" | "background";
+
+type TraitOption<Name extends string> = { name: Name; weight: number };
+
+// Weights are relative within a category; rarity = weight / sum of the category's weights
+export const RAFFE_TRAIT_TABLE = {
+  spots: {
+    label: "Spots",
+    options: [
+      { name: "Classic", weight: 45 },
+      { name: "Sparse", weight: 20 },
+      { name: "Dense", weight: 18 },
+      { name: "Rosettes", weight: 12 },
+      { name: "Plain", weight: 5 },
+    ],
+  },
+  eyes: {
+    label: "Eyes",
+    options: [
+      { name: "Bright", weight: 50 },
+      { name: "Sleepy", weight: 20 },
+      { name: "Sparkly", weight: 15 },
+      { name: "Wide", weight: 10 },
+      { name: "Lashes", weight: 5 },
+    ],
+  },
+  accessory: {
+    label: "Accessory",
+    options: [
+      { name: "None", weight: 55 },
+      { name: "Scarf", weight: 12 },
+      { name: "Party hat", weight: 10 },
+      { name: "Sunglasses", weight: 8 },
+      { name: "Flower", weight: 7 },
+      { name: "Crown", weight: 5 },
+      { name: "Monocle", weight: 3 },
+    ],
+  },
+  background: {
+    label: "Background",
+    options: [
+      { name: "None", weight: 45 },
+      { name: "Meadow", weight: 20 },
+      { name: "Sky", weight: 15 },
+      { name: "Sunset", weight: 10 },
+      { name: "Night", weight: 7 },
+      { name: "Gold", weight: 3 },
+    ],
+  },
+} as const satisfies Record<RaffeTraitCategory, { label: string; options: readonly TraitOption<string>[] }>;
+
+// Roll order; part of the format (see above)
+export const RAFFE_TRAIT_CATEGORIES: readonly RaffeTraitCategory[] = ["spots", "eyes", "accessory", "background"];
+
+export type RaffeTraits = {
+  [C in RaffeTraitCategory]: (typeof RAFFE_TRAIT_TABLE)[C]["options"][number]["name"];
+};
+
+function pickWeighted(dice: DeterministicDice, options: readonly TraitOption<string>[]): string {
+  const total = options.reduce((sum, option) => sum + option.weight, 0);
+  // Scale a full 32-bit roll instead of `roll(total)`: with one byte, roll(100) lands on 0-55 half again as often
+  let roll = Number((dice.roll(1n << 32n) * BigInt(total)) >> 32n);
+  for (const option of options) {
+    if (roll < option.weight) return option.name;
+    roll -= option.weight;
+  }
+  return options[options.length - 1]!.name;
+}
+
+export function raffeTraitsFromSeed(seed: Hex): RaffeTraits {
+  const dice = new DeterministicDice(keccak256(encodePacked(["bytes32", "string"], [seed, "RAFFE_TRAITS_V1"])));
+  const traits = {} as Record<RaffeTraitCategory, string>;
+  for (const category of RAFFE_TRAIT_CATEGORIES) {
+    traits[category] = pickWeighted(dice, RAFFE_TRAIT_TABLE[category].options);
+  }
+  return traits as RaffeTraits;
+}
+
+/** Configured chance of one option, 0..1. */
+export function raffeTraitRarity(category: RaffeTraitCategory, name: string): number {
+  const options: readonly TraitOption<string>[] = RAFFE_TRAIT_TABLE[category].options;
+  const total = options.reduce((sum, option) => sum + option.weight, 0);
+  return (options.find(option => option.name === name)?.weight ?? 0) / total;
+}
+
+// ---- SVG layers ----
+// Anchors are exact snippets of public/raffe_animated.svg; a layer whose anchor is missing is skipped, so a
+// re-exported template degrades to the plain raffe rather than broken markup.
+
+const SPOT_RE = /<ellipse [^>]*fill="#c4923a"\/>/g; // 4 on the body, then 4 on the neck
+const LAST_BODY_SPOT = 3;
+const LAST_NECK_SPOT = 7;
+const EYE_WHITE = '<ellipse rx="10" ry="12" transform="translate(178 22)" fill="#fff"/>';
+const EYE_PUPIL = '<circle r="6" transform="translate(182 24)" fill="#223"/>';
+const EYE_HIGHLIGHT = '<circle r="2" transform="translate(184 22)" fill="#fff"/>';
+const LOWER_LID = '<ellipse rx="11" ry="13" transform="matrix(1 0 0 0.197328 178.499978 31.765264)"';
+const BROW = '<path d="M168,12q10-4,22,2"';
+// End of the right ossicone: the last thing drawn in the head group, so accessories sit on top of the head
+const HEAD_END = '<circle r="4" transform="translate(184.5 -8)" fill="#5d4037"/></g>';
+// Start of the head group, right after the neck: scarves go around the neck, under the head
+const HEAD_START = '<g id="e60a9MJyxfl35_tr"';
+const STYLE_END = "]]></style>";
+
+const spot = (rx: number, ry: number, x: number, y: number) =>
+  `<ellipse rx="${rx}" ry="${ry}" transform="translate(${x} ${y})" fill="#c4923a"/>`;
+
+const DENSE_BODY_SPOTS = [spot(6, 5, 130, 108), spot(7, 6, 78, 116), spot(5, 4, 45, 92), spot(5, 4, 138, 92)].join("");
+const DENSE_NECK_SPOTS = [spot(4, 3, 162, 46), spot(5, 4, 144, 88)].join("");
+
+function applySpots(svg: string, spots: RaffeTraits["spots"]): string {
+  let index = -1;
+  return svg.replace(SPOT_RE, match => {
+    index++;
+    switch (spots) {
+      case "Classic":
+        return match;
+      case "Plain":
+        return "";
+      case "Sparse":
+        return index % 2 === 1 ? "" : match;
+      case "Rosettes":
+        return match.replace(/\/>$/, ' stroke="#8b6914" stroke-width="2"/>');
+      case "Dense":
+        if (index === LAST_BODY_SPOT) return match + DENSE_BODY_SPOTS;
+        if (index === LAST_NECK_SPOT) return match + DENSE_NECK_SPOTS;
+        return match;
+    }
+  });
+}
+
+function applyEyes(svg: string, eyes: RaffeTraits["eyes"]): string {
+  switch (eyes) {
+    case "Bright":
+      return svg;
+    case "Sleepy":
+      return svg.replace(
+        LOWER_LID,
+        '<ellipse rx="11" ry="13" transform="matrix(1 0 0 0.55 178.5 14)" fill="#e8b84a"/>' +
+          '<path d="M167.5,20q11,4,22,0" fill="none" stroke="#8b6914" stroke-width="2" stroke-linecap="round"/>' +
+          LOWER_LID,
+      );
+    case "Sparkly":
+      return svg.replace(
+        EYE_HIGHLIGHT,
+        EYE_HIGHLIGHT +
+          '<circle r="1.2" transform="translate(179.5 27)" fill="#fff"/>' +
+          '<circle r="0.8" transform="translate(185.5 26)" fill="#fff"/>',
+      );
+    case "Wide":
+      return svg
+        .replace(EYE_WHITE, '<ellipse rx="11.5" ry="13.5" transform="translate(178 22)" fill="#fff"/>')
+        .replace(EYE_PUPIL, '<circle r="5" transform="translate(182 24)" fill="#223"/>');
+    case "Lashes":
+      return svg.replace(
+        BROW,
+        '<path d="M187,15l4,-3M188,19l5,-1M187,23l4,1" fill="none" stroke="#5d4037" stroke-width="1.5" ' +
+          'stroke-linecap="round"/>' +
+          BROW,
+      );
+  }
+}
+
+const ACCESSORY_LAYERS: Record<Exclude<RaffeTraits["accessory"], "None" | "Scarf">, string> = {
+  "Party hat":
+    '<path d="M165,4L177,-26L189,4Z" fill="#3b82f6"/>' +
+    '<path d="M170,-8H184M174,-18H180" stroke="#fde047" stroke-width="3"/>' +
+    '<circle r="3.5" transform="translate(177 -26)" fill="#fde047"/>',
+  Sunglasses:
+    '<path d="M167,21L152,19" stroke="#111827" stroke-width="2.5" stroke-linecap="round"/>' +
+    '<ellipse rx="12" ry="10" transform="translate(179 23)" fill="#111827"/>' +
+    '<path d="M172,18q4,-4,9,-3" fill="none" stroke="#6b7280" stroke-width="2" stroke-linecap="round"/>',
+  Flower:
+    [
+      [4, 0],
+      [1.24, 3.8],
+      [-3.24, 2.35],
+      [-3.24, -2.35],
+      [1.24, -3.8],
+    ]
+      .map(([dx, dy]) => `<circle r="3.5" transform="translate(${165 + dx} ${2 + dy})" fill="#f472b6"/>`)
+      .join("") + '<circle r="2.5" transform="translate(165 2)" fill="#fde047"/>',
+  Crown:
+    '<path d="M165,2V-14L171,-6L177,-18L183,-6L189,-14V2Z" fill="#f5c518" stroke="#a16207" stroke-width="1.5" ' +
+    'stroke-linejoin="round"/>' +
+    '<circle r="2" transform="translate(177 -3)" fill="#dc2626"/>',
+  Monocle:
+    '<circle r="13" transform="translate(179 23)" fill="none" stroke="#a16207" stroke-width="3"/>' +
+    '<path d="M186,34q4,14,-4,24" fill="none" stroke="#a16207" stroke-width="1.5"/>',
+};
+
+const SCARF_LAYER =
+  '<rect width="8" height="20" rx="3" transform="translate(157 55) rotate(20)" fill="#a93226"/>' +
+  '<rect width="40" height="9" rx="4" transform="translate(164 51) rotate(29) translate(-20 -4.5)" fill="#c0392b"/>';
+
+function applyAccessory(svg: string, accessory: RaffeTraits["accessory"]): string {
+  if (accessory === "None") return svg;
+  if (accessory === "Scarf") return svg.replace(HEAD_START, SCARF_LAYER + HEAD_START);
+  return svg.replace(HEAD_END, HEAD_END + ACCESSORY_LAYERS[accessory]);
+}
+
+// The template's viewBox is "-8 -66 243 247"; the ground line is just under the hooves (y ~175)
+const BACKDROP = 'x="-8" y="-66" width="243" height="247"';
+
+const gradient = (id: string, top: string, bottom: string) =>
+  `<defs><linearGradient id="${id}" x1="0" y1="0" x2="0" y2="1">` +
+  `<stop offset="0" stop-color="${top}"/><stop offset="1" stop-color="${bottom}"/></linearGradient></defs>` +
+  `<rect ${BACKDROP} fill="url(#${id})"/>`;
+
+const BACKGROUND_LAYERS: Record<Exclude<RaffeTraits["background"], "None">, string> = {
+  Meadow: gradient("raffe-bg", "#9fd3ff", "#e3f3ff") + '<rect x="-8" y="168" width="243" height="13" fill="#86c06c"/>',
+  Sky: `<rect ${BACKDROP} fill="#cfe8ff"/>`,
+  Sunset: gradient("raffe-bg", "#f9a8d4", "#fcd34d"),
+  Night:
+    `<rect ${BACKDROP} fill="#1e1b4b"/>` +
+    [
+      [12, -50],
+      [60, -30],
+      [110, -55],
+      [140, -20],
+      [25, 20],
+      [220, 60],
+    ]
+      .map(([x, y]) => `<circle r="1.6" transform="translate(${x} ${y})" fill="#fef9c3"/>`)
+      .join(""),
+  Gold: gradient("raffe-bg", "#fde68a", "#d97706"),
+};
+
+function applyBackground(svg: string, background: RaffeTraits["background"]): string {
+  if (background === "None") return svg;
+  return svg.replace(STYLE_END, STYLE_END + BACKGROUND_LAYERS[background]);
+}
+
+/**
+ * Draw the traits onto the (uncolored) template. Call before palette recoloring. Backgrounds are opt-in: sprites on
+ * the track and in replays must stay transparent.
+ */
+export function applyRaffeTraits(svg: string, traits: RaffeTraits, { background }: { background: boolean }): string {
+  const layered = applyAccessory(applyEyes(applySpots(svg, traits.spots), traits.eyes), traits.accessory);
+  return background ? applyBackground(layered, traits.background) : layered;
+}
@@ -0,0 +1,44 @@
+import type { Hex } from "viem";
+import { DEFAULT_RAFFE_PALETTE, raffePaletteFromSeed } from "~~/utils/nft/raffePalette";
+import { applyRaffeTraits, raffeTraitsFromSeed } from "~~/utils/nft/raffeTraits";
+
+/**
+ * Turn the raffe SVG template into one specific raffe: trait layers first (drawn in template colors), then the
+ * seed's palette over everything. Shared by `RaffeAnimated` in the browser and `renderRaffeSvg` on the server so
+ * a raffe looks the same on the track, on its profile and on marketplaces.
+ */
+export function styleRaffeSvg(template: string, seed: Hex, { background }: { background: boolean }): string {
+  const layered = applyRaffeTraits(template, raffeTraitsFromSeed(seed), { background });
+  const palette = raffePaletteFromSeed(seed);
+
+  // Map "old" (template) colors -> "new" (palette) colors: direct fill/stroke replacement.
+  return applyHexReplacements(layered, {
+    [DEFAULT_RAFFE_PALETTE.body]: palette.body,
+    [DEFAULT_RAFFE_PALETTE.faceHighlight]: palette.faceHighlight,
+    [DEFAULT_RAFFE_PALETTE.legs]: palette.legs,
+    [DEFAULT_RAFFE_PALETTE.tailStroke]: palette.tailStroke,
+    [DEFAULT_RAFFE_PALETTE.tailBall]: palette.tailBall,
+    [DEFAULT_RAFFE_PALETTE.spots]: palette.spots,
+    [DEFAULT_RAFFE_PALETTE.accentDark]: palette.accentDark,
+    [DEFAULT_RAFFE_PALETTE.feet]: palette.feet,
+    [DEFAULT_RAFFE_PALETTE.hornCircles]: palette.hornCircles,
+    [DEFAULT_RAFFE_PALETTE.eyePupil]: palette.eyePupil,
+    [DEFAULT_RAFFE_PALETTE.eyeWhite]: palette.eyeWhite,
+  });
+}
+
+function applyHexReplacements(svg: string, replacements: Record<string, string>): string {
+  let out = svg;
+  for (const [from, to] of Object.entries(replacements)) {
+    if (!from || !to) continue;
+    if (from.toLowerCase() === to.toLowerCase()) continue;
+    // Negative lookahead (?![0-9a-fA-F]) prevents short hex colors like #223
+    // from matching inside longer colors like #2234bf
+    out = out.replace(new RegExp(escapeRegExp(from) + "(?![0-9a-fA-F])", "gi"), to);
+  }
+  return out;
+}
+
+function escapeRegExp(s: string): string {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
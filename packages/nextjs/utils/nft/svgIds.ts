@@ -0,0 +1,70 @@
+/**
+ * Helpers for inlining several copies of the raffe SVG into one document (the live track, replay exports):
+ * every copy needs its own ids, or clip paths, masks and CSS animations would all resolve to the first one.
+ */
+
+export function decodeEmbeddedCssImport(svg: string): string {
+  // The exported SVG uses a base64 CSS @import inside <style><![CDATA[ ... ]]></style>.
+  // We decode it so we can safely prefix ids (SVGR-style) without dealing with base64 rewriting.
+  const re = /@import\s+"data:text\/css;base64,([^"]+)";/;
+  const match = svg.match(re);
+  if (!match) return svg;
+
+  const base64 = match[1] ?? "";
+  let decoded = "";
+  try {
+    decoded = globalThis.atob(base64);
+  } catch {
+    return svg; // fall back to original if decode fails
+  }
+
+  return svg.replace(re, decoded);
+}
+
+export function prefixSvgIds(svg: string, prefix: string): string {
+  // Collect ids.
+  const ids = new Set<string>();
+  svg.replace(/\bid="([^"]+)"/g, (_, id: string) => {
+    ids.add(id);
+    return "";
+  });
+
+  if (ids.size === 0) return svg;
+
+  const map = new Map<string, string>();
+  for (const id of ids) {
+    map.set(id, `${prefix}-${id}`);
+  }
+
+  let out = svg;
+
+  // Replace id="..."
+  out = out.replace(/\bid="([^"]+)"/g, (full, id: string) => {
+    const next = map.get(id);
+    return next ? `id="${next}"` : full;
+  });
+
+  // Replace url(#...)
+  out = out.replace(/url\(#([^)]+)\)/g, (full, id: string) => {
+    const next = map.get(id);
+    return next ? `url(#${next})` : full;
+  });
+
+  // Replace href="#..." and xlink:href="#..."
+  out = out.replace(/\b(xlink:href|href)="#([^"]+)"/g, (full, attr: string, id: string) => {
+    const next = map.get(id);
+    return next ? `${attr}="#${next}"` : full;
+  });
+
+  // Replace occurrences of "#id" (CSS selectors, etc). We only replace known ids, using a boundary.
+  for (const [id, next] of map.entries()) {
+    const re = new RegExp(`#${escapeRegExp(id)}(?![A-Za-z0-9_-])`, "g");
+    out = out.replace(re, `#${next}`);
+  }
+
+  return out;
+}
+
+function escapeRegExp(s: string): string {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
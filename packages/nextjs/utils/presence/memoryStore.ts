@@ -0,0 +1,39 @@
+import type { PresenceCounts, PresenceHeartbeat, PresenceStore } from "./types";
+
+/**
+ * Presence kept in this process. Right for `next dev` and single-instance deployments; with several serverless
+ * instances each one only sees its own visitors, so use the Redis store there.
+ */
+export function createMemoryPresenceStore({ ttlMs }: { ttlMs: number }): PresenceStore {
+  const visitors = new Map<string, PresenceHeartbeat & { lastSeen: number }>();
+
+  const prune = (now: number) => {
+    for (const [id, visitor] of visitors) {
+      if (now - visitor.lastSeen > ttlMs) visitors.delete(id);
+    }
+  };
+
+  return {
+    heartbeat: async (beat, now) => {
+      visitors.set(beat.visitorId, { ...beat, lastSeen: now });
+      prune(now);
+    },
+    counts: async ({ page, raceId }, now) => {
+      prune(now);
+      const counts: PresenceCounts = {
+        online: visitors.size,
+        bettorsOnline: 0,
+        onPage: page ? 0 : null,
+        watchingRace: raceId ? 0 : null,
+      };
+      const wallets = new Set<string>();
+      for (const visitor of visitors.values()) {
+        if (visitor.wallet) wallets.add(visitor.wallet);
+        if (page && visitor.page === page) counts.onPage!++;
+        if (raceId && visitor.raceId === raceId) counts.watchingRace!++;
+      }
+      counts.bettorsOnline = wallets.size;
+      return counts;
+    },
+  };
+}
@@ -0,0 +1,69 @@
+import type { RespConnection } from "./resp";
+import type { PresenceHeartbeat, PresenceStore } from "./types";
+
+/**
+ * Presence in Redis, shared by every server instance. Each audience is a sorted set of members scored by their
+ * last heartbeat, so counting is one ZCOUNT over the live window:
+ *
+ *   <prefix>:visitors        visitor ids
+ *   <prefix>:wallets         connected wallets (one per wallet, however many tabs)
+ *   <prefix>:wallet:<addr>   visitor ids connected with a wallet
+ *   <prefix>:page:<path>     visitor ids on a page
+ *   <prefix>:race:<raceId>   visitor ids watching a race
+ *   <prefix>:visitor:<id>    the visitor's latest page, race and wallet, to take them out of the old sets when they
+ *                            move or disconnect
+ *
+ * A wallet leaves `wallets` as soon as no live visitor reports it, the same as the in-memory store.
+ * Stale members are trimmed on every heartbeat and idle sets expire on their own.
+ */
+export function createRedisPresenceStore(
+  connection: RespConnection,
+  { ttlMs, prefix = "raffe:presence" }: { ttlMs: number; prefix?: string },
+): PresenceStore {
+  const key = (...parts: string[]) => [prefix, ...parts].join(":");
+  const cmd = connection.command;
+
+  // Record `member` in a set and drop whoever went quiet; the set outlives its last member by one window
+  const touch = (setKey: string, member: string, now: number) => [
+    cmd("ZADD", setKey, now, member),
+    cmd("ZREMRANGEBYSCORE", setKey, "-inf", `(${now - ttlMs}`),
+    cmd("PEXPIRE", setKey, ttlMs * 2),
+  ];
+  const countSince = async (setKey: string, now: number) => Number(await cmd("ZCOUNT", setKey, now - ttlMs, "+inf"));
+
+  return {
+    heartbeat: async ({ visitorId, page, raceId, wallet }: PresenceHeartbeat, now) => {
+      const where = JSON.stringify({ page, raceId, wallet });
+      const previousRaw = await cmd("SET", key("visitor", visitorId), where, "PX", ttlMs, "GET");
+      const previous =
+        typeof previousRaw === "string"
+          ? (JSON.parse(previousRaw) as Partial<Pick<PresenceHeartbeat, "page" | "raceId" | "wallet">>)
+          : null;
+
+      const writes = [...touch(key("visitors"), visitorId, now), ...touch(key("page", page), visitorId, now)];
+      if (wallet) writes.push(...touch(key("wallets"), wallet, now), ...touch(key("wallet", wallet), visitorId, now));
+      if (raceId) writes.push(...touch(key("race", raceId), visitorId, now));
+      if (previous?.page && previous.page !== page) writes.push(cmd("ZREM", key("page", previous.page), visitorId));
+      if (previous?.raceId && previous.raceId !== raceId) {
+        writes.push(cmd("ZREM", key("race", previous.raceId), visitorId));
+      }
+      const droppedWallet = previous?.wallet && previous.wallet !== wallet ? previous.wallet : null;
+      if (droppedWallet) writes.push(cmd("ZREM", key("wallet", droppedWallet), visitorId));
+      await Promise.all(writes);
+
+      // Another tab may still be connected with the wallet this visitor just dropped
+      if (droppedWallet && (await countSince(key("wallet", droppedWallet), now)) === 0) {
+        await cmd("ZREM", key("wallets"), droppedWallet);
+      }
+    },
+    counts: async ({ page, raceId }, now) => {
+      const [online, bettorsOnline, onPage, watchingRace] = await Promise.all([
+        countSince(key("visitors"), now),
+        countSince(key("wallets"), now),
+        page ? countSince(key("page", page), now) : null,
+        raceId ? countSince(key("race", raceId), now) : null,
+      ]);
+      return { online, bettorsOnline, onPage, watchingRace };
+    },
+  };
+}
@@ -0,0 +1,165 @@
+import net from "node:net";
+import tls from "node:tls";
+
+/**
+ * Minimal Redis-protocol (RESP2) client: one pipelined connection, commands answered in order. Enough for the few
+ * sorted-set commands presence needs, against Redis or anything that speaks its protocol (Valkey, KeyDB, Upstash's
+ * TCP endpoint), without pulling a client library into the Next.js bundle.
+ *
+ * The connection opens on the first command and is re-opened after any error; commands in flight when it drops
+ * are rejected rather than retried.
+ */
+
+export type RespValue = string | number | null | RespValue[];
+
+/** An error reply (`-ERR ...`) from the server. */
+export class RespReplyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RespReplyError";
+  }
+}
+
+export type RespConnection = {
+  command: (...args: (string | number)[]) => Promise<RespValue>;
+  close: () => void;
+};
+
+type Pending = { resolve: (value: RespValue) => void; reject: (error: Error) => void };
+
+const CRLF = "\r\n";
+
+const encodeCommand = (args: readonly (string | number)[]) =>
+  `*${args.length}${CRLF}` + args.map(arg => `$${Buffer.byteLength(String(arg))}${CRLF}${String(arg)}${CRLF}`).join("");
+
+/**
+ * Read one reply starting at `offset`. Returns undefined while the buffer doesn't hold a whole reply yet, so the
+ * caller can wait for more data and try again from the same offset.
+ */
+function parseReply(buffer: Buffer, offset: number): { value: RespValue | RespReplyError; next: number } | undefined {
+  const lineEnd = buffer.indexOf(CRLF, offset);
+  if (lineEnd === -1) return undefined;
+  const type = String.fromCharCode(buffer[offset]!);
+  const line = buffer.toString("utf8", offset + 1, lineEnd);
+  const afterLine = lineEnd + 2;
+
+  switch (type) {
+    case "+":
+      return { value: line, next: afterLine };
+    case "-":
+      return { value: new RespReplyError(line), next: afterLine };
+    case ":":
+      return { value: Number(line), next: afterLine };
+    case "$": {
+      const length = Number(line);
+      if (length === -1) return { value: null, next: afterLine };
+      if (buffer.length < afterLine + length + 2) return undefined;
+      return { value: buffer.toString("utf8", afterLine, afterLine + length), next: afterLine + length + 2 };
+    }
+    case "*": {
+      const count = Number(line);
+      if (count === -1) return { value: null, next: afterLine };
+      const items: RespValue[] = [];
+      // An error nested in an array (EXEC) surfaces as the whole reply's error, once the array is consumed
+      let nestedError: RespReplyError | undefined;
+      let next = afterLine;
+      for (let i = 0; i < count; i++) {
+        const item = parseReply(buffer, next);
+        if (!item) return undefined;
+        if (item.value instanceof RespReplyError) nestedError ??= item.value;
+        else items.push(item.value);
+        next = item.next;
+      }
+      return { value: nestedError ?? items, next };
+    }
+    default:
+      throw new Error(`Unexpected RESP reply type ${JSON.stringify(type)}`);
+  }
+}
+
+/**
+ * Connection for a `redis://[user:password@]host[:port][/db]` URL (`rediss://` for TLS). Each command fails if
+ * no reply arrives within `timeoutMs`.
+ */
+export function createRespConnection(url: string, { timeoutMs = 2_000 }: { timeoutMs?: number } = {}): RespConnection {
+  const parsed = new URL(url);
+  if (parsed.protocol !== "redis:" && parsed.protocol !== "rediss:") {
+    throw new Error(`Unsupported Redis URL protocol ${parsed.protocol}`);
+  }
+  const host = parsed.hostname || "127.0.0.1";
+  const port = Number(parsed.port || 6379);
+  const username = decodeURIComponent(parsed.username);
+  const password = decodeURIComponent(parsed.password);
+  const db = parsed.pathname.replace(/^\//, "");
+
+  let socket: net.Socket | null = null;
+  let buffer: Buffer = Buffer.alloc(0);
+  const pending: Pending[] = [];
+
+  const fail = (error: Error) => {
+    socket?.destroy();
+    socket = null;
+    buffer = Buffer.alloc(0);
+    for (const waiter of pending.splice(0)) waiter.reject(error);
+  };
+
+  const onData = (chunk: Buffer) => {
+    buffer = buffer.length ? Buffer.concat([buffer, chunk]) : chunk;
+    let offset = 0;
+    try {
+      for (let reply = parseReply(buffer, offset); reply; reply = parseReply(buffer, offset)) {
+        offset = reply.next;
+        const waiter = pending.shift();
+        if (!waiter) continue;
+        if (reply.value instanceof RespReplyError) waiter.reject(reply.value);
+        else waiter.resolve(reply.value);
+      }
+    } catch (error) {
+      fail(error as Error);
+      return;
+    }
+    buffer = buffer.subarray(offset);
+  };
+
+  const send = (args: readonly (string | number)[]) =>
+    new Promise<RespValue>((resolve, reject) => {
+      const timer = setTimeout(() => fail(new Error(`Redis ${args[0]} timed out after ${timeoutMs}ms`)), timeoutMs);
+      pending.push({
+        resolve: value => {
+          clearTimeout(timer);
+          resolve(value);
+        },
+        reject: error => {
+          clearTimeout(timer);
+          reject(error);
+        },
+      });
+      socket!.write(encodeCommand(args));
+    });
+
+  const connect = () => {
+    const options = { host, port };
+    const next = parsed.protocol === "rediss:" ? tls.connect({ ...options, servername: host }) : net.connect(options);
+    next.setNoDelay(true);
+    next.on("data", onData);
+    next.on("error", error => socket === next && fail(error));
+    next.on("close", () => socket === next && fail(new Error("Redis connection closed")));
+    socket = next;
+
+    // Queued ahead of the caller's command. Their replies are dropped: if AUTH fails, the server answers the
+    // caller's command with NOAUTH, which says more than a failed AUTH would
+    if (password) send(username ? ["AUTH", username, password] : ["AUTH", password]).catch(() => undefined);
+    if (db) send(["SELECT", db]).catch(() => undefined);
+  };
+
+  return {
+    command: (...args) => {
+      if (!socket) connect();
+      return send(args);
+    },
+    close: () => {
+      socket?.end();
+      socket = null;
+    },
+  };
+}
@@ -0,0 +1,24 @@
+import { createMemoryPresenceStore } from "./memoryStore";
+import { createRedisPresenceStore } from "./redisStore";
+import { createRespConnection } from "./resp";
+import type { PresenceStore } from "./types";
+
+// A visitor stays counted this long after its last heartbeat (3 missed heartbeats at the dashboard's 5s interval)
+export const PRESENCE_TTL_MS = 15_000;
+
+// Kept on globalThis so dev-mode module reloads reuse the same visitors (and Redis connection)
+const globalForPresence = globalThis as typeof globalThis & { __raffePresenceStore?: PresenceStore };
+
+/**
+ * The process-wide presence store: Redis when PRESENCE_REDIS_URL is set (needed for correct counts across
+ * serverless instances), otherwise this process's memory.
+ */
+export function getPresenceStore(): PresenceStore {
+  if (!globalForPresence.__raffePresenceStore) {
+    const redisUrl = process.env.PRESENCE_REDIS_URL;
+    globalForPresence.__raffePresenceStore = redisUrl
+      ? createRedisPresenceStore(createRespConnection(redisUrl), { ttlMs: PRESENCE_TTL_MS })
+      : createMemoryPresenceStore({ ttlMs: PRESENCE_TTL_MS });
+  }
+  return globalForPresence.__raffePresenceStore;
+}
@@ -0,0 +1,24 @@
+// Shapes shared by /api/presence, its storage backends and usePresenceHeartbeat.
+
+export type PresenceHeartbeat = {
+  visitorId: string; // random per browser session
+  page: string; // pathname, no query
+  raceId: string | null; // race being watched, if the page shows one
+  wallet: string | null; // connected wallet, lowercase
+};
+
+export type PresenceCounts = {
+  online: number; // visitors with a recent heartbeat, anywhere on the site
+  bettorsOnline: number; // distinct connected wallets among them
+  onPage: number | null; // visitors on the asked-about page
+  watchingRace: number | null; // visitors whose latest heartbeat was for the asked-about race
+};
+
+/**
+ * Where heartbeats live. A visitor counts until `ttlMs` after its last heartbeat; a new heartbeat replaces its
+ * previous page and race, so moving between races moves the visitor.
+ */
+export type PresenceStore = {
+  heartbeat: (beat: PresenceHeartbeat, now: number) => Promise<void>;
+  counts: (scope: { page?: string | null; raceId?: string | null }, now: number) => Promise<PresenceCounts>;
+};
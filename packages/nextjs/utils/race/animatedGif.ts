@@ -0,0 +1,99 @@
+/**
+ * Joins single-frame GIFs (as sharp encodes them) into one looping animated GIF.
+ *
+ * sharp 0.33 can only write an animation from an animated input, so frames are encoded one by one and stitched
+ * here. Each frame keeps its own palette (moved into a local color table), which also avoids banding that a single
+ * shared palette would cause across the whole clip.
+ */
+export function joinGifFrames(frames: readonly Buffer[], delaysMs: readonly number[], loop = 0): Buffer {
+  if (frames.length === 0) throw new Error("joinGifFrames needs at least one frame");
+  const parsed = frames.map(parseGif);
+  const { width, height } = parsed[0];
+
+  const chunks: Buffer[] = [
+    Buffer.from("GIF89a", "ascii"),
+    // Logical screen: no global color table, 8-bit color resolution
+    Buffer.from([width & 0xff, width >> 8, height & 0xff, height >> 8, 0x70, 0, 0]),
+    // NETSCAPE2.0 application extension: loop count (0 = forever)
+    Buffer.from([0x21, 0xff, 0x0b, ...Buffer.from("NETSCAPE2.0", "ascii"), 0x03, 0x01, loop & 0xff, loop >> 8, 0]),
+  ];
+
+  parsed.forEach((frame, i) => {
+    const delayCs = Math.max(2, Math.round((delaysMs[i] ?? delaysMs[delaysMs.length - 1] ?? 100) / 10));
+    // Graphic control extension: dispose "do not dispose", no transparency
+    chunks.push(Buffer.from([0x21, 0xf9, 0x04, 0x04, delayCs & 0xff, delayCs >> 8, 0, 0]));
+
+    const descriptor = Buffer.from(frame.descriptor);
+    const colorTable = frame.localColorTable ?? frame.globalColorTable;
+    if (!colorTable) throw new Error(`GIF frame ${i} has no color table`);
+    const tableBits = Math.log2(colorTable.length / 3) - 1;
+    // Packed field: local table present, keep interlace flag, table size
+    descriptor[9] = 0x80 | (descriptor[9] & 0x40) | tableBits;
+    chunks.push(descriptor, colorTable, frame.imageData);
+  });
+
+  chunks.push(Buffer.from([0x3b]));
+  return Buffer.concat(chunks);
+}
+
+type ParsedGifFrame = {
+  width: number;
+  height: number;
+  globalColorTable: Buffer | null;
+  descriptor: Buffer; // 10 bytes, starting with the 0x2c separator
+  localColorTable: Buffer | null;
+  imageData: Buffer; // LZW minimum code size plus data sub-blocks, including the terminator
+};
+
+/** Reads the first image of a GIF, skipping any extensions. */
+function parseGif(gif: Buffer): ParsedGifFrame {
+  const signature = gif.toString("ascii", 0, 6);
+  if (signature !== "GIF87a" && signature !== "GIF89a") throw new Error("Not a GIF");
+
+  const width = gif.readUInt16LE(6);
+  const height = gif.readUInt16LE(8);
+  const screenFlags = gif[10];
+  let offset = 13;
+  let globalColorTable: Buffer | null = null;
+  if (screenFlags & 0x80) {
+    const size = 3 * 2 ** ((screenFlags & 0x07) + 1);
+    globalColorTable = gif.subarray(offset, offset + size);
+    offset += size;
+  }
+
+  const skipSubBlocks = (from: number) => {
+    let at = from;
+    while (gif[at] !== 0) at += gif[at] + 1;
+    return at + 1;
+  };
+
+  while (offset < gif.length) {
+    const separator = gif[offset];
+    if (separator === 0x21) {
+      offset = skipSubBlocks(offset + 2);
+    } else if (separator === 0x2c) {
+      const descriptor = gif.subarray(offset, offset + 10);
+      const imageFlags = descriptor[9];
+      offset += 10;
+      let localColorTable: Buffer | null = null;
+      if (imageFlags & 0x80) {
+        const size = 3 * 2 ** ((imageFlags & 0x07) + 1);
+        localColorTable = gif.subarray(offset, offset + size);
+        offset += size;
+      }
+      const dataStart = offset;
+      offset = skipSubBlocks(offset + 1);
+      return {
+        width,
+        height,
+        globalColorTable,
+        descriptor,
+        localColorTable,
+        imageData: gif.subarray(dataStart, offset),
+      };
+    } else {
+      break;
+    }
+  }
+  throw new Error("GIF has no image");
+}
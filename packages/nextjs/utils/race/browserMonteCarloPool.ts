@@ -0,0 +1,27 @@
+import { MonteCarloPool, createMcWorker, createMonteCarloPool } from "@se-2/race-core";
+
+/**
+ * Monte Carlo pool backed by Web Workers. Client-side only.
+ * Defaults to one worker per core minus one, leaving the main thread for rendering.
+ */
+export function createBrowserMonteCarloPool(
+  size = Math.max(1, (globalThis.navigator?.hardwareConcurrency ?? 2) - 1),
+  shardSize?: number,
+): MonteCarloPool {
+  return createMonteCarloPool({
+    size,
+    shardSize,
+    createWorker: () => {
+      const worker = new Worker(new URL("./monteCarlo.worker.ts", import.meta.url), { type: "module" });
+      return createMcWorker({
+        postMessage: msg => worker.postMessage(msg),
+        onMessage: cb => worker.addEventListener("message", ev => cb(ev.data)),
+        onError: cb => {
+          worker.addEventListener("error", ev => cb(ev.error ?? new Error(ev.message)));
+          worker.addEventListener("messageerror", () => cb(new Error("Monte Carlo worker sent an unreadable message")));
+        },
+        terminate: () => worker.terminate(),
+      });
+    },
+  });
+}
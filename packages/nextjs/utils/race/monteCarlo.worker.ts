@@ -0,0 +1,9 @@
+import { McWorkerRequest, handleMcWorkerRequest } from "@se-2/race-core";
+
+// Web Worker entrypoint for createBrowserMonteCarloPool(). One shard per message, replies in order.
+const ctx = self as unknown as {
+  onmessage: ((ev: MessageEvent<McWorkerRequest>) => void) | null;
+  postMessage: (msg: unknown) => void;
+};
+
+ctx.onmessage = ev => ctx.postMessage(handleMcWorkerRequest(ev.data));
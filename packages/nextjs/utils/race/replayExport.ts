@@ -0,0 +1,267 @@
+import { joinGifFrames } from "./animatedGif";
+import { FinishOrder } from "@se-2/race-core";
+import sharp from "sharp";
+import {
+  BASE_REPLAY_SPEED_MULTIPLIER,
+  FINISH_LINE_X,
+  LANE_COUNT,
+  PX_PER_UNIT,
+  RAFFE_SIZE_PX,
+  TRACK_BASE_Y_PX,
+  TRACK_HEIGHT_PX,
+  TRACK_LENGTH,
+  TRACK_VERTICAL_SPREAD_PX,
+  WORLD_PADDING_LEFT_PX,
+  WORLD_PADDING_RIGHT_PX,
+  WORLD_WIDTH_PX,
+} from "~~/app/_components/race/constants";
+import { decodeEmbeddedCssImport, prefixSvgIds } from "~~/utils/nft/svgIds";
+
+export type ReplayRunner = {
+  lane: number;
+  tokenId: bigint;
+  name: string;
+  svg: string; // seed-colored sprite from renderRaffeSvg
+};
+
+export type RaceReplay = {
+  raceId: bigint;
+  frames: number[][]; // distances per tick, frames[0] is the start
+  finishOrder: FinishOrder;
+  runners: ReplayRunner[];
+};
+
+// Same pacing as the track at 1x: one simulation tick every 120 / BASE_REPLAY_SPEED_MULTIPLIER ms
+const TICK_MS = 120 / BASE_REPLAY_SPEED_MULTIPLIER;
+const START_HOLD_MS = 800;
+const FINISH_HOLD_MS = 3500;
+// Sprites gallop this many times faster than the template's 2s cycle while racing (the track uses 2-5x)
+const GALLOP_SPEED = 3;
+
+// Camera viewport in track pixels (the mobile track dimensions) and the size the SVG asks to be shown at
+const VIEW_WIDTH = 720;
+const VIEW_HEIGHT = TRACK_HEIGHT_PX;
+const OUTPUT_WIDTH = 960;
+
+// The GIF covers the last stretch of the race at two rendered frames per tick, then holds on the result
+const GIF_WIDTH = 600;
+const GIF_FINISH_TICKS = 24;
+const GIF_SUBFRAMES_PER_TICK = 2;
+
+const MEDALS = [
+  { label: "1st", color: "#eab308" },
+  { label: "2nd", color: "#9ca3af" },
+  { label: "3rd", color: "#b45309" },
+] as const;
+
+const escapeXml = (s: string) =>
+  s.replace(/[<>&"']/g, c => ({ "<": "&lt;", ">": "&gt;", "&": "&amp;", '"': "&quot;", "'": "&apos;" })[c] ?? c);
+const round = (n: number) => Math.round(n * 10) / 10;
+
+const laneY = (lane: number) =>
+  TRACK_BASE_Y_PX - TRACK_VERTICAL_SPREAD_PX / 2 + (lane / (LANE_COUNT - 1)) * TRACK_VERTICAL_SPREAD_PX;
+// A raffe's nose sits at its distance, like on the track
+const noseX = (distance: number) => WORLD_PADDING_LEFT_PX + Math.max(0, distance) * PX_PER_UNIT;
+
+/**
+ * Keep the pack centered and the leader in view. Runners keep going until the last one crosses, so the world
+ * extends past the track's right padding far enough to hold the leader's final position.
+ */
+function cameraX(distances: readonly number[], worldWidth: number): number {
+  const xs = distances.map(noseX);
+  const leader = Math.max(...xs);
+  const average = xs.reduce((sum, x) => sum + x, 0) / Math.max(1, xs.length);
+  const follow = Math.max(average - RAFFE_SIZE_PX / 2 - VIEW_WIDTH / 2, leader - (VIEW_WIDTH - 24));
+  return Math.max(0, Math.min(worldWidth - VIEW_WIDTH, follow));
+}
+
+const worldWidthOf = ({ frames }: RaceReplay) =>
+  Math.max(WORLD_WIDTH_PX, noseX(Math.max(...frames[frames.length - 1])) + WORLD_PADDING_RIGHT_PX);
+
+function distancesAt(frames: readonly number[][], position: number): number[] {
+  const i = Math.max(0, Math.min(frames.length - 1, Math.floor(position)));
+  const next = frames[Math.min(frames.length - 1, i + 1)];
+  const t = position - i;
+  return frames[i].map((d, lane) => d + (next[lane] - d) * t);
+}
+
+/** Sprite with ids namespaced per lane and, when animated, the gallop sped up; drawn with its nose at (0, 0). */
+function spriteSvg(runner: ReplayRunner, animated: boolean): string {
+  let svg = prefixSvgIds(decodeEmbeddedCssImport(runner.svg), `replay-lane-${runner.lane}`)
+    .replace(/<\?xml[^>]*>/, "")
+    .trim();
+  svg = animated
+    ? svg.replace(
+        /(\d+)ms linear infinite/g,
+        (_, ms: string) => `${Math.round(Number(ms) / GALLOP_SPEED)}ms linear infinite`,
+      )
+    : svg.replace(/<style>[\s\S]*?<\/style>/g, "");
+  return svg.replace(
+    /^<svg\b/,
+    `<svg x="${-RAFFE_SIZE_PX}" y="${-RAFFE_SIZE_PX / 2}" width="${RAFFE_SIZE_PX}" height="${RAFFE_SIZE_PX}"`,
+  );
+}
+
+function runnerSvg(runner: ReplayRunner, animated: boolean): string {
+  const size = RAFFE_SIZE_PX;
+  return (
+    spriteSvg(runner, animated) +
+    `<text x="5" y="${round(-size / 2 + size * 0.1 + 10)}" class="name">${escapeXml(runner.name)}</text>`
+  );
+}
+
+/** Ground, start and finish lines and distance markers, in world coordinates. */
+function trackSvg(worldWidth: number): string {
+  const markers = Array.from({ length: Math.floor(TRACK_LENGTH / 100) - 1 }, (_, i) => {
+    const x = noseX((i + 1) * 100);
+    return (
+      `<rect x="${x}" y="0" width="2" height="${TRACK_HEIGHT_PX}" fill="#fff" opacity="0.2"/>` +
+      `<text x="${x + 6}" y="${TRACK_HEIGHT_PX - 8}" class="marker">${(i + 1) * 100}</text>`
+    );
+  }).join("");
+  const texture = Array.from({ length: 14 }, (_, i) => {
+    const y = round((i / 13) * TRACK_HEIGHT_PX);
+    return `<rect x="0" y="${y}" width="${worldWidth}" height="1" fill="#000" opacity="${round(0.08 + (i / 13) * 0.12)}"/>`;
+  }).join("");
+
+  return (
+    `<rect x="0" y="0" width="${worldWidth}" height="${TRACK_HEIGHT_PX}" fill="url(#replay-ground)"/>` +
+    texture +
+    markers +
+    `<rect x="${WORLD_PADDING_LEFT_PX}" y="0" width="4" height="${TRACK_HEIGHT_PX}" fill="#fff" opacity="0.4"/>` +
+    `<rect x="${FINISH_LINE_X}" y="0" width="6" height="${TRACK_HEIGHT_PX}" fill="url(#replay-finish)"/>`
+  );
+}
+
+/** End card: the scene dimmed behind a centered podium. Dead heats list every lane that shared a position. */
+function resultsSvg(replay: RaceReplay): string {
+  const positions = [replay.finishOrder.first, replay.finishOrder.second, replay.finishOrder.third];
+  const rows = positions.flatMap((position, p) =>
+    position.lanes.map(lane => ({ medal: MEDALS[p], name: replay.runners[lane]?.name ?? `#${lane + 1}` })),
+  );
+  const width = 280;
+  const height = 40 + rows.length * 26;
+  const x = (VIEW_WIDTH - width) / 2;
+  const y = (VIEW_HEIGHT - height) / 2;
+  return (
+    `<rect width="${VIEW_WIDTH}" height="${VIEW_HEIGHT}" fill="#000" opacity="0.35"/>` +
+    `<rect x="${x}" y="${y}" width="${width}" height="${height}" rx="12" fill="#1f2937" opacity="0.92"/>` +
+    `<text x="${x + 16}" y="${y + 26}" class="title">Results</text>` +
+    rows
+      .map(
+        (row, i) =>
+          `<circle cx="${x + 26}" cy="${y + 47 + i * 26}" r="8" fill="${row.medal.color}"/>` +
+          `<text x="${x + 42}" y="${y + 52 + i * 26}" class="result">${row.medal.label}  ${escapeXml(row.name)}</text>`,
+      )
+      .join("")
+  );
+}
+
+function documentSvg(replay: RaceReplay, width: number, body: string): string {
+  const height = Math.round((width * VIEW_HEIGHT) / VIEW_WIDTH);
+  return (
+    `<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" ` +
+    `width="${width}" height="${height}" viewBox="0 0 ${VIEW_WIDTH} ${VIEW_HEIGHT}">` +
+    `<title>Raffe Race #${replay.raceId}</title>` +
+    `<defs>` +
+    `<linearGradient id="replay-ground" x1="0" y1="0" x2="0" y2="1">` +
+    `<stop offset="0" stop-color="#c9a27a"/><stop offset="0.3" stop-color="#c49a6c"/>` +
+    `<stop offset="0.6" stop-color="#b98b5c"/><stop offset="1" stop-color="#a06f42"/>` +
+    `</linearGradient>` +
+    `<pattern id="replay-finish" width="6" height="12" patternUnits="userSpaceOnUse">` +
+    `<rect width="6" height="6" fill="#fff"/><rect y="6" width="6" height="6" fill="#222"/>` +
+    `</pattern>` +
+    `<style>` +
+    `text{font-family:ui-sans-serif,system-ui,-apple-system,"Segoe UI",Helvetica,Arial,sans-serif;font-weight:600}` +
+    `.name{font-size:12px;fill:#1f2937}.marker{font-size:10px;fill:#fff;opacity:.6}` +
+    `.title{font-size:16px;fill:#fff}.result{font-size:14px;fill:#fff}.badge{font-size:13px;fill:#fff}` +
+    `</style>` +
+    `</defs>` +
+    `<rect width="${VIEW_WIDTH}" height="${VIEW_HEIGHT}" fill="#f5efe6"/>` +
+    body +
+    `<rect x="12" y="12" width="${72 + String(replay.raceId).length * 9}" height="24" rx="12" fill="#1f2937" opacity="0.85"/>` +
+    `<text x="24" y="29" class="badge">Race #${replay.raceId}</text>` +
+    `</svg>`
+  );
+}
+
+/**
+ * A self-contained animated SVG of the whole race (SMIL for movement, the sprites' own CSS for the gallop) that
+ * loops: start, race at the track's 1x pace, then the result. Opens in any browser and embeds as an <img>.
+ */
+export function buildReplaySvg(replay: RaceReplay): string {
+  const { frames } = replay;
+  const raceMs = (frames.length - 1) * TICK_MS;
+  const totalMs = START_HOLD_MS + raceMs + FINISH_HOLD_MS;
+  const at = (ms: number) => (ms / totalMs).toFixed(4);
+
+  // Hold on the start, one key per tick, hold on the finish
+  const keyTimes = ["0", ...frames.map((_, i) => at(START_HOLD_MS + i * TICK_MS)), "1"].join(";");
+  const held = <T>(values: T[]) => [values[0], ...values, values[values.length - 1]];
+  const animate = (values: string[]) =>
+    `<animateTransform attributeName="transform" type="translate" values="${values.join(";")}" ` +
+    `keyTimes="${keyTimes}" dur="${totalMs / 1000}s" repeatCount="indefinite"/>`;
+
+  const worldWidth = worldWidthOf(replay);
+  const camera = held(frames.map(distances => `${round(-cameraX(distances, worldWidth))} 0`));
+  const runners = replay.runners
+    .map(runner => {
+      const y = round(laneY(runner.lane));
+      const values = held(frames.map(distances => `${round(noseX(distances[runner.lane] ?? 0))} ${y}`));
+      return `<g transform="translate(${values[0]})">${animate(values)}${runnerSvg(runner, true)}</g>`;
+    })
+    .join("");
+  const finished = at(START_HOLD_MS + raceMs);
+  const results =
+    `<g opacity="0"><animate attributeName="opacity" values="0;0;1;1" keyTimes="0;${finished};${finished};1" ` +
+    `dur="${totalMs / 1000}s" repeatCount="indefinite"/>${resultsSvg(replay)}</g>`;
+
+  return documentSvg(
+    replay,
+    OUTPUT_WIDTH,
+    `<g transform="translate(${camera[0]})">${animate(camera)}${trackSvg(worldWidth)}${runners}</g>${results}`,
+  );
+}
+
+/** One still of the race `position` ticks in (fractional positions interpolate between ticks). */
+function frameSvg(replay: RaceReplay, position: number, showResults: boolean): string {
+  const worldWidth = worldWidthOf(replay);
+  const distances = distancesAt(replay.frames, position);
+  const runners = replay.runners
+    .map(
+      runner =>
+        `<g transform="translate(${round(noseX(distances[runner.lane] ?? 0))} ${round(laneY(runner.lane))})">` +
+        `${runnerSvg(runner, false)}</g>`,
+    )
+    .join("");
+  return documentSvg(
+    replay,
+    GIF_WIDTH,
+    `<g transform="translate(${round(-cameraX(distances, worldWidth))} 0)">${trackSvg(worldWidth)}${runners}</g>` +
+      (showResults ? resultsSvg(replay) : ""),
+  );
+}
+
+/**
+ * The finish as an animated GIF for places that won't play SVG (most social networks): the last stretch at the
+ * track's 1x pace, then a long hold on the result. Rendered on the CPU with sharp; sprites hold their standing pose.
+ * (GIF rather than MP4 because it needs no ffmpeg on the server and autoplays wherever it is posted.)
+ */
+export async function renderReplayGif(replay: RaceReplay): Promise<Buffer> {
+  const lastTick = replay.frames.length - 1;
+  const firstTick = Math.max(0, lastTick - GIF_FINISH_TICKS);
+  const positions: number[] = [];
+  for (let step = firstTick * GIF_SUBFRAMES_PER_TICK; step <= lastTick * GIF_SUBFRAMES_PER_TICK; step++) {
+    positions.push(step / GIF_SUBFRAMES_PER_TICK);
+  }
+
+  const stills = [...positions.map(p => frameSvg(replay, p, false)), frameSvg(replay, lastTick, true)];
+  const delays = [...positions.map(() => TICK_MS / GIF_SUBFRAMES_PER_TICK), FINISH_HOLD_MS];
+
+  // One at a time: each rasterization is CPU-bound, so running them in parallel only adds memory pressure
+  const encoded: Buffer[] = [];
+  for (const still of stills) {
+    encoded.push(await sharp(Buffer.from(still)).removeAlpha().gif({ effort: 3 }).toBuffer());
+  }
+  return joinGifFrames(encoded, delays);
+}
@@ -0,0 +1,18 @@
+import { SCORE_TABLE_VERSION, ScoreTable, parseScoreTable } from "@se-2/race-core";
+
+// Where the generator writes the table by default; served statically by Next.
+export const SCORE_TABLE_PUBLIC_PATH = `/score-table/score-table-6lane.v${SCORE_TABLE_VERSION}.json`;
+
+let publicTable: Promise<ScoreTable | null> | undefined;
+
+/**
+ * Client-side loader for the table published under `public/`. Resolves to null when no table has been
+ * generated yet, so callers can fall back to Monte Carlo. Fetched once per page load.
+ */
+export function fetchPublicScoreTable(): Promise<ScoreTable | null> {
+  publicTable ??= fetch(SCORE_TABLE_PUBLIC_PATH)
+    .then(res => (res.ok ? res.json() : null))
+    .then(json => (json ? parseScoreTable(json) : null))
+    .catch(() => null);
+  return publicTable;
+}
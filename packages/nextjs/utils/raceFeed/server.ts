@@ -0,0 +1,208 @@
+import type { RaceFeedEvent, RaceFeedLogEvent, RaceFeedPool } from "./types";
+import { Address, GetContractEventsReturnType, PublicClient } from "viem";
+import scaffoldConfig from "~~/scaffold.config";
+import { raffeRaceAbi } from "~~/utils/raffeRace/abis";
+import { getRaffeRaceAddresses } from "~~/utils/raffeRace/client";
+import { getServerPublicClient } from "~~/utils/raffeRace/server";
+
+type RaffeRaceLog = GetContractEventsReturnType<typeof raffeRaceAbi, undefined, true>[number];
+
+// Enough for a client that dropped for a few blocks to resume without missing anything
+const REPLAY_BUFFER_SIZE = 256;
+// How long a dropped SSE client waits before reconnecting (sent as the stream's `retry:`)
+export const RACE_FEED_RETRY_MS = 3_000;
+// The watcher outlives its last listener by a few retries, so a reconnecting client finds it still polling and the
+// logs mined while it was away are in the replay buffer
+export const RACE_FEED_IDLE_STOP_MS = RACE_FEED_RETRY_MS * 5;
+const POOLS: readonly RaceFeedPool[] = ["win", "place", "show"];
+
+export type RaceFeed = {
+  /** Receive every event from now on, after replaying buffered log events newer than `lastEventId`. */
+  subscribe: (listener: (event: RaceFeedEvent) => void, lastEventId?: string | null) => () => void;
+};
+
+const logId = (blockNumber: bigint, logIndex: number) => `${blockNumber}-${logIndex}`;
+
+/** Whether feed event `id` ("<block>-<logIndex>") comes after `lastEventId`; true when the latter is malformed. */
+export const isAfter = (id: string, lastEventId: string) => {
+  const [block, index] = id.split("-").map(BigInt);
+  const [lastBlock, lastIndex] = lastEventId.split("-").map(BigInt);
+  if (lastBlock === undefined || lastIndex === undefined) return true;
+  return block! > lastBlock || (block === lastBlock && index! > lastIndex);
+};
+
+/** Normalize a decoded RaffeRace log into a feed event, or null for events the feed doesn't carry. */
+export function toFeedEvent(log: RaffeRaceLog): RaceFeedLogEvent | null {
+  const logMeta = {
+    id: logId(log.blockNumber, log.logIndex),
+    blockNumber: log.blockNumber.toString(),
+    txHash: log.transactionHash,
+  };
+
+  switch (log.eventName) {
+    case "QueueEntered":
+    case "QueueLeft":
+    case "QueueEntrySelected":
+    case "QueueEntryRestored":
+      return {
+        ...logMeta,
+        type: "queueChanged",
+        owner: log.args.owner.toLowerCase(),
+        tokenId: log.args.tokenId.toString(),
+      };
+  }
+
+  if (!("raceId" in log.args)) return null;
+  const meta = { ...logMeta, raceId: log.args.raceId.toString() };
+
+  switch (log.eventName) {
+    case "RaceCreated":
+      return {
+        ...meta,
+        type: "raceCreated",
+        oddsDeadlineBlock: log.args.oddsDeadlineBlock.toString(),
+        parimutuel: log.args.parimutuel,
+      };
+    case "RaceProbabilitiesSet":
+      return {
+        ...meta,
+        type: "oddsSet",
+        winOddsBps: [...log.args.winOddsBps],
+        placeOddsBps: [...log.args.placeOddsBps],
+        showOddsBps: [...log.args.showOddsBps],
+        bettingCloseBlock: log.args.bettingCloseBlock.toString(),
+      };
+    case "BetPlaced":
+      return {
+        ...meta,
+        type: "betPlaced",
+        bettor: log.args.bettor.toLowerCase(),
+        lane: log.args.lane,
+        betType: log.args.betType,
+        amount: log.args.amount.toString(),
+        potDelta: { total: log.args.amount.toString(), pool: POOLS[log.args.betType] ?? "show", lane: log.args.lane },
+      };
+    case "ExoticBetPlaced":
+      return {
+        ...meta,
+        type: "exoticBetPlaced",
+        bettor: log.args.bettor.toLowerCase(),
+        betType: log.args.betType,
+        lanes: [...log.args.lanes],
+        amount: log.args.amount.toString(),
+        potDelta: { total: log.args.amount.toString() },
+      };
+    case "RaceSettled":
+      return { ...meta, type: "raceSettled", seed: log.args.seed, winners: [log.args.winner] };
+    case "RaceSettledDeadHeat":
+      return {
+        ...meta,
+        type: "raceSettled",
+        seed: log.args.seed,
+        // Only the first deadHeatCount entries are meaningful
+        winners: log.args.winners.slice(0, log.args.deadHeatCount),
+      };
+    case "ParimutuelPoolSettled":
+      return { ...meta, type: "poolSettled", pool: log.args.pool.toString(), winOddsBps: [...log.args.winOddsBps] };
+    case "RaceCancelled":
+    case "RaceAutoCancelled":
+      return { ...meta, type: "raceCancelled", auto: log.eventName === "RaceAutoCancelled" };
+    case "Claimed":
+      return {
+        ...meta,
+        type: "claimed",
+        bettor: log.args.bettor.toLowerCase(),
+        amount: log.args.payout.toString(),
+        expired: false,
+      };
+    case "ClaimExpired":
+      return {
+        ...meta,
+        type: "claimed",
+        bettor: log.args.bettor.toLowerCase(),
+        amount: log.args.forfeitedPayout.toString(),
+        expired: true,
+      };
+    default:
+      return null;
+  }
+}
+
+/**
+ * One chain watcher shared by every SSE connection: it polls blocks and RaffeRace logs only while somebody is
+ * listening (plus RACE_FEED_IDLE_STOP_MS after the last one leaves), so RPC load stays flat however many browsers
+ * are open.
+ */
+export function createRaceFeed(client: PublicClient, address: Address): RaceFeed {
+  const listeners = new Set<(event: RaceFeedEvent) => void>();
+  const recent: RaceFeedLogEvent[] = [];
+  let stop: (() => void) | null = null;
+  let idleStop: ReturnType<typeof setTimeout> | null = null;
+
+  const publish = (event: RaceFeedEvent) => {
+    for (const listener of listeners) listener(event);
+  };
+
+  const start = () => {
+    const unwatchLogs = client.watchContractEvent({
+      address,
+      abi: raffeRaceAbi,
+      strict: true,
+      pollingInterval: scaffoldConfig.pollingInterval,
+      onLogs: logs => {
+        for (const log of logs) {
+          const event = toFeedEvent(log as RaffeRaceLog);
+          if (!event) continue;
+          recent.push(event);
+          if (recent.length > REPLAY_BUFFER_SIZE) recent.shift();
+          publish(event);
+        }
+      },
+      onError: error => console.error("Race feed log watcher failed:", error),
+    });
+    const unwatchBlocks = client.watchBlockNumber({
+      pollingInterval: scaffoldConfig.pollingInterval,
+      onBlockNumber: blockNumber => publish({ type: "block", blockNumber: blockNumber.toString() }),
+      onError: error => console.error("Race feed block watcher failed:", error),
+    });
+    stop = () => {
+      unwatchLogs();
+      unwatchBlocks();
+    };
+  };
+
+  return {
+    subscribe: (listener, lastEventId) => {
+      if (lastEventId) {
+        for (const event of recent) if (isAfter(event.id, lastEventId)) listener(event);
+      }
+      listeners.add(listener);
+      if (idleStop) {
+        clearTimeout(idleStop);
+        idleStop = null;
+      }
+      if (!stop) start();
+
+      return () => {
+        if (!listeners.delete(listener) || listeners.size > 0 || !stop) return;
+        idleStop = setTimeout(() => {
+          idleStop = null;
+          stop?.();
+          stop = null;
+        }, RACE_FEED_IDLE_STOP_MS);
+      };
+    },
+  };
+}
+
+// Kept on globalThis so dev-mode module reloads don't leave orphaned pollers behind
+const globalForFeed = globalThis as typeof globalThis & { __raffeRaceFeed?: RaceFeed | null };
+
+/** The process-wide race feed, or null when RaffeRace isn't deployed on the target network. */
+export function getRaceFeed(): RaceFeed | null {
+  if (globalForFeed.__raffeRaceFeed !== undefined) return globalForFeed.__raffeRaceFeed;
+
+  const addresses = getRaffeRaceAddresses(scaffoldConfig.targetNetworks[0].id);
+  globalForFeed.__raffeRaceFeed = addresses ? createRaceFeed(getServerPublicClient(), addresses.raffeRace) : null;
+  return globalForFeed.__raffeRaceFeed;
+}
@@ -0,0 +1,49 @@
+// Client-safe shapes streamed by /api/races/events. bigints are serialized as decimal strings.
+
+export type RaceFeedPool = "win" | "place" | "show";
+
+type RaceFeedLog = {
+  id: string; // `${blockNumber}-${logIndex}`, also the SSE event id used to resume after a reconnect
+  blockNumber: string;
+  txHash: string;
+};
+
+type RaceFeedRaceLog = RaceFeedLog & { raceId: string };
+
+export type RaceFeedEvent =
+  | { type: "block"; blockNumber: string }
+  | (RaceFeedRaceLog & { type: "raceCreated"; oddsDeadlineBlock: string; parimutuel: boolean })
+  | (RaceFeedRaceLog & {
+      type: "oddsSet";
+      winOddsBps: number[];
+      placeOddsBps: number[];
+      showOddsBps: number[];
+      bettingCloseBlock: string;
+    })
+  | (RaceFeedRaceLog & {
+      type: "betPlaced";
+      bettor: string; // lowercase
+      lane: number;
+      betType: number;
+      amount: string;
+      // What this bet adds to the race's pots (getRaceById's totalPot and the per-lane pool of its bet type)
+      potDelta: { total: string; pool: RaceFeedPool; lane: number };
+    })
+  | (RaceFeedRaceLog & {
+      type: "exoticBetPlaced";
+      bettor: string; // lowercase
+      betType: number;
+      lanes: number[]; // as emitted, lanes the bet type doesn't use are 0
+      amount: string;
+      // Exotic stakes only add to totalPot, no per-lane pool
+      potDelta: { total: string };
+    })
+  | (RaceFeedRaceLog & { type: "raceSettled"; seed: string; winners: number[] })
+  // Parimutuel races only, alongside raceSettled: the final pool and the Win odds it paid
+  | (RaceFeedRaceLog & { type: "poolSettled"; pool: string; winOddsBps: number[] })
+  | (RaceFeedRaceLog & { type: "raceCancelled"; auto: boolean })
+  | (RaceFeedRaceLog & { type: "claimed"; bettor: string; amount: string; expired: boolean })
+  // Anything that moves the persistent entry queue (entered, left, drawn into a race, restored after a cancel)
+  | (RaceFeedLog & { type: "queueChanged"; owner: string; tokenId: string });
+
+export type RaceFeedLogEvent = Exclude<RaceFeedEvent, { type: "block" }>;
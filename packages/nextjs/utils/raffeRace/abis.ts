@@ -0,0 +1,17 @@
+import { Abi, ContractFunctionName, ContractFunctionReturnType } from "viem";
+import deployedContracts from "~~/contracts/deployedContracts";
+
+// The ABIs are identical across chains; the local deployment is always generated so we type against it.
+export const raffeRaceAbi = deployedContracts[31337].RaffeRace.abi;
+export const raffeNftAbi = deployedContracts[31337].RaffeNFT.abi;
+export const houseTreasuryAbi = deployedContracts[31337].HouseTreasury.abi;
+
+export type RaffeRaceAbi = typeof raffeRaceAbi;
+export type RaffeNftAbi = typeof raffeNftAbi;
+export type HouseTreasuryAbi = typeof houseTreasuryAbi;
+
+/** Decoded return value of a view on one of the race contracts. */
+export type ViewResult<
+  abi extends Abi,
+  functionName extends ContractFunctionName<abi, "view" | "pure">,
+> = ContractFunctionReturnType<abi, "view" | "pure", functionName>;
@@ -0,0 +1,326 @@
+import { houseTreasuryAbi, raffeNftAbi, raffeRaceAbi } from "./abis";
+import { decodeRaffeRaceError, withDecodedErrors } from "./errors";
+import {
+  parseBet,
+  parseCreateRaceCooldown,
+  parseNextWinningClaim,
+  parseQueueEntries,
+  parseRace,
+  parseRaceExoticOdds,
+  parseRaceFinishOrder,
+  parseRaceFlags,
+  parseRaceOdds,
+  parseRacePool,
+  parseRaceRaffes,
+  parseRaceSchedule,
+  parseRaceScore,
+  parseRaffeStats,
+  parseUserBets,
+  parseUserExoticBets,
+} from "./parse";
+import {
+  Address,
+  ContractFunctionParameters,
+  Hex,
+  MulticallReturnType,
+  PublicClient,
+  WalletClient,
+  getContract,
+  zeroAddress,
+} from "viem";
+import type { LaneStats, RaceSnapshot } from "~~/app/_components/race/types";
+import deployedContracts from "~~/contracts/deployedContracts";
+
+export type RaffeRaceAddresses = {
+  raffeRace: Address;
+  raffeNft: Address;
+  treasury: Address;
+};
+
+export type RaffeRaceClientConfig = {
+  publicClient: PublicClient;
+  /** Needed for `write`; reads work without it. */
+  walletClient?: WalletClient;
+  /** Defaults to the public client's chain. */
+  chainId?: number;
+  /** Overrides for addresses not (or differently) in deployedContracts.ts */
+  addresses?: Partial<RaffeRaceAddresses>;
+};
+
+/** Deployed race contract addresses for a chain, or null if any of them is missing from deployedContracts.ts. */
+export function getRaffeRaceAddresses(chainId: number): RaffeRaceAddresses | null {
+  const contracts = (deployedContracts as Record<number, Record<string, { address: Address }> | undefined>)[chainId];
+  if (!contracts?.RaffeRace || !contracts.RaffeNFT || !contracts.HouseTreasury) return null;
+  return {
+    raffeRace: contracts.RaffeRace.address,
+    raffeNft: contracts.RaffeNFT.address,
+    treasury: contracts.HouseTreasury.address,
+  };
+}
+
+const walletRequired = new Proxy(
+  {},
+  {
+    get: (_, functionName) => () =>
+      Promise.reject(new Error(`RaffeRace client has no walletClient; cannot send ${String(functionName)}`)),
+  },
+);
+
+/**
+ * Typed access to RaffeRace, RaffeNFT and HouseTreasury, independent of React.
+ *
+ * `raffeRace`, `raffeNft` and `treasury` expose every view (`read`) and write (`write`, `simulate`,
+ * `estimateGas`) with ABI-checked arguments; reverts are thrown as a decoded RaffeRaceError. The `get*` helpers
+ * return the domain types from race/types.ts.
+ */
+export function createRaffeRaceClient({ publicClient, walletClient, chainId, addresses }: RaffeRaceClientConfig) {
+  const resolvedChainId = chainId ?? publicClient.chain?.id;
+  if (resolvedChainId === undefined)
+    throw new Error("RaffeRace client needs a chainId or a public client with a chain");
+  const deployed = getRaffeRaceAddresses(resolvedChainId);
+  const resolved = { ...deployed, ...addresses };
+  if (!resolved.raffeRace || !resolved.raffeNft || !resolved.treasury) {
+    throw new Error(`Race contracts are not in deployedContracts.ts for chain ${resolvedChainId}; pass addresses`);
+  }
+
+  const client = { public: publicClient, wallet: walletClient as WalletClient };
+  const withErrors = <C extends { read: object; write: object; simulate: object; estimateGas: object }>(
+    contract: C,
+  ): C => ({
+    ...contract,
+    read: withDecodedErrors(contract.read),
+    write: walletClient ? withDecodedErrors(contract.write) : (walletRequired as C["write"]),
+    simulate: withDecodedErrors(contract.simulate),
+    estimateGas: withDecodedErrors(contract.estimateGas),
+  });
+
+  const raffeRace = withErrors(getContract({ abi: raffeRaceAbi, address: resolved.raffeRace, client }));
+  const raffeNft = withErrors(getContract({ abi: raffeNftAbi, address: resolved.raffeNft, client }));
+  const treasury = withErrors(getContract({ abi: houseTreasuryAbi, address: resolved.treasury, client }));
+
+  /**
+   * Several views at one block: a fixed list plus a variable-length tail of one view. Multicall when the chain has
+   * it, otherwise individual reads pinned to the same block, so the results are consistent with each other either way.
+   */
+  const readAllAt = async <
+    const head extends readonly ContractFunctionParameters[],
+    const tail extends ContractFunctionParameters = never,
+  >(
+    blockNumber: bigint,
+    contracts: head,
+    tailContracts: readonly tail[] = [],
+  ): Promise<[MulticallReturnType<head, false>, MulticallReturnType<tail[], false>]> => {
+    const all: readonly ContractFunctionParameters[] = [...contracts, ...tailContracts];
+    let results: unknown[];
+    try {
+      results = await publicClient.multicall({ contracts: all, blockNumber, allowFailure: false });
+    } catch {
+      results = await Promise.all(all.map(call => publicClient.readContract({ ...call, blockNumber })));
+    }
+    return [
+      results.slice(0, contracts.length) as MulticallReturnType<head, false>,
+      results.slice(contracts.length) as MulticallReturnType<tail[], false>,
+    ];
+  };
+
+  /**
+   * One RaffeNFT view for many tokens. Multicall when the chain has it (anvil doesn't by default), otherwise
+   * individual reads; tokens whose read fails are left out of the result.
+   */
+  const readNftBatch = async <T>(
+    functionName: "statsOf" | "nameOf" | "seedOf",
+    tokenIds: readonly bigint[],
+  ): Promise<Map<bigint, T>> => {
+    const out = new Map<bigint, T>();
+    if (tokenIds.length === 0) return out;
+    let results: { status: "success" | "failure"; result?: unknown }[];
+    try {
+      results = await publicClient.multicall({
+        contracts: tokenIds.map(tokenId => ({
+          address: resolved.raffeNft!,
+          abi: raffeNftAbi,
+          functionName,
+          args: [tokenId],
+        })),
+        allowFailure: true,
+      });
+    } catch {
+      const settled = await Promise.allSettled(
+        tokenIds.map(tokenId => (raffeNft.read[functionName] as (args: [bigint]) => Promise<unknown>)([tokenId])),
+      );
+      results = settled.map(r =>
+        r.status === "fulfilled" ? { status: "success", result: r.value } : { status: "failure" },
+      );
+    }
+    tokenIds.forEach((tokenId, i) => {
+      if (results[i]?.status === "success") out.set(tokenId, results[i].result as T);
+    });
+    return out;
+  };
+
+  return {
+    chainId: resolvedChainId,
+    addresses: resolved as RaffeRaceAddresses,
+    publicClient,
+    raffeRace,
+    raffeNft,
+    treasury,
+
+    getRace: async (raceId: bigint) => parseRace(await raffeRace.read.getRaceById([raceId])),
+    getRaceFlags: async (raceId: bigint) => parseRaceFlags(await raffeRace.read.getRaceFlagsById([raceId])),
+    getRaceSchedule: async (raceId: bigint) => parseRaceSchedule(await raffeRace.read.getRaceScheduleById([raceId])),
+    getRaceRaffes: async (raceId: bigint) => parseRaceRaffes(await raffeRace.read.getRaceRaffesById([raceId])),
+    getRaceOdds: async (raceId: bigint) => parseRaceOdds(await raffeRace.read.getRaceOddsById([raceId])),
+    getRaceExoticOdds: async (raceId: bigint) =>
+      parseRaceExoticOdds(await raffeRace.read.getRaceExoticOddsById([raceId])),
+    getRacePool: async (raceId: bigint) => parseRacePool(await raffeRace.read.getRacePoolById([raceId])),
+    getRaceScore: async (raceId: bigint) => parseRaceScore(await raffeRace.read.getRaceScoreById([raceId])),
+    getRaceFinishOrder: async (raceId: bigint) =>
+      parseRaceFinishOrder(await raffeRace.read.getRaceFinishOrderById([raceId])),
+    getCreateRaceCooldown: async () => parseCreateRaceCooldown(await raffeRace.read.getCreateRaceCooldown()),
+    getBet: async (raceId: bigint, bettor: Address) => parseBet(await raffeRace.read.getBetById([raceId, bettor])),
+    getUserBets: async (raceId: bigint, bettor: Address) =>
+      parseUserBets(await raffeRace.read.getUserBetsById([raceId, bettor])),
+    getUserExoticBets: async (raceId: bigint, bettor: Address) =>
+      parseUserExoticBets(await raffeRace.read.getUserExoticBetsById([raceId, bettor])),
+    getNextWinningClaim: async (bettor: Address) =>
+      parseNextWinningClaim(await raffeRace.read.getNextWinningClaim([bettor])),
+    getQueueEntries: async (start: bigint, count: bigint) =>
+      parseQueueEntries(await raffeRace.read.getQueueEntries([start, count])),
+
+    /**
+     * Everything about one race (and optionally one bettor's side of it) as of a single block, in one multicall.
+     * Lane stats need the lineup's token ids; pass `laneTokenIds` from an earlier snapshot of the race (the lineup
+     * is fixed at creation) to fold them into the same call, otherwise they are read in a second call at the same
+     * block. Defaults to the latest block.
+     */
+    getRaceSnapshot: async (
+      raceId: bigint,
+      options: { blockNumber?: bigint; bettor?: Address; laneTokenIds?: readonly bigint[] } = {},
+    ): Promise<RaceSnapshot> => {
+      const blockNumber = options.blockNumber ?? (await publicClient.getBlockNumber());
+      const race = { address: resolved.raffeRace!, abi: raffeRaceAbi } as const;
+      const nft = { address: resolved.raffeNft!, abi: raffeNftAbi } as const;
+      // Bettor views are cheap on the zero address, which keeps the call list (and its typing) fixed
+      const bettor = options.bettor ?? zeroAddress;
+      const statsCall = (tokenId: bigint) => ({ ...nft, functionName: "statsOf", args: [tokenId] }) as const;
+
+      try {
+        const knownTokenIds = (options.laneTokenIds ?? []).filter(tokenId => tokenId !== 0n);
+        const [
+          [
+            raceData,
+            flags,
+            schedule,
+            raffes,
+            odds,
+            exoticOdds,
+            pool,
+            score,
+            finishOrder,
+            bets,
+            exoticBets,
+            nextClaim,
+            claimRemaining,
+          ],
+          stats,
+        ] = await readAllAt(
+          blockNumber,
+          [
+            { ...race, functionName: "getRaceById", args: [raceId] },
+            { ...race, functionName: "getRaceFlagsById", args: [raceId] },
+            { ...race, functionName: "getRaceScheduleById", args: [raceId] },
+            { ...race, functionName: "getRaceRaffesById", args: [raceId] },
+            { ...race, functionName: "getRaceOddsById", args: [raceId] },
+            { ...race, functionName: "getRaceExoticOddsById", args: [raceId] },
+            { ...race, functionName: "getRacePoolById", args: [raceId] },
+            { ...race, functionName: "getRaceScoreById", args: [raceId] },
+            { ...race, functionName: "getRaceFinishOrderById", args: [raceId] },
+            { ...race, functionName: "getUserBetsById", args: [raceId, bettor] },
+            { ...race, functionName: "getUserExoticBetsById", args: [raceId, bettor] },
+            { ...race, functionName: "getNextWinningClaim", args: [bettor] },
+            { ...race, functionName: "getWinningClaimRemaining", args: [bettor] },
+          ],
+          knownTokenIds.map(statsCall),
+        );
+
+        const parsedRaffes = parseRaceRaffes(raffes);
+        let statsTokenIds = knownTokenIds;
+        let laneStatsData = stats;
+        if (!options.laneTokenIds) {
+          statsTokenIds = parsedRaffes.tokenIds.filter(tokenId => tokenId !== 0n);
+          if (statsTokenIds.length > 0)
+            [, laneStatsData] = await readAllAt(blockNumber, [], statsTokenIds.map(statsCall));
+        }
+        const statsByToken = new Map(
+          statsTokenIds.map((tokenId, i) => [tokenId, parseRaffeStats(laneStatsData[i])] as const),
+        );
+        const parsedFlags = parseRaceFlags(flags);
+
+        return {
+          raceId,
+          blockNumber,
+          race: parseRace(raceData),
+          flags: parsedFlags,
+          schedule: parseRaceSchedule(schedule),
+          raffes: parsedRaffes,
+          odds: parseRaceOdds(odds),
+          exoticOdds: parseRaceExoticOdds(exoticOdds),
+          pool: parseRacePool(pool),
+          score: parseRaceScore(score),
+          finishOrder: parsedFlags.settled && !parsedFlags.cancelled ? parseRaceFinishOrder(finishOrder) : null,
+          laneStats: parsedRaffes.tokenIds.map(
+            tokenId => statsByToken.get(tokenId) ?? { zip: 10, moxie: 10, hustle: 10 },
+          ),
+          bettor: options.bettor
+            ? {
+                bets: parseUserBets(bets),
+                exoticBets: parseUserExoticBets(exoticBets),
+                nextWinningClaim: parseNextWinningClaim(nextClaim),
+                winningClaimRemaining: claimRemaining,
+              }
+            : null,
+        };
+      } catch (error) {
+        throw decodeRaffeRaceError(error) ?? error;
+      }
+    },
+    /** Just the bettor's side of a race snapshot, for races whose own state is final and already known. */
+    getBettorSnapshot: async (raceId: bigint, bettor: Address, blockNumber: bigint) => {
+      const race = { address: resolved.raffeRace!, abi: raffeRaceAbi } as const;
+      try {
+        const [[bets, exoticBets, nextClaim, claimRemaining]] = await readAllAt(blockNumber, [
+          { ...race, functionName: "getUserBetsById", args: [raceId, bettor] },
+          { ...race, functionName: "getUserExoticBetsById", args: [raceId, bettor] },
+          { ...race, functionName: "getNextWinningClaim", args: [bettor] },
+          { ...race, functionName: "getWinningClaimRemaining", args: [bettor] },
+        ]);
+        return {
+          bets: parseUserBets(bets),
+          exoticBets: parseUserExoticBets(exoticBets),
+          nextWinningClaim: parseNextWinningClaim(nextClaim),
+          winningClaimRemaining: claimRemaining,
+        };
+      } catch (error) {
+        throw decodeRaffeRaceError(error) ?? error;
+      }
+    },
+
+    getRaffeStats: async (tokenId: bigint) => parseRaffeStats(await raffeNft.read.statsOf([tokenId])),
+    /** Stats for many raffes keyed by token id; unreadable tokens are omitted. */
+    getRaffeStatsBatch: async (tokenIds: readonly bigint[]): Promise<Map<bigint, LaneStats>> => {
+      const raw = await readNftBatch<readonly [number, number, number]>("statsOf", tokenIds);
+      return new Map([...raw].map(([tokenId, stats]) => [tokenId, parseRaffeStats(stats)]));
+    },
+    /** Trimmed names for many raffes keyed by token id; unreadable tokens are omitted. */
+    getRaffeNamesBatch: async (tokenIds: readonly bigint[]): Promise<Map<bigint, string>> => {
+      const raw = await readNftBatch<string>("nameOf", tokenIds);
+      return new Map([...raw].map(([tokenId, name]) => [tokenId, name.trim()]));
+    },
+    /** Appearance seeds (bytes32) for many raffes keyed by token id; unreadable tokens are omitted. */
+    getRaffeSeedsBatch: async (tokenIds: readonly bigint[]): Promise<Map<bigint, Hex>> =>
+      readNftBatch<Hex>("seedOf", tokenIds),
+  };
+}
+
+export type RaffeRaceClient = ReturnType<typeof createRaffeRaceClient>;
@@ -0,0 +1,101 @@
+import { houseTreasuryAbi, raffeNftAbi, raffeRaceAbi } from "./abis";
+import { Abi, BaseError, ContractFunctionRevertedError, decodeErrorResult } from "viem";
+
+type AbiError = Extract<Abi[number], { type: "error" }>;
+
+// Every custom error a race transaction can surface. RaffeRace calls into HouseTreasury and RaffeNFT, and their
+// reverts bubble up with selectors RaffeRace's own ABI doesn't know, so decode against all three.
+export const raffeRaceErrorsAbi = ([...raffeRaceAbi, ...raffeNftAbi, ...houseTreasuryAbi] as Abi)
+  .filter((item): item is AbiError => item.type === "error")
+  .filter((item, i, all) => all.findIndex(other => other.name === item.name) === i);
+
+// Wording shown to users; errors not listed fall back to `Name(args)`
+const ERROR_MESSAGES: Partial<Record<string, string>> = {
+  AlreadyBet: "You already have a bet of this type on this race",
+  AlreadyClaimed: "This payout has already been claimed",
+  AlreadyInQueue: "You already have a raffe in the queue",
+  AlreadySettled: "This race is already settled",
+  BetTooLarge: "Bet exceeds the maximum bet amount",
+  BettingClosed: "Betting is closed for this race",
+  BettingNotOpen: "Betting hasn't opened for this race yet",
+  CannotQueueHouseRaffe: "House raffes can't enter the queue",
+  CooldownNotElapsed: "The post-race cooldown hasn't finished yet",
+  InsufficientBankroll: "The house can't cover this bet's potential payout right now",
+  InvalidBetType: "Unknown bet type",
+  InvalidCombination: "Pick a different raffe for each position",
+  InvalidLane: "Invalid lane",
+  InvalidRace: "Race does not exist",
+  NoClaimableBets: "Nothing to claim",
+  NotInQueue: "Your raffe isn't in the queue",
+  NotRaceBot: "Only the race bot can do that",
+  NotSettled: "This race hasn't settled yet",
+  NotTokenOwner: "You don't own this raffe",
+  NotTreasuryOwner: "Only the treasury owner can do that",
+  OddsNotSet: "Odds haven't been set for this race yet",
+  PreviousRaceNotSettled: "The previous race hasn't settled yet",
+  QueueFull: "The race queue is full",
+  TokenAlreadyQueued: "This raffe is already in the queue",
+  ZeroBet: "Bet amount must be greater than zero",
+  // HouseTreasury
+  ExceedsAvailableBalance: "Amount exceeds the treasury's available balance",
+  IsPaused: "The treasury is paused",
+  // RaffeNFT
+  NameAlreadyTaken: "That name is already taken",
+  NameTooLong: "That name is too long",
+  EmptyName: "Name can't be empty",
+  TooEarlyToReveal: "Too early to reveal this mint",
+  CommitExpired: "This mint commit has expired",
+};
+
+/** A revert from RaffeRace, RaffeNFT or HouseTreasury, decoded to its custom error. */
+export class RaffeRaceError extends Error {
+  readonly errorName: string;
+  readonly args: readonly unknown[];
+
+  constructor(errorName: string, args: readonly unknown[], options?: { cause?: unknown }) {
+    super(
+      errorName === "Error"
+        ? String(args[0] ?? "Transaction reverted")
+        : (ERROR_MESSAGES[errorName] ?? `${errorName}(${args.map(String).join(", ")})`),
+      options,
+    );
+    this.name = "RaffeRaceError";
+    this.errorName = errorName;
+    this.args = args;
+  }
+}
+
+/** Decode a viem error thrown by a race contract call, or null if it isn't a contract revert we recognise. */
+export function decodeRaffeRaceError(error: unknown): RaffeRaceError | null {
+  if (error instanceof RaffeRaceError) return error;
+  if (!(error instanceof BaseError)) return null;
+
+  const reverted = error.walk(e => e instanceof ContractFunctionRevertedError);
+  if (!(reverted instanceof ContractFunctionRevertedError)) return null;
+
+  if (reverted.data) return new RaffeRaceError(reverted.data.errorName, reverted.data.args ?? [], { cause: error });
+  if (!reverted.raw) return null;
+  try {
+    const decoded = decodeErrorResult({ abi: raffeRaceErrorsAbi, data: reverted.raw });
+    return new RaffeRaceError(decoded.errorName, decoded.args ?? [], { cause: error });
+  } catch {
+    return null;
+  }
+}
+
+/** Wrap a contract namespace (`read`, `write`, ...) so rejected calls throw a decoded RaffeRaceError. */
+export function withDecodedErrors<T extends object>(namespace: T): T {
+  return new Proxy(namespace, {
+    get(target, prop, receiver) {
+      const value = Reflect.get(target, prop, receiver);
+      if (typeof value !== "function") return value;
+      return async (...args: unknown[]) => {
+        try {
+          return await value.apply(target, args);
+        } catch (error) {
+          throw decodeRaffeRaceError(error) ?? error;
+        }
+      };
+    },
+  });
+}
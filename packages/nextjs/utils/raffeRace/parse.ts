@@ -0,0 +1,201 @@
+import { RaffeNftAbi, RaffeRaceAbi, ViewResult } from "./abis";
+import { Address, ContractFunctionName } from "viem";
+import { LANE_COUNT } from "~~/app/_components/race/constants";
+import {
+  BetInfo,
+  CooldownStatus,
+  EXOTIC_BET_TYPE,
+  ExoticBetInfo,
+  ExoticBetType,
+  LaneStats,
+  MyBet,
+  MyBets,
+  MyExoticBets,
+  NextWinningClaim,
+  ParsedExoticOdds,
+  ParsedFinishOrder,
+  ParsedOdds,
+  ParsedRace,
+  ParsedRaceFlags,
+  ParsedRacePool,
+  ParsedRaffes,
+  ParsedSchedule,
+  QueueEntry,
+} from "~~/app/_components/race/types";
+import { clampStat, exoticPicks } from "~~/app/_components/race/utils";
+
+// Decoders from raw contract return values to the domain types in race/types.ts. The client uses them for its
+// reads, and hooks that read through wagmi (to keep its caching and the race feed's cache patches) use them directly.
+
+type RaceView<F extends ContractFunctionName<RaffeRaceAbi, "view" | "pure">> = ViewResult<RaffeRaceAbi, F>;
+
+const byLane = <T, U>(values: readonly T[], map: (value: T) => U, fallback: U): U[] =>
+  Array.from({ length: LANE_COUNT }, (_, i) => (i < values.length ? map(values[i]) : fallback));
+
+export const parseRace = ([
+  bettingCloseBlock,
+  settled,
+  winner,
+  seed,
+  totalPot,
+  totalOnLane,
+]: RaceView<"getRaceById">): ParsedRace => ({
+  bettingCloseBlock,
+  settled,
+  winner,
+  seed,
+  totalPot,
+  totalOnLane: [...totalOnLane],
+});
+
+export const parseRaceFlags = ([settled, oddsSet, cancelled]: RaceView<"getRaceFlagsById">): ParsedRaceFlags => ({
+  settled,
+  oddsSet,
+  cancelled,
+});
+
+export const parseRaceSchedule = ([
+  oddsDeadlineBlock,
+  bettingCloseBlock,
+  settledAtBlock,
+]: RaceView<"getRaceScheduleById">): ParsedSchedule => ({ oddsDeadlineBlock, bettingCloseBlock, settledAtBlock });
+
+// Addresses are loosened to string so wagmi results (typed with plain string addresses) parse too
+export const parseRaceRaffes = ([assignedCount, tokenIds, originalOwners]: readonly [
+  number,
+  readonly bigint[],
+  readonly string[],
+]): ParsedRaffes => ({
+  assignedCount,
+  tokenIds: [...tokenIds],
+  originalOwners: originalOwners as readonly Address[],
+});
+
+export const parseRaceOdds = ([
+  oddsSet,
+  winOddsBps,
+  placeOddsBps,
+  showOddsBps,
+]: RaceView<"getRaceOddsById">): ParsedOdds => {
+  const win = byLane(winOddsBps, BigInt, 0n);
+  return {
+    oddsSet,
+    winOddsBps: win,
+    placeOddsBps: byLane(placeOddsBps, BigInt, 0n),
+    showOddsBps: byLane(showOddsBps, BigInt, 0n),
+    oddsBps: win, // Backwards compat alias
+  };
+};
+
+export const parseRaceExoticOdds = ([
+  oddsSet,
+  exactaOddsBps,
+  quinellaOddsBps,
+  trifectaOddsBps,
+]: RaceView<"getRaceExoticOddsById">): ParsedExoticOdds => ({
+  oddsSet,
+  exactaOddsBps: exactaOddsBps.map(BigInt),
+  quinellaOddsBps: quinellaOddsBps.map(BigInt),
+  // abitype stops expanding fixed-size arrays well short of 216 entries
+  trifectaOddsBps: (trifectaOddsBps as readonly number[]).map(BigInt),
+});
+
+export const parseRacePool = ([
+  parimutuel,
+  takeBps,
+  pool,
+  impliedOddsBps,
+]: RaceView<"getRacePoolById">): ParsedRacePool => ({
+  parimutuel,
+  takeBps,
+  pool,
+  impliedOddsBps: byLane(impliedOddsBps, BigInt, 0n),
+});
+
+/** Lane scores (1-10); a race with no lineup yet reads as all full score. */
+export const parseRaceScore = (score: RaceView<"getRaceScoreById">): number[] =>
+  byLane(score, s => clampStat(Number(s)), 10);
+
+// All counts are 0 until the race settles
+export const parseRaceFinishOrder = ([
+  firstLanes,
+  firstCount,
+  secondLanes,
+  secondCount,
+  thirdLanes,
+  thirdCount,
+  finalDistances,
+]: RaceView<"getRaceFinishOrderById">): ParsedFinishOrder => ({
+  first: { lanes: firstLanes.slice(0, firstCount), count: firstCount },
+  second: { lanes: secondLanes.slice(0, secondCount), count: secondCount },
+  third: { lanes: thirdLanes.slice(0, thirdCount), count: thirdCount },
+  finalDistances: [...finalDistances],
+});
+
+export const parseCreateRaceCooldown = ([
+  canCreate,
+  blocksRemaining,
+  cooldownEndsAtBlock,
+]: RaceView<"getCreateRaceCooldown">): CooldownStatus => ({ canCreate, blocksRemaining, cooldownEndsAtBlock });
+
+export const parseBet = ([amount, lane, claimed]: RaceView<"getBetById">): MyBet => ({
+  amount,
+  lane,
+  claimed,
+  hasBet: amount !== 0n,
+});
+
+export const parseUserBets = ([
+  winAmount,
+  winLane,
+  winClaimed,
+  placeAmount,
+  placeLane,
+  placeClaimed,
+  showAmount,
+  showLane,
+  showClaimed,
+]: RaceView<"getUserBetsById">): MyBets => {
+  const bet = (amount: bigint, lane: number, claimed: boolean): BetInfo => ({
+    amount,
+    lane,
+    claimed,
+    hasBet: amount !== 0n,
+  });
+  return {
+    win: bet(winAmount, winLane, winClaimed),
+    place: bet(placeAmount, placeLane, placeClaimed),
+    show: bet(showAmount, showLane, showClaimed),
+  };
+};
+
+export const parseUserExoticBets = ([exacta, quinella, trifecta]: RaceView<"getUserExoticBetsById">): MyExoticBets => {
+  const bet = (
+    betType: ExoticBetType,
+    { amount, lanes, claimed }: { amount: bigint; lanes: readonly number[]; claimed: boolean },
+  ): ExoticBetInfo => ({
+    amount,
+    // Lanes the bet type doesn't use are stored as 0
+    lanes: lanes.slice(0, exoticPicks(betType)),
+    claimed,
+    hasBet: amount !== 0n,
+  });
+  return {
+    exacta: bet(EXOTIC_BET_TYPE.EXACTA, exacta),
+    quinella: bet(EXOTIC_BET_TYPE.QUINELLA, quinella),
+    trifecta: bet(EXOTIC_BET_TYPE.TRIFECTA, trifecta),
+  };
+};
+
+export const parseNextWinningClaim = (claim: RaceView<"getNextWinningClaim">): NextWinningClaim => ({ ...claim });
+
+/** Queue entries, without the slots that have been vacated. */
+export const parseQueueEntries = (
+  entries: readonly { index: bigint; tokenId: bigint; owner: string; isValid: boolean }[],
+): QueueEntry[] => entries.filter(e => e.isValid).map(e => ({ ...e, owner: e.owner as Address }));
+
+export const parseRaffeStats = ([zip, moxie, hustle]: ViewResult<RaffeNftAbi, "statsOf">): LaneStats => ({
+  zip: clampStat(zip),
+  moxie: clampStat(moxie),
+  hustle: clampStat(hustle),
+});
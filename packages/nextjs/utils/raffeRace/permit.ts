@@ -0,0 +1,65 @@
+import { Address, Hex, PublicClient, TypedDataDomain, domainSeparator, parseAbi, parseSignature } from "viem";
+
+/**
+ * EIP-2612 permits for bet stakes: instead of sending an approve transaction, the bettor signs an allowance for
+ * HouseTreasury and RaffeRace.placeBetWithPermit submits it along with the bet.
+ */
+
+const permitTokenAbi = parseAbi([
+  "function eip712Domain() view returns (bytes1 fields, string name, string version, uint256 chainId, address verifyingContract, bytes32 salt, uint256[] extensions)",
+  "function DOMAIN_SEPARATOR() view returns (bytes32)",
+  "function name() view returns (string)",
+  "function version() view returns (string)",
+  "function nonces(address owner) view returns (uint256)",
+]);
+
+export const PERMIT_TYPES = {
+  Permit: [
+    { name: "owner", type: "address" },
+    { name: "spender", type: "address" },
+    { name: "value", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+} as const;
+
+/**
+ * The token's EIP-712 signing domain, or null if it doesn't support permit.
+ *
+ * Tokens implementing EIP-5267 (OpenZeppelin's ERC20Permit, so MockUSDC) report their domain directly. Otherwise
+ * (Circle's USDC) the domain is rebuilt from name() and version(), and only trusted if it hashes to the token's
+ * DOMAIN_SEPARATOR: a permit signed over the wrong domain would just fail on chain.
+ */
+export async function getPermitDomain(client: PublicClient, token: Address): Promise<TypedDataDomain | null> {
+  const read = <T>(functionName: "eip712Domain" | "DOMAIN_SEPARATOR" | "name" | "version") =>
+    client.readContract({ address: token, abi: permitTokenAbi, functionName }).then(
+      value => value as T,
+      () => undefined,
+    );
+
+  const reported = await read<readonly [Hex, string, string, bigint, Address, Hex, readonly bigint[]]>("eip712Domain");
+  if (reported) {
+    const [, name, version, chainId, verifyingContract] = reported;
+    return { name, version, chainId: Number(chainId), verifyingContract };
+  }
+
+  const [separator, name, version] = await Promise.all([
+    read<Hex>("DOMAIN_SEPARATOR"),
+    read<string>("name"),
+    read<string>("version"),
+  ]);
+  if (!separator || name === undefined) return null;
+  // Tokens without version() almost always sign with "1"
+  const domain = { name, version: version ?? "1", chainId: await client.getChainId(), verifyingContract: token };
+  return domainSeparator({ domain }).toLowerCase() === separator.toLowerCase() ? domain : null;
+}
+
+/** The owner's next permit nonce on `token`. */
+export const getPermitNonce = (client: PublicClient, token: Address, owner: Address) =>
+  client.readContract({ address: token, abi: permitTokenAbi, functionName: "nonces", args: [owner] });
+
+/** Split a 65-byte permit signature into the (v, r, s) that permit() takes. */
+export function splitPermitSignature(signature: Hex) {
+  const { v, yParity, r, s } = parseSignature(signature);
+  return { v: Number(v ?? BigInt(yParity + 27)), r, s };
+}
@@ -0,0 +1,35 @@
+import type { RaffeRaceClient } from "./client";
+import { simulateRaceFromSeed } from "@se-2/race-core";
+import { zeroHash } from "viem";
+import { renderRaffeSvg } from "~~/utils/nft/renderRaffeSvg";
+import type { RaceReplay } from "~~/utils/race/replayExport";
+
+export type RaceReplayResult =
+  | { status: "ready"; replay: RaceReplay }
+  | { status: "not_found" | "not_settled" | "cancelled"; raceId: bigint };
+
+/**
+ * Everything needed to export a settled race: its frames, replayed from the stored seed and lane scores exactly as
+ * the track does, plus each lane's name and seed-colored sprite. Server-only (the sprite template is read from disk).
+ */
+export async function loadRaceReplay(client: RaffeRaceClient, raceId: bigint): Promise<RaceReplayResult> {
+  const snapshot = await client.getRaceSnapshot(raceId);
+  if (snapshot.schedule.oddsDeadlineBlock === 0n) return { status: "not_found", raceId };
+  if (snapshot.flags.cancelled) return { status: "cancelled", raceId };
+  if (!snapshot.flags.settled) return { status: "not_settled", raceId };
+
+  const { tokenIds } = snapshot.raffes;
+  const [names, seeds] = await Promise.all([client.getRaffeNamesBatch(tokenIds), client.getRaffeSeedsBatch(tokenIds)]);
+  const sim = simulateRaceFromSeed({ seed: snapshot.race.seed, score: snapshot.score });
+
+  const runners = await Promise.all(
+    tokenIds.map(async (tokenId, lane) => ({
+      lane,
+      tokenId,
+      name: names.get(tokenId) || `Raffe #${tokenId}`,
+      svg: await renderRaffeSvg({ tokenId, seed: seeds.get(tokenId) ?? zeroHash, background: false }),
+    })),
+  );
+
+  return { status: "ready", replay: { raceId, frames: sim.frames, finishOrder: sim.finishOrder, runners } };
+}
@@ -0,0 +1,49 @@
+import { RaffeRaceClient, createRaffeRaceClient, getRaffeRaceAddresses } from "./client";
+import { Chain, PublicClient, createPublicClient, http } from "viem";
+import scaffoldConfig, { DEFAULT_ALCHEMY_API_KEY, ScaffoldConfig } from "~~/scaffold.config";
+import { getAlchemyHttpUrl } from "~~/utils/scaffold-eth/networks";
+
+/** RPC for server-side chain access (API routes and the race feed). */
+export const serverRpcUrl = (chainId: number): string | undefined => {
+  // The env RPC is for the default network; other target networks go through their overrides
+  if (process.env.RACE_FEED_RPC_URL && chainId === scaffoldConfig.targetNetworks[0].id) {
+    return process.env.RACE_FEED_RPC_URL;
+  }
+  const override = (scaffoldConfig.rpcOverrides as ScaffoldConfig["rpcOverrides"])?.[chainId];
+  if (override) return override;
+  // The shared default key is rate limited; the chain's public RPC is the better bet for long-lived server use
+  return scaffoldConfig.alchemyApiKey === DEFAULT_ALCHEMY_API_KEY ? undefined : getAlchemyHttpUrl(chainId);
+};
+
+const serverPublicClients = new Map<number, PublicClient>();
+
+/**
+ * One of the configured target networks by id, or the first (the app's default) when no id is given.
+ * Undefined for chains the app isn't configured for.
+ */
+export function getServerChain(chainId?: number): Chain | undefined {
+  const networks: readonly Chain[] = scaffoldConfig.targetNetworks;
+  return chainId === undefined ? networks[0] : networks.find(network => network.id === chainId);
+}
+
+/** One public client per target network, shared by everything server-side. Defaults to the first network. */
+export function getServerPublicClient(chainId?: number): PublicClient {
+  const chain = getServerChain(chainId);
+  if (!chain) throw new Error(`Chain ${chainId} is not one of the configured target networks`);
+  let publicClient = serverPublicClients.get(chain.id);
+  if (!publicClient) {
+    publicClient = createPublicClient({ chain, transport: http(serverRpcUrl(chain.id)) }) as PublicClient;
+    serverPublicClients.set(chain.id, publicClient);
+  }
+  return publicClient;
+}
+
+/**
+ * Read-only race contracts client for API routes, or null when they aren't deployed on that network (or it isn't
+ * a target network). Defaults to the first target network.
+ */
+export function getServerRaffeRaceClient(chainId?: number): RaffeRaceClient | null {
+  const chain = getServerChain(chainId);
+  if (!chain || !getRaffeRaceAddresses(chain.id)) return null;
+  return createRaffeRaceClient({ publicClient: getServerPublicClient(chain.id), chainId: chain.id });
+}
@@ -0,0 +1,33 @@
+import type { RaffeRaceClient } from "./client";
+import { SettlementVerification, verifySettlement } from "@se-2/race-core";
+import type { LaneStats } from "~~/app/_components/race/types";
+
+export type RaceVerification =
+  | { status: "checked"; report: SettlementVerification; laneTokenIds: bigint[]; laneStats: LaneStats[] }
+  | { status: "not_found" | "not_settled" | "cancelled"; raceId: bigint };
+
+/**
+ * Check a race's settlement from public data: the hash of its betting close block, its lane scores and what the
+ * contract stored when it settled. Race state is read at one block; the block hash comes from the node, so this
+ * still works long after `blockhash()` on-chain has forgotten it. Shared by /verify/[raceId] and `yarn verify:race`.
+ */
+export async function verifyRaceSettlement(client: RaffeRaceClient, raceId: bigint): Promise<RaceVerification> {
+  const snapshot = await client.getRaceSnapshot(raceId);
+  if (snapshot.schedule.oddsDeadlineBlock === 0n) return { status: "not_found", raceId };
+  if (snapshot.flags.cancelled) return { status: "cancelled", raceId };
+  if (!snapshot.flags.settled || !snapshot.finishOrder) return { status: "not_settled", raceId };
+
+  const bettingCloseBlock = snapshot.race.bettingCloseBlock;
+  const { hash: blockHash } = await client.publicClient.getBlock({ blockNumber: bettingCloseBlock });
+  const { first, second, third, finalDistances } = snapshot.finishOrder;
+
+  const report = verifySettlement({
+    raceId,
+    raceAddress: client.addresses.raffeRace,
+    bettingCloseBlock,
+    blockHash,
+    score: snapshot.score,
+    stored: { seed: snapshot.race.seed, finishOrder: { first, second, third }, finalDistances },
+  });
+  return { status: "checked", report, laneTokenIds: snapshot.raffes.tokenIds, laneStats: snapshot.laneStats };
+}
@@ -1,4 +1,5 @@
 import { BaseError as BaseViemError, ContractFunctionRevertedError } from "viem";
+import { decodeRaffeRaceError } from "~~/utils/raffeRace/errors";
 
 /**
  * Parses an viem/wagmi error to get a displayable string
@@ -6,6 +7,10 @@ import { BaseError as BaseViemError, ContractFunctionRevertedError } from "viem"
  * @returns parsed error string
  */
 export const getParsedError = (error: any): string => {
+  // Race contract reverts (including ones bubbled up from HouseTreasury/RaffeNFT) get their friendly wording
+  const raceError = decodeRaffeRaceError(error);
+  if (raceError) return raceError.message;
+
   const parsedError = error?.walk ? error.walk() : error;
 
   if (parsedError instanceof BaseViemError) {
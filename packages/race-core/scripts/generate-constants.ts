@@ -0,0 +1,75 @@
+import fs from "node:fs";
+import path from "node:path";
+
+/**
+ * Generate src/constants.ts from RaffeRaceConstants.sol, the contracts' single source of truth.
+ *
+ * Every `uintN internal constant NAME = <integer>;` becomes an export. uint8..uint48 are emitted as numbers and
+ * wider types as bigints, the same way viem decodes them from the contract, so generated values compare directly
+ * with on-chain reads. Anything that isn't a plain integer literal fails the run instead of being guessed at.
+ *
+ * Usage:
+ *   yarn workspace @se-2/race-core generate:constants
+ *   yarn workspace @se-2/race-core check-constants   (exit 1 if src/constants.ts is stale; part of check-types)
+ */
+
+const SOL_SOURCE = path.resolve(__dirname, "../../foundry/contracts/libraries/RaffeRaceConstants.sol");
+const TS_OUT = path.resolve(__dirname, "../src/constants.ts");
+
+// viem returns uint types up to 48 bits as number, anything wider as bigint
+const MAX_NUMBER_BITS = 48;
+
+const CONSTANT_RE = /((?:[ \t]*\/\/\/[^\n]*\n)*)[ \t]*uint(\d+) internal constant (\w+) = ([^;]+);/g;
+
+type SolConstant = { name: string; bits: number; value: string; notice: string | null };
+
+function parseConstants(source: string): SolConstant[] {
+  const constants: SolConstant[] = [];
+  for (const match of source.matchAll(CONSTANT_RE)) {
+    const [, docBlock = "", bits, name, rawValue] = match;
+    const value = rawValue!.trim().replace(/_/g, "");
+    if (!/^\d+$/.test(value)) {
+      throw new Error(`${name} = ${rawValue!.trim()} is not an integer literal; extend generate-constants.ts first`);
+    }
+    const notice = /@notice\s+(.*)/.exec(docBlock)?.[1]?.trim() ?? null;
+    constants.push({ name: name!, bits: Number(bits), value, notice });
+  }
+  if (constants.length === 0) throw new Error(`No constants found in ${SOL_SOURCE}`);
+  return constants;
+}
+
+function render(constants: SolConstant[]): string {
+  const lines = [
+    "// Generated by scripts/generate-constants.ts from packages/foundry/contracts/libraries/RaffeRaceConstants.sol.",
+    "// Do not edit by hand: change the Solidity source and run `yarn workspace @se-2/race-core generate:constants`.",
+    "",
+  ];
+  for (const c of constants) {
+    if (c.notice) lines.push(`/** ${c.notice} */`);
+    lines.push(`export const ${c.name} = ${c.value}${c.bits > MAX_NUMBER_BITS ? "n" : ""};`);
+  }
+  return `${lines.join("\n")}\n`;
+}
+
+function main() {
+  const check = process.argv.includes("--check");
+  const output = render(parseConstants(fs.readFileSync(SOL_SOURCE, "utf8")));
+  const current = fs.existsSync(TS_OUT) ? fs.readFileSync(TS_OUT, "utf8") : null;
+
+  if (check) {
+    if (current !== output) {
+      console.error(
+        `${path.relative(process.cwd(), TS_OUT)} is out of date with RaffeRaceConstants.sol.\n` +
+          "Run `yarn workspace @se-2/race-core generate:constants` and commit the result.",
+      );
+      process.exit(1);
+    }
+    console.log("race-core constants match RaffeRaceConstants.sol");
+    return;
+  }
+
+  fs.writeFileSync(TS_OUT, output);
+  console.log(`Wrote ${path.relative(process.cwd(), TS_OUT)}`);
+}
+
+main();
@@ -0,0 +1,146 @@
+import { TRACK_LENGTH } from "./constants";
+import { PHOTO_FINISH_MAX_LENGTHS, RAFFE_LENGTH_UNITS, describeMargin } from "./margins";
+import { RaceSimulationWithMargins } from "./simulateRace";
+
+/**
+ * Play-by-play for a simulated race. Deterministic: the same frames always produce the same events, so the
+ * captions on the track, the past-race recap and anything server-side agree. Events carry lanes, not names;
+ * `describeRaceEvent` fills names in.
+ */
+
+export type RaceEvent =
+  | { frame: number; kind: "start" }
+  | { frame: number; kind: "early_leader"; lane: number }
+  | { frame: number; kind: "lead_change"; lane: number; from: number }
+  | { frame: number; kind: "runaway"; lane: number; lengths: number }
+  | { frame: number; kind: "surge"; lane: number; fromPosition: number; toPosition: number }
+  | { frame: number; kind: "photo_finish"; lanes: number[] }
+  | { frame: number; kind: "finish"; lanes: number[]; lengths: number }
+  | { frame: number; kind: "result"; placings: number[][] }; // lanes in 1st, 2nd, 3rd (empty after a dead heat)
+
+type CommentaryInput = Pick<RaceSimulationWithMargins, "frames" | "finishFrames" | "finishOrder" | "margins">;
+
+// Frames a new leader must stay in front before it counts (stops nose-to-nose swaps from flooding the feed)
+const LEAD_HOLD_FRAMES = 3;
+// Quiet period after any event before the next lead change or runaway is called
+const MIN_GAP_FRAMES = 8;
+// When the early leader is called
+const EARLY_LEADER_FRAME = 12;
+// Clear of second by this much is a runaway
+const RUNAWAY_LENGTHS = 2;
+// Late surge: from this far into the race, gaining this many places within the window and reaching the top 3
+const SURGE_FROM_DISTANCE = TRACK_LENGTH * 0.6;
+const SURGE_WINDOW_FRAMES = 12;
+const SURGE_MIN_PLACES = 2;
+// A close finish is called this many frames before the first raffe crosses
+const PHOTO_CALL_FRAMES = 6;
+
+/** Lanes from first to last at one frame; equal distances keep lane order. */
+const standings = (distances: readonly number[]) =>
+  distances.map((_, lane) => lane).sort((a, b) => distances[b]! - distances[a]! || a - b);
+
+export function generateCommentary({ frames, finishFrames, finishOrder, margins }: CommentaryInput): RaceEvent[] {
+  const events: RaceEvent[] = [{ frame: 0, kind: "start" }];
+  if (frames.length < 2) return events;
+
+  // Only the running part of the race; after the first crossing the finish events take over
+  const firstFinish = Math.min(...finishFrames.filter(f => f >= 0));
+  const positions = frames.map(distances => standings(distances));
+
+  let leader = -1;
+  let lastCalled = 0;
+  let runawayCalledFor = -1;
+  const surged = new Set<number>();
+
+  for (let f = 1; f < firstFinish; f++) {
+    const order = positions[f]!;
+    const candidate = order[0]!;
+    const held = positions.slice(f, f + LEAD_HOLD_FRAMES).every(o => o[0] === candidate);
+
+    if (f >= EARLY_LEADER_FRAME && leader === -1 && held) {
+      events.push({ frame: f, kind: "early_leader", lane: candidate });
+      leader = candidate;
+      lastCalled = f;
+    } else if (leader !== -1 && candidate !== leader && held && f - lastCalled >= MIN_GAP_FRAMES) {
+      events.push({ frame: f, kind: "lead_change", lane: candidate, from: leader });
+      leader = candidate;
+      lastCalled = f;
+    } else if (leader !== -1 && candidate !== leader && held) {
+      // Too soon after the last call to say it out loud, but the lead did change
+      leader = candidate;
+    }
+
+    const distances = frames[f]!;
+    const lead = (distances[order[0]!]! - distances[order[1]!]!) / RAFFE_LENGTH_UNITS;
+    if (lead >= RUNAWAY_LENGTHS && runawayCalledFor !== order[0] && f - lastCalled >= MIN_GAP_FRAMES) {
+      events.push({ frame: f, kind: "runaway", lane: order[0]!, lengths: lead });
+      runawayCalledFor = order[0]!;
+      lastCalled = f;
+    }
+
+    if (distances[order[0]!]! >= SURGE_FROM_DISTANCE && f >= SURGE_WINDOW_FRAMES) {
+      const before = positions[f - SURGE_WINDOW_FRAMES]!;
+      for (let now = 0; now < 3; now++) {
+        const lane = order[now]!;
+        const was = before.indexOf(lane);
+        if (!surged.has(lane) && lane !== leader && was - now >= SURGE_MIN_PLACES) {
+          events.push({ frame: f, kind: "surge", lane, fromPosition: was, toPosition: now });
+          surged.add(lane);
+          lastCalled = f;
+        }
+      }
+    }
+  }
+
+  const winners = finishOrder.first.lanes;
+  const decisive = margins[0];
+  if (decisive && winners.length === 1 && decisive.lengths <= PHOTO_FINISH_MAX_LENGTHS) {
+    // Called as they hit the line, before the result, so the caption has time on screen
+    const frame = Math.max(1, firstFinish - PHOTO_CALL_FRAMES);
+    events.push({ frame, kind: "photo_finish", lanes: [...decisive.ahead, ...decisive.behind] });
+  }
+  events.push({
+    frame: firstFinish,
+    kind: "finish",
+    lanes: winners,
+    lengths: winners.length > 1 ? 0 : (decisive?.lengths ?? 0),
+  });
+  events.push({
+    frame: frames.length - 1,
+    kind: "result",
+    placings: [finishOrder.first.lanes, finishOrder.second.lanes, finishOrder.third.lanes],
+  });
+
+  return events.sort((a, b) => a.frame - b.frame);
+}
+
+const ORDINALS = ["1st", "2nd", "3rd", "4th", "5th", "6th", "7th", "8th"];
+const ordinal = (position: number) => ORDINALS[position] ?? `${position + 1}th`;
+const joinNames = (names: string[]) =>
+  names.length <= 1 ? (names[0] ?? "") : `${names.slice(0, -1).join(", ")} and ${names[names.length - 1]}`;
+
+/** One line of commentary. `laneName` maps a lane to what to call its raffe. */
+export function describeRaceEvent(event: RaceEvent, laneName: (lane: number) => string): string {
+  switch (event.kind) {
+    case "start":
+      return "And they're off!";
+    case "early_leader":
+      return `${laneName(event.lane)} breaks out in front`;
+    case "lead_change":
+      return `${laneName(event.lane)} takes the lead from ${laneName(event.from)}!`;
+    case "runaway":
+      return `${laneName(event.lane)} is running away with it, ${describeMargin(event.lengths)} clear`;
+    case "surge":
+      return `${laneName(event.lane)} surges from ${ordinal(event.fromPosition)} to ${ordinal(event.toPosition)}!`;
+    case "photo_finish":
+      return `It's too close to call between ${joinNames(event.lanes.map(laneName))}!`;
+    case "finish":
+      return event.lanes.length > 1
+        ? `Dead heat! ${joinNames(event.lanes.map(laneName))} can't be separated`
+        : `${laneName(event.lanes[0]!)} wins by ${describeMargin(event.lengths)}!`;
+    case "result":
+      return event.placings
+        .flatMap((lanes, i) => (lanes.length ? [`${ordinal(i)} ${joinNames(lanes.map(laneName))}`] : []))
+        .join(", ");
+  }
+}
@@ -0,0 +1,44 @@
+// Generated by scripts/generate-constants.ts from packages/foundry/contracts/libraries/RaffeRaceConstants.sol.
+// Do not edit by hand: change the Solidity source and run `yarn workspace @se-2/race-core generate:constants`.
+
+/** Number of lanes in each race (also used for array sizes) */
+export const LANE_COUNT = 6;
+/** Track length in arbitrary distance units */
+export const TRACK_LENGTH = 1000;
+/** Maximum ticks before a race fails (sanity check) */
+export const MAX_TICKS = 500;
+/** Speed range per tick (1 to SPEED_RANGE) */
+export const SPEED_RANGE = 10;
+/** Distance past finish line to run (ensures all racers visually cross) */
+export const FINISH_OVERSHOOT = 10;
+/** Basis points denominator (10000 = 100%) */
+export const ODDS_SCALE = 10000;
+/** Maximum house edge in basis points (30%) */
+export const MAX_HOUSE_EDGE_BPS = 3000;
+/** Minimum decimal odds in basis points (1.01x) */
+export const MIN_DECIMAL_ODDS_BPS = 10100;
+export const BET_TYPE_WIN = 0;
+export const BET_TYPE_PLACE = 1;
+export const BET_TYPE_SHOW = 2;
+export const BET_TYPE_EXACTA = 3;
+export const BET_TYPE_QUINELLA = 4;
+export const BET_TYPE_TRIFECTA = 5;
+/** Size of the exacta/quinella odds grid (index = first * LANE_COUNT + second) */
+export const PAIR_COMBO_COUNT = 36;
+/** Size of the trifecta odds grid (index = (first * LANE_COUNT + second) * LANE_COUNT + third) */
+export const TRIFECTA_COMBO_COUNT = 216;
+/** Blocks for bot to submit odds after race creation */
+export const ODDS_WINDOW_BLOCKS = 10n;
+/** Blocks for betting window (after odds are set) */
+export const BETTING_WINDOW_BLOCKS = 30n;
+/** Cooldown blocks after settlement before new race */
+export const POST_RACE_COOLDOWN_BLOCKS = 30n;
+/** Blocks after settlement before claim expires (~3 hours on Base with 2s blocks) */
+export const CLAIM_EXPIRATION_BLOCKS = 5400n;
+/** Maximum entries in the persistent race queue */
+export const MAX_QUEUE_SIZE = 128;
+export const CLAIM_STATUS_BLOCKHASH_UNAVAILABLE = 0;
+export const CLAIM_STATUS_READY_TO_SETTLE = 1;
+export const CLAIM_STATUS_LOSS = 2;
+export const CLAIM_STATUS_WIN = 3;
+export const CLAIM_STATUS_REFUND = 4;
@@ -0,0 +1,121 @@
+import { BET_TYPE_EXACTA, BET_TYPE_QUINELLA, BET_TYPE_TRIFECTA, LANE_COUNT } from "./constants";
+import { calculatePayout } from "./payout";
+import { FinishOrder } from "./simulateRace";
+
+export type ExoticBetType = typeof BET_TYPE_EXACTA | typeof BET_TYPE_QUINELLA | typeof BET_TYPE_TRIFECTA;
+
+export const EXOTIC_BET_TYPES: readonly ExoticBetType[] = [BET_TYPE_EXACTA, BET_TYPE_QUINELLA, BET_TYPE_TRIFECTA];
+
+export type ExoticOdds = {
+  exactaOddsBps: readonly bigint[];
+  quinellaOddsBps: readonly bigint[];
+  trifectaOddsBps: readonly bigint[];
+};
+
+type Placings = Pick<FinishOrder, "first" | "second" | "third">;
+
+export const isExoticBetType = (betType: number): betType is ExoticBetType =>
+  (EXOTIC_BET_TYPES as readonly number[]).includes(betType);
+
+/** How many lanes a bet names: two for exacta and quinella, three for trifecta. */
+export const exoticPicks = (betType: ExoticBetType) => (betType === BET_TYPE_TRIFECTA ? 3 : 2);
+
+/**
+ * Lanes as RaffeRace stores them (ExoticLib.normalizeLanes): only the lanes the bet type uses, quinella low-high.
+ * Returns null for anything placeExoticBet would reject (a repeated or out-of-range lane).
+ */
+export function normalizeExoticLanes(betType: ExoticBetType, lanes: readonly number[]): number[] | null {
+  const picked = lanes.slice(0, exoticPicks(betType));
+  if (picked.length < exoticPicks(betType)) return null;
+  if (picked.some(l => !Number.isInteger(l) || l < 0 || l >= LANE_COUNT)) return null;
+  if (new Set(picked).size !== picked.length) return null;
+  return betType === BET_TYPE_QUINELLA ? [...picked].sort((a, b) => a - b) : picked;
+}
+
+/** Index into the odds and probability grids (ExoticLib.comboIndex), for normalized lanes. */
+export function exoticComboIndex(betType: ExoticBetType, lanes: readonly number[], laneCount = LANE_COUNT): number {
+  const pair = lanes[0]! * laneCount + lanes[1]!;
+  return betType === BET_TYPE_TRIFECTA ? pair * laneCount + lanes[2]! : pair;
+}
+
+/**
+ * Which of the first three finishing positions each lane covers (ExoticLib.positionMasks): bit k = position k + 1.
+ * A dead-heat group covers as many positions as it has lanes, starting at its own.
+ */
+export function exoticPositionMasks(finishOrder: Placings, laneCount = LANE_COUNT): number[] {
+  const masks = Array.from({ length: laneCount }, () => 0);
+  [finishOrder.first, finishOrder.second, finishOrder.third].forEach((group, start) => {
+    let bits = 0;
+    for (let p = start; p < 3 && p < start + group.count; p++) bits |= 1 << p;
+    for (const lane of group.lanes) masks[lane]! |= bits;
+  });
+  return masks;
+}
+
+const pairWins = (masks: readonly number[], first: number, second: number) =>
+  (masks[first]! & 1) !== 0 && (masks[second]! & 2) !== 0;
+
+/**
+ * Grid indices of every winning combination, in ExoticLib.winningCombos order.
+ * The count is the dead-heat divisor: each winning combination pays its odds split that many ways.
+ */
+export function winningExoticCombos(masks: readonly number[], betType: ExoticBetType): number[] {
+  const laneCount = masks.length;
+  const out: number[] = [];
+  for (let a = 0; a < laneCount; a++) {
+    if ((masks[a]! & 1) === 0) continue;
+    for (let b = 0; b < laneCount; b++) {
+      if (b === a || (masks[b]! & 2) === 0) continue;
+      const pair = a * laneCount + b;
+      if (betType === BET_TYPE_EXACTA) {
+        out.push(pair);
+      } else if (betType === BET_TYPE_QUINELLA) {
+        // Each unordered pair once, under its low-high index
+        if (a < b) out.push(pair);
+        else if (!pairWins(masks, b, a)) out.push(b * laneCount + a);
+      } else {
+        for (let c = 0; c < laneCount; c++) {
+          if (c !== a && c !== b && (masks[c]! & 4) !== 0) out.push(pair * laneCount + c);
+        }
+      }
+    }
+  }
+  return out;
+}
+
+/** Dead-heat divisor for an exotic bet on a settled race, or null if it lost. */
+export function exoticDeadHeatDivisor(
+  bet: { lanes: readonly number[]; betType: ExoticBetType },
+  finishOrder: Placings,
+): number | null {
+  const lanes = normalizeExoticLanes(bet.betType, bet.lanes);
+  if (!lanes) return null;
+  const winners = winningExoticCombos(exoticPositionMasks(finishOrder), bet.betType);
+  return winners.includes(exoticComboIndex(bet.betType, lanes)) ? winners.length : null;
+}
+
+/** The odds grid for an exotic bet type. */
+export const exoticOddsGrid = (odds: ExoticOdds, betType: ExoticBetType) =>
+  betType === BET_TYPE_EXACTA
+    ? odds.exactaOddsBps
+    : betType === BET_TYPE_QUINELLA
+      ? odds.quinellaOddsBps
+      : odds.trifectaOddsBps;
+
+/** Quoted odds for a combination, 0 if there are none. */
+export function exoticOddsFor(odds: ExoticOdds, betType: ExoticBetType, lanes: readonly number[]): bigint {
+  const normalized = normalizeExoticLanes(betType, lanes);
+  if (!normalized) return 0n;
+  return exoticOddsGrid(odds, betType)[exoticComboIndex(betType, normalized)] ?? 0n;
+}
+
+/** What an exotic bet on a settled race pays (0 if it lost), matching ExoticLib.calculateExoticPayout. */
+export function settledExoticPayout(
+  bet: { amount: bigint; lanes: readonly number[]; betType: ExoticBetType },
+  finishOrder: Placings,
+  odds: ExoticOdds,
+): bigint {
+  const divisor = exoticDeadHeatDivisor(bet, finishOrder);
+  if (divisor === null) return 0n;
+  return calculatePayout(bet.amount, exoticOddsFor(odds, bet.betType, bet.lanes), divisor);
+}
@@ -0,0 +1,13 @@
+export * from "./constants";
+export * from "./score";
+export * from "./simulateRace";
+export * from "./margins";
+export * from "./commentary";
+export * from "./monteCarloShard";
+export * from "./monteCarloPool";
+export * from "./odds";
+export * from "./scoreTable";
+export * from "./payout";
+export * from "./exotic";
+export * from "./parimutuel";
+export * from "./verify";
@@ -0,0 +1,88 @@
+import { TRACK_LENGTH } from "./constants";
+
+/**
+ * Winning margins, the way a race caller would put them. Purely presentational: settlement only ever uses the
+ * order of finish times, never how far apart they were.
+ */
+
+// One raffe length in track units: roughly nose to tail of the sprite as drawn on the track (100px at 3px/unit)
+export const RAFFE_LENGTH_UNITS = 25;
+
+/** Gap between two consecutive finishing groups, measured at the moment the leading group crossed the line. */
+export type FinishMargin = {
+  ahead: number[]; // lanes of the leading group (several = dead heat)
+  behind: number[]; // lanes of the next group
+  ticks: number; // time between the two crossings, in ticks
+  distance: number; // track units the trailing group still had to run when the leading group crossed
+  lengths: number; // distance in raffe lengths
+};
+
+/**
+ * Where a lane was at a finish-time instant (tick * precision + fraction). `frames[t]` are the distances before
+ * tick t, so a position part-way through tick t interpolates frames[t] -> frames[t + 1].
+ */
+export function laneDistanceAt(
+  frames: readonly (readonly number[])[],
+  lane: number,
+  time: number,
+  precision: number,
+): number {
+  const tick = Math.floor(time / precision);
+  const fraction = (time % precision) / precision;
+  const before = frames[tick]?.[lane] ?? 0;
+  const after = frames[tick + 1]?.[lane] ?? before;
+  return before + (after - before) * fraction;
+}
+
+/**
+ * Margins between every pair of consecutive positions, all lanes included, from the simulator's finish times
+ * (tick * precision + fraction of the tick) and frames.
+ */
+export function computeFinishMargins(
+  finishTimes: readonly number[],
+  frames: readonly (readonly number[])[],
+  precision: number,
+  trackLength = TRACK_LENGTH,
+): FinishMargin[] {
+  // Group lanes that crossed at exactly the same time, earliest first (same order as calculateFinishOrder)
+  const lanes = finishTimes.map((_, lane) => lane).sort((a, b) => finishTimes[a]! - finishTimes[b]!);
+  const groups: number[][] = [];
+  for (const lane of lanes) {
+    const last = groups[groups.length - 1];
+    if (last && finishTimes[last[0]!] === finishTimes[lane]) last.push(lane);
+    else groups.push([lane]);
+  }
+
+  return groups.slice(1).map((behind, i) => {
+    const ahead = groups[i]!;
+    const crossedAt = finishTimes[ahead[0]!]!;
+    const distance = Math.max(0, trackLength - laneDistanceAt(frames, behind[0]!, crossedAt, precision));
+    return {
+      ahead,
+      behind,
+      ticks: (finishTimes[behind[0]!]! - crossedAt) / precision,
+      distance,
+      lengths: distance / RAFFE_LENGTH_UNITS,
+    };
+  });
+}
+
+/** "a nose", "a neck", "1½ lengths"... (no "by"), or "a dead heat" when the gap is zero. */
+export function describeMargin(lengths: number): string {
+  if (lengths <= 0) return "a dead heat";
+  if (lengths < 0.05) return "a nose";
+  if (lengths < 0.1) return "a short head";
+  if (lengths < 0.2) return "a head";
+  if (lengths < 0.35) return "a neck";
+  if (lengths < 0.625) return "½ length";
+  if (lengths < 0.875) return "¾ length";
+  if (lengths > 30) return "a distance";
+
+  const halves = Math.round(lengths * 2);
+  const whole = Math.floor(halves / 2);
+  const label = halves % 2 ? `${whole}½` : `${whole}`;
+  return `${label} ${halves === 2 ? "length" : "lengths"}`;
+}
+
+// Finishes this close (a head or less) get the photo-finish view
+export const PHOTO_FINISH_MAX_LENGTHS = 0.2;
@@ -0,0 +1,5 @@
+import { McWorkerRequest, handleMcWorkerRequest } from "./monteCarloPool";
+import { parentPort } from "node:worker_threads";
+
+// worker_threads entrypoint for createNodeMonteCarloPool(). One shard per message, replies in order.
+parentPort?.on("message", (req: McWorkerRequest) => parentPort?.postMessage(handleMcWorkerRequest(req)));
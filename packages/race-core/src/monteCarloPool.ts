@@ -0,0 +1,214 @@
+import { McShardJob, McShardResult, emptyShardResult, mergeShardResult, runMonteCarloShard } from "./monteCarloShard";
+import {
+  EstimateOddsParams,
+  MonteCarloOdds,
+  MonteCarloProgress,
+  MonteCarloWinPlaceShow,
+  MonteCarloWinProb,
+  WinProbSeedParams,
+  oddsFromTally,
+  oddsSeedStream,
+  winPlaceShowFromTally,
+  winProbFromTally,
+  winProbSeedStream,
+} from "./odds";
+
+export type McWorkerRequest = { id: number; job: McShardJob };
+export type McWorkerResponse = { id: number; result: McShardResult } | { id: number; error: string };
+
+/** Shared body of every worker entrypoint. */
+export function handleMcWorkerRequest(req: McWorkerRequest): McWorkerResponse {
+  try {
+    return { id: req.id, result: runMonteCarloShard(req.job) };
+  } catch (err) {
+    return { id: req.id, error: err instanceof Error ? err.message : String(err) };
+  }
+}
+
+/** The bits of a Web Worker / worker_threads Worker the pool needs. */
+export type McWorkerPort = {
+  postMessage: (msg: McWorkerRequest) => void;
+  onMessage: (cb: (msg: McWorkerResponse) => void) => void;
+  onError: (cb: (err: unknown) => void) => void;
+  terminate: () => void;
+};
+
+export type McWorker = {
+  run: (job: McShardJob) => Promise<McShardResult>;
+  terminate: () => void;
+  /** True once the worker errored, exited or was terminated; it will never answer again. */
+  readonly dead: boolean;
+};
+
+const abortError = () => new DOMException("Aborted", "AbortError");
+
+/**
+ * Turn a raw worker port into a request/response client. Pending jobs reject on error or terminate, and the worker
+ * is dead from then on: later jobs reject straight away instead of waiting on a port nobody reads.
+ */
+export function createMcWorker(port: McWorkerPort): McWorker {
+  let nextId = 0;
+  let deadError: unknown = null;
+  const pending = new Map<number, { resolve: (r: McShardResult) => void; reject: (e: unknown) => void }>();
+
+  const die = (err: unknown) => {
+    deadError ??= err;
+    for (const p of pending.values()) p.reject(err);
+    pending.clear();
+  };
+
+  port.onMessage(msg => {
+    const p = pending.get(msg.id);
+    if (!p) return;
+    pending.delete(msg.id);
+    if ("error" in msg) p.reject(new Error(`Monte Carlo worker: ${msg.error}`));
+    else p.resolve(msg.result);
+  });
+  port.onError(die);
+
+  return {
+    run: job =>
+      new Promise<McShardResult>((resolve, reject) => {
+        if (deadError) return reject(deadError);
+        const id = nextId++;
+        pending.set(id, { resolve, reject });
+        port.postMessage({ id, job });
+      }),
+    terminate: () => {
+      port.terminate();
+      die(abortError());
+    },
+    get dead() {
+      return deadError !== null;
+    },
+  };
+}
+
+export type McWorkerFactory = () => McWorker;
+
+type StreamParams = {
+  signal?: AbortSignal;
+  onProgress?: MonteCarloProgress;
+};
+
+export type MonteCarloPool = {
+  size: number;
+  /** Bit-identical to `estimateWinProbMonteCarlo6`. */
+  estimateWinProb: (params: WinProbSeedParams & StreamParams & { samples: number }) => Promise<MonteCarloWinProb>;
+  /** Bit-identical to `estimateWinPlaceShowMonteCarlo6`. */
+  estimateWinPlaceShow: (
+    params: WinProbSeedParams & StreamParams & { samples: number },
+  ) => Promise<MonteCarloWinPlaceShow>;
+  /** Bit-identical to `estimateOddsMonteCarlo`. */
+  estimateOdds: (params: EstimateOddsParams) => Promise<MonteCarloOdds>;
+  /** Terminate all workers. The pool respawns them lazily if used again. */
+  destroy: () => void;
+};
+
+/**
+ * Parallel Monte Carlo engine.
+ *
+ * A run's seed stream is cut into `shardSize` slices which idle workers pull in order. SplitMix64 lets each
+ * shard jump straight to its first sample and every tally is an integer, so the merged result does not
+ * depend on worker count, shard size or completion order.
+ *
+ * Aborting a run rejects it straight away and stops it pulling further shards. Its in-flight shards (at most
+ * `shardSize` samples each) finish on their workers and are dropped, so other runs sharing the pool are untouched.
+ *
+ * A worker that crashes fails the runs with shards on it; its slot gets a fresh worker on the next shard.
+ */
+export function createMonteCarloPool({
+  createWorker,
+  size,
+  shardSize = 250,
+}: {
+  createWorker: McWorkerFactory;
+  size: number;
+  shardSize?: number;
+}): MonteCarloPool {
+  if (!Number.isInteger(size) || size < 1) throw new Error("pool size must be >= 1");
+  if (!Number.isInteger(shardSize) || shardSize < 1) throw new Error("shardSize must be >= 1");
+
+  const workers: (McWorker | undefined)[] = Array.from({ length: size }, () => undefined);
+  const workerAt = (slot: number) => {
+    const worker = workers[slot];
+    if (worker && !worker.dead) return worker;
+    return (workers[slot] = createWorker());
+  };
+
+  const destroy = () => {
+    for (let slot = 0; slot < workers.length; slot++) {
+      workers[slot]?.terminate();
+      workers[slot] = undefined;
+    }
+  };
+
+  async function runStream({
+    state0,
+    score,
+    samples,
+    signal,
+    onProgress,
+  }: StreamParams & { state0: bigint; score: number[]; samples: number }): Promise<McShardResult> {
+    if (!Number.isFinite(samples) || samples <= 0) throw new Error("samples must be > 0");
+    if (signal?.aborted) throw abortError();
+
+    const shardCount = Math.ceil(samples / shardSize);
+    const results: McShardResult[] = [];
+    let nextShard = 0;
+    let done = 0;
+    let stopped = false;
+
+    const drain = async (slot: number) => {
+      while (!stopped && nextShard < shardCount) {
+        const idx = nextShard++;
+        const start = idx * shardSize;
+        const job = { state0, score, start, count: Math.min(shardSize, samples - start) };
+        results[idx] = await workerAt(slot).run(job);
+        done += job.count;
+        onProgress?.({ done, total: samples });
+      }
+    };
+
+    let onAbort = () => {};
+    const aborted = new Promise<never>((_, reject) => {
+      onAbort = () => {
+        stopped = true;
+        reject(abortError());
+      };
+    });
+    signal?.addEventListener("abort", onAbort, { once: true });
+    try {
+      await Promise.race([
+        Promise.all(Array.from({ length: Math.min(size, shardCount) }, (_, slot) => drain(slot))),
+        aborted,
+      ]);
+    } catch (err) {
+      stopped = true;
+      throw err;
+    } finally {
+      signal?.removeEventListener("abort", onAbort);
+    }
+
+    return results.reduce(mergeShardResult, emptyShardResult(score.length));
+  }
+
+  return {
+    size,
+    estimateWinProb: async params => winProbFromTally(await runStream({ ...params, ...winProbSeedStream(params) })),
+    estimateWinPlaceShow: async params =>
+      winPlaceShowFromTally(await runStream({ ...params, ...winProbSeedStream(params) })),
+    estimateOdds: async params => {
+      const { samples = 10_000, edge = 0.05 } = params;
+      if (edge < 0 || edge >= 1) throw new Error("edge must be in [0, 1)");
+      const tally = await runStream({
+        ...oddsSeedStream(params),
+        samples,
+        signal: params.signal,
+        onProgress: params.onProgress,
+      });
+      return oddsFromTally(tally, params);
+    },
+    destroy,
+  };
+}
@@ -0,0 +1,162 @@
+import { BET_TYPE_EXACTA, BET_TYPE_QUINELLA, BET_TYPE_TRIFECTA } from "./constants";
+import { exoticPositionMasks, winningExoticCombos } from "./exotic";
+import { FinishOrder, simulateRaceFromSeed } from "./simulateRace";
+import { Hex, toHex } from "viem";
+
+// splitmix64: fast deterministic PRNG for generating seeds
+// Reference constants are standard for SplitMix64.
+export const MASK64 = (1n << 64n) - 1n;
+const SPLITMIX64_GAMMA = 0x9e3779b97f4a7c15n;
+// Each race sample consumes 4 outputs (one 32-byte seed).
+const OUTPUTS_PER_SAMPLE = 4n;
+
+export function splitmix64Next(state: { x: bigint }): bigint {
+  state.x = (state.x + SPLITMIX64_GAMMA) & MASK64;
+  let z = state.x;
+  z = ((z ^ (z >> 30n)) * 0xbf58476d1ce4e5b9n) & MASK64;
+  z = ((z ^ (z >> 27n)) * 0x94d049bb133111ebn) & MASK64;
+  return (z ^ (z >> 31n)) & MASK64;
+}
+
+// One race seed = 4 consecutive splitmix64 outputs packed big-endian into 32 bytes.
+export function nextSampleSeed(prng: { x: bigint }): Hex {
+  const a = splitmix64Next(prng);
+  const b = splitmix64Next(prng);
+  const c = splitmix64Next(prng);
+  const d = splitmix64Next(prng);
+  const seed256 = (a << 192n) | (b << 128n) | (c << 64n) | d;
+  return toHex(seed256, { size: 32 }) as Hex;
+}
+
+/**
+ * SplitMix64 state is a plain counter (x += GAMMA), so we can jump straight to sample `index`
+ * without generating the samples before it. This is what makes sharding bit-identical.
+ */
+export function splitmix64StateAt(state0: bigint, sampleIndex: number): bigint {
+  return (state0 + BigInt(sampleIndex) * OUTPUTS_PER_SAMPLE * SPLITMIX64_GAMMA) & MASK64;
+}
+
+// LCM(1..6): a dead heat between n lanes splits into 60/n whole units, keeping all tallies integer.
+export const DEAD_HEAT_UNITS = 60;
+
+// Exotic dead heats split by the number of winning combinations, which is always one of
+// 1, 2, 3, 4, 5, 6, 8, 10, 12, 15, 20, 24, 30, 60 or 120; LCM = 120.
+export const EXOTIC_DEAD_HEAT_UNITS = 120;
+
+/**
+ * Per-lane payout weight of one finish order for Win / Place / Show, matching SettlementLib + ClaimLib:
+ * - Win:   every 1st-place lane, split by firstPlace.count
+ * - Place: 1st-place lanes pay in full; 2nd-place lanes split by secondPlace.count
+ * - Show:  1st and 2nd pay in full; 3rd-place lanes split by thirdPlace.count
+ *
+ * Weights are the fraction of the quoted odds a bet actually receives (scaled by `units`), so E[weight]
+ * is the probability that makes the on-chain odds fair under dead heats.
+ */
+export function finishOrderWeights(
+  finishOrder: FinishOrder,
+  laneCount = 6,
+  units = 1,
+): { win: number[]; place: number[]; show: number[] } {
+  const win = Array.from({ length: laneCount }, () => 0);
+  const place = Array.from({ length: laneCount }, () => 0);
+  const show = Array.from({ length: laneCount }, () => 0);
+  const { first, second, third } = finishOrder;
+
+  for (const lane of first.lanes) {
+    win[lane] += units / first.count;
+    place[lane] += units;
+    show[lane] += units;
+  }
+  for (const lane of second.lanes) {
+    place[lane] += second.count > 1 ? units / second.count : units;
+    show[lane] += units;
+  }
+  for (const lane of third.lanes) {
+    show[lane] += third.count > 1 ? units / third.count : units;
+  }
+
+  return { win, place, show };
+}
+
+/** A contiguous slice [start, start + count) of one Monte Carlo seed stream. */
+export type McShardJob = {
+  state0: bigint; // splitmix64 state before sample 0
+  score: number[]; // clamped lane scores
+  start: number;
+  count: number;
+};
+
+/** Integer tallies for a shard; summing shards in any order gives the same totals. */
+export type McShardResult = {
+  samples: number;
+  winnerCounts: number[]; // by sim.winner (first lane in tie order), like the legacy estimators
+  winUnits: number[]; // dead-heat weighted, in DEAD_HEAT_UNITS
+  placeUnits: number[];
+  showUnits: number[];
+  // Per combination (indexed like exoticComboIndex), split over winning combinations, in EXOTIC_DEAD_HEAT_UNITS
+  exactaUnits: number[];
+  quinellaUnits: number[];
+  trifectaUnits: number[];
+};
+
+export function emptyShardResult(laneCount = 6): McShardResult {
+  const zeros = (length = laneCount) => Array.from({ length }, () => 0);
+  return {
+    samples: 0,
+    winnerCounts: zeros(),
+    winUnits: zeros(),
+    placeUnits: zeros(),
+    showUnits: zeros(),
+    exactaUnits: zeros(laneCount ** 2),
+    quinellaUnits: zeros(laneCount ** 2),
+    trifectaUnits: zeros(laneCount ** 3),
+  };
+}
+
+// Credit each winning combination its share of one sample, the way ExoticLib splits exotic dead heats
+function tallyExoticCombos(units: number[], combos: readonly number[]) {
+  for (const index of combos) units[index] += EXOTIC_DEAD_HEAT_UNITS / combos.length;
+}
+
+/** Run one shard. Pure and synchronous: safe to call on the main thread or inside a worker. */
+export function runMonteCarloShard(job: McShardJob): McShardResult {
+  const laneCount = job.score.length;
+  const out = emptyShardResult(laneCount);
+  const prng = { x: splitmix64StateAt(job.state0, job.start) };
+
+  for (let i = 0; i < job.count; i++) {
+    const seed = nextSampleSeed(prng);
+    const sim = simulateRaceFromSeed({ seed, laneCount, score: job.score });
+    const w = finishOrderWeights(sim.finishOrder, laneCount, DEAD_HEAT_UNITS);
+
+    out.winnerCounts[sim.winner] += 1;
+    for (let lane = 0; lane < laneCount; lane++) {
+      out.winUnits[lane] += w.win[lane]!;
+      out.placeUnits[lane] += w.place[lane]!;
+      out.showUnits[lane] += w.show[lane]!;
+    }
+
+    const masks = exoticPositionMasks(sim.finishOrder, laneCount);
+    tallyExoticCombos(out.exactaUnits, winningExoticCombos(masks, BET_TYPE_EXACTA));
+    tallyExoticCombos(out.quinellaUnits, winningExoticCombos(masks, BET_TYPE_QUINELLA));
+    tallyExoticCombos(out.trifectaUnits, winningExoticCombos(masks, BET_TYPE_TRIFECTA));
+  }
+
+  out.samples = job.count;
+  return out;
+}
+
+/** Accumulate `next` into `acc` (mutates and returns `acc`). */
+export function mergeShardResult(acc: McShardResult, next: McShardResult): McShardResult {
+  acc.samples += next.samples;
+  for (let lane = 0; lane < acc.winnerCounts.length; lane++) {
+    acc.winnerCounts[lane] += next.winnerCounts[lane]!;
+    acc.winUnits[lane] += next.winUnits[lane]!;
+    acc.placeUnits[lane] += next.placeUnits[lane]!;
+    acc.showUnits[lane] += next.showUnits[lane]!;
+  }
+  for (const key of ["exactaUnits", "quinellaUnits", "trifectaUnits"] as const) {
+    for (let i = 0; i < acc[key].length; i++) acc[key][i] += next[key][i]!;
+  }
+  return acc;
+}
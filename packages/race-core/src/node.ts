@@ -0,0 +1,2 @@
+// Node-only entry (`@se-2/race-core/node`). Kept out of the main index so browser bundles never see worker_threads.
+export * from "./nodeMonteCarloPool";
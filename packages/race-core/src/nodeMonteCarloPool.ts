@@ -0,0 +1,37 @@
+import { McWorker, MonteCarloPool, createMcWorker, createMonteCarloPool } from "./monteCarloPool";
+import { availableParallelism } from "node:os";
+import path from "node:path";
+import { Worker } from "node:worker_threads";
+
+export const NODE_MC_WORKER_ENTRY = path.join(__dirname, "monteCarlo.node-worker.ts");
+
+/** Start a worker_threads Monte Carlo worker. Workers load the TS entrypoint through tsx. */
+export const spawnNodeMcWorker = () => new Worker(NODE_MC_WORKER_ENTRY, { execArgv: ["--require", "tsx/cjs"] });
+
+/** Wrap a worker_threads Worker running the Monte Carlo entrypoint; any exit (crash or terminate) kills it. */
+export function createNodeMcWorker(worker: Worker): McWorker {
+  return createMcWorker({
+    postMessage: msg => worker.postMessage(msg),
+    onMessage: cb => worker.on("message", cb),
+    onError: cb => {
+      worker.on("error", cb);
+      worker.on("exit", code => cb(new Error(`Monte Carlo worker exited with code ${code}`)));
+    },
+    terminate: () => void worker.terminate(),
+  });
+}
+
+/**
+ * Monte Carlo pool backed by worker_threads, for the bot and Node scripts (never imported by app code).
+ */
+export function createNodeMonteCarloPool(size = Math.max(1, availableParallelism() - 1)): MonteCarloPool {
+  return createMonteCarloPool({
+    size,
+    createWorker: () => {
+      const worker = spawnNodeMcWorker();
+      // Don't keep the process alive just for idle workers.
+      worker.unref();
+      return createNodeMcWorker(worker);
+    },
+  });
+}
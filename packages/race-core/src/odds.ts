@@ -0,0 +1,310 @@
+import {
+  DEAD_HEAT_UNITS,
+  EXOTIC_DEAD_HEAT_UNITS,
+  MASK64,
+  McShardResult,
+  emptyShardResult,
+  mergeShardResult,
+  runMonteCarloShard,
+} from "./monteCarloShard";
+import { clampScore } from "./score";
+import { Hex, encodePacked, keccak256 } from "viem";
+
+export { finishOrderWeights } from "./monteCarloShard";
+
+export type MonteCarloOdds = {
+  samples: number;
+  edge: number; // 0.05 means 5%
+  winCounts: [number, number, number, number, number, number];
+  winProb: [number, number, number, number, number, number];
+  // Decimal odds (return multiple, includes stake), after house edge and caps.
+  decimalOdds: [number, number, number, number, number, number];
+  // Profit multiple (excludes stake): decimalOdds - 1
+  profitOdds: [number, number, number, number, number, number];
+};
+
+export type EstimateOddsParams = {
+  raceId: bigint;
+  tokenIds: readonly [bigint, bigint, bigint, bigint, bigint, bigint];
+  score: readonly [number, number, number, number, number, number];
+  samples?: number;
+  edge?: number;
+  // Prevent extreme odds when p is tiny.
+  minProb?: number;
+  // Keep odds sane (decimal odds include stake).
+  minDecimalOdds?: number;
+  maxDecimalOdds?: number;
+  // Chunking keeps the UI responsive.
+  chunkSize?: number;
+  signal?: AbortSignal;
+  onProgress?: (p: { done: number; total: number }) => void;
+};
+
+export type MonteCarloWinProb = {
+  samples: number;
+  winCounts: number[];
+  winProb: number[]; // per-lane probability (0..1), sums to ~1
+};
+
+export type MonteCarloWinPlaceShow = {
+  samples: number;
+  // Dead-heat weighted hit counts (a lane sharing a split position counts 1/n), see `finishOrderWeights`.
+  winCounts: number[];
+  placeCounts: number[];
+  showCounts: number[];
+  // Per-lane probabilities (0..1). Win sums to 1; place ~2 and show ~3 (more when 1st is a dead heat).
+  winProb: number[];
+  placeProb: number[];
+  showProb: number[];
+  // Same probabilities in basis points, ready for setProbabilities().
+  winProbBps: number[];
+  placeProbBps: number[];
+  showProbBps: number[];
+  // Exotic probabilities in basis points, one per grid slot (indexed like exoticComboIndex, 0 where the slot isn't a
+  // valid combination), split over winning combinations the way ExoticLib pays dead heats. Ready for
+  // setExoticProbabilities().
+  exactaProbBps: number[];
+  quinellaProbBps: number[];
+  trifectaProbBps: number[];
+};
+
+export type MonteCarloProgress = (p: { done: number; total: number }) => void;
+
+export type WinProbSeedParams = {
+  score: readonly [number, number, number, number, number, number] | readonly number[];
+  seedBase?: Hex;
+  salt?: bigint; // optional extra domain-separation
+};
+
+function assertLaneCount6(scores: readonly number[]) {
+  if (scores.length !== 6) throw new Error("Expected 6 lane scores");
+}
+
+function asTuple6<T>(arr: readonly T[]): [T, T, T, T, T, T] {
+  if (arr.length !== 6) throw new Error("Expected length 6");
+  return [arr[0]!, arr[1]!, arr[2]!, arr[3]!, arr[4]!, arr[5]!];
+}
+
+const toProbBps = (p: number) => Math.min(10_000, Math.max(0, Math.round(p * 10_000)));
+
+/**
+ * Seed stream used by `estimateWinProbMonteCarlo6` / `estimateWinPlaceShowMonteCarlo6`.
+ * If `seedBase` is omitted we derive one deterministically from the scores + `salt`.
+ */
+export function winProbSeedStream(params: WinProbSeedParams): { state0: bigint; score: number[] } {
+  const { score, seedBase, salt = 0n } = params;
+  assertLaneCount6(score);
+
+  const s6 = (score as readonly number[]).map(clampScore);
+  const base: Hex =
+    seedBase ??
+    keccak256(
+      encodePacked(
+        ["uint256", "uint8", "uint8", "uint8", "uint8", "uint8", "uint8"],
+        [salt, s6[0]!, s6[1]!, s6[2]!, s6[3]!, s6[4]!, s6[5]!],
+      ),
+    );
+
+  return { state0: BigInt(base) & MASK64, score: s6 };
+}
+
+/** Seed stream used by `estimateOddsMonteCarlo`: one per finalized lineup + score. */
+export function oddsSeedStream(params: Pick<EstimateOddsParams, "raceId" | "tokenIds" | "score">): {
+  state0: bigint;
+  score: number[];
+} {
+  const { raceId, tokenIds, score } = params;
+
+  // Deterministic base seed per finalized lineup+score so every client quotes the same odds.
+  const base: Hex = keccak256(
+    encodePacked(
+      [
+        "uint256",
+        "uint256",
+        "uint256",
+        "uint256",
+        "uint256",
+        "uint256",
+        "uint256",
+        "uint8",
+        "uint8",
+        "uint8",
+        "uint8",
+        "uint8",
+        "uint8",
+      ],
+      [
+        raceId,
+        tokenIds[0],
+        tokenIds[1],
+        tokenIds[2],
+        tokenIds[3],
+        tokenIds[4],
+        tokenIds[5],
+        clampScore(score[0]),
+        clampScore(score[1]),
+        clampScore(score[2]),
+        clampScore(score[3]),
+        clampScore(score[4]),
+        clampScore(score[5]),
+      ],
+    ),
+  );
+
+  return { state0: (BigInt(base) ^ (raceId & MASK64)) & MASK64, score: score.map(clampScore) };
+}
+
+/**
+ * Run a seed stream on the calling thread in `chunkSize` shards, yielding between shards.
+ * Produces exactly the tallies the worker pool produces for the same stream.
+ */
+async function runSeedStream(params: {
+  state0: bigint;
+  score: number[];
+  samples: number;
+  chunkSize: number;
+  signal?: AbortSignal;
+  onProgress?: MonteCarloProgress;
+}): Promise<McShardResult> {
+  const { state0, score, samples, chunkSize, signal, onProgress } = params;
+  const tally = emptyShardResult(score.length);
+
+  for (let start = 0; start < samples; start += chunkSize) {
+    if (signal?.aborted) throw new DOMException("Aborted", "AbortError");
+
+    const count = Math.min(chunkSize, samples - start);
+    mergeShardResult(tally, runMonteCarloShard({ state0, score, start, count }));
+
+    if (start + count < samples) {
+      onProgress?.({ done: start + count, total: samples });
+      // Yield to keep UI responsive if this is used client-side.
+      await new Promise<void>(r => setTimeout(r, 0));
+    }
+  }
+
+  onProgress?.({ done: samples, total: samples });
+  return tally;
+}
+
+export function winProbFromTally(tally: McShardResult): MonteCarloWinProb {
+  const { samples, winnerCounts } = tally;
+  return { samples, winCounts: winnerCounts.slice(), winProb: winnerCounts.map(w => w / samples) };
+}
+
+export function winPlaceShowFromTally(tally: McShardResult): MonteCarloWinPlaceShow {
+  const { samples } = tally;
+  const winCounts = tally.winUnits.map(u => u / DEAD_HEAT_UNITS);
+  const placeCounts = tally.placeUnits.map(u => u / DEAD_HEAT_UNITS);
+  const showCounts = tally.showUnits.map(u => u / DEAD_HEAT_UNITS);
+  const winProb = winCounts.map(c => c / samples);
+  const placeProb = placeCounts.map(c => c / samples);
+  const showProb = showCounts.map(c => c / samples);
+  const exoticProbBps = (units: number[]) => units.map(u => toProbBps(u / EXOTIC_DEAD_HEAT_UNITS / samples));
+
+  return {
+    samples,
+    winCounts,
+    placeCounts,
+    showCounts,
+    winProb,
+    placeProb,
+    showProb,
+    winProbBps: winProb.map(toProbBps),
+    placeProbBps: placeProb.map(toProbBps),
+    showProbBps: showProb.map(toProbBps),
+    exactaProbBps: exoticProbBps(tally.exactaUnits),
+    quinellaProbBps: exoticProbBps(tally.quinellaUnits),
+    trifectaProbBps: exoticProbBps(tally.trifectaUnits),
+  };
+}
+
+export function oddsFromTally(
+  tally: McShardResult,
+  params: Pick<EstimateOddsParams, "edge" | "minProb" | "minDecimalOdds" | "maxDecimalOdds"> = {},
+): MonteCarloOdds {
+  const { samples } = tally;
+  const { edge = 0.05, minProb = 1 / samples, minDecimalOdds = 1.01, maxDecimalOdds = 50 } = params;
+
+  const wins = asTuple6(tally.winnerCounts);
+  const pRaw = wins.map(w => w / samples) as [number, number, number, number, number, number];
+  const p = pRaw.map(x => Math.max(minProb, x)) as [number, number, number, number, number, number];
+  const dec = p.map(pi => (1 - edge) / pi) as [number, number, number, number, number, number];
+  const decCapped = dec.map(x => Math.max(minDecimalOdds, Math.min(maxDecimalOdds, x))) as [
+    number,
+    number,
+    number,
+    number,
+    number,
+    number,
+  ];
+  const profit = decCapped.map(x => x - 1) as [number, number, number, number, number, number];
+
+  return {
+    samples,
+    edge,
+    winCounts: wins,
+    winProb: pRaw,
+    decimalOdds: decCapped,
+    profitOdds: profit,
+  };
+}
+
+/**
+ * Monte Carlo win probability estimator for the 6-lane race sim.
+ * MUST match Solidity rules (same score mapping + RNG consumption + tie-break behavior).
+ *
+ * Determinism:
+ * - If you pass the same `seedBase` and scores, results are identical across runs/machines.
+ * - If you omit `seedBase`, we derive one deterministically from the scores + `salt`.
+ * - `createMonteCarloPool().estimateWinProb` returns bit-identical results off the main thread.
+ */
+export async function estimateWinProbMonteCarlo6(
+  params: WinProbSeedParams & {
+    samples: number;
+    chunkSize?: number;
+    signal?: AbortSignal;
+    onProgress?: MonteCarloProgress;
+  },
+): Promise<MonteCarloWinProb> {
+  const { samples, chunkSize = 500, signal, onProgress } = params;
+
+  if (!Number.isFinite(samples) || samples <= 0) throw new Error("samples must be > 0");
+  const stream = winProbSeedStream(params);
+
+  return winProbFromTally(await runSeedStream({ ...stream, samples, chunkSize, signal, onProgress }));
+}
+
+/**
+ * Monte Carlo win / top-2 / top-3 estimator for the 6-lane race sim, driven by the full `finishOrder`
+ * (not just `winner`) so dead heats are priced exactly as SettlementLib pays them. The same finish orders price
+ * exacta, quinella and trifecta.
+ *
+ * Uses the same seed stream as `estimateWinProbMonteCarlo6` for the same `seedBase`/`salt`/scores,
+ * so its win market agrees with that estimator sample for sample (up to dead-heat splitting).
+ */
+export async function estimateWinPlaceShowMonteCarlo6(
+  params: WinProbSeedParams & {
+    samples: number;
+    chunkSize?: number;
+    signal?: AbortSignal;
+    onProgress?: MonteCarloProgress;
+  },
+): Promise<MonteCarloWinPlaceShow> {
+  const { samples, chunkSize = 500, signal, onProgress } = params;
+
+  if (!Number.isFinite(samples) || samples <= 0) throw new Error("samples must be > 0");
+  const stream = winProbSeedStream(params);
+
+  return winPlaceShowFromTally(await runSeedStream({ ...stream, samples, chunkSize, signal, onProgress }));
+}
+
+export async function estimateOddsMonteCarlo(params: EstimateOddsParams): Promise<MonteCarloOdds> {
+  const { samples = 10_000, edge = 0.05, chunkSize = 250, signal, onProgress } = params;
+
+  if (samples <= 0) throw new Error("samples must be > 0");
+  if (edge < 0 || edge >= 1) throw new Error("edge must be in [0, 1)");
+
+  const stream = oddsSeedStream(params);
+  const tally = await runSeedStream({ ...stream, samples, chunkSize, signal, onProgress });
+  return oddsFromTally(tally, params);
+}
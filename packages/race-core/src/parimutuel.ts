@@ -0,0 +1,35 @@
+import { ODDS_SCALE } from "./constants";
+
+const MAX_UINT32 = 2n ** 32n - 1n;
+
+/** What's left of a parimutuel pool for winners after the house take (OddsLib.poolAfterTake). */
+export const poolAfterTake = (pool: bigint, takeBps: number) =>
+  (pool * BigInt(ODDS_SCALE - takeBps)) / BigInt(ODDS_SCALE);
+
+/**
+ * Decimal odds that pay `share` of a pool to everything staked on a lane (OddsLib.poolOdds).
+ * Rounds down and caps at uint32 like the contract; 0 if nothing is staked on the lane.
+ */
+export function poolOdds(share: bigint, laneStake: bigint): bigint {
+  if (laneStake === 0n) return 0n;
+  const odds = (share * BigInt(ODDS_SCALE)) / laneStake;
+  return odds > MAX_UINT32 ? MAX_UINT32 : odds;
+}
+
+/**
+ * What each lane of a parimutuel race would pay as sole winner if betting closed now, matching getRacePoolById.
+ * Pass `extra` to price the pool as it would stand after more stakes go in (say, the bets on a slip).
+ */
+export function impliedPoolOdds(
+  totalOnLane: readonly bigint[],
+  takeBps: number,
+  extra: readonly { lane: number; amount: bigint }[] = [],
+): bigint[] {
+  const totals = [...totalOnLane];
+  for (const { lane, amount } of extra) totals[lane] = (totals[lane] ?? 0n) + amount;
+  const netPool = poolAfterTake(
+    totals.reduce((sum, t) => sum + t, 0n),
+    takeBps,
+  );
+  return totals.map(t => poolOdds(netPool, t));
+}
@@ -0,0 +1,59 @@
+import { BET_TYPE_PLACE, BET_TYPE_SHOW, BET_TYPE_WIN, CLAIM_EXPIRATION_BLOCKS, ODDS_SCALE } from "./constants";
+import { FinishOrder } from "./simulateRace";
+
+export type BetType = typeof BET_TYPE_WIN | typeof BET_TYPE_PLACE | typeof BET_TYPE_SHOW;
+
+export type BetOdds = {
+  winOddsBps: readonly bigint[];
+  placeOddsBps: readonly bigint[];
+  showOddsBps: readonly bigint[];
+};
+
+/**
+ * Payout for a stake at the given odds, split for dead heats.
+ * Mirrors ClaimLib.calculatePayout so off-chain code never disagrees with the contract by a unit.
+ */
+export function calculatePayout(amount: bigint, oddsBps: bigint, deadHeatDivisor: number): bigint {
+  const payout = (amount * oddsBps) / BigInt(ODDS_SCALE);
+  return deadHeatDivisor > 1 ? payout / BigInt(deadHeatDivisor) : payout;
+}
+
+/**
+ * Dead-heat divisor for a bet on a settled race, or null if it lost.
+ * Win splits across tied winners. Place/Show pay in full for finishing above the last paying
+ * position and only split a dead heat on that last position (2nd for Place, 3rd for Show).
+ */
+export function betDeadHeatDivisor(
+  bet: { lane: number; betType: BetType },
+  finishOrder: Pick<FinishOrder, "first" | "second" | "third">,
+): number | null {
+  const positions = [finishOrder.first, finishOrder.second, finishOrder.third].slice(0, bet.betType + 1);
+  for (let i = 0; i < positions.length; i++) {
+    if (positions[i]!.lanes.includes(bet.lane)) return i === bet.betType ? positions[i]!.count : 1;
+  }
+  return null;
+}
+
+/**
+ * What a bet on a settled race pays (0 if it lost)
+ */
+export function settledBetPayout(
+  bet: { amount: bigint; lane: number; betType: BetType },
+  finishOrder: Pick<FinishOrder, "first" | "second" | "third">,
+  odds: BetOdds,
+): bigint {
+  const divisor = betDeadHeatDivisor(bet, finishOrder);
+  if (divisor === null) return 0n;
+  const oddsBps = [odds.winOddsBps, odds.placeOddsBps, odds.showOddsBps][bet.betType]![bet.lane] ?? 0n;
+  return calculatePayout(bet.amount, oddsBps, divisor);
+}
+
+// Match RaffeRaceConstants.claimExpiresAtBlock
+export function claimExpiresAtBlock(settledAtBlock: bigint): bigint {
+  return settledAtBlock + CLAIM_EXPIRATION_BLOCKS;
+}
+
+// Match RaffeRaceConstants.isClaimExpired: a claim is still valid on the expiry block itself
+export function isClaimExpired(currentBlock: bigint, settledAtBlock: bigint): boolean {
+  return currentBlock > claimExpiresAtBlock(settledAtBlock);
+}
@@ -0,0 +1,2776 @@
+/**
+ * This file is autogenerated by Scaffold-ETH.
+ * You should not edit it manually or your changes might be overwritten.
+ */
+import { Address } from "viem";
+
+export const raffeRaceAbi = [
+  {
+    type: "constructor",
+    inputs: [
+      {
+        name: "_raffeNft",
+        type: "address",
+        internalType: "address",
+      },
+      {
+        name: "_treasuryOwner",
+        type: "address",
+        internalType: "address",
+      },
+      {
+        name: "_raceBot",
+        type: "address",
+        internalType: "address",
+      },
+      {
+        name: "_houseRaffeTokenIds",
+        type: "uint256[6]",
+        internalType: "uint256[6]",
+      },
+      {
+        name: "_simulator",
+        type: "address",
+        internalType: "address",
+      },
+      {
+        name: "_treasury",
+        type: "address",
+        internalType: "address",
+      },
+    ],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "BETTING_WINDOW_BLOCKS",
+    inputs: [],
+    outputs: [
+      {
+        name: "",
+        type: "uint64",
+        internalType: "uint64",
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "BET_TYPE_EXACTA",
+    inputs: [],
+    outputs: [
+      {
+        name: "",
+        type: "uint8",
+        internalType: "uint8",
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "BET_TYPE_PLACE",
+    inputs: [],
+    outputs: [
+      {
+        name: "",
+        type: "uint8",
+        internalType: "uint8",
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "BET_TYPE_QUINELLA",
+    inputs: [],
+    outputs: [
+      {
+        name: "",
+        type: "uint8",
+        internalType: "uint8",
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "BET_TYPE_SHOW",
+    inputs: [],
+    outputs: [
+      {
+        name: "",
+        type: "uint8",
+        internalType: "uint8",
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "BET_TYPE_TRIFECTA",
+    inputs: [],
+    outputs: [
+      {
+        name: "",
+        type: "uint8",
+        internalType: "uint8",
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "BET_TYPE_WIN",
+    inputs: [],
+    outputs: [
+      {
+        name: "",
+        type: "uint8",
+        internalType: "uint8",
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "BOT_ACTION_CANCEL_RACE",
+    inputs: [],
+    outputs: [
+      {
+        name: "",
+        type: "uint8",
+        internalType: "uint8",
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "BOT_ACTION_CREATE_RACE",
+    inputs: [],
+    outputs: [
+      {
+        name: "",
+        type: "uint8",
+        internalType: "uint8",
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "BOT_ACTION_NONE",
+    inputs: [],
+    outputs: [
+      {
+        name: "",
+        type: "uint8",
+        internalType: "uint8",
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "BOT_ACTION_SETTLE_RACE",
+    inputs: [],
+    outputs: [
+      {
+        name: "",
+        type: "uint8",
+        internalType: "uint8",
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "BOT_ACTION_SET_PROBABILITIES",
+    inputs: [],
+    outputs: [
+      {
+        name: "",
+        type: "uint8",
+        internalType: "uint8",
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "CLAIM_EXPIRATION_BLOCKS",
+    inputs: [],
+    outputs: [
+      {
+        name: "",
+        type: "uint64",
+        internalType: "uint64",
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "CLAIM_STATUS_BLOCKHASH_UNAVAILABLE",
+    inputs: [],
+    outputs: [
+      {
+        name: "",
+        type: "uint8",
+        internalType: "uint8",
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "CLAIM_STATUS_LOSS",
+    inputs: [],
+    outputs: [
+      {
+        name: "",
+        type: "uint8",
+        internalType: "uint8",
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "CLAIM_STATUS_READY_TO_SETTLE",
+    inputs: [],
+    outputs: [
+      {
+        name: "",
+        type: "uint8",
+        internalType: "uint8",
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "CLAIM_STATUS_REFUND",
+    inputs: [],
+    outputs: [
+      {
+        name: "",
+        type: "uint8",
+        internalType: "uint8",
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "CLAIM_STATUS_WIN",
+    inputs: [],
+    outputs: [
+      {
+        name: "",
+        type: "uint8",
+        internalType: "uint8",
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "LANE_COUNT",
+    inputs: [],
+    outputs: [
+      {
+        name: "",
+        type: "uint8",
+        internalType: "uint8",
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "MAX_HOUSE_EDGE_BPS",
+    inputs: [],
+    outputs: [
+      {
+        name: "",
+        type: "uint16",
+        internalType: "uint16",
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "MAX_QUEUE_SIZE",
+    inputs: [],
+    outputs: [
+      {
+        name: "",
+        type: "uint16",
+        internalType: "uint16",
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "MAX_TICKS",
+    inputs: [],
+    outputs: [
+      {
+        name: "",
+        type: "uint16",
+        internalType: "uint16",
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "MIN_DECIMAL_ODDS_BPS",
+    inputs: [],
+    outputs: [
+      {
+        name: "",
+        type: "uint32",
+        internalType: "uint32",
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "ODDS_SCALE",
+    inputs: [],
+    outputs: [
+      {
+        name: "",
+        type: "uint16",
+        internalType: "uint16",
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "ODDS_WINDOW_BLOCKS",
+    inputs: [],
+    outputs: [
+      {
+        name: "",
+        type: "uint64",
+        internalType: "uint64",
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "POST_RACE_COOLDOWN_BLOCKS",
+    inputs: [],
+    outputs: [
+      {
+        name: "",
+        type: "uint64",
+        internalType: "uint64",
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "SPEED_RANGE",
+    inputs: [],
+    outputs: [
+      {
+        name: "",
+        type: "uint8",
+        internalType: "uint8",
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "TRACK_LENGTH",
+    inputs: [],
+    outputs: [
+      {
+        name: "",
+        type: "uint16",
+        internalType: "uint16",
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "adminCancelRace",
+    inputs: [
+      {
+        name: "raceId",
+        type: "uint256",
+        internalType: "uint256",
+      },
+    ],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "cancelRaceNoOdds",
+    inputs: [
+      {
+        name: "raceId",
+        type: "uint256",
+        internalType: "uint256",
+      },
+    ],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "claim",
+    inputs: [],
+    outputs: [
+      {
+        name: "payout",
+        type: "uint256",
+        internalType: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "claimNextWinningPayout",
+    inputs: [],
+    outputs: [
+      {
+        name: "payout",
+        type: "uint256",
+        internalType: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "cleanupExpiredRace",
+    inputs: [
+      {
+        name: "raceId",
+        type: "uint256",
+        internalType: "uint256",
+      },
+    ],
+    outputs: [
+      {
+        name: "released",
+        type: "uint256",
+        internalType: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "createRace",
+    inputs: [],
+    outputs: [
+      {
+        name: "raceId",
+        type: "uint256",
+        internalType: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "enterQueue",
+    inputs: [
+      {
+        name: "tokenId",
+        type: "uint256",
+        internalType: "uint256",
+      },
+    ],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "getActiveQueueLength",
+    inputs: [],
+    outputs: [
+      {
+        name: "count",
+        type: "uint256",
+        internalType: "uint256",
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "getActiveRaceIdOrZero",
+    inputs: [],
+    outputs: [
+      {
+        name: "raceId",
+        type: "uint256",
+        internalType: "uint256",
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "getBetById",
+    inputs: [
+      {
+        name: "raceId",
+        type: "uint256",
+        internalType: "uint256",
+      },
+      {
+        name: "bettor",
+        type: "address",
+        internalType: "address",
+      },
+    ],
+    outputs: [
+      {
+        name: "amount",
+        type: "uint128",
+        internalType: "uint128",
+      },
+      {
+        name: "lane",
+        type: "uint8",
+        internalType: "uint8",
+      },
+      {
+        name: "claimed",
+        type: "bool",
+        internalType: "bool",
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "getBotDashboard",
+    inputs: [],
+    outputs: [
+      {
+        name: "action",
+        type: "uint8",
+        internalType: "uint8",
+      },
+      {
+        name: "raceId",
+        type: "uint256",
+        internalType: "uint256",
+      },
+      {
+        name: "blocksRemaining",
+        type: "uint64",
+        internalType: "uint64",
+      },
+      {
+        name: "scores",
+        type: "uint8[6]",
+        internalType: "uint8[6]",
+      },
+      {
+        name: "expiredRaceIds",
+        type: "uint256[]",
+        internalType: "uint256[]",
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "getClaimRemaining",
+    inputs: [
+      {
+        name: "bettor",
+        type: "address",
+        internalType: "address",
+      },
+    ],
+    outputs: [
+      {
+        name: "remaining",
+        type: "uint256",
+        internalType: "uint256",
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "getCreateRaceCooldown",
+    inputs: [],
+    outputs: [
+      {
+        name: "canCreate",
+        type: "bool",
+        internalType: "bool",
+      },
+      {
+        name: "blocksRemaining",
+        type: "uint64",
+        internalType: "uint64",
+      },
+      {
+        name: "cooldownEndsAtBlock",
+        type: "uint64",
+        internalType: "uint64",
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "getHouseRaffeTokenIds",
+    inputs: [],
+    outputs: [
+      {
+        name: "",
+        type: "uint256[6]",
+        internalType: "uint256[6]",
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "getNextClaim",
+    inputs: [
+      {
+        name: "bettor",
+        type: "address",
+        internalType: "address",
+      },
+    ],
+    outputs: [
+      {
+        name: "out",
+        type: "tuple",
+        internalType: "struct RaffeRaceBase.NextClaimView",
+        components: [
+          {
+            name: "hasClaim",
+            type: "bool",
+            internalType: "bool",
+          },
+          {
+            name: "raceId",
+            type: "uint256",
+            internalType: "uint256",
+          },
+          {
+            name: "status",
+            type: "uint8",
+            internalType: "uint8",
+          },
+          {
+            name: "betType",
+            type: "uint8",
+            internalType: "uint8",
+          },
+          {
+            name: "betLane",
+            type: "uint8",
+            internalType: "uint8",
+          },
+          {
+            name: "betTokenId",
+            type: "uint256",
+            internalType: "uint256",
+          },
+          {
+            name: "betAmount",
+            type: "uint128",
+            internalType: "uint128",
+          },
+          {
+            name: "winner",
+            type: "uint8",
+            internalType: "uint8",
+          },
+          {
+            name: "payout",
+            type: "uint256",
+            internalType: "uint256",
+          },
+          {
+            name: "bettingCloseBlock",
+            type: "uint64",
+            internalType: "uint64",
+          },
+          {
+            name: "settledAtBlock",
+            type: "uint64",
+            internalType: "uint64",
+          },
+          {
+            name: "betLanes",
+            type: "uint8[3]",
+            internalType: "uint8[3]",
+          },
+        ],
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "getNextWinningClaim",
+    inputs: [
+      {
+        name: "bettor",
+        type: "address",
+        internalType: "address",
+      },
+    ],
+    outputs: [
+      {
+        name: "out",
+        type: "tuple",
+        internalType: "struct RaffeRaceBase.NextClaimView",
+        components: [
+          {
+            name: "hasClaim",
+            type: "bool",
+            internalType: "bool",
+          },
+          {
+            name: "raceId",
+            type: "uint256",
+            internalType: "uint256",
+          },
+          {
+            name: "status",
+            type: "uint8",
+            internalType: "uint8",
+          },
+          {
+            name: "betType",
+            type: "uint8",
+            internalType: "uint8",
+          },
+          {
+            name: "betLane",
+            type: "uint8",
+            internalType: "uint8",
+          },
+          {
+            name: "betTokenId",
+            type: "uint256",
+            internalType: "uint256",
+          },
+          {
+            name: "betAmount",
+            type: "uint128",
+            internalType: "uint128",
+          },
+          {
+            name: "winner",
+            type: "uint8",
+            internalType: "uint8",
+          },
+          {
+            name: "payout",
+            type: "uint256",
+            internalType: "uint256",
+          },
+          {
+            name: "bettingCloseBlock",
+            type: "uint64",
+            internalType: "uint64",
+          },
+          {
+            name: "settledAtBlock",
+            type: "uint64",
+            internalType: "uint64",
+          },
+          {
+            name: "betLanes",
+            type: "uint8[3]",
+            internalType: "uint8[3]",
+          },
+        ],
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "getPriorityQueueEntries",
+    inputs: [],
+    outputs: [
+      {
+        name: "entries",
+        type: "tuple[]",
+        internalType: "struct RaffeRaceBase.QueueEntryView[]",
+        components: [
+          {
+            name: "index",
+            type: "uint256",
+            internalType: "uint256",
+          },
+          {
+            name: "tokenId",
+            type: "uint256",
+            internalType: "uint256",
+          },
+          {
+            name: "owner",
+            type: "address",
+            internalType: "address",
+          },
+          {
+            name: "isValid",
+            type: "bool",
+            internalType: "bool",
+          },
+        ],
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "getPriorityQueueLength",
+    inputs: [],
+    outputs: [
+      {
+        name: "",
+        type: "uint256",
+        internalType: "uint256",
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "getQueueEntries",
+    inputs: [
+      {
+        name: "start",
+        type: "uint256",
+        internalType: "uint256",
+      },
+      {
+        name: "count",
+        type: "uint256",
+        internalType: "uint256",
+      },
+    ],
+    outputs: [
+      {
+        name: "entries",
+        type: "tuple[]",
+        internalType: "struct RaffeRaceBase.QueueEntryView[]",
+        components: [
+          {
+            name: "index",
+            type: "uint256",
+            internalType: "uint256",
+          },
+          {
+            name: "tokenId",
+            type: "uint256",
+            internalType: "uint256",
+          },
+          {
+            name: "owner",
+            type: "address",
+            internalType: "address",
+          },
+          {
+            name: "isValid",
+            type: "bool",
+            internalType: "bool",
+          },
+        ],
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "getQueueHead",
+    inputs: [],
+    outputs: [
+      {
+        name: "",
+        type: "uint256",
+        internalType: "uint256",
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "getQueueLength",
+    inputs: [],
+    outputs: [
+      {
+        name: "",
+        type: "uint256",
+        internalType: "uint256",
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "getRaceActionabilityById",
+    inputs: [
+      {
+        name: "raceId",
+        type: "uint256",
+        internalType: "uint256",
+      },
+    ],
+    outputs: [
+      {
+        name: "canSettleNow",
+        type: "bool",
+        internalType: "bool",
+      },
+      {
+        name: "bettingCloseBlock",
+        type: "uint64",
+        internalType: "uint64",
+      },
+      {
+        name: "settleBlockhashExpiresAt",
+        type: "uint64",
+        internalType: "uint64",
+      },
+      {
+        name: "blocksUntilSettleExpiry",
+        type: "uint64",
+        internalType: "uint64",
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "getRaceById",
+    inputs: [
+      {
+        name: "raceId",
+        type: "uint256",
+        internalType: "uint256",
+      },
+    ],
+    outputs: [
+      {
+        name: "bettingCloseBlock",
+        type: "uint64",
+        internalType: "uint64",
+      },
+      {
+        name: "settled",
+        type: "bool",
+        internalType: "bool",
+      },
+      {
+        name: "winner",
+        type: "uint8",
+        internalType: "uint8",
+      },
+      {
+        name: "seed",
+        type: "bytes32",
+        internalType: "bytes32",
+      },
+      {
+        name: "totalPot",
+        type: "uint256",
+        internalType: "uint256",
+      },
+      {
+        name: "totalOnLane",
+        type: "uint256[6]",
+        internalType: "uint256[6]",
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "getRaceDeadHeatById",
+    inputs: [
+      {
+        name: "raceId",
+        type: "uint256",
+        internalType: "uint256",
+      },
+    ],
+    outputs: [
+      {
+        name: "deadHeatCount",
+        type: "uint8",
+        internalType: "uint8",
+      },
+      {
+        name: "winners",
+        type: "uint8[6]",
+        internalType: "uint8[6]",
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "getRaceExoticOddsById",
+    inputs: [
+      {
+        name: "raceId",
+        type: "uint256",
+        internalType: "uint256",
+      },
+    ],
+    outputs: [
+      {
+        name: "oddsSet",
+        type: "bool",
+        internalType: "bool",
+      },
+      {
+        name: "exactaOddsBps",
+        type: "uint32[36]",
+        internalType: "uint32[36]",
+      },
+      {
+        name: "quinellaOddsBps",
+        type: "uint32[36]",
+        internalType: "uint32[36]",
+      },
+      {
+        name: "trifectaOddsBps",
+        type: "uint32[216]",
+        internalType: "uint32[216]",
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "getRaceFinishOrderById",
+    inputs: [
+      {
+        name: "raceId",
+        type: "uint256",
+        internalType: "uint256",
+      },
+    ],
+    outputs: [
+      {
+        name: "firstLanes",
+        type: "uint8[6]",
+        internalType: "uint8[6]",
+      },
+      {
+        name: "firstCount",
+        type: "uint8",
+        internalType: "uint8",
+      },
+      {
+        name: "secondLanes",
+        type: "uint8[6]",
+        internalType: "uint8[6]",
+      },
+      {
+        name: "secondCount",
+        type: "uint8",
+        internalType: "uint8",
+      },
+      {
+        name: "thirdLanes",
+        type: "uint8[6]",
+        internalType: "uint8[6]",
+      },
+      {
+        name: "thirdCount",
+        type: "uint8",
+        internalType: "uint8",
+      },
+      {
+        name: "finalDistances",
+        type: "uint16[6]",
+        internalType: "uint16[6]",
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "getRaceFlagsById",
+    inputs: [
+      {
+        name: "raceId",
+        type: "uint256",
+        internalType: "uint256",
+      },
+    ],
+    outputs: [
+      {
+        name: "settled",
+        type: "bool",
+        internalType: "bool",
+      },
+      {
+        name: "oddsSet",
+        type: "bool",
+        internalType: "bool",
+      },
+      {
+        name: "cancelled",
+        type: "bool",
+        internalType: "bool",
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "getRaceOddsById",
+    inputs: [
+      {
+        name: "raceId",
+        type: "uint256",
+        internalType: "uint256",
+      },
+    ],
+    outputs: [
+      {
+        name: "oddsSet",
+        type: "bool",
+        internalType: "bool",
+      },
+      {
+        name: "winOddsBps",
+        type: "uint32[6]",
+        internalType: "uint32[6]",
+      },
+      {
+        name: "placeOddsBps",
+        type: "uint32[6]",
+        internalType: "uint32[6]",
+      },
+      {
+        name: "showOddsBps",
+        type: "uint32[6]",
+        internalType: "uint32[6]",
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "getRacePoolById",
+    inputs: [
+      {
+        name: "raceId",
+        type: "uint256",
+        internalType: "uint256",
+      },
+    ],
+    outputs: [
+      {
+        name: "parimutuel",
+        type: "bool",
+        internalType: "bool",
+      },
+      {
+        name: "takeBps",
+        type: "uint16",
+        internalType: "uint16",
+      },
+      {
+        name: "pool",
+        type: "uint256",
+        internalType: "uint256",
+      },
+      {
+        name: "impliedOddsBps",
+        type: "uint32[6]",
+        internalType: "uint32[6]",
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "getRaceRaffesById",
+    inputs: [
+      {
+        name: "raceId",
+        type: "uint256",
+        internalType: "uint256",
+      },
+    ],
+    outputs: [
+      {
+        name: "assignedCount",
+        type: "uint8",
+        internalType: "uint8",
+      },
+      {
+        name: "tokenIds",
+        type: "uint256[6]",
+        internalType: "uint256[6]",
+      },
+      {
+        name: "originalOwners",
+        type: "address[6]",
+        internalType: "address[6]",
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "getRaceScheduleById",
+    inputs: [
+      {
+        name: "raceId",
+        type: "uint256",
+        internalType: "uint256",
+      },
+    ],
+    outputs: [
+      {
+        name: "oddsDeadlineBlock",
+        type: "uint64",
+        internalType: "uint64",
+      },
+      {
+        name: "bettingCloseBlock",
+        type: "uint64",
+        internalType: "uint64",
+      },
+      {
+        name: "settledAtBlock",
+        type: "uint64",
+        internalType: "uint64",
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "getRaceScoreById",
+    inputs: [
+      {
+        name: "raceId",
+        type: "uint256",
+        internalType: "uint256",
+      },
+    ],
+    outputs: [
+      {
+        name: "score",
+        type: "uint8[6]",
+        internalType: "uint8[6]",
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "getUserBetsById",
+    inputs: [
+      {
+        name: "raceId",
+        type: "uint256",
+        internalType: "uint256",
+      },
+      {
+        name: "bettor",
+        type: "address",
+        internalType: "address",
+      },
+    ],
+    outputs: [
+      {
+        name: "winAmount",
+        type: "uint128",
+        internalType: "uint128",
+      },
+      {
+        name: "winLane",
+        type: "uint8",
+        internalType: "uint8",
+      },
+      {
+        name: "winClaimed",
+        type: "bool",
+        internalType: "bool",
+      },
+      {
+        name: "placeAmount",
+        type: "uint128",
+        internalType: "uint128",
+      },
+      {
+        name: "placeLane",
+        type: "uint8",
+        internalType: "uint8",
+      },
+      {
+        name: "placeClaimed",
+        type: "bool",
+        internalType: "bool",
+      },
+      {
+        name: "showAmount",
+        type: "uint128",
+        internalType: "uint128",
+      },
+      {
+        name: "showLane",
+        type: "uint8",
+        internalType: "uint8",
+      },
+      {
+        name: "showClaimed",
+        type: "bool",
+        internalType: "bool",
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "getUserExoticBetsById",
+    inputs: [
+      {
+        name: "raceId",
+        type: "uint256",
+        internalType: "uint256",
+      },
+      {
+        name: "bettor",
+        type: "address",
+        internalType: "address",
+      },
+    ],
+    outputs: [
+      {
+        name: "exacta",
+        type: "tuple",
+        internalType: "struct RaffeRaceBase.ExoticBet",
+        components: [
+          {
+            name: "amount",
+            type: "uint128",
+            internalType: "uint128",
+          },
+          {
+            name: "lanes",
+            type: "uint8[3]",
+            internalType: "uint8[3]",
+          },
+          {
+            name: "claimed",
+            type: "bool",
+            internalType: "bool",
+          },
+        ],
+      },
+      {
+        name: "quinella",
+        type: "tuple",
+        internalType: "struct RaffeRaceBase.ExoticBet",
+        components: [
+          {
+            name: "amount",
+            type: "uint128",
+            internalType: "uint128",
+          },
+          {
+            name: "lanes",
+            type: "uint8[3]",
+            internalType: "uint8[3]",
+          },
+          {
+            name: "claimed",
+            type: "bool",
+            internalType: "bool",
+          },
+        ],
+      },
+      {
+        name: "trifecta",
+        type: "tuple",
+        internalType: "struct RaffeRaceBase.ExoticBet",
+        components: [
+          {
+            name: "amount",
+            type: "uint128",
+            internalType: "uint128",
+          },
+          {
+            name: "lanes",
+            type: "uint8[3]",
+            internalType: "uint8[3]",
+          },
+          {
+            name: "claimed",
+            type: "bool",
+            internalType: "bool",
+          },
+        ],
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "getUserQueuePosition",
+    inputs: [
+      {
+        name: "user",
+        type: "address",
+        internalType: "address",
+      },
+    ],
+    outputs: [
+      {
+        name: "position",
+        type: "uint256",
+        internalType: "uint256",
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "getUserQueuedToken",
+    inputs: [
+      {
+        name: "user",
+        type: "address",
+        internalType: "address",
+      },
+    ],
+    outputs: [
+      {
+        name: "tokenId",
+        type: "uint256",
+        internalType: "uint256",
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "getWinningClaimRemaining",
+    inputs: [
+      {
+        name: "bettor",
+        type: "address",
+        internalType: "address",
+      },
+    ],
+    outputs: [
+      {
+        name: "remaining",
+        type: "uint256",
+        internalType: "uint256",
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "houseEdgeBps",
+    inputs: [],
+    outputs: [
+      {
+        name: "",
+        type: "uint16",
+        internalType: "uint16",
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "houseRaffeTokenIds",
+    inputs: [
+      {
+        name: "",
+        type: "uint256",
+        internalType: "uint256",
+      },
+    ],
+    outputs: [
+      {
+        name: "",
+        type: "uint256",
+        internalType: "uint256",
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "isTokenInQueue",
+    inputs: [
+      {
+        name: "tokenId",
+        type: "uint256",
+        internalType: "uint256",
+      },
+    ],
+    outputs: [
+      {
+        name: "",
+        type: "bool",
+        internalType: "bool",
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "isUserInPriorityQueue",
+    inputs: [
+      {
+        name: "user",
+        type: "address",
+        internalType: "address",
+      },
+    ],
+    outputs: [
+      {
+        name: "",
+        type: "bool",
+        internalType: "bool",
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "isUserInQueue",
+    inputs: [
+      {
+        name: "user",
+        type: "address",
+        internalType: "address",
+      },
+    ],
+    outputs: [
+      {
+        name: "",
+        type: "bool",
+        internalType: "bool",
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "latestRaceId",
+    inputs: [],
+    outputs: [
+      {
+        name: "raceId",
+        type: "uint256",
+        internalType: "uint256",
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "maxBetAmount",
+    inputs: [],
+    outputs: [
+      {
+        name: "",
+        type: "uint256",
+        internalType: "uint256",
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "nextRaceId",
+    inputs: [],
+    outputs: [
+      {
+        name: "",
+        type: "uint256",
+        internalType: "uint256",
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "parimutuelNextRace",
+    inputs: [],
+    outputs: [
+      {
+        name: "",
+        type: "bool",
+        internalType: "bool",
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "placeBet",
+    inputs: [
+      {
+        name: "lane",
+        type: "uint8",
+        internalType: "uint8",
+      },
+      {
+        name: "amount",
+        type: "uint256",
+        internalType: "uint256",
+      },
+      {
+        name: "betType",
+        type: "uint8",
+        internalType: "uint8",
+      },
+    ],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "placeBetWithPermit",
+    inputs: [
+      {
+        name: "lane",
+        type: "uint8",
+        internalType: "uint8",
+      },
+      {
+        name: "amount",
+        type: "uint256",
+        internalType: "uint256",
+      },
+      {
+        name: "betType",
+        type: "uint8",
+        internalType: "uint8",
+      },
+      {
+        name: "permitValue",
+        type: "uint256",
+        internalType: "uint256",
+      },
+      {
+        name: "deadline",
+        type: "uint256",
+        internalType: "uint256",
+      },
+      {
+        name: "v",
+        type: "uint8",
+        internalType: "uint8",
+      },
+      {
+        name: "r",
+        type: "bytes32",
+        internalType: "bytes32",
+      },
+      {
+        name: "s",
+        type: "bytes32",
+        internalType: "bytes32",
+      },
+    ],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "placeExoticBet",
+    inputs: [
+      {
+        name: "lanes",
+        type: "uint8[3]",
+        internalType: "uint8[3]",
+      },
+      {
+        name: "amount",
+        type: "uint256",
+        internalType: "uint256",
+      },
+      {
+        name: "betType",
+        type: "uint8",
+        internalType: "uint8",
+      },
+    ],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "queueHead",
+    inputs: [],
+    outputs: [
+      {
+        name: "",
+        type: "uint256",
+        internalType: "uint256",
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "raceBot",
+    inputs: [],
+    outputs: [
+      {
+        name: "",
+        type: "address",
+        internalType: "address",
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "raffeNft",
+    inputs: [],
+    outputs: [
+      {
+        name: "",
+        type: "address",
+        internalType: "contract IRaffeNFT",
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "setExoticProbabilities",
+    inputs: [
+      {
+        name: "raceId",
+        type: "uint256",
+        internalType: "uint256",
+      },
+      {
+        name: "exactaProbBps",
+        type: "uint16[36]",
+        internalType: "uint16[36]",
+      },
+      {
+        name: "quinellaProbBps",
+        type: "uint16[36]",
+        internalType: "uint16[36]",
+      },
+      {
+        name: "trifectaProbBps",
+        type: "uint16[216]",
+        internalType: "uint16[216]",
+      },
+    ],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "setHouseEdgeBps",
+    inputs: [
+      {
+        name: "newEdgeBps",
+        type: "uint16",
+        internalType: "uint16",
+      },
+    ],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "setMaxBetAmount",
+    inputs: [
+      {
+        name: "newMaxBet",
+        type: "uint256",
+        internalType: "uint256",
+      },
+    ],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "setParimutuelNextRace",
+    inputs: [
+      {
+        name: "enabled",
+        type: "bool",
+        internalType: "bool",
+      },
+    ],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "setProbabilities",
+    inputs: [
+      {
+        name: "raceId",
+        type: "uint256",
+        internalType: "uint256",
+      },
+      {
+        name: "winProbBps",
+        type: "uint16[6]",
+        internalType: "uint16[6]",
+      },
+      {
+        name: "placeProbBps",
+        type: "uint16[6]",
+        internalType: "uint16[6]",
+      },
+      {
+        name: "showProbBps",
+        type: "uint16[6]",
+        internalType: "uint16[6]",
+      },
+    ],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "setRaceBot",
+    inputs: [
+      {
+        name: "newRaceBot",
+        type: "address",
+        internalType: "address",
+      },
+    ],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "settleRace",
+    inputs: [],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "settledLiability",
+    inputs: [],
+    outputs: [
+      {
+        name: "",
+        type: "uint256",
+        internalType: "uint256",
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "simulate",
+    inputs: [
+      {
+        name: "seed",
+        type: "bytes32",
+        internalType: "bytes32",
+      },
+    ],
+    outputs: [
+      {
+        name: "winner",
+        type: "uint8",
+        internalType: "uint8",
+      },
+      {
+        name: "distances",
+        type: "uint16[6]",
+        internalType: "uint16[6]",
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "simulateWithScore",
+    inputs: [
+      {
+        name: "seed",
+        type: "bytes32",
+        internalType: "bytes32",
+      },
+      {
+        name: "score",
+        type: "uint8[6]",
+        internalType: "uint8[6]",
+      },
+    ],
+    outputs: [
+      {
+        name: "winner",
+        type: "uint8",
+        internalType: "uint8",
+      },
+      {
+        name: "distances",
+        type: "uint16[6]",
+        internalType: "uint16[6]",
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "simulator",
+    inputs: [],
+    outputs: [
+      {
+        name: "",
+        type: "address",
+        internalType: "contract RaffeRaceSimulator",
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "treasury",
+    inputs: [],
+    outputs: [
+      {
+        name: "",
+        type: "address",
+        internalType: "contract HouseTreasury",
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "treasuryOwner",
+    inputs: [],
+    outputs: [
+      {
+        name: "",
+        type: "address",
+        internalType: "address",
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "userInQueue",
+    inputs: [
+      {
+        name: "",
+        type: "address",
+        internalType: "address",
+      },
+    ],
+    outputs: [
+      {
+        name: "",
+        type: "bool",
+        internalType: "bool",
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "event",
+    name: "BetPlaced",
+    inputs: [
+      {
+        name: "raceId",
+        type: "uint256",
+        indexed: true,
+        internalType: "uint256",
+      },
+      {
+        name: "bettor",
+        type: "address",
+        indexed: true,
+        internalType: "address",
+      },
+      {
+        name: "lane",
+        type: "uint8",
+        indexed: false,
+        internalType: "uint8",
+      },
+      {
+        name: "betType",
+        type: "uint8",
+        indexed: false,
+        internalType: "uint8",
+      },
+      {
+        name: "amount",
+        type: "uint256",
+        indexed: false,
+        internalType: "uint256",
+      },
+    ],
+    anonymous: false,
+  },
+  {
+    type: "event",
+    name: "ClaimExpired",
+    inputs: [
+      {
+        name: "raceId",
+        type: "uint256",
+        indexed: true,
+        internalType: "uint256",
+      },
+      {
+        name: "bettor",
+        type: "address",
+        indexed: true,
+        internalType: "address",
+      },
+      {
+        name: "forfeitedPayout",
+        type: "uint256",
+        indexed: false,
+        internalType: "uint256",
+      },
+    ],
+    anonymous: false,
+  },
+  {
+    type: "event",
+    name: "Claimed",
+    inputs: [
+      {
+        name: "raceId",
+        type: "uint256",
+        indexed: true,
+        internalType: "uint256",
+      },
+      {
+        name: "bettor",
+        type: "address",
+        indexed: true,
+        internalType: "address",
+      },
+      {
+        name: "payout",
+        type: "uint256",
+        indexed: false,
+        internalType: "uint256",
+      },
+    ],
+    anonymous: false,
+  },
+  {
+    type: "event",
+    name: "ExoticBetPlaced",
+    inputs: [
+      {
+        name: "raceId",
+        type: "uint256",
+        indexed: true,
+        internalType: "uint256",
+      },
+      {
+        name: "bettor",
+        type: "address",
+        indexed: true,
+        internalType: "address",
+      },
+      {
+        name: "betType",
+        type: "uint8",
+        indexed: false,
+        internalType: "uint8",
+      },
+      {
+        name: "lanes",
+        type: "uint8[3]",
+        indexed: false,
+        internalType: "uint8[3]",
+      },
+      {
+        name: "amount",
+        type: "uint256",
+        indexed: false,
+        internalType: "uint256",
+      },
+    ],
+    anonymous: false,
+  },
+  {
+    type: "event",
+    name: "ExpiredLiabilityReleased",
+    inputs: [
+      {
+        name: "raceId",
+        type: "uint256",
+        indexed: true,
+        internalType: "uint256",
+      },
+      {
+        name: "amount",
+        type: "uint256",
+        indexed: false,
+        internalType: "uint256",
+      },
+    ],
+    anonymous: false,
+  },
+  {
+    type: "event",
+    name: "HouseEdgeUpdated",
+    inputs: [
+      {
+        name: "oldEdgeBps",
+        type: "uint16",
+        indexed: false,
+        internalType: "uint16",
+      },
+      {
+        name: "newEdgeBps",
+        type: "uint16",
+        indexed: false,
+        internalType: "uint16",
+      },
+    ],
+    anonymous: false,
+  },
+  {
+    type: "event",
+    name: "HouseRaffeAssigned",
+    inputs: [
+      {
+        name: "raceId",
+        type: "uint256",
+        indexed: true,
+        internalType: "uint256",
+      },
+      {
+        name: "tokenId",
+        type: "uint256",
+        indexed: true,
+        internalType: "uint256",
+      },
+      {
+        name: "lane",
+        type: "uint8",
+        indexed: false,
+        internalType: "uint8",
+      },
+    ],
+    anonymous: false,
+  },
+  {
+    type: "event",
+    name: "MaxBetUpdated",
+    inputs: [
+      {
+        name: "oldMaxBet",
+        type: "uint256",
+        indexed: false,
+        internalType: "uint256",
+      },
+      {
+        name: "newMaxBet",
+        type: "uint256",
+        indexed: false,
+        internalType: "uint256",
+      },
+    ],
+    anonymous: false,
+  },
+  {
+    type: "event",
+    name: "ParimutuelModeUpdated",
+    inputs: [
+      {
+        name: "enabled",
+        type: "bool",
+        indexed: false,
+        internalType: "bool",
+      },
+    ],
+    anonymous: false,
+  },
+  {
+    type: "event",
+    name: "ParimutuelPoolSettled",
+    inputs: [
+      {
+        name: "raceId",
+        type: "uint256",
+        indexed: true,
+        internalType: "uint256",
+      },
+      {
+        name: "pool",
+        type: "uint256",
+        indexed: false,
+        internalType: "uint256",
+      },
+      {
+        name: "winOddsBps",
+        type: "uint32[6]",
+        indexed: false,
+        internalType: "uint32[6]",
+      },
+    ],
+    anonymous: false,
+  },
+  {
+    type: "event",
+    name: "QueueEntered",
+    inputs: [
+      {
+        name: "owner",
+        type: "address",
+        indexed: true,
+        internalType: "address",
+      },
+      {
+        name: "tokenId",
+        type: "uint256",
+        indexed: true,
+        internalType: "uint256",
+      },
+      {
+        name: "queuePosition",
+        type: "uint256",
+        indexed: false,
+        internalType: "uint256",
+      },
+    ],
+    anonymous: false,
+  },
+  {
+    type: "event",
+    name: "QueueEntryRestored",
+    inputs: [
+      {
+        name: "owner",
+        type: "address",
+        indexed: true,
+        internalType: "address",
+      },
+      {
+        name: "tokenId",
+        type: "uint256",
+        indexed: true,
+        internalType: "uint256",
+      },
+    ],
+    anonymous: false,
+  },
+  {
+    type: "event",
+    name: "QueueEntrySelected",
+    inputs: [
+      {
+        name: "raceId",
+        type: "uint256",
+        indexed: true,
+        internalType: "uint256",
+      },
+      {
+        name: "owner",
+        type: "address",
+        indexed: true,
+        internalType: "address",
+      },
+      {
+        name: "tokenId",
+        type: "uint256",
+        indexed: true,
+        internalType: "uint256",
+      },
+      {
+        name: "lane",
+        type: "uint8",
+        indexed: false,
+        internalType: "uint8",
+      },
+    ],
+    anonymous: false,
+  },
+  {
+    type: "event",
+    name: "QueueLeft",
+    inputs: [
+      {
+        name: "owner",
+        type: "address",
+        indexed: true,
+        internalType: "address",
+      },
+      {
+        name: "tokenId",
+        type: "uint256",
+        indexed: true,
+        internalType: "uint256",
+      },
+    ],
+    anonymous: false,
+  },
+  {
+    type: "event",
+    name: "RaceAutoCancelled",
+    inputs: [
+      {
+        name: "raceId",
+        type: "uint256",
+        indexed: true,
+        internalType: "uint256",
+      },
+    ],
+    anonymous: false,
+  },
+  {
+    type: "event",
+    name: "RaceBotUpdated",
+    inputs: [
+      {
+        name: "oldBot",
+        type: "address",
+        indexed: false,
+        internalType: "address",
+      },
+      {
+        name: "newBot",
+        type: "address",
+        indexed: false,
+        internalType: "address",
+      },
+    ],
+    anonymous: false,
+  },
+  {
+    type: "event",
+    name: "RaceCancelled",
+    inputs: [
+      {
+        name: "raceId",
+        type: "uint256",
+        indexed: true,
+        internalType: "uint256",
+      },
+    ],
+    anonymous: false,
+  },
+  {
+    type: "event",
+    name: "RaceCreated",
+    inputs: [
+      {
+        name: "raceId",
+        type: "uint256",
+        indexed: true,
+        internalType: "uint256",
+      },
+      {
+        name: "oddsDeadlineBlock",
+        type: "uint64",
+        indexed: false,
+        internalType: "uint64",
+      },
+      {
+        name: "parimutuel",
+        type: "bool",
+        indexed: false,
+        internalType: "bool",
+      },
+    ],
+    anonymous: false,
+  },
+  {
+    type: "event",
+    name: "RaceExoticOddsSet",
+    inputs: [
+      {
+        name: "raceId",
+        type: "uint256",
+        indexed: true,
+        internalType: "uint256",
+      },
+    ],
+    anonymous: false,
+  },
+  {
+    type: "event",
+    name: "RaceProbabilitiesSet",
+    inputs: [
+      {
+        name: "raceId",
+        type: "uint256",
+        indexed: true,
+        internalType: "uint256",
+      },
+      {
+        name: "winProbBps",
+        type: "uint16[6]",
+        indexed: false,
+        internalType: "uint16[6]",
+      },
+      {
+        name: "placeProbBps",
+        type: "uint16[6]",
+        indexed: false,
+        internalType: "uint16[6]",
+      },
+      {
+        name: "showProbBps",
+        type: "uint16[6]",
+        indexed: false,
+        internalType: "uint16[6]",
+      },
+      {
+        name: "winOddsBps",
+        type: "uint32[6]",
+        indexed: false,
+        internalType: "uint32[6]",
+      },
+      {
+        name: "placeOddsBps",
+        type: "uint32[6]",
+        indexed: false,
+        internalType: "uint32[6]",
+      },
+      {
+        name: "showOddsBps",
+        type: "uint32[6]",
+        indexed: false,
+        internalType: "uint32[6]",
+      },
+      {
+        name: "bettingCloseBlock",
+        type: "uint64",
+        indexed: false,
+        internalType: "uint64",
+      },
+    ],
+    anonymous: false,
+  },
+  {
+    type: "event",
+    name: "RaceSettled",
+    inputs: [
+      {
+        name: "raceId",
+        type: "uint256",
+        indexed: true,
+        internalType: "uint256",
+      },
+      {
+        name: "seed",
+        type: "bytes32",
+        indexed: false,
+        internalType: "bytes32",
+      },
+      {
+        name: "winner",
+        type: "uint8",
+        indexed: false,
+        internalType: "uint8",
+      },
+    ],
+    anonymous: false,
+  },
+  {
+    type: "event",
+    name: "RaceSettledDeadHeat",
+    inputs: [
+      {
+        name: "raceId",
+        type: "uint256",
+        indexed: true,
+        internalType: "uint256",
+      },
+      {
+        name: "seed",
+        type: "bytes32",
+        indexed: false,
+        internalType: "bytes32",
+      },
+      {
+        name: "deadHeatCount",
+        type: "uint8",
+        indexed: false,
+        internalType: "uint8",
+      },
+      {
+        name: "winners",
+        type: "uint8[6]",
+        indexed: false,
+        internalType: "uint8[6]",
+      },
+    ],
+    anonymous: false,
+  },
+  {
+    type: "event",
+    name: "RaffeAssigned",
+    inputs: [
+      {
+        name: "raceId",
+        type: "uint256",
+        indexed: true,
+        internalType: "uint256",
+      },
+      {
+        name: "tokenId",
+        type: "uint256",
+        indexed: true,
+        internalType: "uint256",
+      },
+      {
+        name: "originalOwner",
+        type: "address",
+        indexed: true,
+        internalType: "address",
+      },
+      {
+        name: "lane",
+        type: "uint8",
+        indexed: false,
+        internalType: "uint8",
+      },
+    ],
+    anonymous: false,
+  },
+  {
+    type: "error",
+    name: "AlreadyBet",
+    inputs: [],
+  },
+  {
+    type: "error",
+    name: "AlreadyCancelled",
+    inputs: [],
+  },
+  {
+    type: "error",
+    name: "AlreadyClaimed",
+    inputs: [],
+  },
+  {
+    type: "error",
+    name: "AlreadyInQueue",
+    inputs: [],
+  },
+  {
+    type: "error",
+    name: "AlreadySettled",
+    inputs: [],
+  },
+  {
+    type: "error",
+    name: "BetTooLarge",
+    inputs: [],
+  },
+  {
+    type: "error",
+    name: "BettingClosed",
+    inputs: [],
+  },
+  {
+    type: "error",
+    name: "BettingNotOpen",
+    inputs: [],
+  },
+  {
+    type: "error",
+    name: "CannotQueueHouseRaffe",
+    inputs: [],
+  },
+  {
+    type: "error",
+    name: "ClaimNotExpired",
+    inputs: [],
+  },
+  {
+    type: "error",
+    name: "CooldownNotElapsed",
+    inputs: [],
+  },
+  {
+    type: "error",
+    name: "HouseEdgeTooHigh",
+    inputs: [],
+  },
+  {
+    type: "error",
+    name: "InsufficientBankroll",
+    inputs: [],
+  },
+  {
+    type: "error",
+    name: "InvalidBetType",
+    inputs: [],
+  },
+  {
+    type: "error",
+    name: "InvalidCombination",
+    inputs: [],
+  },
+  {
+    type: "error",
+    name: "InvalidHouseRaffe",
+    inputs: [],
+  },
+  {
+    type: "error",
+    name: "InvalidLane",
+    inputs: [],
+  },
+  {
+    type: "error",
+    name: "InvalidRace",
+    inputs: [],
+  },
+  {
+    type: "error",
+    name: "NoClaimableBets",
+    inputs: [],
+  },
+  {
+    type: "error",
+    name: "NotInQueue",
+    inputs: [],
+  },
+  {
+    type: "error",
+    name: "NotRaceBot",
+    inputs: [],
+  },
+  {
+    type: "error",
+    name: "NotSettled",
+    inputs: [],
+  },
+  {
+    type: "error",
+    name: "NotTokenOwner",
+    inputs: [],
+  },
+  {
+    type: "error",
+    name: "NotTreasuryOwner",
+    inputs: [],
+  },
+  {
+    type: "error",
+    name: "NotWinner",
+    inputs: [],
+  },
+  {
+    type: "error",
+    name: "OddsAlreadySet",
+    inputs: [],
+  },
+  {
+    type: "error",
+    name: "OddsNotSet",
+    inputs: [],
+  },
+  {
+    type: "error",
+    name: "OddsWindowActive",
+    inputs: [],
+  },
+  {
+    type: "error",
+    name: "OddsWindowExpired",
+    inputs: [],
+  },
+  {
+    type: "error",
+    name: "OddsWindowNotExpired",
+    inputs: [],
+  },
+  {
+    type: "error",
+    name: "ParimutuelWinOnly",
+    inputs: [],
+  },
+  {
+    type: "error",
+    name: "PreviousRaceNotSettled",
+    inputs: [],
+  },
+  {
+    type: "error",
+    name: "QueueFull",
+    inputs: [],
+  },
+  {
+    type: "error",
+    name: "RaceNotCancellable",
+    inputs: [],
+  },
+  {
+    type: "error",
+    name: "RaceNotReady",
+    inputs: [],
+  },
+  {
+    type: "error",
+    name: "RaffeNotAssigned",
+    inputs: [],
+  },
+  {
+    type: "error",
+    name: "TokenAlreadyQueued",
+    inputs: [],
+  },
+  {
+    type: "error",
+    name: "ZeroBet",
+    inputs: [],
+  },
+] as const;
+
+export const raffeRaceDeployments: Record<
+  number,
+  { address: Address; deployedOnBlock?: number } | undefined
+> = {
+  "31337": {
+    address: "0x196dbcbb54b8ec4958c959d8949ebfe87ac2aaaf",
+    deployedOnBlock: 25,
+  },
+};
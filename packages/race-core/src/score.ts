@@ -0,0 +1,29 @@
+/**
+ * Raffe score (1-10) handling shared by the simulator and the odds engine. Both must clamp identically or the
+ * Monte Carlo odds drift from what the contract actually simulates.
+ */
+
+// Match Solidity: 0 means "unset" and is treated as full score; everything else is clamped to [1, 10]
+export function clampScore(r: number): number {
+  if (!Number.isFinite(r)) return 1;
+  const x = Math.floor(r);
+  if (x === 0) return 10;
+  if (x > 10) return 10;
+  if (x < 1) return 1;
+  return x;
+}
+
+// Match Solidity: minBps + (score-1) * (10000-minBps) / 9
+export function scoreBps(score: number): number {
+  const r = clampScore(score);
+  // Tuning: reduce how much score=1 handicaps speed so extreme mismatches aren't ~50x longshots.
+  const minBps = 9585;
+  const range = 10_000 - minBps; // 415
+  return minBps + Math.floor(((r - 1) * range) / 9);
+}
+
+// Match Solidity (OddsLib.calculateEffectiveScore): stats clamp like scores, then the rounded average of the three
+export function effectiveScore(zip: number, moxie: number, hustle: number): number {
+  const sum = clampScore(zip) + clampScore(moxie) + clampScore(hustle);
+  return clampScore(Math.floor((sum + 1) / 3));
+}
@@ -0,0 +1,137 @@
+/**
+ * Precomputed Win / Place / Show probabilities for every 6-lane score combination.
+ *
+ * Only sorted tuples (a<=b<=c<=d<=e<=f, scores 1..10) are stored: C(15, 6) = 5005 rows. A lookup sorts the
+ * lanes, reads the row, maps it back to lane order and averages equal-score lanes like
+ * `OddsLib.adjustProbabilitiesForSymmetry`. Tables are produced by `scripts/generate-score-table.ts`.
+ */
+
+export const SCORE_TABLE_VERSION = 1;
+export const SCORE_TABLE_LANES = 6;
+export const SCORE_TABLE_MIN_SCORE = 1;
+export const SCORE_TABLE_MAX_SCORE = 10;
+export const SCORE_TABLE_ROW_COUNT = 5005;
+
+export type ScoreTable = {
+  version: number;
+  laneCount: number;
+  minScore: number;
+  maxScore: number;
+  samples: number; // Monte Carlo samples per row
+  salt: string; // estimator salt (decimal bigint) used for every row
+  estimator: string;
+  rowCount: number;
+  // rows[sortedTupleIndex(tuple)] = [win x6, place x6, show x6] in bps, by sorted position.
+  // Shorter than rowCount while a generation run is still in progress.
+  rows: number[][];
+};
+
+export type ScoreTableProbabilities = {
+  winProbBps: number[];
+  placeProbBps: number[];
+  showProbBps: number[];
+};
+
+/** All sorted score tuples in table order (nested-loop / lexicographic). */
+export function* sortedScoreTuples(): Generator<number[]> {
+  const lo = SCORE_TABLE_MIN_SCORE;
+  const hi = SCORE_TABLE_MAX_SCORE;
+  for (let a = lo; a <= hi; a++)
+    for (let b = a; b <= hi; b++)
+      for (let c = b; c <= hi; c++)
+        for (let d = c; d <= hi; d++)
+          for (let e = d; e <= hi; e++) for (let f = e; f <= hi; f++) yield [a, b, c, d, e, f];
+}
+
+function choose(n: number, k: number): number {
+  if (k < 0 || n < k) return 0;
+  let r = 1;
+  for (let i = 1; i <= k; i++) r = (r * (n - k + i)) / i;
+  return Math.round(r);
+}
+
+// Number of non-decreasing sequences of `len` values drawn from [from, max].
+const countSequences = (from: number, len: number) => choose(SCORE_TABLE_MAX_SCORE - from + len, len);
+
+/** Row index of a sorted tuple; same formula as the generated Solidity router. */
+export function sortedTupleIndex(sorted: readonly number[]): number {
+  let idx = 0;
+  let prev = SCORE_TABLE_MIN_SCORE;
+  for (let pos = 0; pos < sorted.length; pos++) {
+    const remaining = sorted.length - pos - 1;
+    for (let v = prev; v < sorted[pos]!; v++) idx += countSequences(v, remaining);
+    prev = sorted[pos]!;
+  }
+  return idx;
+}
+
+/**
+ * TS mirror of `OddsLib.adjustProbabilitiesForSymmetry`: lanes with the same score get the rounded average
+ * of their group, so identical raffes always get identical odds.
+ */
+export function adjustProbabilitiesForSymmetry(probsBps: readonly number[], scores: readonly number[]): number[] {
+  return probsBps.map((p, i) => {
+    let sum = p;
+    let count = 1;
+    for (let j = 0; j < scores.length; j++) {
+      if (j !== i && scores[j] === scores[i]) {
+        sum += probsBps[j]!;
+        count++;
+      }
+    }
+    return count > 1 ? Math.floor((sum + Math.floor(count / 2)) / count) : p;
+  });
+}
+
+/** Validate an untrusted JSON value (file or fetch) as a complete table of the current version. */
+export function parseScoreTable(json: unknown): ScoreTable {
+  const t = json as Partial<ScoreTable> | null;
+  if (!t || typeof t !== "object") throw new Error("Score table: not an object");
+  if (t.version !== SCORE_TABLE_VERSION) {
+    throw new Error(`Score table: version ${t.version} is not supported (expected ${SCORE_TABLE_VERSION})`);
+  }
+  if (
+    t.laneCount !== SCORE_TABLE_LANES ||
+    t.minScore !== SCORE_TABLE_MIN_SCORE ||
+    t.maxScore !== SCORE_TABLE_MAX_SCORE
+  ) {
+    throw new Error("Score table: unexpected lane count or score range");
+  }
+  if (!Array.isArray(t.rows) || t.rows.length !== SCORE_TABLE_ROW_COUNT) {
+    throw new Error(`Score table: incomplete (${t.rows?.length ?? 0}/${SCORE_TABLE_ROW_COUNT} rows)`);
+  }
+  if (t.rows.some(r => !Array.isArray(r) || r.length !== SCORE_TABLE_LANES * 3)) {
+    throw new Error("Score table: malformed row");
+  }
+  return t as ScoreTable;
+}
+
+/**
+ * Instant Win / Place / Show probabilities (bps, lane order) for a 6-lane score vector.
+ * Scores must be integers in [1, 10], as returned by `getRaceScoreById`.
+ */
+export function lookupScoreTable(table: ScoreTable, scores: readonly number[]): ScoreTableProbabilities {
+  if (scores.length !== SCORE_TABLE_LANES) throw new Error("Expected 6 lane scores");
+  for (const s of scores) {
+    if (!Number.isInteger(s) || s < SCORE_TABLE_MIN_SCORE || s > SCORE_TABLE_MAX_SCORE) {
+      throw new Error(`Score ${s} is outside [${SCORE_TABLE_MIN_SCORE}, ${SCORE_TABLE_MAX_SCORE}]`);
+    }
+  }
+
+  // Stable sort keeps equal scores in lane order (the averaging below makes the choice irrelevant anyway).
+  const order = scores.map((s, lane) => ({ s, lane })).sort((a, b) => a.s - b.s || a.lane - b.lane);
+  const row = table.rows[sortedTupleIndex(order.map(o => o.s))];
+  if (!row) throw new Error("Score table: missing row");
+
+  const byLane = (offset: number) => {
+    const out = Array.from({ length: SCORE_TABLE_LANES }, () => 0);
+    order.forEach((o, pos) => (out[o.lane] = row[offset + pos]!));
+    return adjustProbabilitiesForSymmetry(out, scores);
+  };
+
+  return {
+    winProbBps: byLane(0),
+    placeProbBps: byLane(SCORE_TABLE_LANES),
+    showProbBps: byLane(SCORE_TABLE_LANES * 2),
+  };
+}
@@ -1,3 +1,6 @@
+import { FINISH_OVERSHOOT, LANE_COUNT, MAX_TICKS, SPEED_RANGE, TRACK_LENGTH } from "./constants";
+import { FinishMargin, computeFinishMargins } from "./margins";
+import { scoreBps } from "./score";
 import { Hex, encodePacked, keccak256 } from "viem";
 
 /// Position info for finish order (1st, 2nd, or 3rd place)
@@ -19,32 +22,30 @@ export type RaceSimulation = {
   distances: number[];
   frames: number[][];
   ticks: number;
+  // Precise finish line crossing per lane: tick * FINISH_TIME_PRECISION + fraction (same units as Solidity)
+  finishTimes: number[];
+  // First frame (index into frames) at or past the finish line per lane
+  finishFrames: number[];
   // New: complete finish order for Win/Place/Show
   finishOrder: FinishOrder;
 };
 
-const FINISH_OVERSHOOT = 10; // Match Solidity: run until last place is 10 units past finish
-const FINISH_TIME_PRECISION = 10000; // Precision for fractional tick calculation
-
-const clampScore = (r: number) => {
-  // Clamp to [1, 10]
-  if (!Number.isFinite(r)) return 1;
-  const x = Math.floor(r);
-  if (x === 0) return 10;
-  if (x > 10) return 10;
-  if (x < 1) return 1;
-  return x;
+export type RaceSimulationWithMargins = RaceSimulation & {
+  // Gap between each pair of consecutive positions, every lane included (see margins.ts)
+  margins: FinishMargin[];
 };
 
-// Match Solidity: minBps + (score-1) * (10000-minBps) / 9
-const scoreBps = (score: number) => {
-  const r = clampScore(score);
-  // Tuning: reduce how much score=1 handicaps speed so extreme mismatches aren't ~50x longshots.
-  const minBps = 9585;
-  const range = 10_000 - minBps; // 415
-  return minBps + Math.floor(((r - 1) * range) / 9);
+export type SimulateRaceParams = {
+  seed: Hex;
+  laneCount?: number;
+  maxTicks?: number;
+  speedRange?: number;
+  trackLength?: number;
+  score?: number[]; // length should match laneCount; defaults to all 10 (full score)
 };
 
+export const FINISH_TIME_PRECISION = 10000; // Precision for fractional tick calculation
+
 /**
  * OPTIMIZED: Uses direct modulo (matches new Solidity RaffeRaceSimulator).
  * One keccak256 per tick, direct byte extraction + modulo.
@@ -63,19 +64,12 @@ const scoreBps = (score: number) => {
  */
 export function simulateRaceFromSeed({
   seed,
-  laneCount = 6,
-  maxTicks = 500,
-  speedRange = 10,
-  trackLength = 1000,
+  laneCount = LANE_COUNT,
+  maxTicks = MAX_TICKS,
+  speedRange = SPEED_RANGE,
+  trackLength = TRACK_LENGTH,
   score,
-}: {
-  seed: Hex;
-  laneCount?: number;
-  maxTicks?: number;
-  speedRange?: number;
-  trackLength?: number;
-  score?: number[]; // length should match laneCount; defaults to all 10 (full score)
-}): RaceSimulation {
+}: SimulateRaceParams): RaceSimulation {
   const distances = Array.from({ length: laneCount }, () => 0);
   const frames: number[][] = [distances.slice()];
   const bps = Array.from({ length: laneCount }, (_, i) => scoreBps(score?.[i] ?? 10));
@@ -85,6 +79,7 @@ export function simulateRaceFromSeed({
   // fractionalPart = (distanceToFinish * PRECISION) / speedThisTick
   // Lower value = crossed finish line earlier within the tick
   const finishTime: number[] = Array.from({ length: laneCount }, () => -1);
+  const finishFrames: number[] = Array.from({ length: laneCount }, () => -1);
 
   const finishTarget = trackLength + FINISH_OVERSHOOT;
   let allFinished = false;
@@ -127,6 +122,7 @@ export function simulateRaceFromSeed({
         const distanceToFinish = trackLength - prevDist;
         const fractional = Math.floor((distanceToFinish * FINISH_TIME_PRECISION) / speed);
         finishTime[a] = t * FINISH_TIME_PRECISION + fractional;
+        finishFrames[a] = t + 1; // frames[t + 1] is pushed after this tick
       }
     }
     frames.push(distances.slice());
@@ -149,7 +145,29 @@ export function simulateRaceFromSeed({
   const winner = firstPlaceLanes[0]!;
   const deadHeatCount = firstPlaceLanes.length;
 
-  return { winner, winners: firstPlaceLanes, deadHeatCount, distances, frames, ticks, finishOrder };
+  return {
+    winner,
+    winners: firstPlaceLanes,
+    deadHeatCount,
+    distances,
+    frames,
+    ticks,
+    finishTimes: finishTime,
+    finishFrames,
+    finishOrder,
+  };
+}
+
+/**
+ * `simulateRaceFromSeed` plus the finish margins, for callers that show or narrate the finish (replays,
+ * commentary). Kept separate so Monte Carlo sampling doesn't pay for margins it would throw away.
+ */
+export function simulateRaceWithMargins(params: SimulateRaceParams): RaceSimulationWithMargins {
+  const sim = simulateRaceFromSeed(params);
+  return {
+    ...sim,
+    margins: computeFinishMargins(sim.finishTimes, sim.frames, FINISH_TIME_PRECISION, params.trackLength),
+  };
 }
 
 /**
@@ -0,0 +1,98 @@
+import { FinishOrder, simulateRaceFromSeed } from "./simulateRace";
+import { Address, Hex, encodePacked, keccak256 } from "viem";
+
+/**
+ * Settlement seeds, exactly as SettlementLib.settleRace derives them:
+ *   baseSeed = keccak256(abi.encodePacked(blockhash(bettingCloseBlock), raceId, address(raffeRace)))
+ *   simSeed  = keccak256(abi.encodePacked(baseSeed, "RACE_SIM"))
+ * simSeed drives the simulation and is what the contract stores as the race's seed.
+ */
+export function deriveRaceSeed(blockHash: Hex, raceId: bigint, raceAddress: Address): { baseSeed: Hex; simSeed: Hex } {
+  const baseSeed = keccak256(encodePacked(["bytes32", "uint256", "address"], [blockHash, raceId, raceAddress]));
+  const simSeed = keccak256(encodePacked(["bytes32", "string"], [baseSeed, "RACE_SIM"]));
+  return { baseSeed, simSeed };
+}
+
+/** What the contract recorded when it settled the race (getRaceById seed, getRaceFinishOrderById). */
+export type StoredSettlement = {
+  seed: Hex;
+  finishOrder: FinishOrder; // lanes trimmed to each position's count
+  finalDistances: number[];
+};
+
+export type SettlementVerificationInput = {
+  raceId: bigint;
+  raceAddress: Address;
+  bettingCloseBlock: bigint;
+  blockHash: Hex; // hash of bettingCloseBlock
+  score: number[]; // getRaceScoreById, as stored at race creation
+  stored: StoredSettlement;
+};
+
+export type SettlementCheck = {
+  label: string;
+  pass: boolean;
+  expected: string; // recomputed off-chain
+  actual: string; // stored on-chain
+};
+
+export type SettlementVerification = SettlementVerificationInput & {
+  baseSeed: Hex;
+  simSeed: Hex;
+  simulated: {
+    finishOrder: FinishOrder;
+    finalDistances: number[];
+    finishTimes: number[];
+    ticks: number;
+  };
+  checks: SettlementCheck[];
+  pass: boolean;
+};
+
+const lanesLabel = (lanes: readonly number[]) => (lanes.length ? `[${lanes.join(", ")}]` : "[]");
+const sameValues = (a: readonly number[], b: readonly number[]) =>
+  a.length === b.length && a.every((x, i) => x === b[i]);
+
+/**
+ * Re-run a settled race from its inputs and compare every derived value with what the contract stored.
+ * Pure: callers fetch the block hash, scores and stored settlement (see the nextjs verify page and CLI).
+ */
+export function verifySettlement(input: SettlementVerificationInput): SettlementVerification {
+  const { baseSeed, simSeed } = deriveRaceSeed(input.blockHash, input.raceId, input.raceAddress);
+  const sim = simulateRaceFromSeed({ seed: simSeed, score: input.score });
+  const { stored } = input;
+
+  const laneCheck = (label: string, expected: readonly number[], actual: readonly number[]): SettlementCheck => ({
+    label,
+    pass: sameValues(expected, actual),
+    expected: lanesLabel(expected),
+    actual: lanesLabel(actual),
+  });
+
+  const checks: SettlementCheck[] = [
+    {
+      label: "Seed",
+      pass: simSeed.toLowerCase() === stored.seed.toLowerCase(),
+      expected: simSeed,
+      actual: stored.seed,
+    },
+    laneCheck("Winners (1st)", sim.finishOrder.first.lanes, stored.finishOrder.first.lanes),
+    laneCheck("2nd place", sim.finishOrder.second.lanes, stored.finishOrder.second.lanes),
+    laneCheck("3rd place", sim.finishOrder.third.lanes, stored.finishOrder.third.lanes),
+    laneCheck("Final distances", sim.distances, stored.finalDistances),
+  ];
+
+  return {
+    ...input,
+    baseSeed,
+    simSeed,
+    simulated: {
+      finishOrder: sim.finishOrder,
+      finalDistances: sim.distances,
+      finishTimes: sim.finishTimes,
+      ticks: sim.ticks,
+    },
+    checks,
+    pass: checks.every(check => check.pass),
+  };
+}
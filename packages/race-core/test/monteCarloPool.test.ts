@@ -0,0 +1,144 @@
+import {
+  McWorker,
+  McWorkerRequest,
+  McWorkerResponse,
+  createMcWorker,
+  createMonteCarloPool,
+  handleMcWorkerRequest,
+} from "../src/monteCarloPool";
+import { createNodeMcWorker, spawnNodeMcWorker } from "../src/nodeMonteCarloPool";
+import { estimateOddsMonteCarlo, estimateWinPlaceShowMonteCarlo6, estimateWinProbMonteCarlo6 } from "../src/odds";
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { Worker } from "node:worker_threads";
+
+const SCORE = [10, 9, 7, 7, 4, 1] as const;
+
+/** In-process stand-in for a worker: answers each job on a later tick, and can be made to crash. */
+function fakeWorker(opts: { crashOnJob?: number } = {}) {
+  let onMessage: (msg: McWorkerResponse) => void = () => {};
+  let onError: (err: unknown) => void = () => {};
+  let jobs = 0;
+  const worker = createMcWorker({
+    postMessage: (req: McWorkerRequest) => {
+      const job = ++jobs;
+      setImmediate(() => {
+        if (job === opts.crashOnJob) onError(new Error("worker crashed"));
+        else onMessage(handleMcWorkerRequest(req));
+      });
+    },
+    onMessage: cb => (onMessage = cb),
+    onError: cb => (onError = cb),
+    terminate: () => {},
+  });
+  return worker;
+}
+
+describe("createMonteCarloPool", () => {
+  it("matches the single-threaded estimators whatever the pool and shard size", async () => {
+    const samples = 301;
+    const expectedWin = await estimateWinProbMonteCarlo6({ score: SCORE, samples });
+    const expectedWps = await estimateWinPlaceShowMonteCarlo6({ score: SCORE, samples });
+
+    for (const [size, shardSize] of [
+      [1, 1_000],
+      [3, 37],
+      [4, 64],
+    ]) {
+      const pool = createMonteCarloPool({ createWorker: () => fakeWorker(), size, shardSize });
+      assert.deepEqual(await pool.estimateWinProb({ score: SCORE, samples }), expectedWin, `size ${size}`);
+      assert.deepEqual(await pool.estimateWinPlaceShow({ score: SCORE, samples }), expectedWps, `size ${size}`);
+    }
+  });
+
+  it("prices odds bit-identically to estimateOddsMonteCarlo", async () => {
+    const params = {
+      raceId: 7n,
+      tokenIds: [1n, 2n, 3n, 4n, 5n, 6n] as const,
+      score: SCORE,
+      samples: 200,
+    };
+    const pool = createMonteCarloPool({ createWorker: () => fakeWorker(), size: 2, shardSize: 48 });
+    assert.deepEqual(await pool.estimateOdds(params), await estimateOddsMonteCarlo(params));
+  });
+
+  it("reports progress up to the sample count", async () => {
+    const seen: number[] = [];
+    const pool = createMonteCarloPool({ createWorker: () => fakeWorker(), size: 2, shardSize: 40 });
+    await pool.estimateWinProb({ score: SCORE, samples: 180, onProgress: p => seen.push(p.done) });
+    assert.equal(seen.length, 5);
+    assert.equal(seen.at(-1), 180);
+  });
+
+  it("aborts one run without disturbing another on the same pool", async () => {
+    const pool = createMonteCarloPool({ createWorker: () => fakeWorker(), size: 2, shardSize: 50 });
+    const controller = new AbortController();
+    const aborted = pool.estimateWinProb({ score: SCORE, samples: 5_000, signal: controller.signal });
+    const other = pool.estimateWinProb({ score: SCORE, samples: 150 });
+    controller.abort();
+
+    await assert.rejects(aborted, { name: "AbortError" });
+    assert.deepEqual(await other, await estimateWinProbMonteCarlo6({ score: SCORE, samples: 150 }));
+  });
+
+  it("fails the run when a worker crashes, then respawns that slot", async () => {
+    const spawned: McWorker[] = [];
+    const pool = createMonteCarloPool({
+      // The first worker dies on its third shard; replacements are healthy
+      createWorker: () => {
+        const worker = fakeWorker({ crashOnJob: spawned.length === 0 ? 3 : undefined });
+        spawned.push(worker);
+        return worker;
+      },
+      size: 1,
+      shardSize: 40,
+    });
+
+    await assert.rejects(pool.estimateWinProb({ score: SCORE, samples: 200 }), /worker crashed/);
+    assert.equal(spawned[0]!.dead, true);
+
+    const result = await pool.estimateWinProb({ score: SCORE, samples: 200 });
+    assert.deepEqual(result, await estimateWinProbMonteCarlo6({ score: SCORE, samples: 200 }));
+    assert.equal(spawned.length, 2);
+  });
+
+  it("rejects jobs sent to a dead worker instead of hanging", async () => {
+    const worker = fakeWorker({ crashOnJob: 1 });
+    const job = { state0: 1n, score: [...SCORE], start: 0, count: 10 };
+    await assert.rejects(worker.run(job), /worker crashed/);
+    await assert.rejects(worker.run(job), /worker crashed/);
+  });
+
+  it("recovers from a worker_threads worker killed partway through a run", async () => {
+    const threads: Worker[] = [];
+    const pool = createMonteCarloPool({
+      createWorker: () => {
+        const thread = spawnNodeMcWorker();
+        threads.push(thread);
+        return createNodeMcWorker(thread);
+      },
+      size: 1,
+      shardSize: 100,
+    });
+
+    try {
+      let killed = false;
+      const run = pool.estimateWinProb({
+        score: SCORE,
+        samples: 1_000,
+        onProgress: () => {
+          if (killed) return;
+          killed = true;
+          void threads[0]!.terminate();
+        },
+      });
+      await assert.rejects(run, /exited with code/);
+
+      const result = await pool.estimateWinProb({ score: SCORE, samples: 300 });
+      assert.deepEqual(result, await estimateWinProbMonteCarlo6({ score: SCORE, samples: 300 }));
+      assert.equal(threads.length, 2);
+    } finally {
+      pool.destroy();
+    }
+  });
+});
@@ -0,0 +1,97 @@
+import {
+  SCORE_TABLE_LANES,
+  SCORE_TABLE_MAX_SCORE,
+  SCORE_TABLE_MIN_SCORE,
+  SCORE_TABLE_ROW_COUNT,
+  SCORE_TABLE_VERSION,
+  ScoreTable,
+  adjustProbabilitiesForSymmetry,
+  lookupScoreTable,
+  parseScoreTable,
+  sortedScoreTuples,
+  sortedTupleIndex,
+} from "../src/scoreTable";
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+/** A complete table of zero rows, with `rows[index]` replaced where given. */
+function tableWith(rowsByIndex: Record<number, number[]> = {}): ScoreTable {
+  return {
+    version: SCORE_TABLE_VERSION,
+    laneCount: SCORE_TABLE_LANES,
+    minScore: SCORE_TABLE_MIN_SCORE,
+    maxScore: SCORE_TABLE_MAX_SCORE,
+    samples: 1_000,
+    salt: "0",
+    estimator: "test",
+    rowCount: SCORE_TABLE_ROW_COUNT,
+    rows: Array.from(
+      { length: SCORE_TABLE_ROW_COUNT },
+      (_, i) => rowsByIndex[i] ?? Array.from({ length: SCORE_TABLE_LANES * 3 }, () => 0),
+    ),
+  };
+}
+
+describe("sortedTupleIndex", () => {
+  it("numbers the sorted tuples in generation order, one row each", () => {
+    let count = 0;
+    for (const tuple of sortedScoreTuples()) {
+      assert.equal(sortedTupleIndex(tuple), count, tuple.join(","));
+      count++;
+    }
+    assert.equal(count, SCORE_TABLE_ROW_COUNT);
+  });
+});
+
+describe("adjustProbabilitiesForSymmetry", () => {
+  it("gives lanes with equal scores the rounded average of their group", () => {
+    assert.deepEqual(adjustProbabilitiesForSymmetry([100, 201, 50, 7], [4, 4, 1, 9]), [151, 151, 50, 7]);
+    assert.deepEqual(adjustProbabilitiesForSymmetry([10, 20, 31], [2, 2, 2]), [20, 20, 20]);
+  });
+});
+
+describe("lookupScoreTable", () => {
+  it("reads the row for the sorted scores and hands each position back to its lane", () => {
+    const scores = [3, 9, 1, 7, 5, 10];
+    const row = [10, 20, 30, 40, 50, 60, 110, 120, 130, 140, 150, 160, 210, 220, 230, 240, 250, 260];
+    const table = tableWith({ [sortedTupleIndex([1, 3, 5, 7, 9, 10])]: row });
+
+    // Sorted positions: lane 2, lane 0, lane 4, lane 3, lane 1, lane 5
+    assert.deepEqual(lookupScoreTable(table, scores), {
+      winProbBps: [20, 50, 10, 40, 30, 60],
+      placeProbBps: [120, 150, 110, 140, 130, 160],
+      showProbBps: [220, 250, 210, 240, 230, 260],
+    });
+  });
+
+  it("gives equal scores equal probabilities whatever their lane order", () => {
+    const row = [1_000, 2_001, 3_000, 1_333, 1_333, 1_333, ...Array.from({ length: 12 }, () => 0)];
+    const table = tableWith({ [sortedTupleIndex([2, 6, 6, 8, 8, 8])]: row });
+    const { winProbBps } = lookupScoreTable(table, [8, 6, 2, 8, 6, 8]);
+    assert.deepEqual(winProbBps, [1_333, 2_501, 1_000, 1_333, 2_501, 1_333]);
+  });
+
+  it("rejects scores the table doesn't cover", () => {
+    const table = tableWith();
+    assert.throws(() => lookupScoreTable(table, [1, 2, 3, 4, 5]), /Expected 6 lane scores/);
+    assert.throws(() => lookupScoreTable(table, [0, 2, 3, 4, 5, 6]), /outside \[1, 10\]/);
+    assert.throws(() => lookupScoreTable(table, [1, 2, 3, 4, 5, 5.5]), /outside/);
+  });
+});
+
+describe("parseScoreTable", () => {
+  it("accepts a complete table of the current version", () => {
+    const table = tableWith();
+    assert.equal(parseScoreTable(JSON.parse(JSON.stringify(table))).rows.length, SCORE_TABLE_ROW_COUNT);
+  });
+
+  it("rejects other versions, partial tables and malformed rows", () => {
+    assert.throws(() => parseScoreTable(null), /not an object/);
+    assert.throws(() => parseScoreTable({ ...tableWith(), version: SCORE_TABLE_VERSION + 1 }), /not supported/);
+    assert.throws(() => parseScoreTable({ ...tableWith(), maxScore: 12 }), /score range/);
+    const partial = tableWith();
+    assert.throws(() => parseScoreTable({ ...partial, rows: partial.rows.slice(0, 100) }), /incomplete \(100\/5005/);
+    const malformed = tableWith({ 7: [1, 2, 3] });
+    assert.throws(() => parseScoreTable(malformed), /malformed row/);
+  });
+});